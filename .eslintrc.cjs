@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on vitest, so the jest rules can't detect a version
+    jest: { version: 28 },
+  },
 };
@@ -7,9 +7,18 @@ import {
 } from "@remix-run/node";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startScheduler } from "./lib/scheduler.server";
+import { startPricingJobWorker } from "./lib/pricing-jobs.server";
+import { startWebhookWorker } from "./lib/webhooks.server";
+import { startOrderSyncWorker } from "./lib/order-sync.server";
 
 export const streamTimeout = 5000;
 
+startScheduler();
+startPricingJobWorker();
+startWebhookWorker();
+startOrderSyncWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,29 @@
+export const ADD_PRICE_LIST_FIXED_PRICES = `
+  mutation priceListFixedPricesAdd($priceListId: ID!, $prices: [PriceListPriceInput!]!) {
+    priceListFixedPricesAdd(priceListId: $priceListId, prices: $prices) {
+      prices {
+        variant {
+          id
+        }
+      }
+      userErrors {
+        field
+        code
+        message
+      }
+    }
+  }
+`;
+
+export const DELETE_PRICE_LIST_FIXED_PRICES = `
+  mutation priceListFixedPricesDelete($priceListId: ID!, $variantIds: [ID!]!) {
+    priceListFixedPricesDelete(priceListId: $priceListId, variantIds: $variantIds) {
+      deletedFixedPriceVariantIds
+      userErrors {
+        field
+        code
+        message
+      }
+    }
+  }
+`;
@@ -0,0 +1,64 @@
+export const GET_ORDER_LINES = `
+  query getOrderLines($first: Int!, $after: String, $query: String, $lineItems: Int!) {
+    orders(first: $first, after: $after, query: $query, sortKey: PROCESSED_AT) {
+      edges {
+        node {
+          id
+          processedAt
+          cancelledAt
+          lineItems(first: $lineItems) {
+            edges {
+              node {
+                id
+                quantity
+                variant {
+                  id
+                }
+                discountedTotalSet {
+                  shopMoney {
+                    amount
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+export const GET_ORDER_LINE_ITEMS = `
+  query getOrderLineItems($id: ID!, $first: Int!, $after: String) {
+    order(id: $id) {
+      lineItems(first: $first, after: $after) {
+        edges {
+          node {
+            id
+            quantity
+            variant {
+              id
+            }
+            discountedTotalSet {
+              shopMoney {
+                amount
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
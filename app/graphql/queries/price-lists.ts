@@ -0,0 +1,67 @@
+export const GET_PRICE_LISTS = `
+  query getPriceLists($first: Int!) {
+    priceLists(first: $first) {
+      nodes {
+        id
+        name
+        currency
+        catalog {
+          id
+          title
+          ... on MarketCatalog {
+            markets(first: 5) {
+              nodes {
+                id
+                name
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRICE_LIST = `
+  query getPriceList($id: ID!) {
+    priceList(id: $id) {
+      id
+      name
+      currency
+      catalog {
+        id
+        title
+        ... on MarketCatalog {
+          markets(first: 5) {
+            nodes {
+              id
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRICE_LIST_PRICES = `
+  query getPriceListPrices($id: ID!, $query: String!, $first: Int!) {
+    priceList(id: $id) {
+      prices(first: $first, query: $query) {
+        nodes {
+          variant {
+            id
+          }
+          price {
+            amount
+            currencyCode
+          }
+          compareAtPrice {
+            amount
+          }
+          originType
+        }
+      }
+    }
+  }
+`;
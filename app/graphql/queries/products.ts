@@ -1,6 +1,6 @@
 export const GET_PRODUCTS = `
-  query getProducts($first: Int, $last: Int, $after: String, $before: String) {
-    products(first: $first, last: $last, after: $after, before: $before) {
+  query getProducts($first: Int, $last: Int, $after: String, $before: String, $query: String) {
+    products(first: $first, last: $last, after: $after, before: $before, query: $query) {
       edges {
         node {
           id
@@ -9,6 +9,13 @@ export const GET_PRODUCTS = `
           status
           vendor
           productType
+          variantsCount {
+            count
+          }
+          options(first: 3) {
+            name
+            values
+          }
           images(first: 1) {
             edges {
               node {
@@ -25,6 +32,10 @@ export const GET_PRODUCTS = `
                 price
                 compareAtPrice
                 inventoryQuantity
+                selectedOptions {
+                  name
+                  value
+                }
               }
             }
           }
@@ -40,6 +51,14 @@ export const GET_PRODUCTS = `
   }
 `;
 
+export const GET_PRODUCTS_COUNT = `
+  query getProductsCount($query: String) {
+    productsCount(query: $query, limit: null) {
+      count
+    }
+  }
+`;
+
 export const GET_PRODUCT_BY_ID = `
   query getProduct($id: ID!) {
     product(id: $id) {
@@ -67,9 +86,148 @@ export const GET_PRODUCT_BY_ID = `
             compareAtPrice
             inventoryQuantity
             sku
+            selectedOptions {
+              name
+              value
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+export const GET_VARIANT_PRICES = `
+  query getVariantPrices($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        price
+        compareAtPrice
+        inventoryItem {
+          unitCost {
+            amount
           }
         }
+        product {
+          id
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRODUCT_FILTER_OPTIONS = `
+  query getProductFilterOptions {
+    productVendors(first: 250) {
+      edges {
+        node
+      }
+    }
+    productTypes(first: 250) {
+      edges {
+        node
+      }
+    }
+    productTags(first: 250) {
+      edges {
+        node
+      }
+    }
+    collections(first: 250, sortKey: TITLE) {
+      edges {
+        node {
+          id
+          title
+        }
       }
     }
   }
-`;
\ No newline at end of file
+`;
+
+export const GET_PRODUCT_IDS = `
+  query getProductIds($query: String, $first: Int!, $after: String) {
+    products(first: $first, after: $after, query: $query) {
+      edges {
+        node {
+          id
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+export const GET_PRICING_PRODUCTS = `
+  query getPricingProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+        handle
+        vendor
+        productType
+        tags
+        variants(first: 25) {
+          edges {
+            node {
+              id
+              title
+              sku
+              price
+              compareAtPrice
+              inventoryQuantity
+              inventoryItem {
+                unitCost {
+                  amount
+                }
+              }
+              selectedOptions {
+                name
+                value
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_PRODUCT_VARIANTS = `
+  query getProductVariants($id: ID!, $after: String) {
+    product(id: $id) {
+      variants(first: 100, after: $after) {
+        edges {
+          node {
+            id
+            title
+            sku
+            price
+            compareAtPrice
+            inventoryQuantity
+            inventoryItem {
+              unitCost {
+                amount
+              }
+            }
+            selectedOptions {
+              name
+              value
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
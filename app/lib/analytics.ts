@@ -0,0 +1,241 @@
+// app/lib/analytics.ts - Price change analytics worked out from pricing history rows
+
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const MAX_ANALYTICS_DAYS = 366;
+export const TOP_PRODUCTS_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days in UTC, inclusive at both ends, as YYYY-MM-DD strings
+ */
+export interface AnalyticsRange {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * The history columns analytics needs, one row per variant price change
+ */
+export interface AnalyticsHistoryRow {
+  productId: string;
+  productTitle: string;
+  vendor: string | null;
+  batchId: string | null;
+  oldPrice: number;
+  newPrice: number;
+  createdAt: Date | string;
+}
+
+export interface DailyPriceChanges {
+  date: string;
+  changes: number;
+  increased: number;
+  decreased: number;
+}
+
+export interface RepricedProduct {
+  productId: string;
+  productTitle: string;
+  // Separate operations (batches) that touched the product
+  timesRepriced: number;
+  variantChanges: number;
+  lastChangedAt: string;
+}
+
+export interface VendorPriceChanges {
+  // null for history recorded before vendors were stored
+  vendor: string | null;
+  changes: number;
+  products: number;
+  increased: number;
+  decreased: number;
+  averageChangePercent: number | null;
+}
+
+export interface PriceChangeAnalytics {
+  range: AnalyticsRange;
+  totals: {
+    changes: number;
+    products: number;
+    batches: number;
+    increased: number;
+    decreased: number;
+    // Compare-at only changes, or prices set to what they already were
+    unchanged: number;
+    averageChangePercent: number | null;
+    averageIncreasePercent: number | null;
+    averageDecreasePercent: number | null;
+  };
+  daily: DailyPriceChanges[];
+  topProducts: RepricedProduct[];
+  vendors: VendorPriceChanges[];
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function parseDateString(value: string | null): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read `startDate` and `endDate` from the URL, defaulting to the last 30
+ * days. Swapped dates are put back in order and long ranges are shortened
+ * from the start.
+ */
+export function parseAnalyticsRange(searchParams: URLSearchParams, now: Date = new Date()): AnalyticsRange {
+  let end = parseDateString(searchParams.get("endDate")) || parseDateString(toDateString(now)) as Date;
+  let start = parseDateString(searchParams.get("startDate"))
+    || new Date(end.getTime() - (DEFAULT_ANALYTICS_DAYS - 1) * DAY_MS);
+
+  if (start > end) {
+    [start, end] = [end, start];
+  }
+  if ((end.getTime() - start.getTime()) / DAY_MS >= MAX_ANALYTICS_DAYS) {
+    start = new Date(end.getTime() - (MAX_ANALYTICS_DAYS - 1) * DAY_MS);
+  }
+
+  return { startDate: toDateString(start), endDate: toDateString(end) };
+}
+
+/**
+ * createdAt bounds for a range: from the start of the first day up to, but
+ * not including, the day after the last
+ */
+export function getAnalyticsRangeBounds(range: AnalyticsRange): { gte: Date; lt: Date } {
+  const start = parseDateString(range.startDate) as Date;
+  const end = parseDateString(range.endDate) as Date;
+  return { gte: start, lt: new Date(end.getTime() + DAY_MS) };
+}
+
+/**
+ * Signed change as a percentage of the old price, or null for a free item
+ */
+export function calculateChangePercent(oldPrice: number, newPrice: number): number | null {
+  if (oldPrice <= 0) return null;
+  return ((newPrice - oldPrice) / oldPrice) * 100;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+export function summarizePriceChanges(rows: AnalyticsHistoryRow[], range: AnalyticsRange): PriceChangeAnalytics {
+  const { gte, lt } = getAnalyticsRangeBounds(range);
+
+  // Every day of the range, so quiet days show as zero rather than a gap
+  const daily = new Map<string, DailyPriceChanges>();
+  for (let time = gte.getTime(); time < lt.getTime(); time += DAY_MS) {
+    const date = toDateString(new Date(time));
+    daily.set(date, { date, changes: 0, increased: 0, decreased: 0 });
+  }
+
+  const percents: number[] = [];
+  const increases: number[] = [];
+  const decreases: number[] = [];
+  const batches = new Set<string>();
+  let increased = 0;
+  let decreased = 0;
+
+  const products = new Map<string, RepricedProduct>();
+  const productBatches = new Map<string, Set<string>>();
+  const vendors = new Map<string | null, { changes: number; products: Set<string>; increased: number; decreased: number; percents: number[] }>();
+
+  for (const row of rows) {
+    const createdAt = new Date(row.createdAt);
+    const direction = Math.sign(Math.round((row.newPrice - row.oldPrice) * 100));
+    const percent = calculateChangePercent(row.oldPrice, row.newPrice);
+    // Rows written before batches existed count as an operation of their own
+    const batchKey = row.batchId ?? `row:${row.productId}:${createdAt.getTime()}`;
+
+    batches.add(batchKey);
+    if (direction > 0) increased++;
+    if (direction < 0) decreased++;
+    if (percent !== null) {
+      percents.push(percent);
+      if (direction > 0) increases.push(percent);
+      if (direction < 0) decreases.push(percent);
+    }
+
+    const day = daily.get(toDateString(createdAt));
+    if (day) {
+      day.changes++;
+      if (direction > 0) day.increased++;
+      if (direction < 0) day.decreased++;
+    }
+
+    const product = products.get(row.productId) || {
+      productId: row.productId,
+      productTitle: row.productTitle,
+      timesRepriced: 0,
+      variantChanges: 0,
+      lastChangedAt: createdAt.toISOString(),
+    };
+    const productBatchKeys = productBatches.get(row.productId) || new Set<string>();
+    productBatchKeys.add(batchKey);
+    productBatches.set(row.productId, productBatchKeys);
+    product.timesRepriced = productBatchKeys.size;
+    product.variantChanges++;
+    if (createdAt.toISOString() > product.lastChangedAt) {
+      product.lastChangedAt = createdAt.toISOString();
+      // Keep the most recent title in case the product was renamed
+      product.productTitle = row.productTitle;
+    }
+    products.set(row.productId, product);
+
+    const vendor = vendors.get(row.vendor) || { changes: 0, products: new Set<string>(), increased: 0, decreased: 0, percents: [] };
+    vendor.changes++;
+    vendor.products.add(row.productId);
+    if (direction > 0) vendor.increased++;
+    if (direction < 0) vendor.decreased++;
+    if (percent !== null) vendor.percents.push(percent);
+    vendors.set(row.vendor, vendor);
+  }
+
+  const topProducts = Array.from(products.values())
+    .sort((a, b) => b.timesRepriced - a.timesRepriced
+      || b.variantChanges - a.variantChanges
+      || b.lastChangedAt.localeCompare(a.lastChangedAt))
+    .slice(0, TOP_PRODUCTS_LIMIT);
+
+  return {
+    range,
+    totals: {
+      changes: rows.length,
+      products: products.size,
+      batches: batches.size,
+      increased,
+      decreased,
+      unchanged: rows.length - increased - decreased,
+      averageChangePercent: average(percents),
+      averageIncreasePercent: average(increases),
+      averageDecreasePercent: average(decreases),
+    },
+    daily: Array.from(daily.values()),
+    topProducts,
+    vendors: Array.from(vendors.entries())
+      .map(([vendor, stats]) => ({
+        vendor,
+        changes: stats.changes,
+        products: stats.products.size,
+        increased: stats.increased,
+        decreased: stats.decreased,
+        averageChangePercent: average(stats.percents),
+      }))
+      .sort((a, b) => b.changes - a.changes),
+  };
+}
+
+/**
+ * e.g. "+12.5%", "−4.0%", or "—" when nothing could be averaged
+ */
+export function formatChangePercent(percent: number | null): string {
+  if (percent === null) return "—";
+  if (percent === 0) return "0.0%";
+  return `${percent > 0 ? "+" : "−"}${Math.abs(percent).toFixed(1)}%`;
+}
@@ -0,0 +1,71 @@
+// app/lib/api.server.ts - Authentication and responses for the public API
+import { json } from "@remix-run/node";
+import { unauthenticated } from "../shopify.server";
+import { findActiveApiKey } from "../models/api-key.server";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { canUseFeature } from "./plans";
+
+export interface ApiContext {
+  shop: string;
+  admin: any;
+  // Recorded as the user on history rows the request writes
+  actor: string;
+}
+
+export function apiError(status: number, message: string, details: Record<string, any> = {}) {
+  return json({ error: message, ...details }, { status });
+}
+
+/**
+ * Resolve the shop from the request's `Authorization: Bearer <key>` header.
+ * Throws a JSON error response when the key is missing, unknown or revoked,
+ * or when the shop's plan doesn't include API access.
+ */
+export async function authenticateApiRequest(request: Request): Promise<ApiContext> {
+  const header = request.headers.get("Authorization") || "";
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    throw apiError(401, "Missing API key. Send it as 'Authorization: Bearer <key>'.");
+  }
+
+  const apiKey = await findActiveApiKey(match[1]);
+  if (!apiKey) {
+    throw apiError(401, "Invalid or revoked API key");
+  }
+  const { shop } = apiKey;
+
+  const subscription = await getOrCreateSubscription(shop);
+  if (!canUseFeature(subscription, 'api_access')) {
+    throw apiError(403, "API access is a Pro feature. Upgrade your plan to use the API.");
+  }
+
+  let admin: any;
+  try {
+    ({ admin } = await unauthenticated.admin(shop));
+  } catch (error: any) {
+    // No offline session once the app has been uninstalled
+    console.error(`❌ No API session for ${shop}:`, error.message);
+    throw apiError(401, "The app is no longer installed on this shop");
+  }
+
+  return { shop, admin, actor: `API: ${apiKey.name}` };
+}
+
+/**
+ * Filters sent in a JSON body use the same names as the pricing page's URL
+ * params, e.g. { "vendor": ["Acme"], "q": "shirt" }
+ */
+export function toSearchParams(values: Record<string, any> | null | undefined): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(values || {}).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value])
+      .filter((item) => item !== null && item !== undefined)
+      .forEach((item) => params.append(key, String(item)));
+  });
+  return params;
+}
+
+export function parseApiLimit(value: string | null, fallback: number, max: number): number {
+  const limit = parseInt(value || "", 10);
+  return isNaN(limit) || limit < 1 ? fallback : Math.min(limit, max);
+}
@@ -1,5 +1,5 @@
 import { updateSubscription, getOrCreateSubscription } from "../models/subscription.server";
-import { PLANS } from "./plans";
+import { PLANS, matchBillingPlan, getBillingPeriodEnd, type BillingInterval } from "./plans";
 
 export interface SyncResult {
   success: boolean;
@@ -36,6 +36,7 @@ export async function autoSyncSubscription(admin: any, shop: string): Promise<Sy
       status: "active",
       usageLimit: PLANS.free.usageLimit,
       subscriptionId: undefined,
+      billingInterval: "EVERY_30_DAYS",
     });
 
     return {
@@ -100,11 +101,16 @@ async function syncFromAppSubscriptions(admin: any, shop: string): Promise<SyncR
       return { success: false, message: `AppSubscription status: ${subscription.status}` };
     }
 
-    const amount = parseFloat(subscription.lineItems?.[0]?.plan?.pricingDetails?.price?.amount || "0");
-    console.log(`💰 Found AppSubscription with amount: ${amount}`);
+    const pricingDetails = subscription.lineItems?.[0]?.plan?.pricingDetails;
+    const amount = parseFloat(pricingDetails?.price?.amount || "0");
+    console.log(`💰 Found AppSubscription "${subscription.name}" with amount: ${amount} (${pricingDetails?.interval})`);
 
-    // ✅ UPDATED: Mapper au plan avec les nouveaux prix
-    const detectedPlan = mapAmountToPlan(amount);
+    // Mapper au plan d'après le nom, l'intervalle et le montant
+    const { planName: detectedPlan, billingInterval } = mapChargeToPlan({
+      name: subscription.name,
+      amount,
+      interval: pricingDetails?.interval,
+    });
     
     if (detectedPlan === "free" && amount > 0) {
       return { success: false, message: `Unknown amount: ${amount}` };
@@ -115,6 +121,7 @@ async function syncFromAppSubscriptions(admin: any, shop: string): Promise<SyncR
       planName: detectedPlan,
       status: "active",
       usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
+      billingInterval,
       subscriptionId: subscription.id,
       currentPeriodEnd: subscription.currentPeriodEnd 
         ? new Date(subscription.currentPeriodEnd) 
@@ -176,7 +183,7 @@ async function syncFromAppCharges(admin: any, shop: string): Promise<SyncResult>
     console.log(`💰 Found AppRecurringApplicationCharge with amount: ${amount}`);
 
     // ✅ UPDATED: Mapper au plan avec les nouveaux prix
-    const detectedPlan = mapAmountToPlan(amount);
+    const { planName: detectedPlan, billingInterval } = mapChargeToPlan({ name: charge.name, amount });
     
     if (detectedPlan === "free" && amount > 0) {
       return { success: false, message: `Unknown amount: ${amount}` };
@@ -187,8 +194,9 @@ async function syncFromAppCharges(admin: any, shop: string): Promise<SyncResult>
       planName: detectedPlan,
       status: "active",
       usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
+      billingInterval,
       subscriptionId: charge.id,
-      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      currentPeriodEnd: getBillingPeriodEnd(billingInterval),
     });
 
     console.log(`✅ Synced from AppRecurringApplicationCharge to ${detectedPlan} plan`);
@@ -207,21 +215,22 @@ async function syncFromAppCharges(admin: any, shop: string): Promise<SyncResult>
 }
 
 /**
- * ✅ UPDATED: Mappe un montant à un plan avec les nouveaux prix
+ * Mappe une charge Shopify à un plan et sa période de facturation
  */
-function mapAmountToPlan(amount: number): string {
-  // Vérifier chaque plan avec une tolérance de 2 centimes
-  for (const [planKey, planData] of Object.entries(PLANS)) {
-    if (Math.abs(planData.price - amount) < 0.02) {
-      return planKey;
-    }
+function mapChargeToPlan(charge: { name?: string; amount: number; interval?: string }): {
+  planName: string;
+  billingInterval: BillingInterval;
+} {
+  const match = matchBillingPlan(charge);
+  if (match) {
+    return match;
   }
   
   // Si aucun plan exact trouvé, essayer une correspondance approximative
-  if (amount >= 9.50 && amount <= 10.50) return "pro";     // ~$9.99
-  if (amount >= 4.50 && amount <= 5.50) return "standard"; // ~$4.99
-  if (amount < 0.50) return "free";                        // ~$0.00
+  if (charge.amount >= 9.50 && charge.amount <= 10.50) return { planName: "pro", billingInterval: "EVERY_30_DAYS" };     // ~$9.99
+  if (charge.amount >= 4.50 && charge.amount <= 5.50) return { planName: "standard", billingInterval: "EVERY_30_DAYS" }; // ~$4.99
+  if (charge.amount < 0.50) return { planName: "free", billingInterval: "EVERY_30_DAYS" };                               // ~$0.00
   
-  console.warn(`⚠️ Unknown price amount: ${amount} - defaulting to free`);
-  return "free";
-}
\ No newline at end of file
+  console.warn(`⚠️ Unknown price amount: ${charge.amount} - defaulting to free`);
+  return { planName: "free", billingInterval: "EVERY_30_DAYS" };
+}
@@ -2,7 +2,7 @@
 
 import { authenticate } from "../shopify.server";
 import { updateSubscription, getOrCreateSubscription } from "../models/subscription.server";
-import { PLANS, getPlan } from "./plans";
+import { PLANS, getPlan, getPlanPrice, getBillingPlanName, matchBillingPlan, type BillingInterval } from "./plans";
 
 export interface BillingResult {
   success: boolean;
@@ -41,6 +41,7 @@ export async function createShopifySubscription(
     returnUrl?: string;
     test?: boolean;
     trialDays?: number;
+    interval?: BillingInterval;
   } = {}
 ): Promise<BillingResult> {
   try {
@@ -50,6 +51,11 @@ export async function createShopifySubscription(
       return { success: false, error: "Plan not found" };
     }
 
+    const interval = options.interval || (plan.billingInterval as BillingInterval) || "EVERY_30_DAYS";
+    if (interval === "ANNUAL" && plan.annualPrice === undefined) {
+      return { success: false, error: `${plan.displayName} isn't available with annual billing` };
+    }
+
     if (plan.name === 'free') {
       // Pour le plan gratuit, pas besoin de billing Shopify
       await updateSubscription(shop, {
@@ -57,13 +63,14 @@ export async function createShopifySubscription(
         status: 'active',
         usageLimit: plan.usageLimit,
         subscriptionId: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
       
       return { success: true };
     }
 
     const returnUrl = options.returnUrl || 
-      `${process.env.SHOPIFY_APP_URL}/app?billing_completed=1&sync_needed=1&plan=${planName}`;
+      `${process.env.SHOPIFY_APP_URL}/app?billing_completed=1&sync_needed=1&plan=${planName}&interval=${interval}`;
 
     // Construire la mutation GraphQL
     const mutation = `
@@ -85,7 +92,7 @@ export async function createShopifySubscription(
     `;
 
     const variables: any = {
-      name: `${plan.displayName} Plan`,
+      name: getBillingPlanName(plan, interval),
       returnUrl,
       test: options.test ?? (process.env.NODE_ENV !== "production"),
       lineItems: [
@@ -93,10 +100,10 @@ export async function createShopifySubscription(
           plan: {
             appRecurringPricingDetails: {
               price: { 
-                amount: plan.price, 
+                amount: getPlanPrice(plan, interval), 
                 currencyCode: plan.currency 
               },
-              interval: plan.billingInterval || "EVERY_30_DAYS"
+              interval
             }
           }
         }
@@ -110,7 +117,8 @@ export async function createShopifySubscription(
 
     console.log(`🔄 Creating subscription for ${shop}:`, {
       plan: plan.displayName,
-      price: plan.price,
+      price: getPlanPrice(plan, interval),
+      interval,
       trialDays: options.trialDays
     });
 
@@ -136,7 +144,8 @@ export async function createShopifySubscription(
       };
     }
 
-    // Sauvegarder l'ID de l'abonnement pour référence future
+    // Sauvegarder l'ID de l'abonnement pour référence future. La période de
+    // facturation n'est enregistrée qu'une fois l'abonnement actif.
     if (subscriptionData?.id) {
       await updateSubscription(shop, {
         subscriptionId: subscriptionData.id,
@@ -183,6 +192,7 @@ export async function cancelShopifySubscription(
         status: 'active',
         usageLimit: PLANS.free.usageLimit,
         subscriptionId: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
       
       return { success: true };
@@ -223,6 +233,7 @@ export async function cancelShopifySubscription(
       status: 'active',
       usageLimit: PLANS.free.usageLimit,
       subscriptionId: undefined,
+      billingInterval: "EVERY_30_DAYS",
     });
 
     console.log(`✅ Subscription cancelled for ${shop}`);
@@ -300,6 +311,7 @@ export async function syncSubscriptionWithShopify(
         status: 'active',
         usageLimit: PLANS.free.usageLimit,
         subscriptionId: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
       
       return { success: true, syncedPlan: 'free' };
@@ -307,22 +319,22 @@ export async function syncSubscriptionWithShopify(
 
     // Prendre le premier abonnement actif
     const subscription = activeSubscriptions[0];
-    const amount = parseFloat(subscription.lineItems?.[0]?.plan?.pricingDetails?.price?.amount || "0");
+    const pricingDetails = subscription.lineItems?.[0]?.plan?.pricingDetails;
     
-    // Mapper le montant au plan correspondant
-    let detectedPlan = 'free';
-    for (const [planKey, planData] of Object.entries(PLANS)) {
-      if (Math.abs(planData.price - amount) < 0.02) {
-        detectedPlan = planKey;
-        break;
-      }
-    }
+    // Retrouver le plan et la période de facturation
+    const match = matchBillingPlan({
+      name: subscription.name,
+      amount: parseFloat(pricingDetails?.price?.amount || "0"),
+      interval: pricingDetails?.interval,
+    });
+    const detectedPlan = match?.planName ?? 'free';
 
     // Mettre à jour l'abonnement local
     await updateSubscription(shop, {
       planName: detectedPlan,
       status: subscription.status.toLowerCase(),
       usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
+      billingInterval: match?.billingInterval ?? "EVERY_30_DAYS",
       subscriptionId: subscription.id,
       currentPeriodEnd: subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : undefined,
     });
@@ -0,0 +1,97 @@
+// app/lib/guardrails.ts - Shop-wide limits every price write must respect
+
+/**
+ * Limits a shop sets for itself. A null limit is off. They apply on top of
+ * the fixed MIN_PRICE / MAX_PRICE bounds.
+ */
+export interface PriceGuardrails {
+  minPrice: number | null;
+  maxPrice: number | null;
+  // Largest change allowed in one operation, as a % of the old price
+  maxChangePercent: number | null;
+  // Reject prices below the variant's inventory item unit cost
+  neverBelowCost: boolean;
+}
+
+// errors[].field of price change results the guardrails rejected
+export const GUARDRAIL_ERROR_FIELD = "guardrail";
+
+export const DEFAULT_GUARDRAILS: PriceGuardrails = {
+  minPrice: null,
+  maxPrice: null,
+  maxChangePercent: null,
+  neverBelowCost: false,
+};
+
+export function hasGuardrails(guardrails: PriceGuardrails): boolean {
+  return guardrails.minPrice !== null ||
+    guardrails.maxPrice !== null ||
+    guardrails.maxChangePercent !== null ||
+    guardrails.neverBelowCost;
+}
+
+/**
+ * The guardrails that apply to a market price list. Floor, ceiling and cost
+ * are in the shop's currency, so only the % change limit carries over.
+ */
+export function guardrailsForPriceList(guardrails: PriceGuardrails): PriceGuardrails {
+  return { ...DEFAULT_GUARDRAILS, maxChangePercent: guardrails.maxChangePercent };
+}
+
+/**
+ * Why a new price breaks the shop's guardrails, or null when it's allowed.
+ * Only price changes are checked; a write that leaves the price alone (e.g.
+ * clearing the compare-at price) always passes.
+ */
+export function checkPriceGuardrails(
+  guardrails: PriceGuardrails,
+  change: { oldPrice: number; newPrice: number; unitCost?: number | null }
+): string | null {
+  const { oldPrice, newPrice, unitCost } = change;
+  if (Math.abs(newPrice - oldPrice) < 0.005) return null;
+
+  if (guardrails.minPrice !== null && newPrice < guardrails.minPrice) {
+    return `$${newPrice.toFixed(2)} is below the shop's minimum price of $${guardrails.minPrice.toFixed(2)}`;
+  }
+
+  if (guardrails.maxPrice !== null && newPrice > guardrails.maxPrice) {
+    return `$${newPrice.toFixed(2)} is above the shop's maximum price of $${guardrails.maxPrice.toFixed(2)}`;
+  }
+
+  if (guardrails.maxChangePercent !== null && oldPrice > 0) {
+    const changePercent = Math.abs((newPrice - oldPrice) / oldPrice) * 100;
+    if (changePercent > guardrails.maxChangePercent) {
+      return `A ${changePercent.toFixed(1)}% change exceeds the shop's limit of ${guardrails.maxChangePercent}% per operation`;
+    }
+  }
+
+  // Variants without a cost in Shopify can't be checked against it
+  if (guardrails.neverBelowCost && unitCost !== null && unitCost !== undefined && newPrice < unitCost) {
+    return `$${newPrice.toFixed(2)} is below the unit cost of $${unitCost.toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * One-line summary for settings and banners, e.g. "$5.00 – $500.00, ±25% per change, never below cost"
+ */
+export function describeGuardrails(guardrails: PriceGuardrails): string {
+  const parts: string[] = [];
+
+  if (guardrails.minPrice !== null && guardrails.maxPrice !== null) {
+    parts.push(`$${guardrails.minPrice.toFixed(2)} – $${guardrails.maxPrice.toFixed(2)}`);
+  } else if (guardrails.minPrice !== null) {
+    parts.push(`at least $${guardrails.minPrice.toFixed(2)}`);
+  } else if (guardrails.maxPrice !== null) {
+    parts.push(`at most $${guardrails.maxPrice.toFixed(2)}`);
+  }
+  if (guardrails.maxChangePercent !== null) {
+    parts.push(`±${guardrails.maxChangePercent}% per change`);
+  }
+  if (guardrails.neverBelowCost) {
+    parts.push("never below cost");
+  }
+
+  return parts.length > 0 ? parts.join(", ") : "No guardrails";
+}
@@ -0,0 +1,72 @@
+// app/lib/order-sync.server.ts - Background worker that fetches orders for sales impact reports
+
+import { unauthenticated } from "../shopify.server";
+import {
+  claimOrderSyncJob,
+  findQueuedOrderSyncJobs,
+  requeueStaleOrderSyncJobs,
+  touchOrderSyncJob,
+  updateOrderSyncJob,
+} from "../models/order-cache.server";
+import { syncOrderCache } from "./sales-impact.server";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// Running jobs that haven't finished a page of orders for this long are assumed dead
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+declare global {
+  var __orderSyncWorker__: NodeJS.Timeout | undefined;
+}
+
+let working = false;
+
+/**
+ * Work through every queued sync. Jobs are claimed before they run, so
+ * several processes can run the worker side by side.
+ */
+export async function runQueuedOrderSyncs() {
+  if (working) return;
+  working = true;
+
+  try {
+    const requeued = await requeueStaleOrderSyncJobs(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`⚠️ Requeued ${requeued} stalled order sync(s)`);
+    }
+
+    for (const job of await findQueuedOrderSyncJobs()) {
+      if (!(await claimOrderSyncJob(job.id))) continue;
+
+      try {
+        const { admin } = await unauthenticated.admin(job.shop);
+        await syncOrderCache(admin, job.shop, job.syncFrom, job.syncTo, () => touchOrderSyncJob(job.id));
+        await updateOrderSyncJob(job.id, { status: "succeeded", finishedAt: new Date() });
+      } catch (error: any) {
+        console.error(`❌ Order sync ${job.id} failed:`, error);
+        await updateOrderSyncJob(job.id, {
+          status: "failed",
+          lastError: error.message,
+          finishedAt: new Date(),
+        });
+      }
+    }
+  } finally {
+    working = false;
+  }
+}
+
+/**
+ * Start polling for queued syncs. Only one timer is kept per process, even
+ * across dev server reloads.
+ */
+export function startOrderSyncWorker() {
+  if (global.__orderSyncWorker__) return;
+
+  global.__orderSyncWorker__ = setInterval(() => {
+    runQueuedOrderSyncs().catch((error) => {
+      console.error("❌ Order sync worker run failed:", error);
+    });
+  }, POLL_INTERVAL_MS);
+
+  console.log("🧾 Order sync worker started");
+}
@@ -8,9 +8,15 @@ export interface Plan {
   features: string[];
   recommended?: boolean;
   billingInterval?: string;
+  // Price per year when billed annually; plans without one are monthly only
+  annualPrice?: number;
   trialDays?: number;
 }
 
+// Shopify's AppPricingInterval values for recurring charges
+export const BILLING_INTERVALS = ["EVERY_30_DAYS", "ANNUAL"] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
 // ✅ NEW: Updated plan structure with new pricing
 export const PLANS: Record<string, Plan> = {
   free: {
@@ -37,6 +43,7 @@ export const PLANS: Record<string, Plan> = {
     currency: "USD", 
     usageLimit: 500,
     billingInterval: "EVERY_30_DAYS",
+    annualPrice: 49.9, // 2 months free
     trialDays: 7,
     recommended: true, // Make Standard the recommended plan
     features: [
@@ -46,7 +53,8 @@ export const PLANS: Record<string, Plan> = {
       "Complete pricing history",
       "Advanced product search",
       "Priority email support",
-      "CSV export capabilities"
+      "CSV export capabilities",
+      "CSV price import"
     ]
   },
   
@@ -57,6 +65,7 @@ export const PLANS: Record<string, Plan> = {
     currency: "USD",
     usageLimit: 999999, // ✅ NEW: Unlimited = very high number for Pro
     billingInterval: "EVERY_30_DAYS",
+    annualPrice: 99.9, // 2 months free
     trialDays: 7,
     features: [
       "Unlimited products per month",
@@ -99,7 +108,7 @@ export function getPlan(planName: string): Plan {
 // ✅ UPDATED: Feature checking with unlimited support
 export function canUseFeature(subscription: any, feature: string): boolean {
   const plan = getPlan(subscription?.planName || 'free');
-  const uniqueProductsModified = (subscription?.uniqueProductsModified as string[])?.length || 0;
+  const uniqueProductsModified = subscription?.usageCount || 0;
   
   // Check usage limits first (skip for unlimited)
   if (!hasUnlimitedProducts(plan.name) && uniqueProductsModified >= plan.usageLimit) {
@@ -112,6 +121,8 @@ export function canUseFeature(subscription: any, feature: string): boolean {
       return plan.name !== 'free';
     case 'csv_export': 
       return ['standard', 'pro'].includes(plan.name);
+    case 'csv_import':
+      return ['standard', 'pro'].includes(plan.name);
     case 'bulk_operations':
       return ['standard', 'pro'].includes(plan.name);
     case 'priority_support':
@@ -127,7 +138,7 @@ export function canUseFeature(subscription: any, feature: string): boolean {
   }
 }
 
-export function formatPriceDisplay(price: number, currency: string = "USD"): string {
+export function formatPriceDisplay(price: number, currency: string = "USD", interval: BillingInterval = "EVERY_30_DAYS"): string {
   if (price === 0) return "Free";
   
   const formatter = new Intl.NumberFormat('en-US', {
@@ -136,7 +147,77 @@ export function formatPriceDisplay(price: number, currency: string = "USD"): str
     minimumFractionDigits: 2,
   });
   
-  return `${formatter.format(price)}/month`;
+  return `${formatter.format(price)}/${interval === "ANNUAL" ? "year" : "month"}`;
+}
+
+// Webhook payloads use lower case, e.g. "annual"; anything unknown is monthly
+export function parseBillingInterval(value: unknown): BillingInterval {
+  return typeof value === "string" && value.toUpperCase() === "ANNUAL" ? "ANNUAL" : "EVERY_30_DAYS";
+}
+
+/**
+ * When a charge confirmed just now will next bill, for when Shopify's own
+ * date isn't known yet. The webhook and sync replace it with the real one.
+ */
+export function getBillingPeriodEnd(interval: BillingInterval, from: Date = new Date()): Date {
+  const end = new Date(from);
+  if (interval === "ANNUAL") {
+    end.setUTCFullYear(end.getUTCFullYear() + 1);
+  } else {
+    end.setTime(end.getTime() + 30 * 24 * 60 * 60 * 1000);
+  }
+  return end;
+}
+
+export function getPlanPrice(plan: Plan, interval: BillingInterval = "EVERY_30_DAYS"): number {
+  return interval === "ANNUAL" && plan.annualPrice !== undefined ? plan.annualPrice : plan.price;
+}
+
+// What a year costs less when billed annually instead of monthly
+export function getAnnualSavings(plan: Plan): number {
+  return plan.annualPrice === undefined ? 0 : Math.round((plan.price * 12 - plan.annualPrice) * 100) / 100;
+}
+
+/**
+ * Name of the Shopify charge. It's how a charge is matched back to its plan,
+ * so keep it in step with matchBillingPlan.
+ */
+export function getBillingPlanName(plan: Plan, interval: BillingInterval = "EVERY_30_DAYS"): string {
+  return interval === "ANNUAL" ? `${plan.displayName} Plan (Yearly)` : `${plan.displayName} Plan`;
+}
+
+/**
+ * The paid plan and interval a Shopify charge is for: by the charge name
+ * first, then by its price for the interval. Charges without an interval,
+ * like old application charges, are matched against both prices. Returns
+ * null when nothing matches.
+ */
+export function matchBillingPlan(charge: { name?: string | null; amount: number; interval?: string | null }): {
+  planName: string;
+  billingInterval: BillingInterval;
+} | null {
+  const paidPlans = Object.values(PLANS).filter((plan) => plan.price > 0);
+  const intervals: BillingInterval[] = charge.interval
+    ? [parseBillingInterval(charge.interval)]
+    : [...BILLING_INTERVALS];
+
+  for (const billingInterval of intervals) {
+    const plan = paidPlans.find((candidate) =>
+      (billingInterval === "EVERY_30_DAYS" || candidate.annualPrice !== undefined) &&
+      getBillingPlanName(candidate, billingInterval) === charge.name
+    );
+    if (plan) return { planName: plan.name, billingInterval };
+  }
+
+  for (const billingInterval of intervals) {
+    const plan = paidPlans.find((candidate) =>
+      (billingInterval === "EVERY_30_DAYS" || candidate.annualPrice !== undefined) &&
+      Math.abs(getPlanPrice(candidate, billingInterval) - charge.amount) < 0.02 // 2 cent tolerance
+    );
+    if (plan) return { planName: plan.name, billingInterval };
+  }
+
+  return null;
 }
 
 // ✅ UPDATED: Clear upgrade recommendations with new pricing
@@ -146,7 +227,7 @@ export function getUpgradeRecommendation(subscription: any): {
   recommendedPlan: string;
 } {
   const currentPlan = getPlan(subscription?.planName || 'free');
-  const uniqueProductsModified = (subscription?.uniqueProductsModified as string[])?.length || 0;
+  const uniqueProductsModified = subscription?.usageCount || 0;
   
   // Skip recommendation for unlimited plans
   if (hasUnlimitedProducts(currentPlan.name)) {
@@ -197,11 +278,11 @@ export function isEligibleForTrial(subscription: any, planName: string): boolean
   return isNewUser && isOnFreePlan && neverHadPaidPlan;
 }
 
-export function getPriceWithTrial(plan: Plan, isEligible: boolean): {
+export function getPriceWithTrial(plan: Plan, isEligible: boolean, interval: BillingInterval = "EVERY_30_DAYS"): {
   displayPrice: string;
   trialInfo?: string;
 } {
-  const basePrice = formatPriceDisplay(plan.price);
+  const basePrice = formatPriceDisplay(getPlanPrice(plan, interval), plan.currency, interval);
   
   if (isEligible && plan.trialDays) {
     return {
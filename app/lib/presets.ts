@@ -0,0 +1,24 @@
+// app/lib/presets.ts - Saved adjustment presets: an adjustment plus the filters it's run against
+
+import { appendProductFilters, type ProductFilters } from "./product-search";
+
+export interface AdjustmentPreset {
+  id: string;
+  name: string;
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule: string | null;
+  filters: ProductFilters;
+}
+
+/**
+ * The pricing page with the preset's filters applied and its adjustment
+ * filled in
+ */
+export function buildPresetUrl(preset: AdjustmentPreset, first: number = 25): string {
+  const params = new URLSearchParams();
+  params.set("first", first.toString());
+  params.set("preset", preset.id);
+  appendProductFilters(params, preset.filters);
+  return `/app/pricing?${params.toString()}`;
+}
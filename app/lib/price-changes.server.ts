@@ -0,0 +1,199 @@
+// app/lib/price-changes.server.ts - Checking and running a requested bulk price change
+import { countVariants, createPricingJob } from "../models/pricing-job.server";
+import { calculateQuotaImpact, getOrCreateSubscription, wouldExceedProductLimit } from "../models/subscription.server";
+import type { PriceListTarget } from "./price-lists";
+import { withPriceListPrices } from "./price-lists.server";
+import type { PriceRule } from "./price-rules";
+import { applyPriceRule } from "./price-rules.server";
+import { isAdjustmentType, isCostBasedAdjustment, serializeRoundingRule, type RoundingRule } from "./pricing";
+import {
+  applyPriceAdjustment,
+  applyVariantFilter,
+  fetchPricingProducts,
+  skipVariantsWithoutCost,
+  type PriceAdjustmentOutcome,
+  type PricingProduct,
+} from "./pricing.server";
+import { MAX_JOB_PRODUCTS, SYNC_VARIANT_LIMIT } from "./pricing-jobs.server";
+import { buildProductSearchQuery, describeVariantFilter, type ProductFilters, type VariantFilter } from "./product-search";
+import { validatePriceRuleSteps, validatePricingData, validateRoundingRule } from "./validators";
+
+export const NO_UNIT_COST_ERROR = "None of the selected variants have a unit cost set in Shopify";
+
+/**
+ * A bulk price change as asked for by the pricing page or the API
+ */
+export interface PriceChangeRequest {
+  // Products to change, or null for every product matching `filters`
+  productIds: string[] | null;
+  filters: ProductFilters;
+  adjustmentType: string;
+  adjustmentValue: number;
+  rounding: RoundingRule;
+  variantFilter: VariantFilter | null;
+  // A saved rule replaces the flat adjustment and brings its own rounding
+  priceRule: PriceRule | null;
+  // Write to a market's price list instead of the base prices
+  priceList: PriceListTarget | null;
+  // Variants the caller knows the selection has, if it knows; decides
+  // whether the change runs in the request or as a background job
+  variantCount?: number;
+  userEmail: string | null;
+}
+
+export interface PriceChangeQuota {
+  currentModifications: number;
+  limit: number;
+  wouldAdd: number;
+  wouldTotal: number;
+}
+
+export type PriceChangeSubmission =
+  | { status: "queued"; jobId: string }
+  | { status: "applied"; outcome: PriceAdjustmentOutcome }
+  | { status: "rejected"; error: string; validationErrors?: string[]; quota?: PriceChangeQuota };
+
+function rejected(error: string, extra: { validationErrors?: string[]; quota?: PriceChangeQuota } = {}): PriceChangeSubmission {
+  return { status: "rejected", error, ...extra };
+}
+
+function validateChange(request: PriceChangeRequest, products: any[]) {
+  return request.priceRule
+    ? validatePriceRuleSteps(request.priceRule.steps)
+    : validatePricingData(products, request.adjustmentType, request.adjustmentValue, { rounding: request.rounding });
+}
+
+/**
+ * Validate a change, check the quota, then apply it straight away or queue
+ * it as a job when it's too large for one request. "Every matching product"
+ * is always queued; the worker resolves the products and checks the quota.
+ */
+export async function submitPriceChange(
+  admin: any,
+  shop: string,
+  request: PriceChangeRequest
+): Promise<PriceChangeSubmission> {
+  const { priceRule, priceList, variantFilter, adjustmentType, adjustmentValue, rounding } = request;
+
+  if (!priceRule && isNaN(adjustmentValue)) {
+    return rejected("Please enter a valid number for the adjustment value");
+  }
+  if (!priceRule && !isAdjustmentType(adjustmentType)) {
+    return rejected("Invalid adjustment type selected");
+  }
+  if (priceList && !priceRule && isCostBasedAdjustment(adjustmentType)) {
+    return rejected("Cost-based pricing only works on base prices, as unit costs are in your store's currency");
+  }
+
+  const settingsValidation = priceRule ? validatePriceRuleSteps(priceRule.steps) : validateRoundingRule(rounding);
+  if (!settingsValidation.isValid) {
+    return rejected(settingsValidation.errors.join(", "), { validationErrors: settingsValidation.errors });
+  }
+
+  const jobAdjustment = priceRule
+    ? { adjustmentType: "price_rule", adjustmentValue: 0, roundingRule: priceRule.roundingRule, priceRule }
+    : { adjustmentType, adjustmentValue, roundingRule: serializeRoundingRule(rounding) };
+
+  if (request.productIds === null) {
+    const job = await createPricingJob(shop, {
+      ...jobAdjustment,
+      searchQuery: buildProductSearchQuery(request.filters),
+      variantFilter,
+      priceList,
+      userEmail: request.userEmail,
+    });
+
+    console.log(`📦 Queued pricing job ${job.id} for all matching products`);
+    return { status: "queued", jobId: job.id };
+  }
+
+  const productIds = request.productIds;
+  if (productIds.length === 0) {
+    return rejected("Please select at least one product to modify");
+  }
+  if (productIds.length > MAX_JOB_PRODUCTS) {
+    return rejected(`Maximum ${MAX_JOB_PRODUCTS} products can be modified at once`);
+  }
+
+  if (await wouldExceedProductLimit(shop, productIds)) {
+    const subscription = await getOrCreateSubscription(shop);
+    const impact = await calculateQuotaImpact(shop, productIds);
+
+    return rejected(
+      `This would add ${impact.modificationsToAdd} product(s) not yet changed this period, exceeding your monthly limit of ${subscription.usageLimit} products. Current usage: ${impact.currentUsage + impact.inFlight}. Please upgrade your plan or select fewer products.`,
+      {
+        quota: {
+          currentModifications: impact.currentUsage + impact.inFlight,
+          limit: subscription.usageLimit,
+          wouldAdd: impact.modificationsToAdd,
+          wouldTotal: impact.totalAfter,
+        },
+      }
+    );
+  }
+
+  const queueJob = async () => {
+    const job = await createPricingJob(shop, {
+      ...jobAdjustment,
+      productIds,
+      variantFilter,
+      priceList,
+      userEmail: request.userEmail,
+    });
+
+    console.log(`📦 Queued pricing job ${job.id} for ${productIds.length} products`);
+    return { status: "queued" as const, jobId: job.id };
+  };
+
+  // Large selections run in the background so the request doesn't time out.
+  // The worker loads every variant of these products itself.
+  const knownVariants = request.variantCount ?? productIds.length;
+  if (knownVariants > SYNC_VARIANT_LIMIT) {
+    return await queueJob();
+  }
+
+  const loaded = await fetchPricingProducts(admin, productIds);
+  if (request.variantCount === undefined && countVariants(loaded) > SYNC_VARIANT_LIMIT) {
+    return await queueJob();
+  }
+
+  let products: PricingProduct[] = applyVariantFilter(loaded, variantFilter);
+  if (products.length === 0) {
+    return rejected(variantFilter
+      ? `None of the selected products have variants matching ${describeVariantFilter(variantFilter)}`
+      : "None of the selected products exist anymore");
+  }
+
+  if (!priceRule && isCostBasedAdjustment(adjustmentType)) {
+    products = skipVariantsWithoutCost(products).products;
+    if (products.length === 0) {
+      return rejected(NO_UNIT_COST_ERROR);
+    }
+  }
+
+  if (priceList) {
+    products = (await withPriceListPrices(admin, priceList, products)).products;
+    if (products.length === 0) {
+      return rejected(`None of the selected variants have a price in ${priceList.name}`);
+    }
+  }
+
+  const validation = validateChange(request, products);
+  if (!validation.isValid) {
+    return rejected(validation.errors.join(", "), { validationErrors: validation.errors });
+  }
+
+  const outcome = priceRule
+    ? await applyPriceRule(admin, shop, products, priceRule, request.userEmail, undefined, priceList)
+    : await applyPriceAdjustment(
+        admin,
+        shop,
+        products,
+        { adjustmentType, adjustmentValue, rounding },
+        request.userEmail,
+        undefined,
+        priceList
+      );
+
+  return { status: "applied", outcome };
+}
@@ -0,0 +1,340 @@
+// app/lib/price-import.server.ts - Matching spreadsheet prices to store variants
+import { GET_PRODUCT_IDS, GET_VARIANT_PRICES } from "../graphql/queries/products";
+import { parseCsv } from "./csv";
+import { MAX_PRICE, MIN_PRICE } from "./pricing";
+import {
+  applyPlannedPriceChanges,
+  fetchPricingProducts,
+  graphqlWithRetry,
+  type PlannedProductChange,
+  type PricingProduct,
+} from "./pricing.server";
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Shopify accepts at most 250 IDs per nodes() lookup
+const NODES_PAGE_SIZE = 250;
+// Search terms OR'ed together per products() lookup
+const SEARCH_TERMS_PER_QUERY = 25;
+
+type ImportKey =
+  | { type: "variant_id"; value: string }
+  | { type: "sku"; value: string }
+  | { type: "handle"; value: string; options: string[] };
+
+export type ImportRowStatus = "matched" | "unmatched" | "invalid";
+
+export interface ImportReportRow {
+  line: number;
+  key: string;
+  status: ImportRowStatus;
+  message?: string;
+  productId?: string;
+  productTitle?: string;
+  vendor?: string;
+  variantId?: string;
+  variantTitle?: string;
+  oldPrice?: number;
+  newPrice?: number;
+  oldCompareAtPrice?: number | null;
+  // undefined leaves the compare-at price unchanged, null clears it
+  newCompareAtPrice?: number | null;
+}
+
+export interface ImportReport {
+  rows: ImportReportRow[];
+  matched: number;
+  unmatched: number;
+  invalid: number;
+  errors: string[];
+}
+
+interface ParsedRow {
+  line: number;
+  key: ImportKey | null;
+  price: number | null;
+  compareAtPrice: number | null | undefined;
+  errors: string[];
+}
+
+const HEADER_ALIASES: Record<string, string> = {
+  sku: "sku",
+  variantid: "variant_id",
+  variant: "variant_id",
+  handle: "handle",
+  producthandle: "handle",
+  option1: "option1",
+  option1value: "option1",
+  option2: "option2",
+  option2value: "option2",
+  option3: "option3",
+  option3value: "option3",
+  price: "price",
+  newprice: "price",
+  variantprice: "price",
+  compareatprice: "compare_at_price",
+  compareat: "compare_at_price",
+  variantcompareatprice: "compare_at_price",
+};
+
+function normalizeHeader(header: string): string | undefined {
+  return HEADER_ALIASES[header.toLowerCase().replace(/[^a-z0-9]/g, "")];
+}
+
+function toVariantGid(value: string): string | null {
+  if (value.startsWith("gid://shopify/ProductVariant/")) return value;
+  return /^\d+$/.test(value) ? `gid://shopify/ProductVariant/${value}` : null;
+}
+
+function parsePriceCell(value: string, label: string, errors: string[]): number | null {
+  const price = parseFloat(value.replace(/[$,\s]/g, ""));
+  if (isNaN(price) || price < MIN_PRICE || price > MAX_PRICE) {
+    errors.push(`${label} must be between $${MIN_PRICE} and $${MAX_PRICE.toLocaleString()}`);
+    return null;
+  }
+  return Math.round(price * 100) / 100;
+}
+
+function describeKey(key: ImportKey | null): string {
+  if (!key) return "—";
+  if (key.type === "handle") {
+    return [key.value, ...key.options].join(" / ");
+  }
+  return key.value;
+}
+
+/**
+ * Read rows out of the uploaded CSV. Each row is keyed by variant ID, SKU or
+ * handle plus option values, tried in that order. An empty compare-at cell
+ * leaves the compare-at price alone; "clear" or 0 removes it.
+ */
+export function parsePriceImportCsv(text: string): { rows: ParsedRow[]; errors: string[] } {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    return { rows: [], errors: ["The file is empty"] };
+  }
+
+  const columns = headerRow.map(normalizeHeader);
+  const column = (name: string) => columns.indexOf(name);
+
+  if (column("sku") < 0 && column("variant_id") < 0 && column("handle") < 0) {
+    return { rows: [], errors: ["Add a SKU, Variant ID or Handle column to match rows to variants"] };
+  }
+  if (column("price") < 0 && column("compare_at_price") < 0) {
+    return { rows: [], errors: ["Add a Price or Compare-at Price column"] };
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], errors: [`Files can have at most ${MAX_IMPORT_ROWS} rows - split larger files`] };
+  }
+
+  const rows = dataRows.map((cells, index): ParsedRow => {
+    const cell = (name: string) => (column(name) >= 0 ? (cells[column(name)] || "").trim() : "");
+    const errors: string[] = [];
+
+    let key: ImportKey | null = null;
+    if (cell("variant_id")) {
+      const gid = toVariantGid(cell("variant_id"));
+      if (gid) {
+        key = { type: "variant_id", value: gid };
+      } else {
+        errors.push("Variant ID must be a number or a ProductVariant GID");
+      }
+    } else if (cell("sku")) {
+      key = { type: "sku", value: cell("sku") };
+    } else if (cell("handle")) {
+      const options = ["option1", "option2", "option3"].map(cell).filter((value) => value !== "");
+      key = { type: "handle", value: cell("handle").toLowerCase(), options };
+    } else if (errors.length === 0) {
+      errors.push("Row has no SKU, Variant ID or Handle");
+    }
+
+    const price = cell("price") ? parsePriceCell(cell("price"), "Price", errors) : null;
+
+    let compareAtPrice: number | null | undefined;
+    const compareAtCell = cell("compare_at_price").toLowerCase();
+    if (compareAtCell === "clear" || compareAtCell === "0" || compareAtCell === "0.00") {
+      compareAtPrice = null;
+    } else if (compareAtCell) {
+      compareAtPrice = parsePriceCell(compareAtCell, "Compare-at price", errors) ?? undefined;
+    }
+
+    if (!cell("price") && compareAtPrice === undefined && errors.length === 0) {
+      errors.push("Row has no new price or compare-at price");
+    }
+
+    // Header is line 1
+    return { line: index + 2, key, price, compareAtPrice, errors };
+  });
+
+  return { rows, errors: [] };
+}
+
+async function findProductIds(admin: any, field: string, values: string[]): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let i = 0; i < values.length; i += SEARCH_TERMS_PER_QUERY) {
+    const terms = values.slice(i, i + SEARCH_TERMS_PER_QUERY)
+      .map((value) => `${field}:"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`);
+    const result = await graphqlWithRetry(admin, GET_PRODUCT_IDS, { query: terms.join(" OR "), first: 250 });
+    (result.data?.products?.edges || []).forEach((edge: any) => ids.push(edge.node.id));
+  }
+
+  return ids;
+}
+
+async function findProductIdsForVariants(admin: any, variantIds: string[]): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let i = 0; i < variantIds.length; i += NODES_PAGE_SIZE) {
+    const result = await graphqlWithRetry(admin, GET_VARIANT_PRICES, { ids: variantIds.slice(i, i + NODES_PAGE_SIZE) });
+    (result.data?.nodes || []).forEach((node: any) => {
+      if (node?.product?.id) ids.push(node.product.id);
+    });
+  }
+
+  return ids;
+}
+
+/**
+ * Parse the CSV and look every row up in the store. Rows are matched against
+ * live prices, so the report shows exactly what applying it would change.
+ */
+export async function buildPriceImportReport(admin: any, text: string): Promise<ImportReport> {
+  const parsed = parsePriceImportCsv(text);
+  if (parsed.errors.length > 0) {
+    return { rows: [], matched: 0, unmatched: 0, invalid: 0, errors: parsed.errors };
+  }
+
+  const keys = parsed.rows.map((row) => row.key).filter((key): key is ImportKey => key !== null);
+  const unique = (values: string[]) => Array.from(new Set(values));
+
+  const productIds = unique([
+    ...(await findProductIdsForVariants(admin, unique(keys.filter((k) => k.type === "variant_id").map((k) => k.value)))),
+    ...(await findProductIds(admin, "sku", unique(keys.filter((k) => k.type === "sku").map((k) => k.value)))),
+    ...(await findProductIds(admin, "handle", unique(keys.filter((k) => k.type === "handle").map((k) => k.value)))),
+  ]);
+
+  type VariantMatch = { product: PricingProduct; variant: PricingProduct["variants"][number] };
+  const variantsById = new Map<string, VariantMatch>();
+  const variantsBySku = new Map<string, VariantMatch[]>();
+  const productsByHandle = new Map<string, PricingProduct>();
+
+  // Every variant, however many the product has, so rows for variants past
+  // the first page still match
+  for (const product of await fetchPricingProducts(admin, productIds)) {
+    if (product.handle) productsByHandle.set(product.handle.toLowerCase(), product);
+    product.variants.forEach((variant) => {
+      variantsById.set(variant.id, { product, variant });
+      if (variant.sku) {
+        variantsBySku.set(variant.sku, [...(variantsBySku.get(variant.sku) || []), { product, variant }]);
+      }
+    });
+  }
+
+  const seenVariants = new Set<string>();
+
+  const rows = parsed.rows.map((row): ImportReportRow => {
+    const base = { line: row.line, key: describeKey(row.key) };
+    if (row.errors.length > 0 || !row.key) {
+      return { ...base, status: "invalid", message: row.errors.join(", ") };
+    }
+
+    let match: VariantMatch | undefined;
+    const key = row.key;
+    if (key.type === "variant_id") {
+      match = variantsById.get(key.value);
+    } else if (key.type === "sku") {
+      const matches = variantsBySku.get(key.value) || [];
+      if (matches.length > 1) {
+        return { ...base, status: "invalid", message: `SKU is used by ${matches.length} variants - use Variant ID instead` };
+      }
+      match = matches[0];
+    } else {
+      const product = productsByHandle.get(key.value);
+      const variants = product?.variants || [];
+      const variant = key.options.length === 0 && variants.length === 1
+        ? variants[0]
+        : variants.find((v) => {
+            const options = v.selectedOptions || [];
+            return options.length === key.options.length &&
+              options.every((option, i) => option.value.toLowerCase() === key.options[i].toLowerCase());
+          });
+      match = product && variant ? { product, variant } : undefined;
+    }
+
+    if (!match) {
+      return { ...base, status: "unmatched", message: "No variant in your store matches this row" };
+    }
+
+    const { product, variant } = match;
+    if (seenVariants.has(variant.id)) {
+      return { ...base, status: "invalid", message: "Another row already sets this variant's price" };
+    }
+    seenVariants.add(variant.id);
+
+    const oldPrice = variant.currentPrice;
+    const oldCompareAtPrice = variant.compareAtPrice ?? null;
+
+    return {
+      ...base,
+      status: "matched",
+      productId: product.id,
+      productTitle: product.title,
+      vendor: product.vendor,
+      variantId: variant.id,
+      variantTitle: variant.title,
+      oldPrice,
+      newPrice: row.price ?? oldPrice,
+      oldCompareAtPrice,
+      newCompareAtPrice: row.compareAtPrice,
+    };
+  });
+
+  return {
+    rows,
+    matched: rows.filter((row) => row.status === "matched").length,
+    unmatched: rows.filter((row) => row.status === "unmatched").length,
+    invalid: rows.filter((row) => row.status === "invalid").length,
+    errors: [],
+  };
+}
+
+export function getMatchedProductIds(report: ImportReport): string[] {
+  return Array.from(new Set(
+    report.rows.filter((row) => row.status === "matched").map((row) => row.productId as string)
+  ));
+}
+
+/**
+ * Write the matched rows of a report through the shared bulk write path, so
+ * an import is tracked and can be undone like any other batch
+ */
+export async function applyPriceImport(admin: any, shop: string, report: ImportReport, userEmail?: string | null) {
+  const plans = new Map<string, PlannedProductChange>();
+
+  report.rows.filter((row) => row.status === "matched").forEach((row) => {
+    const plan = plans.get(row.productId as string) || {
+      productId: row.productId as string,
+      productTitle: row.productTitle as string,
+      vendor: row.vendor ?? null,
+      variants: [],
+    };
+
+    plan.variants.push({
+      id: row.variantId as string,
+      title: row.variantTitle as string,
+      oldPrice: row.oldPrice as number,
+      newPrice: row.newPrice as number,
+      oldCompareAtPrice: row.oldCompareAtPrice ?? null,
+      newCompareAtPrice: row.newCompareAtPrice === undefined ? row.oldCompareAtPrice ?? null : row.newCompareAtPrice,
+      writeCompareAt: row.newCompareAtPrice !== undefined,
+    });
+    plans.set(plan.productId, plan);
+  });
+
+  return await applyPlannedPriceChanges(admin, shop, Array.from(plans.values()), {
+    actionType: "csv_import",
+    adjustmentValue: 0,
+    userEmail,
+  });
+}
@@ -0,0 +1,86 @@
+// app/lib/price-lists.server.ts - Loading market price lists and their prices from Shopify
+import { GET_PRICE_LIST, GET_PRICE_LISTS } from "../graphql/queries/price-lists";
+import type { PriceListTarget } from "./price-lists";
+import { getPriceListPrices, graphqlWithRetry, type PricingProduct } from "./pricing.server";
+
+// Price lists listed on the pricing page
+const PRICE_LIST_LIMIT = 50;
+
+function toPriceListTarget(node: any): PriceListTarget {
+  const markets = (node.catalog?.markets?.nodes || []).map((market: any) => market.name);
+  return {
+    id: node.id,
+    name: node.name,
+    currency: node.currency,
+    market: markets.length > 0 ? markets.join(", ") : node.catalog?.title ?? null,
+  };
+}
+
+/**
+ * The shop's price lists. Shops without Markets, or that haven't granted
+ * read_markets yet, get an empty list rather than an error.
+ */
+export async function listPriceLists(admin: any): Promise<PriceListTarget[]> {
+  try {
+    const result = await graphqlWithRetry(admin, GET_PRICE_LISTS, { first: PRICE_LIST_LIMIT });
+    if (result.errors?.length) {
+      console.warn("⚠️ Could not load price lists:", result.errors[0]?.message);
+      return [];
+    }
+    return (result.data?.priceLists?.nodes || []).map(toPriceListTarget);
+  } catch (error) {
+    console.warn("⚠️ Could not load price lists:", error);
+    return [];
+  }
+}
+
+export async function getPriceListTarget(admin: any, id: string): Promise<PriceListTarget | null> {
+  const result = await graphqlWithRetry(admin, GET_PRICE_LIST, { id });
+  const node = result.data?.priceList;
+  return node ? toPriceListTarget(node) : null;
+}
+
+/**
+ * Swap each variant's base price for its price in the list, so adjustments
+ * and rules work from what that market pays. Variants the list has no price
+ * for are dropped, along with products left without variants. Unit costs are
+ * cleared: they're in the shop's currency, not the list's.
+ */
+export async function withPriceListPrices(
+  admin: any,
+  priceList: PriceListTarget,
+  products: PricingProduct[]
+): Promise<{ products: PricingProduct[]; skipped: number }> {
+  const prices = await getPriceListPrices(
+    admin,
+    priceList.id,
+    products.flatMap((product) => product.variants.map((variant) => variant.id))
+  );
+
+  let skipped = 0;
+  const priced = products
+    .map((product) => {
+      const variants = product.variants.flatMap((variant) => {
+        const listPrice = prices.get(variant.id);
+        if (!listPrice) {
+          skipped++;
+          return [];
+        }
+        return [{
+          ...variant,
+          currentPrice: listPrice.price,
+          compareAtPrice: listPrice.compareAtPrice,
+          unitCost: null,
+          fixedListPrice: listPrice.fixed,
+        }];
+      });
+      return { ...product, variants };
+    })
+    .filter((product) => product.variants.length > 0);
+
+  if (skipped > 0) {
+    console.log(`⏭️ ${skipped} variants have no price in ${priceList.name}`);
+  }
+
+  return { products: priced, skipped };
+}
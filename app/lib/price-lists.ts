@@ -0,0 +1,22 @@
+// app/lib/price-lists.ts - Market price lists a price change can target
+
+/**
+ * A price list prices are written to instead of the variants' base prices.
+ * Amounts in it are in `currency`, not the shop's currency.
+ */
+export interface PriceListTarget {
+  id: string;
+  name: string;
+  currency: string;
+  // Markets served by the list's catalog, e.g. "Europe, UK"; null when it isn't a market catalog
+  market: string | null;
+}
+
+/**
+ * e.g. "Europe — EUR (EU prices)"
+ */
+export function describePriceListTarget(priceList: PriceListTarget): string {
+  return priceList.market
+    ? `${priceList.market} — ${priceList.currency} (${priceList.name})`
+    : `${priceList.name} — ${priceList.currency}`;
+}
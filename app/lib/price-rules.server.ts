@@ -0,0 +1,122 @@
+// app/lib/price-rules.server.ts - Evaluating saved price rules against products
+import type { PriceGuardrails } from "./guardrails";
+import type { PriceListTarget } from "./price-lists";
+import { calculateAdjustedPrices, deserializeRoundingRule } from "./pricing";
+import { findMatchingStep, type PriceRule } from "./price-rules";
+import {
+  applyPlannedPriceChanges,
+  previewPlannedChanges,
+  type PlannedProductChange,
+  type PriceAdjustmentOutcome,
+  type PricePreview,
+  type PricingProduct,
+} from "./pricing.server";
+
+export interface PriceRulePlan {
+  plans: PlannedProductChange[];
+  // Variants no step matched; they are left unchanged
+  unmatchedVariants: number;
+  // How many variants each step matched, in step order
+  stepCounts: number[];
+}
+
+/**
+ * Run every variant through the rule's steps in order. The first step whose
+ * conditions all match decides the new price; variants no step matches are
+ * left out, as are products with no matching variants.
+ */
+export function planPriceRule(products: PricingProduct[], rule: PriceRule): PriceRulePlan {
+  const rounding = deserializeRoundingRule(rule.roundingRule);
+  const stepCounts = rule.steps.map(() => 0);
+  const plans: PlannedProductChange[] = [];
+  let unmatchedVariants = 0;
+
+  for (const product of products) {
+    const plan: PlannedProductChange = {
+      productId: product.id,
+      productTitle: product.title,
+      vendor: product.vendor ?? null,
+      variants: [],
+    };
+
+    for (const variant of product.variants || []) {
+      const stepIndex = findMatchingStep(rule.steps, {
+        price: variant.currentPrice,
+        inventoryQuantity: variant.inventoryQuantity ?? null,
+        vendor: product.vendor || "",
+        productType: product.productType || "",
+        tags: product.tags || [],
+      });
+
+      if (stepIndex < 0) {
+        unmatchedVariants++;
+        continue;
+      }
+      stepCounts[stepIndex]++;
+
+      const step = rule.steps[stepIndex];
+      const oldCompareAtPrice = variant.compareAtPrice ?? null;
+      const next = calculateAdjustedPrices(
+        { price: variant.currentPrice, compareAtPrice: oldCompareAtPrice },
+        step.adjustmentType,
+        step.adjustmentValue,
+        rounding
+      );
+
+      plan.variants.push({
+        id: variant.id,
+        title: variant.title,
+        oldPrice: variant.currentPrice,
+        newPrice: next.price,
+        oldCompareAtPrice,
+        newCompareAtPrice: next.compareAtPrice,
+        // Rule steps only ever change the price
+        writeCompareAt: false,
+        unitCost: variant.unitCost ?? null,
+        oldPriceFixed: variant.fixedListPrice,
+      });
+    }
+
+    if (plan.variants.length > 0) {
+      plans.push(plan);
+    }
+  }
+
+  return { plans, unmatchedVariants, stepCounts };
+}
+
+export function previewPriceRule(
+  products: PricingProduct[],
+  rule: PriceRule,
+  guardrails?: PriceGuardrails
+): { preview: PricePreview; unmatchedVariants: number; stepCounts: number[] } {
+  const { plans, unmatchedVariants, stepCounts } = planPriceRule(products, rule);
+  return { preview: previewPlannedChanges(plans, guardrails), unmatchedVariants, stepCounts };
+}
+
+/**
+ * Apply a rule through the shared bulk write path, so the changes are
+ * tracked and can be undone as one batch. Callers check quota first.
+ */
+export async function applyPriceRule(
+  admin: any,
+  shop: string,
+  products: PricingProduct[],
+  rule: PriceRule,
+  userEmail?: string | null,
+  batchId?: string,
+  priceList: PriceListTarget | null = null
+): Promise<PriceAdjustmentOutcome> {
+  const { plans, unmatchedVariants } = planPriceRule(products, rule);
+
+  console.log(`📐 Applying rule "${rule.name}" to ${plans.length} products (${unmatchedVariants} variants unmatched)`);
+
+  return await applyPlannedPriceChanges(admin, shop, plans, {
+    actionType: "price_rule",
+    adjustmentValue: 0,
+    roundingRule: rule.roundingRule,
+    userEmail,
+    batchId,
+    priceList,
+  });
+}
@@ -0,0 +1,185 @@
+// app/lib/price-rules.ts - Saved price rules: ordered steps of conditions and adjustments
+
+import { describeAdjustment, type AdjustmentType } from "./pricing";
+
+export const RULE_CONDITION_FIELDS = ["price", "vendor", "product_type", "tag", "inventory"] as const;
+
+export type RuleConditionField = (typeof RULE_CONDITION_FIELDS)[number];
+
+export const RULE_CONDITION_FIELD_LABELS: Record<RuleConditionField, string> = {
+  price: "Price",
+  vendor: "Vendor",
+  product_type: "Product type",
+  tag: "Tag",
+  inventory: "Inventory",
+};
+
+// Steps change the price itself; compare-at adjustments stay flat bulk actions
+export const RULE_ACTION_TYPES = ["percentage", "fixed", "add", "subtract"] as const satisfies readonly AdjustmentType[];
+
+export type RuleActionType = (typeof RULE_ACTION_TYPES)[number];
+
+export const MAX_RULE_STEPS = 20;
+export const MAX_RULE_CONDITIONS = 10;
+
+/**
+ * Price and inventory conditions are bands: min is inclusive, max exclusive,
+ * so "< $20" and "$20 – $100" never overlap. Leave either end null for an
+ * open band. Text conditions compare `value` case-insensitively.
+ */
+export interface PriceRuleCondition {
+  field: RuleConditionField;
+  min?: number | null;
+  max?: number | null;
+  value?: string;
+}
+
+/**
+ * One step of a rule. Every condition must match; a step without conditions
+ * matches everything and acts as the "else" of the rule.
+ */
+export interface PriceRuleStep {
+  conditions: PriceRuleCondition[];
+  adjustmentType: RuleActionType;
+  adjustmentValue: number;
+}
+
+export interface PriceRule {
+  id: string;
+  name: string;
+  steps: PriceRuleStep[];
+  roundingRule: string | null;
+}
+
+/**
+ * What a rule looks at for one variant
+ */
+export interface PriceRuleSubject {
+  price: number;
+  inventoryQuantity: number | null;
+  vendor: string;
+  productType: string;
+  tags: string[];
+}
+
+export function isRuleConditionField(value: string): value is RuleConditionField {
+  return (RULE_CONDITION_FIELDS as readonly string[]).includes(value);
+}
+
+export function isRuleActionType(value: string): value is RuleActionType {
+  return (RULE_ACTION_TYPES as readonly string[]).includes(value);
+}
+
+export function isBandCondition(field: RuleConditionField): boolean {
+  return field === "price" || field === "inventory";
+}
+
+function inBand(amount: number | null, condition: PriceRuleCondition): boolean {
+  if (amount === null) return false;
+  if (condition.min !== null && condition.min !== undefined && amount < condition.min) return false;
+  if (condition.max !== null && condition.max !== undefined && amount >= condition.max) return false;
+  return true;
+}
+
+function sameText(a: string, b: string | undefined): boolean {
+  return a.trim().toLowerCase() === (b || "").trim().toLowerCase();
+}
+
+export function matchesRuleCondition(condition: PriceRuleCondition, subject: PriceRuleSubject): boolean {
+  switch (condition.field) {
+    case "price":
+      return inBand(subject.price, condition);
+    case "inventory":
+      // Untracked inventory never matches an inventory band
+      return inBand(subject.inventoryQuantity, condition);
+    case "vendor":
+      return sameText(subject.vendor, condition.value);
+    case "product_type":
+      return sameText(subject.productType, condition.value);
+    case "tag":
+      return subject.tags.some((tag) => sameText(tag, condition.value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Index of the first step whose conditions all match, or -1 when none does
+ * and the variant should be left alone
+ */
+export function findMatchingStep(steps: PriceRuleStep[], subject: PriceRuleSubject): number {
+  return steps.findIndex((step) => step.conditions.every((condition) => matchesRuleCondition(condition, subject)));
+}
+
+function describeBand(condition: PriceRuleCondition, format: (amount: number) => string): string {
+  const hasMin = condition.min !== null && condition.min !== undefined;
+  const hasMax = condition.max !== null && condition.max !== undefined;
+
+  if (hasMin && hasMax) return `${format(condition.min as number)} – ${format(condition.max as number)}`;
+  if (hasMin) return `≥ ${format(condition.min as number)}`;
+  if (hasMax) return `< ${format(condition.max as number)}`;
+  return "any";
+}
+
+export function describeRuleCondition(condition: PriceRuleCondition): string {
+  const label = RULE_CONDITION_FIELD_LABELS[condition.field];
+
+  switch (condition.field) {
+    case "price":
+      return `${label} ${describeBand(condition, (amount) => `$${amount.toFixed(2)}`)}`;
+    case "inventory":
+      return `${label} ${describeBand(condition, (amount) => `${amount}`)}`;
+    case "tag":
+      return `Tagged "${condition.value}"`;
+    default:
+      return `${label} = ${condition.value}`;
+  }
+}
+
+export function describeRuleAction(step: Pick<PriceRuleStep, "adjustmentType" | "adjustmentValue">): string {
+  return describeAdjustment(step.adjustmentType, step.adjustmentValue);
+}
+
+/**
+ * e.g. "If Price < $20.00 → +$2.00", "Otherwise → +8%"
+ */
+export function describeRuleStep(step: PriceRuleStep, index: number): string {
+  const action = describeRuleAction(step);
+  if (step.conditions.length === 0) {
+    return index === 0 ? `Always → ${action}` : `Otherwise → ${action}`;
+  }
+  return `If ${step.conditions.map(describeRuleCondition).join(" and ")} → ${action}`;
+}
+
+function parseAmount(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const amount = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Read rule steps posted as JSON by the rule editor. Returns null when the
+ * payload isn't a list of steps; the steps still need validatePriceRuleSteps.
+ */
+export function parsePriceRuleSteps(raw: string | null | undefined): PriceRuleStep[] | null {
+  if (!raw) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed)) return null;
+
+  return parsed.map((step: any) => ({
+    conditions: (Array.isArray(step?.conditions) ? step.conditions : []).map((condition: any) => ({
+      field: condition?.field,
+      min: parseAmount(condition?.min),
+      max: parseAmount(condition?.max),
+      value: typeof condition?.value === "string" ? condition.value.trim() : "",
+    })),
+    adjustmentType: step?.adjustmentType,
+    adjustmentValue: parseAmount(step?.adjustmentValue) ?? NaN,
+  }));
+}
@@ -0,0 +1,156 @@
+// app/lib/pricing-jobs.server.test.ts - Running queued jobs against a stubbed Admin API
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import { createPricingJob } from "../models/pricing-job.server";
+import { runQueuedPricingJobs } from "./pricing-jobs.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const shopifyAdmin = vi.hoisted(() => ({ current: null as any }));
+vi.mock("../shopify.server", () => ({
+  unauthenticated: { admin: async () => ({ admin: shopifyAdmin.current }) },
+}));
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "job-runner-test.myshopify.com";
+
+function productId(n: number) {
+  return `gid://shopify/Product/${n}`;
+}
+
+/**
+ * admin.graphql for a shop of `count` products with two variants each at
+ * $20, answering price writes with `bulkUpdate`
+ */
+function stubAdmin(count: number, bulkUpdate: () => any = () => ({ productVariants: [], userErrors: [] })) {
+  const graphql = vi.fn(async (query: string, { variables }: any) => {
+    let data: any;
+    if (query.includes("getProductIds")) {
+      const offset = variables.after ? parseInt(variables.after, 10) : 0;
+      const end = Math.min(count, offset + variables.first);
+      data = {
+        products: {
+          edges: Array.from({ length: end - offset }, (_, i) => ({ node: { id: productId(offset + i + 1) } })),
+          pageInfo: { hasNextPage: end < count, endCursor: String(end) },
+        },
+      };
+    } else if (query.includes("getPricingProducts")) {
+      data = {
+        nodes: variables.ids.map((id: string) => ({
+          id,
+          title: `Product ${id.split("/").pop()}`,
+          variants: {
+            edges: ["S", "M"].map((size) => ({
+              node: {
+                id: `${id.replace("Product", "ProductVariant")}${size}`,
+                title: size,
+                price: "20.00",
+                compareAtPrice: null,
+                selectedOptions: [{ name: "Size", value: size }],
+              },
+            })),
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        })),
+      };
+    } else {
+      data = { productVariantsBulkUpdate: bulkUpdate() };
+    }
+    return { json: async (): Promise<any> => ({ data }) };
+  });
+  return { graphql };
+}
+
+function loadedProductIds(admin: ReturnType<typeof stubAdmin>): string[][] {
+  return admin.graphql.mock.calls
+    .filter(([query]) => query.includes("getPricingProducts"))
+    .map(([, { variables }]: any) => variables.ids);
+}
+
+describe("runQueuedPricingJobs", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("saves only the matching product IDs and loads variants a chunk at a time", async () => {
+    shopifyAdmin.current = stubAdmin(12);
+    const job = await createPricingJob(SHOP, {
+      adjustmentType: "percentage",
+      adjustmentValue: 10,
+      searchQuery: "vendor:'Acme'",
+      variantFilter: { optionName: "Size", optionValues: ["M"] },
+    });
+
+    await runQueuedPricingJobs();
+
+    const finished = await fakeDb.pricingJob.findUnique({ where: { id: job.id } });
+    expect(finished).toMatchObject({
+      status: "succeeded",
+      totalProducts: 12,
+      totalVariants: 12,
+      succeededVariants: 12,
+      cursor: 12,
+    });
+    expect(finished?.productIds).toHaveLength(12);
+    expect(finished?.products).toBeUndefined();
+
+    // Two chunks of products, each loaded just before it's written
+    expect(loadedProductIds(shopifyAdmin.current).flat()).toEqual(
+      Array.from({ length: 12 }, (_, i) => productId(i + 1))
+    );
+    expect(await fakeDb.pricingHistory.count({ where: { batchId: job.batchId } })).toBe(12);
+  });
+
+  it("fails a job none of whose variants match the filter", async () => {
+    shopifyAdmin.current = stubAdmin(3);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const job = await createPricingJob(SHOP, {
+      adjustmentType: "percentage",
+      adjustmentValue: 10,
+      productIds: [productId(1), productId(2), productId(3)],
+      variantFilter: { optionName: "Size", optionValues: ["XL"] },
+    });
+
+    await runQueuedPricingJobs();
+
+    expect(await fakeDb.pricingJob.findUnique({ where: { id: job.id } })).toMatchObject({
+      status: "failed",
+      lastError: "No variants of the selected products match the variant filter",
+    });
+  });
+
+  it("tells webhook consumers about a job that failed part way through", async () => {
+    await fakeDb.webhookEndpoint.create({
+      data: { shop: SHOP, url: "https://example.com/hook", secret: "secret", events: ["batch.completed"] },
+    });
+    const products = Array.from({ length: 12 }, (_, i) => productId(i + 1));
+    shopifyAdmin.current = stubAdmin(12);
+    // The second chunk can't be loaded
+    const graphql = shopifyAdmin.current.graphql.getMockImplementation();
+    shopifyAdmin.current.graphql.mockImplementation(async (query: string, options: any) =>
+      query.includes("getPricingProducts") && options.variables.ids.includes(productId(11))
+        ? { json: async () => ({ errors: [{ message: "Internal error" }] }) }
+        : await graphql(query, options)
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const job = await createPricingJob(SHOP, { adjustmentType: "percentage", adjustmentValue: 10, productIds: products });
+
+    await runQueuedPricingJobs();
+
+    expect((await fakeDb.pricingJob.findUnique({ where: { id: job.id } }))?.status).toBe("failed");
+    const deliveries = await fakeDb.webhookDelivery.findMany({ where: { event: "batch.completed" } });
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].payload.data).toMatchObject({
+      batchId: job.batchId,
+      succeededVariants: 20,
+      failedVariants: 0,
+      error: expect.stringContaining("Internal error"),
+    });
+  });
+});
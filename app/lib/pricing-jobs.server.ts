@@ -0,0 +1,334 @@
+// app/lib/pricing-jobs.server.ts - Background worker for large bulk price updates
+
+import { unauthenticated } from "../shopify.server";
+import {
+  claimPricingJob,
+  findQueuedPricingJobs,
+  getPricingJob,
+  requeueStalePricingJobs,
+  updatePricingJob,
+  MAX_STORED_FAILURES,
+  type PricingJobFailure,
+} from "../models/pricing-job.server";
+import { wouldExceedProductLimit } from "../models/subscription.server";
+import {
+  applyPriceAdjustment,
+  applyVariantFilter,
+  fetchMatchingProductIds,
+  fetchPricingProducts,
+  skipVariantsWithoutCost,
+  type PriceChangeResult,
+  type PricingProduct,
+} from "./pricing.server";
+import { deserializeRoundingRule, isCostBasedAdjustment } from "./pricing";
+import { parseVariantFilter } from "./product-search";
+import type { PriceRule } from "./price-rules";
+import type { PriceListTarget } from "./price-lists";
+import { withPriceListPrices } from "./price-lists.server";
+import { applyPriceRule } from "./price-rules.server";
+import { validatePriceRuleSteps, validatePricingData } from "./validators";
+import { queueBatchCompletedEvent } from "./webhooks.server";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// Running jobs that haven't saved progress for this long are assumed dead
+const STALE_AFTER_MS = 10 * 60 * 1000;
+// How often a worker shows it's alive while a chunk is being written
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Products written between progress saves
+const CHUNK_SIZE = 10;
+
+// Selections larger than this are queued instead of applied in the request
+export const SYNC_VARIANT_LIMIT = 50;
+export const MAX_JOB_PRODUCTS = 10000;
+
+declare global {
+  var __pricingJobWorker__: NodeJS.Timeout | undefined;
+}
+
+let working = false;
+
+/**
+ * Resolve the products of a job queued for a search query and check them
+ * against the quota. Only the IDs are saved, so a resumed job works on the
+ * same products; their variants are loaded a chunk at a time.
+ */
+async function resolveJobProductIds(admin: any, job: any, workerId: string): Promise<string[] | null> {
+  const productIds: string[] = job.productIds
+    ? (job.productIds as string[])
+    : await fetchMatchingProductIds(admin, job.searchQuery || "", MAX_JOB_PRODUCTS + 1);
+  if (productIds.length === 0) {
+    throw new Error("No products match the selected filters");
+  }
+  if (productIds.length > MAX_JOB_PRODUCTS) {
+    throw new Error(`Maximum ${MAX_JOB_PRODUCTS} products can be modified at once`);
+  }
+
+  if (job.priceRule) {
+    const validation = validatePriceRuleSteps((job.priceRule as PriceRule).steps);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(", "));
+    }
+  }
+
+  // Products a resumed job already wrote count towards the quota already
+  if (job.cursor === 0 && (await wouldExceedProductLimit(job.shop, productIds))) {
+    throw new Error(`Updating these ${productIds.length} products would exceed your monthly modification limit`);
+  }
+
+  if (job.productIds) {
+    return productIds;
+  }
+  const owned = await updatePricingJob(job.id, workerId, { productIds, totalProducts: productIds.length });
+  return owned ? productIds : null;
+}
+
+/**
+ * Load one chunk of a job's products with every variant, narrowed to the
+ * variants the job can write. When none are left, says why.
+ */
+async function loadJobChunk(
+  admin: any,
+  job: any,
+  productIds: string[]
+): Promise<{ products: PricingProduct[]; emptyReason: string | null }> {
+  let products = applyVariantFilter(
+    await fetchPricingProducts(admin, productIds),
+    parseVariantFilter(JSON.stringify(job.variantFilter))
+  );
+  if (products.length === 0) {
+    return {
+      products,
+      emptyReason: job.variantFilter
+        ? "No variants of the selected products match the variant filter"
+        : "None of the selected products exist anymore",
+    };
+  }
+
+  const priceList = job.priceList as PriceListTarget | null;
+  if (priceList) {
+    products = (await withPriceListPrices(admin, priceList, products)).products;
+    if (products.length === 0) {
+      return { products, emptyReason: `None of the selected variants have a price in ${priceList.name}` };
+    }
+  }
+
+  if (!job.priceRule && isCostBasedAdjustment(job.adjustmentType)) {
+    const costed = skipVariantsWithoutCost(products);
+    if (costed.skipped > 0) {
+      console.log(`⏭️ Job ${job.id}: skipping ${costed.skipped} variants without a unit cost`);
+    }
+    products = costed.products;
+    if (products.length === 0) {
+      return { products, emptyReason: "None of the selected variants have a unit cost set in Shopify" };
+    }
+  }
+
+  return { products, emptyReason: null };
+}
+
+/**
+ * Load and write one chunk of a job. Variants the adjustment can't be
+ * applied to come back as failed results.
+ */
+async function writeJobChunk(
+  admin: any,
+  job: any,
+  productIds: string[]
+): Promise<{ results: PriceChangeResult[]; emptyReason: string | null }> {
+  const { products, emptyReason } = await loadJobChunk(admin, job, productIds);
+  if (products.length === 0) {
+    return { results: [], emptyReason };
+  }
+
+  const priceList = job.priceList as PriceListTarget | null;
+  if (job.priceRule) {
+    const { results } = await applyPriceRule(
+      admin, job.shop, products, job.priceRule as PriceRule, job.userEmail, job.batchId, priceList
+    );
+    return { results, emptyReason: null };
+  }
+
+  const rounding = deserializeRoundingRule(job.roundingRule);
+  const validation = validatePricingData(products, job.adjustmentType, job.adjustmentValue, { rounding });
+  if (!validation.isValid) {
+    const message = validation.errors.join(", ");
+    return {
+      results: products.flatMap((product) => product.variants.map((variant) => ({
+        variantId: variant.id,
+        variantTitle: variant.title,
+        productTitle: product.title,
+        oldPrice: variant.currentPrice,
+        newPrice: variant.currentPrice,
+        success: false,
+        errors: [{ message }],
+      }))),
+      emptyReason: null,
+    };
+  }
+
+  const { results } = await applyPriceAdjustment(
+    admin,
+    job.shop,
+    products,
+    { adjustmentType: job.adjustmentType, adjustmentValue: job.adjustmentValue, rounding },
+    job.userEmail,
+    job.batchId,
+    priceList
+  );
+  return { results, emptyReason: null };
+}
+
+/**
+ * Run a chunk while touching the job every minute, so a slow chunk isn't
+ * mistaken for a dead worker and handed to another one
+ */
+async function withHeartbeat<T>(jobId: string, workerId: string, work: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    updatePricingJob(jobId, workerId, {}).catch((error) => {
+      console.error(`❌ Pricing job ${jobId} heartbeat failed:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await work();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function processPricingJob(job: any, workerId: string) {
+  const { admin } = await unauthenticated.admin(job.shop);
+  const productIds = await resolveJobProductIds(admin, job, workerId);
+  if (!productIds) {
+    console.warn(`⚠️ Pricing job ${job.id} was claimed by another worker; stopping`);
+    return;
+  }
+  const priceList = job.priceList as PriceListTarget | null;
+
+  let cursor: number = job.cursor;
+  let processedVariants: number = job.processedVariants;
+  let succeededVariants: number = job.succeededVariants;
+  let failedVariants: number = job.failedVariants;
+  const failures: PricingJobFailure[] = (job.failures as PricingJobFailure[] | null) || [];
+  let emptyReason: string | null = null;
+
+  while (cursor < productIds.length) {
+    const chunk = productIds.slice(cursor, cursor + CHUNK_SIZE);
+
+    const written = await withHeartbeat(job.id, workerId, () => writeJobChunk(admin, job, chunk));
+    const results = written.results;
+    emptyReason = emptyReason ?? written.emptyReason;
+
+    for (const result of results) {
+      processedVariants++;
+      if (result.success) {
+        succeededVariants++;
+      } else {
+        failedVariants++;
+        if (failures.length < MAX_STORED_FAILURES) {
+          failures.push({
+            productTitle: result.productTitle,
+            variantTitle: result.variantTitle,
+            message: result.errors.map((e) => e.message).join(", ") || "Unknown error",
+          });
+        }
+      }
+    }
+
+    cursor += chunk.length;
+    const owned = await updatePricingJob(job.id, workerId, {
+      cursor,
+      // Variants are only known once their chunk is loaded
+      totalVariants: processedVariants,
+      processedVariants,
+      succeededVariants,
+      failedVariants,
+      failures,
+    });
+    if (!owned) {
+      console.warn(`⚠️ Pricing job ${job.id} was claimed by another worker; stopping`);
+      return;
+    }
+  }
+
+  if (processedVariants === 0) {
+    throw new Error(emptyReason || "No variants were found to update");
+  }
+
+  const status = failedVariants === 0 ? "succeeded" : succeededVariants === 0 ? "failed" : "partial";
+  if (!(await updatePricingJob(job.id, workerId, { status, finishedAt: new Date() }))) {
+    console.warn(`⚠️ Pricing job ${job.id} was claimed by another worker; stopping`);
+    return;
+  }
+  await queueBatchCompletedEvent(job.shop, {
+    batchId: job.batchId,
+    actionType: job.priceRule ? "price_rule" : job.adjustmentType,
+    succeededVariants,
+    failedVariants,
+    priceList,
+  });
+
+  console.log(`📦 Pricing job ${job.id} for ${job.shop} ${status}: ${succeededVariants}/${processedVariants} variants`);
+}
+
+/**
+ * Work through every queued job. Jobs are claimed before they are processed,
+ * so several processes can run the worker side by side.
+ */
+export async function runQueuedPricingJobs() {
+  if (working) return;
+  working = true;
+
+  try {
+    const requeued = await requeueStalePricingJobs(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`⚠️ Requeued ${requeued} stalled pricing job(s)`);
+    }
+
+    for (const job of await findQueuedPricingJobs()) {
+      const workerId = await claimPricingJob(job.id);
+      if (!workerId) continue;
+
+      try {
+        await processPricingJob(job, workerId);
+      } catch (error: any) {
+        console.error(`❌ Pricing job ${job.id} failed:`, error);
+        const owned = await updatePricingJob(job.id, workerId, {
+          status: "failed",
+          lastError: error.message,
+          finishedAt: new Date(),
+        });
+        if (!owned) continue;
+
+        // Chunks written before the failure are still in the batch
+        const failed = await getPricingJob(job.shop, job.id);
+        await queueBatchCompletedEvent(job.shop, {
+          batchId: job.batchId,
+          actionType: job.priceRule ? "price_rule" : job.adjustmentType,
+          succeededVariants: failed?.succeededVariants ?? 0,
+          failedVariants: failed?.failedVariants ?? 0,
+          priceList: job.priceList as PriceListTarget | null,
+          error: error.message,
+        });
+      }
+    }
+  } finally {
+    working = false;
+  }
+}
+
+/**
+ * Start polling for queued jobs. Only one timer is kept per process, even
+ * across dev server reloads.
+ */
+export function startPricingJobWorker() {
+  if (global.__pricingJobWorker__) return;
+
+  global.__pricingJobWorker__ = setInterval(() => {
+    runQueuedPricingJobs().catch((error) => {
+      console.error("❌ Pricing job worker run failed:", error);
+    });
+  }, POLL_INTERVAL_MS);
+
+  console.log("📦 Pricing job worker started");
+}
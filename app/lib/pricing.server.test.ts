@@ -0,0 +1,146 @@
+// app/lib/pricing.server.test.ts - Undoing batches against a stubbed Admin API
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import { revertPricingBatch } from "./pricing.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "undo-test.myshopify.com";
+const PRICE_LIST_ID = "gid://shopify/PriceList/1";
+const BATCH_ID = "batch-1";
+
+function variantId(n: number) {
+  return `gid://shopify/ProductVariant/${n}`;
+}
+
+/**
+ * admin.graphql with every variant at its new price, both in the price list
+ * and as a base price, answering writes with no user errors
+ */
+function stubAdmin(newPrice: number) {
+  const graphql = vi.fn(async (query: string, { variables }: any) => {
+    let data: any;
+    if (query.includes("getPriceListPrices")) {
+      const ids = variables.query.split(" OR ").map((term: string) => variantId(Number(term.split(":")[1])));
+      data = {
+        priceList: {
+          prices: {
+            nodes: ids.map((id: string) => ({
+              variant: { id },
+              price: { amount: newPrice.toFixed(2), currencyCode: "EUR" },
+              compareAtPrice: null,
+              originType: "FIXED",
+            })),
+          },
+        },
+      };
+    } else if (query.includes("getVariantPrices")) {
+      data = {
+        nodes: variables.ids.map((id: string) => ({
+          id,
+          price: newPrice.toFixed(2),
+          compareAtPrice: null,
+          inventoryItem: null,
+          product: { id: "gid://shopify/Product/1" },
+        })),
+      };
+    } else if (query.includes("priceListFixedPricesDelete")) {
+      data = { priceListFixedPricesDelete: { deletedFixedPriceVariantIds: variables.variantIds, userErrors: [] } };
+    } else if (query.includes("priceListFixedPricesAdd")) {
+      data = { priceListFixedPricesAdd: { prices: [], userErrors: [] } };
+    } else {
+      data = { productVariantsBulkUpdate: { productVariants: [], userErrors: [] } };
+    }
+    return { json: async (): Promise<any> => ({ data }) };
+  });
+  return { graphql };
+}
+
+function calls(admin: ReturnType<typeof stubAdmin>, operation: string) {
+  return admin.graphql.mock.calls
+    .filter(([query]) => query.includes(operation))
+    .map(([, { variables }]: any) => variables);
+}
+
+async function seedBatch(variants: Array<{ n: number; oldPriceFixed?: boolean | null }>, priceListId: string | null) {
+  await fakeDb.pricingHistory.createMany({
+    data: variants.map(({ n, oldPriceFixed }) => ({
+      shop: SHOP,
+      batchId: BATCH_ID,
+      productId: "gid://shopify/Product/1",
+      productTitle: "Shirt",
+      variantId: variantId(n),
+      variantTitle: `Size ${n}`,
+      actionType: "percentage",
+      adjustmentValue: 10,
+      oldPrice: 20,
+      newPrice: 22,
+      oldCompareAtPrice: null,
+      newCompareAtPrice: null,
+      priceListId,
+      market: priceListId ? "Europe" : null,
+      currency: priceListId ? "EUR" : null,
+      oldPriceFixed: oldPriceFixed ?? null,
+      createdAt: new Date(),
+    })),
+  });
+}
+
+describe("revertPricingBatch", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("drops the fixed price of market prices that were worked out from the base price", async () => {
+    await seedBatch([{ n: 1, oldPriceFixed: false }, { n: 2, oldPriceFixed: true }, { n: 3 }], PRICE_LIST_ID);
+    const admin = stubAdmin(22);
+
+    const result = await revertPricingBatch(admin, SHOP, BATCH_ID);
+
+    expect(result).toMatchObject({ success: true, reverted: 3, failed: 0 });
+    expect(calls(admin, "priceListFixedPricesDelete")).toEqual([
+      { priceListId: PRICE_LIST_ID, variantIds: [variantId(1)] },
+    ]);
+    // Older rows without the flag keep their old fixed price
+    expect(calls(admin, "priceListFixedPricesAdd")).toHaveLength(1);
+    expect(calls(admin, "priceListFixedPricesAdd")[0].prices.map((price: any) => price.variantId)).toEqual([
+      variantId(2),
+      variantId(3),
+    ]);
+  });
+
+  it("lets only one of two overlapping undos of a batch write prices", async () => {
+    await seedBatch([{ n: 1 }, { n: 2 }], null);
+    const admin = stubAdmin(22);
+
+    const results = await Promise.all([
+      revertPricingBatch(admin, SHOP, BATCH_ID),
+      revertPricingBatch(admin, SHOP, BATCH_ID),
+    ]);
+
+    expect(results.map((result) => result.success).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.success)?.error).toBe("This batch has already been undone");
+    expect(calls(admin, "productVariantsBulkUpdate")).toHaveLength(1);
+    expect(await fakeDb.pricingHistory.count({ where: { revertedBatchId: BATCH_ID } })).toBe(2);
+  });
+
+  it("frees the batch for another try when nothing could be written back", async () => {
+    await seedBatch([{ n: 1 }], null);
+    const failing = stubAdmin(22);
+    failing.graphql.mockImplementation(async (query: string, options: any) => {
+      if (!query.includes("productVariantsBulkUpdate")) return await stubAdmin(22).graphql(query, options);
+      return { json: async () => ({ errors: [{ message: "Internal error" }] }) };
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await revertPricingBatch(failing, SHOP, BATCH_ID)).success).toBe(false);
+    expect((await revertPricingBatch(stubAdmin(22), SHOP, BATCH_ID)).success).toBe(true);
+  });
+});
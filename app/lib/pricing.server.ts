@@ -0,0 +1,1239 @@
+// app/lib/pricing.server.ts - Writing variant prices to Shopify and undoing batches
+import { ADD_PRICE_LIST_FIXED_PRICES, DELETE_PRICE_LIST_FIXED_PRICES } from "../graphql/mutations/price-lists";
+import { UPDATE_PRODUCT_VARIANTS_BULK } from "../graphql/mutations/products";
+import { GET_PRICE_LIST_PRICES } from "../graphql/queries/price-lists";
+import {
+  GET_PRICING_PRODUCTS,
+  GET_PRODUCT_IDS,
+  GET_PRODUCT_VARIANTS,
+  GET_VARIANT_PRICES,
+} from "../graphql/queries/products";
+import { getPriceGuardrails } from "../models/shop-settings.server";
+import { releaseProductQuota, reserveProductQuota, trackAllProductModifications } from "../models/subscription.server";
+import {
+  claimBatchRevert,
+  createBatchId,
+  getBatchEntries,
+  isBatchReverted,
+  recordPriceHistory,
+  releaseBatchRevert,
+  type PriceHistoryEntry,
+} from "../models/pricing-history.server";
+import { createUserFriendlyError } from "./error-handler";
+import { queueBatchCompletedEvent, queueVariantPriceEvents } from "./webhooks.server";
+import {
+  checkPriceGuardrails,
+  guardrailsForPriceList,
+  GUARDRAIL_ERROR_FIELD,
+  type PriceGuardrails,
+} from "./guardrails";
+import type { PriceListTarget } from "./price-lists";
+import {
+  calculateAdjustedPrices,
+  changesCompareAtPrice,
+  serializeRoundingRule,
+  MIN_PRICE,
+  type RoundingRule,
+} from "./pricing";
+import { matchesVariantFilter, type VariantFilter } from "./product-search";
+import { validatePriceRange } from "./validators";
+
+export interface PricingProduct {
+  id: string;
+  title: string;
+  // Loaded from Shopify for price rules and imports; absent on selections sent by the page
+  handle?: string;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+  variants: Array<{
+    id: string;
+    title: string;
+    sku?: string | null;
+    currentPrice: number;
+    compareAtPrice?: number | null;
+    inventoryQuantity?: number | null;
+    unitCost?: number | null;
+    selectedOptions?: Array<{ name: string; value: string }>;
+    // Set when currentPrice came from a price list: false when the list
+    // works the price out from the base price rather than fixing it
+    fixedListPrice?: boolean;
+  }>;
+}
+
+export interface PriceChangeResult {
+  variantId: string;
+  variantTitle: string;
+  productTitle: string;
+  oldPrice: number;
+  newPrice: number;
+  oldCompareAtPrice?: number | null;
+  newCompareAtPrice?: number | null;
+  unitCost?: number | null;
+  oldPriceFixed?: boolean;
+  success: boolean;
+  errors: Array<{ field?: string; message: string }>;
+}
+
+export interface PriceAdjustmentOutcome {
+  results: PriceChangeResult[];
+  batchId: string;
+  successfulProductIds: string[];
+}
+
+export interface PricePreviewRow {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  oldPrice: number;
+  newPrice: number;
+  oldCompareAtPrice: number | null;
+  newCompareAtPrice: number | null;
+  unitCost: number | null;
+  warnings: string[];
+}
+
+export interface PricePreview {
+  rows: PricePreviewRow[];
+  // Totals always cover every variant, even when rows are truncated
+  totals: {
+    products: number;
+    variants: number;
+    increased: number;
+    decreased: number;
+    unchanged: number;
+    withWarnings: number;
+    // Variants the shop's guardrails would reject
+    blocked: number;
+    oldTotal: number;
+    newTotal: number;
+  };
+  truncated: boolean;
+}
+
+/**
+ * Prices already worked out for one product's variants, ready to write
+ */
+export interface PlannedProductChange {
+  productId: string;
+  productTitle: string;
+  vendor?: string | null;
+  variants: Array<{
+    id: string;
+    title: string;
+    oldPrice: number;
+    newPrice: number;
+    oldCompareAtPrice: number | null;
+    newCompareAtPrice: number | null;
+    // false leaves the compare-at price in Shopify untouched
+    writeCompareAt: boolean;
+    unitCost?: number | null;
+    // Whether the old price-list price was fixed; see PricingProduct
+    oldPriceFixed?: boolean;
+  }>;
+}
+
+export interface VariantPriceUpdate {
+  id: string;
+  price: string;
+  // Omit to leave unchanged, null to clear
+  compareAtPrice?: string | null;
+}
+
+export interface VariantUpdateResult {
+  variantId: string;
+  success: boolean;
+  errors: Array<{ field?: string; message: string }>;
+}
+
+export interface RevertResult {
+  success: boolean;
+  revertBatchId?: string;
+  reverted: number;
+  skipped: Array<{ variantId: string; productTitle: string; variantTitle: string; reason: string }>;
+  failed: number;
+  error?: string;
+}
+
+// Shopify accepts at most 250 IDs per nodes() lookup
+const NODES_PAGE_SIZE = 250;
+
+// Product IDs fetched per search page
+const MATCHING_PAGE_SIZE = 250;
+
+// Products loaded per GET_PRICING_PRODUCTS call, keeping it under the query cost limit
+const PRICING_PRODUCTS_BATCH_SIZE = 5;
+
+// Variants looked up per price list prices query, one search term each
+const PRICE_LIST_LOOKUP_SIZE = 50;
+
+// priceListFixedPricesAdd takes at most 250 prices per call
+const PRICE_LIST_WRITE_SIZE = 250;
+
+// Shopify allows at most 2,048 variants per product
+const MAX_VARIANTS_PER_PRODUCT = 2048;
+
+// Throttled mutations are retried with exponential backoff: 1s, 2s, 4s
+const MAX_THROTTLE_RETRIES = 3;
+const THROTTLE_BACKOFF_MS = 1000;
+
+function isThrottled(errors: any[] | undefined): boolean {
+  return (errors || []).some((error: any) =>
+    error?.extensions?.code === "THROTTLED" || /throttled/i.test(error?.message || "")
+  );
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a GraphQL call, waiting and retrying while Shopify reports the shop's
+ * API budget as exhausted
+ */
+export async function graphqlWithRetry(admin: any, query: string, variables: any): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    let result: any;
+    try {
+      const response = await admin.graphql(query, { variables });
+      result = await response.json();
+    } catch (error: any) {
+      // The admin client throws on GraphQL errors in some versions
+      const errors = error?.body?.errors?.graphQLErrors || [{ message: error?.message }];
+      if (!isThrottled(errors) || attempt >= MAX_THROTTLE_RETRIES) throw error;
+      result = null;
+    }
+
+    if (result && (!isThrottled(result.errors) || attempt >= MAX_THROTTLE_RETRIES)) {
+      return result;
+    }
+
+    const delay = THROTTLE_BACKOFF_MS * 2 ** attempt;
+    console.warn(`⏳ Shopify API throttled, retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+function samePrice(a: number | null, b: number | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Math.abs(a - b) < 0.005;
+}
+
+function fieldMatchesVariant(field: any, index: number, listName: string = "variants"): boolean {
+  if (Array.isArray(field)) {
+    return field[0] === listName && field[1] === String(index);
+  }
+  return typeof field === "string" && field.includes(`${listName}[${index}]`);
+}
+
+/**
+ * Run productVariantsBulkUpdate for one product and map the response back to
+ * one result per requested variant (same order as `variants`)
+ */
+export async function updateProductVariantPrices(
+  admin: any,
+  productId: string,
+  variants: VariantPriceUpdate[]
+): Promise<VariantUpdateResult[]> {
+  const result = await graphqlWithRetry(admin, UPDATE_PRODUCT_VARIANTS_BULK, { productId, variants });
+
+  if (result.errors && result.errors.length > 0) {
+    const message = result.errors.map((error: any) => error.message).join(", ");
+    return variants.map((variant) => ({
+      variantId: variant.id,
+      success: false,
+      errors: [{ message }],
+    }));
+  }
+
+  const bulkResult = result.data?.productVariantsBulkUpdate;
+  if (!bulkResult) {
+    return variants.map((variant) => ({
+      variantId: variant.id,
+      success: false,
+      errors: [{ message: "Unexpected response from Shopify API" }],
+    }));
+  }
+
+  const userErrors = bulkResult.userErrors || [];
+
+  return variants.map((variant, index) => {
+    const variantErrors = userErrors.filter((error: any) => fieldMatchesVariant(error.field, index));
+    return {
+      variantId: variant.id,
+      success: variantErrors.length === 0,
+      errors: variantErrors,
+    };
+  });
+}
+
+/**
+ * Write fixed prices to a price list, one result per requested variant (same
+ * order as `variants`). A fixed price is replaced whole, so callers always
+ * send the compare-at price they want kept.
+ */
+export async function updatePriceListPrices(
+  admin: any,
+  priceList: PriceListTarget,
+  variants: VariantPriceUpdate[]
+): Promise<VariantUpdateResult[]> {
+  const results: VariantUpdateResult[] = [];
+
+  for (let i = 0; i < variants.length; i += PRICE_LIST_WRITE_SIZE) {
+    const chunk = variants.slice(i, i + PRICE_LIST_WRITE_SIZE);
+    const result = await graphqlWithRetry(admin, ADD_PRICE_LIST_FIXED_PRICES, {
+      priceListId: priceList.id,
+      prices: chunk.map((variant) => ({
+        variantId: variant.id,
+        price: { amount: variant.price, currencyCode: priceList.currency },
+        compareAtPrice: variant.compareAtPrice
+          ? { amount: variant.compareAtPrice, currencyCode: priceList.currency }
+          : null,
+      })),
+    });
+
+    const payload = result.data?.priceListFixedPricesAdd;
+    if ((result.errors && result.errors.length > 0) || !payload) {
+      const message = result.errors?.map((error: any) => error.message).join(", ") || "Unexpected response from Shopify API";
+      results.push(...chunk.map((variant) => ({ variantId: variant.id, success: false, errors: [{ message }] })));
+      continue;
+    }
+
+    const userErrors = payload.userErrors || [];
+    results.push(...chunk.map((variant, index) => {
+      const variantErrors = userErrors.filter((error: any) => fieldMatchesVariant(error.field, index, "prices"));
+      return {
+        variantId: variant.id,
+        success: variantErrors.length === 0,
+        errors: variantErrors,
+      };
+    }));
+  }
+
+  return results;
+}
+
+/**
+ * Remove fixed prices from a price list, so the list works those variants'
+ * prices out from the base price again. One result per requested variant
+ * (same order as `variantIds`).
+ */
+export async function deletePriceListPrices(
+  admin: any,
+  priceList: PriceListTarget,
+  variantIds: string[]
+): Promise<VariantUpdateResult[]> {
+  const results: VariantUpdateResult[] = [];
+
+  for (let i = 0; i < variantIds.length; i += PRICE_LIST_WRITE_SIZE) {
+    const chunk = variantIds.slice(i, i + PRICE_LIST_WRITE_SIZE);
+    const result = await graphqlWithRetry(admin, DELETE_PRICE_LIST_FIXED_PRICES, {
+      priceListId: priceList.id,
+      variantIds: chunk,
+    });
+
+    const payload = result.data?.priceListFixedPricesDelete;
+    if ((result.errors && result.errors.length > 0) || !payload) {
+      const message = result.errors?.map((error: any) => error.message).join(", ") || "Unexpected response from Shopify API";
+      results.push(...chunk.map((variantId) => ({ variantId, success: false, errors: [{ message }] })));
+      continue;
+    }
+
+    const userErrors = payload.userErrors || [];
+    results.push(...chunk.map((variantId, index) => {
+      const variantErrors = userErrors.filter((error: any) => fieldMatchesVariant(error.field, index, "variantIds"));
+      return { variantId, success: variantErrors.length === 0, errors: variantErrors };
+    }));
+  }
+
+  return results;
+}
+
+function toPricingVariant(node: any): PricingProduct["variants"][number] {
+  return {
+    id: node.id,
+    title: node.title,
+    sku: node.sku || null,
+    currentPrice: parseFloat(node.price),
+    compareAtPrice: node.compareAtPrice ? parseFloat(node.compareAtPrice) : null,
+    inventoryQuantity: node.inventoryQuantity ?? null,
+    unitCost: node.inventoryItem?.unitCost ? parseFloat(node.inventoryItem.unitCost.amount) : null,
+    selectedOptions: node.selectedOptions || [],
+  };
+}
+
+/**
+ * Load the variants after the first page of a product, 100 at a time
+ */
+async function fetchRemainingVariants(admin: any, productId: string, after: string) {
+  const variants: PricingProduct["variants"] = [];
+  let cursor: string | null = after;
+
+  while (cursor && variants.length < MAX_VARIANTS_PER_PRODUCT) {
+    const result = await graphqlWithRetry(admin, GET_PRODUCT_VARIANTS, { id: productId, after: cursor });
+    const connection = result.data?.product?.variants;
+
+    if (!connection) {
+      throw new Error(`GraphQL error loading variants of ${productId}: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    connection.edges.forEach((edge: any) => variants.push(toPricingVariant(edge.node)));
+    cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  }
+
+  return variants;
+}
+
+/**
+ * Load products with every one of their variants and current prices, in the
+ * shape the pricing action works with. Products that no longer exist are
+ * left out; the rest keep the order of `productIds`.
+ */
+export async function fetchPricingProducts(admin: any, productIds: string[]): Promise<PricingProduct[]> {
+  const products: PricingProduct[] = [];
+
+  for (let i = 0; i < productIds.length; i += PRICING_PRODUCTS_BATCH_SIZE) {
+    const ids = productIds.slice(i, i + PRICING_PRODUCTS_BATCH_SIZE);
+    const result = await graphqlWithRetry(admin, GET_PRICING_PRODUCTS, { ids });
+
+    if (!result.data?.nodes) {
+      throw new Error(`GraphQL error loading products: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    for (const [index, node] of result.data.nodes.entries()) {
+      if (!node?.variants) {
+        console.warn(`⚠️ Product ${ids[index]} not found`);
+        continue;
+      }
+
+      const variants = node.variants.edges.map((edge: any) => toPricingVariant(edge.node));
+      if (node.variants.pageInfo.hasNextPage) {
+        variants.push(...(await fetchRemainingVariants(admin, node.id, node.variants.pageInfo.endCursor)));
+      }
+
+      products.push({
+        id: node.id,
+        title: node.title,
+        handle: node.handle,
+        vendor: node.vendor || "",
+        productType: node.productType || "",
+        tags: node.tags || [],
+        variants,
+      });
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Walk every page of products matching a search query (see
+ * lib/product-search.ts) and return their IDs. Stops early once `limit`
+ * products have been found.
+ */
+export async function fetchMatchingProductIds(admin: any, query: string, limit: number = Infinity): Promise<string[]> {
+  const productIds: string[] = [];
+  let after: string | null = null;
+
+  do {
+    const result = await graphqlWithRetry(admin, GET_PRODUCT_IDS, {
+      first: Math.min(MATCHING_PAGE_SIZE, limit - productIds.length),
+      after,
+      query: query || null,
+    });
+    const connection = result.data?.products;
+
+    if (!connection) {
+      throw new Error(`GraphQL error loading matching products: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    connection.edges.forEach((edge: any) => productIds.push(edge.node.id));
+    after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  } while (after && productIds.length < limit);
+
+  console.log(`📋 Resolved ${productIds.length} products matching "${query}"`);
+  return productIds;
+}
+
+/**
+ * Load every product matching a search query, with all their variants, ready
+ * for applyPriceAdjustment. Stops early once `limit` products have been loaded.
+ */
+export async function fetchMatchingPricingProducts(
+  admin: any,
+  query: string,
+  limit: number = Infinity
+): Promise<PricingProduct[]> {
+  return await fetchPricingProducts(admin, await fetchMatchingProductIds(admin, query, limit));
+}
+
+/**
+ * Drop variants without a unit cost, which cost-based adjustments can't
+ * price, along with products left with no variants
+ */
+export function skipVariantsWithoutCost(products: PricingProduct[]): { products: PricingProduct[]; skipped: number } {
+  let skipped = 0;
+
+  const costed = products
+    .map((product) => {
+      const variants = product.variants.filter((variant) => variant.unitCost !== null && variant.unitCost !== undefined);
+      skipped += product.variants.length - variants.length;
+      return { ...product, variants };
+    })
+    .filter((product) => product.variants.length > 0);
+
+  return { products: costed, skipped };
+}
+
+/**
+ * Keep only the variants a variant filter selects, dropping products left
+ * with none. Without a filter every variant is kept.
+ */
+export function applyVariantFilter(products: PricingProduct[], filter: VariantFilter | null): PricingProduct[] {
+  if (!filter) return products;
+
+  return products
+    .map((product) => ({
+      ...product,
+      variants: product.variants.filter((variant) => matchesVariantFilter(variant.selectedOptions, filter)),
+    }))
+    .filter((product) => product.variants.length > 0);
+}
+
+// Variant rows sent back to the browser for a preview
+const PREVIEW_ROW_LIMIT = 500;
+
+/**
+ * Work out the new prices of every variant of a product for one adjustment
+ */
+function planProductAdjustment(
+  product: PricingProduct,
+  adjustment: { adjustmentType: string; adjustmentValue: number; rounding?: RoundingRule }
+): PlannedProductChange {
+  const { adjustmentType, adjustmentValue, rounding } = adjustment;
+  const writesCompareAt = changesCompareAtPrice(adjustmentType);
+
+  return {
+    productId: product.id,
+    productTitle: product.title,
+    vendor: product.vendor ?? null,
+    variants: (product.variants || []).map((variant) => {
+      const oldCompareAtPrice = variant.compareAtPrice ?? null;
+      const next = calculateAdjustedPrices(
+        { price: variant.currentPrice, compareAtPrice: oldCompareAtPrice, unitCost: variant.unitCost },
+        adjustmentType,
+        adjustmentValue,
+        rounding
+      );
+      return {
+        id: variant.id,
+        title: variant.title,
+        oldPrice: variant.currentPrice,
+        newPrice: next.price,
+        oldCompareAtPrice,
+        newCompareAtPrice: next.compareAtPrice,
+        writeCompareAt: writesCompareAt,
+        unitCost: variant.unitCost ?? null,
+        oldPriceFixed: variant.fixedListPrice,
+      };
+    }),
+  };
+}
+
+/**
+ * Summarise planned changes for a dry run, flagging prices worth a second
+ * look. Nothing is sent to Shopify and no quota is used.
+ */
+export function previewPlannedChanges(plans: PlannedProductChange[], guardrails?: PriceGuardrails): PricePreview {
+  const rows: PricePreviewRow[] = [];
+  const totals = {
+    products: plans.length,
+    variants: 0,
+    increased: 0,
+    decreased: 0,
+    unchanged: 0,
+    withWarnings: 0,
+    blocked: 0,
+    oldTotal: 0,
+    newTotal: 0,
+  };
+
+  for (const plan of plans) {
+    for (const variant of plan.variants) {
+      const warnings = [...validatePriceRange(variant.newPrice, variant.oldPrice).errors];
+      const rejection = guardrails ? checkPriceGuardrails(guardrails, variant) : null;
+      if (rejection) {
+        warnings.unshift(`Blocked by guardrails: ${rejection}`);
+        totals.blocked++;
+      }
+      if (variant.newPrice === MIN_PRICE && variant.oldPrice > MIN_PRICE) {
+        warnings.push(`Price would be floored at $${MIN_PRICE.toFixed(2)}`);
+      }
+      if (variant.newCompareAtPrice !== null && variant.newCompareAtPrice <= variant.newPrice) {
+        warnings.push("Compare-at price is not above the new price, so no sale will show");
+      }
+
+      totals.variants++;
+      totals.oldTotal += variant.oldPrice;
+      totals.newTotal += variant.newPrice;
+      if (variant.newPrice > variant.oldPrice) totals.increased++;
+      else if (variant.newPrice < variant.oldPrice) totals.decreased++;
+      else totals.unchanged++;
+      if (warnings.length > 0) totals.withWarnings++;
+
+      if (rows.length < PREVIEW_ROW_LIMIT) {
+        rows.push({
+          productId: plan.productId,
+          productTitle: plan.productTitle,
+          variantId: variant.id,
+          variantTitle: variant.title,
+          oldPrice: variant.oldPrice,
+          newPrice: variant.newPrice,
+          oldCompareAtPrice: variant.oldCompareAtPrice,
+          newCompareAtPrice: variant.newCompareAtPrice,
+          unitCost: variant.unitCost ?? null,
+          warnings,
+        });
+      }
+    }
+  }
+
+  totals.oldTotal = Math.round(totals.oldTotal * 100) / 100;
+  totals.newTotal = Math.round(totals.newTotal * 100) / 100;
+
+  return { rows, totals, truncated: totals.variants > rows.length };
+}
+
+/**
+ * Work out what applyPriceAdjustment would write, without calling Shopify or
+ * touching quota. Uses the same price calculation so the preview can't drift
+ * from the real run.
+ */
+export function previewPriceAdjustment(
+  products: PricingProduct[],
+  adjustment: { adjustmentType: string; adjustmentValue: number; rounding?: RoundingRule },
+  guardrails?: PriceGuardrails
+): PricePreview {
+  return previewPlannedChanges(products.map((product) => planProductAdjustment(product, adjustment)), guardrails);
+}
+
+/**
+ * Split planned changes into the ones the shop's guardrails allow and a
+ * failed result, with the reason, for each variant they reject. Unit costs
+ * the plans didn't load are fetched when the shop never sells below cost.
+ */
+async function enforcePriceGuardrails(
+  admin: any,
+  shop: string,
+  plans: PlannedProductChange[],
+  priceList: PriceListTarget | null
+): Promise<{ allowed: PlannedProductChange[]; rejected: PriceChangeResult[] }> {
+  const shopGuardrails = await getPriceGuardrails(shop);
+  const guardrails = priceList ? guardrailsForPriceList(shopGuardrails) : shopGuardrails;
+
+  let costs = new Map<string, number | null>();
+  if (guardrails.neverBelowCost) {
+    const missing = plans.flatMap((plan) => plan.variants.filter((v) => v.unitCost === undefined).map((v) => v.id));
+    if (missing.length > 0) {
+      const current = await getCurrentVariantPrices(admin, missing);
+      costs = new Map(Array.from(current, ([id, prices]) => [id, prices.unitCost]));
+    }
+  }
+
+  const allowed: PlannedProductChange[] = [];
+  const rejected: PriceChangeResult[] = [];
+
+  for (const plan of plans) {
+    const variants = plan.variants.filter((variant) => {
+      const unitCost = variant.unitCost !== undefined ? variant.unitCost : costs.get(variant.id);
+      const reason = checkPriceGuardrails(guardrails, { ...variant, unitCost });
+      if (!reason) return true;
+
+      rejected.push({
+        variantId: variant.id,
+        variantTitle: variant.title,
+        productTitle: plan.productTitle,
+        oldPrice: variant.oldPrice,
+        newPrice: variant.newPrice,
+        oldCompareAtPrice: variant.oldCompareAtPrice,
+        newCompareAtPrice: variant.newCompareAtPrice,
+        unitCost,
+        success: false,
+        errors: [{ field: GUARDRAIL_ERROR_FIELD, message: reason }],
+      });
+      return false;
+    });
+
+    if (variants.length > 0) {
+      allowed.push({ ...plan, variants });
+    }
+  }
+
+  if (rejected.length > 0) {
+    console.log(`🛡️ Guardrails rejected ${rejected.length} price change(s) for ${shop}`);
+  }
+
+  return { allowed, rejected };
+}
+
+/**
+ * Reserve quota, write already-calculated prices to Shopify, then track
+ * quota usage and record the successful changes as a single history batch.
+ * Every bulk write (adjustments, imports) goes through here so quota and
+ * history stay in step. Changes the shop's guardrails reject, or that don't
+ * fit in the quota, are returned as failed results with the reason and
+ * never sent to Shopify.
+ *
+ * Given a batchId, the changes are added to that batch and the caller sends
+ * the batch.completed webhook once it's done, as background jobs do.
+ */
+export async function applyPlannedPriceChanges(
+  admin: any,
+  shop: string,
+  plans: PlannedProductChange[],
+  details: {
+    actionType: string;
+    adjustmentValue: number;
+    roundingRule?: string | null;
+    userEmail?: string | null;
+    batchId?: string;
+    // Write to this market price list instead of the variants' base prices
+    priceList?: PriceListTarget | null;
+  }
+): Promise<PriceAdjustmentOutcome> {
+  const batchId = details.batchId ?? createBatchId();
+  const priceList = details.priceList ?? null;
+  const guarded = await enforcePriceGuardrails(admin, shop, plans, priceList);
+  const results: PriceChangeResult[] = [...guarded.rejected];
+
+  // Checks done before now were only a preview; this is what stops batches
+  // running side by side from passing the limit together
+  const reservation = await reserveProductQuota(shop, guarded.allowed.map((plan) => plan.productId));
+  const allowed = reservation.reserved ? guarded.allowed : [];
+  if (!reservation.reserved) {
+    const message = `This would take you past your monthly limit of ${reservation.limit} products, counting other updates still running. Upgrade your plan or select fewer products.`;
+    for (const plan of guarded.allowed) {
+      for (const variant of plan.variants) {
+        results.push({
+          variantId: variant.id,
+          variantTitle: variant.title,
+          productTitle: plan.productTitle,
+          oldPrice: variant.oldPrice,
+          newPrice: variant.newPrice,
+          success: false,
+          errors: [{ message }],
+        });
+      }
+    }
+  }
+  const productIdByVariant = new Map<string, string>();
+  const vendorByProduct = new Map(plans.map((plan) => [plan.productId, plan.vendor ?? null]));
+
+  for (const plan of allowed) {
+    try {
+      const variantsToUpdate: VariantPriceUpdate[] = plan.variants.map((variant) => ({
+        id: variant.id,
+        price: variant.newPrice.toFixed(2),
+        ...(variant.writeCompareAt && {
+          compareAtPrice: variant.newCompareAtPrice === null ? null : variant.newCompareAtPrice.toFixed(2),
+        }),
+      }));
+
+      console.log(`🚀 Updating ${variantsToUpdate.length} variants for ${plan.productTitle}${priceList ? ` in ${priceList.name}` : ""}`);
+
+      const updateResults = priceList
+        ? await updatePriceListPrices(admin, priceList, plan.variants.map((variant) => {
+            const compareAtPrice = variant.writeCompareAt ? variant.newCompareAtPrice : variant.oldCompareAtPrice;
+            return {
+              id: variant.id,
+              price: variant.newPrice.toFixed(2),
+              compareAtPrice: compareAtPrice === null ? null : compareAtPrice.toFixed(2),
+            };
+          }))
+        : await updateProductVariantPrices(admin, plan.productId, variantsToUpdate);
+
+      updateResults.forEach((updateResult, index) => {
+        const variant = plan.variants[index];
+        productIdByVariant.set(updateResult.variantId, plan.productId);
+        results.push({
+          variantId: updateResult.variantId,
+          variantTitle: variant.title,
+          productTitle: plan.productTitle,
+          oldPrice: variant.oldPrice,
+          newPrice: variant.newPrice,
+          oldCompareAtPrice: variant.oldCompareAtPrice,
+          newCompareAtPrice: variant.newCompareAtPrice,
+          unitCost: variant.unitCost ?? null,
+          oldPriceFixed: variant.oldPriceFixed,
+          success: updateResult.success,
+          errors: updateResult.errors,
+        });
+      });
+
+      if (updateResults.every((updateResult) => updateResult.success)) {
+        console.log(`✅ Successfully updated product: ${plan.productTitle}`);
+      } else {
+        console.warn(`⚠️ Partial success for product ${plan.productTitle}`);
+      }
+    } catch (productError: any) {
+      console.error(`❌ Error processing product ${plan.productTitle}:`, productError);
+
+      results.push({
+        variantId: 'unknown',
+        variantTitle: 'Error',
+        productTitle: plan.productTitle,
+        oldPrice: 0,
+        newPrice: 0,
+        success: false,
+        errors: [{ message: createUserFriendlyError(productError, `updating ${plan.productTitle}`) }],
+      });
+    }
+  }
+
+  const successfulUpdates = results.filter((result) => result.success);
+  console.log(`📊 Results: ${successfulUpdates.length} successful, ${results.length - successfulUpdates.length} failed`);
+
+  const successfulProductIds = Array.from(new Set(
+    successfulUpdates.map((result) => productIdByVariant.get(result.variantId) as string)
+  ));
+
+  // Each product counts once per period, however many variants changed
+  if (successfulProductIds.length > 0) {
+    console.log(`📋 Tracking ${successfulProductIds.length} product modifications`);
+
+    const titleByProduct = new Map(plans.map((plan) => [plan.productId, plan.productTitle]));
+    const withinLimit = await trackAllProductModifications(
+      shop,
+      successfulProductIds.map((id) => ({ id, title: titleByProduct.get(id) || "" }))
+    );
+    if (!withinLimit) {
+      console.warn("⚠️ Monthly product limit was passed during processing");
+    }
+  }
+
+  // Products whose variants all failed go back to the quota. If anything
+  // above threw, the reservation simply expires.
+  if (reservation.reserved) {
+    await releaseProductQuota(reservation.reservationId);
+  }
+
+  if (successfulUpdates.length > 0) {
+    const entries: PriceHistoryEntry[] = successfulUpdates.map((result) => ({
+      productId: productIdByVariant.get(result.variantId) as string,
+      variantId: result.variantId,
+      productTitle: result.productTitle,
+      variantTitle: result.variantTitle,
+      oldPrice: result.oldPrice,
+      newPrice: result.newPrice,
+      oldCompareAtPrice: result.oldCompareAtPrice,
+      newCompareAtPrice: result.newCompareAtPrice,
+      unitCost: result.unitCost,
+      oldPriceFixed: result.oldPriceFixed,
+      vendor: vendorByProduct.get(productIdByVariant.get(result.variantId) as string),
+    }));
+
+    try {
+      console.log(`💾 Saving ${successfulUpdates.length} records to history (batch ${batchId})`);
+
+      await recordPriceHistory(
+        shop,
+        batchId,
+        entries,
+        {
+          actionType: details.actionType,
+          adjustmentValue: details.adjustmentValue,
+          userEmail: details.userEmail,
+          roundingRule: details.roundingRule,
+          priceList,
+        }
+      );
+
+      console.log(`✅ History saved successfully`);
+    } catch (historyError) {
+      // Don't fail the whole operation for history save errors
+      console.error("❌ History save error (non-critical):", historyError);
+    }
+
+    await queueVariantPriceEvents(shop, { batchId, actionType: details.actionType, priceList }, entries);
+  }
+
+  if (!details.batchId) {
+    await queueBatchCompletedEvent(shop, {
+      batchId,
+      actionType: details.actionType,
+      succeededVariants: successfulUpdates.length,
+      failedVariants: results.length - successfulUpdates.length,
+      priceList,
+    });
+  }
+
+  return { results, batchId, successfulProductIds };
+}
+
+/**
+ * Apply one adjustment to every variant of the given products through
+ * applyPlannedPriceChanges. Callers are expected to have validated the
+ * adjustment and checked quota. Pass a batchId to add the changes to an
+ * existing batch, e.g. when a background job works through a large
+ * selection in chunks; the caller then sends batch.completed. Without one
+ * the changes get their own batch and the event is sent here. Pass a
+ * priceList to write market prices instead of base prices.
+ */
+export async function applyPriceAdjustment(
+  admin: any,
+  shop: string,
+  products: PricingProduct[],
+  adjustment: { adjustmentType: string; adjustmentValue: number; rounding?: RoundingRule },
+  userEmail?: string | null,
+  batchId?: string,
+  priceList: PriceListTarget | null = null
+): Promise<PriceAdjustmentOutcome> {
+  const { adjustmentType, adjustmentValue, rounding } = adjustment;
+  const invalidResults: PriceChangeResult[] = [];
+  const plans: PlannedProductChange[] = [];
+
+  for (const productData of products) {
+    console.log(`🔄 Processing product: ${productData.title}`);
+
+    if (!productData.variants || !Array.isArray(productData.variants) || productData.variants.length === 0) {
+      console.error(`❌ Product ${productData.title} has no valid variants`);
+      invalidResults.push({
+        variantId: 'unknown',
+        variantTitle: 'No variants',
+        productTitle: productData.title,
+        oldPrice: 0,
+        newPrice: 0,
+        success: false,
+        errors: [{ message: "Product has no valid variants" }],
+      });
+      continue;
+    }
+
+    const validVariants = productData.variants.filter((variant) => {
+      if (!variant.id || typeof variant.currentPrice !== 'number') {
+        console.error(`❌ Invalid variant data:`, variant);
+        return false;
+      }
+      return true;
+    });
+
+    if (validVariants.length === 0) {
+      console.error(`❌ No valid variants to update for product ${productData.title}`);
+      invalidResults.push({
+        variantId: 'unknown',
+        variantTitle: 'No valid variants',
+        productTitle: productData.title,
+        oldPrice: 0,
+        newPrice: 0,
+        success: false,
+        errors: [{ message: "No valid variants found to update" }],
+      });
+      continue;
+    }
+
+    plans.push(planProductAdjustment({ ...productData, variants: validVariants }, adjustment));
+  }
+
+  const outcome = await applyPlannedPriceChanges(admin, shop, plans, {
+    actionType: adjustmentType,
+    adjustmentValue,
+    roundingRule: serializeRoundingRule(rounding),
+    userEmail,
+    batchId,
+    priceList,
+  });
+
+  return { ...outcome, results: [...invalidResults, ...outcome.results] };
+}
+
+/**
+ * Fetch the live price of each variant, keyed by variant ID. Variants that no
+ * longer exist are missing from the map. Throws when Shopify doesn't answer,
+ * so a failed lookup is never mistaken for deleted variants.
+ */
+export async function getCurrentVariantPrices(
+  admin: any,
+  variantIds: string[]
+): Promise<Map<string, { price: number; compareAtPrice: number | null; unitCost: number | null; productId: string }>> {
+  const prices = new Map<string, { price: number; compareAtPrice: number | null; unitCost: number | null; productId: string }>();
+
+  for (let i = 0; i < variantIds.length; i += NODES_PAGE_SIZE) {
+    const ids = variantIds.slice(i, i + NODES_PAGE_SIZE);
+    const result = await graphqlWithRetry(admin, GET_VARIANT_PRICES, { ids });
+
+    if (result.errors?.length || !result.data?.nodes) {
+      throw new Error(`GraphQL error loading variant prices: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    for (const node of result.data.nodes) {
+      if (node?.id && node.price !== undefined) {
+        prices.set(node.id, {
+          price: parseFloat(node.price),
+          compareAtPrice: node.compareAtPrice ? parseFloat(node.compareAtPrice) : null,
+          unitCost: node.inventoryItem?.unitCost ? parseFloat(node.inventoryItem.unitCost.amount) : null,
+          productId: node.product?.id,
+        });
+      }
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Fetch each variant's price in a price list, keyed by variant ID. `fixed` is
+ * false for prices the list works out from the base price. Variants the list
+ * has no price for are missing from the map. Throws when Shopify reports errors.
+ */
+export async function getPriceListPrices(
+  admin: any,
+  priceListId: string,
+  variantIds: string[]
+): Promise<Map<string, { price: number; compareAtPrice: number | null; fixed: boolean }>> {
+  const prices = new Map<string, { price: number; compareAtPrice: number | null; fixed: boolean }>();
+
+  for (let i = 0; i < variantIds.length; i += PRICE_LIST_LOOKUP_SIZE) {
+    const ids = variantIds.slice(i, i + PRICE_LIST_LOOKUP_SIZE);
+    const query = ids.map((id) => `variant_id:${id.split("/").pop()}`).join(" OR ");
+    const result = await graphqlWithRetry(admin, GET_PRICE_LIST_PRICES, { id: priceListId, query, first: ids.length });
+
+    if (result.errors?.length) {
+      throw new Error(`GraphQL error loading price list prices: ${JSON.stringify(result.errors)}`);
+    }
+
+    for (const node of result.data?.priceList?.prices?.nodes || []) {
+      if (node?.variant?.id && node.price) {
+        prices.set(node.variant.id, {
+          price: parseFloat(node.price.amount),
+          compareAtPrice: node.compareAtPrice ? parseFloat(node.compareAtPrice.amount) : null,
+          fixed: node.originType === "FIXED",
+        });
+      }
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Put a batch's price list prices back. Variants whose price the list worked
+ * out from the base price lose the fixed price the batch wrote, so later base
+ * price changes reach them again; the rest get their old fixed price back.
+ * Rows from before the flag was recorded are treated as fixed. One result per
+ * entry, in order.
+ */
+async function revertPriceListPrices(
+  admin: any,
+  priceList: PriceListTarget,
+  entries: Array<{ variantId: string; oldPrice: number; oldCompareAtPrice: number | null; oldPriceFixed: boolean | null }>
+): Promise<VariantUpdateResult[]> {
+  const unfixed = entries.filter((entry) => entry.oldPriceFixed === false);
+  const fixed = entries.filter((entry) => entry.oldPriceFixed !== false);
+
+  const results = [
+    ...(await deletePriceListPrices(admin, priceList, unfixed.map((entry) => entry.variantId))),
+    ...(await updatePriceListPrices(admin, priceList, fixed.map((entry) => ({
+      id: entry.variantId,
+      price: entry.oldPrice.toFixed(2),
+      compareAtPrice: entry.oldCompareAtPrice === null ? null : entry.oldCompareAtPrice.toFixed(2),
+    })))),
+  ];
+  const resultByVariant = new Map(results.map((result) => [result.variantId, result]));
+
+  return entries.map((entry) => resultByVariant.get(entry.variantId) as VariantUpdateResult);
+}
+
+/**
+ * Restore every variant of a batch to its old price. Variants whose price has
+ * changed again since the batch ran are left alone. The batch is claimed
+ * before anything is written, so a second undo of it gets an error. The
+ * revert is recorded as a new history batch pointing back at the original one.
+ * Pass the revertBatchId of an interrupted undo to carry on with it.
+ */
+export async function revertPricingBatch(
+  admin: any,
+  shop: string,
+  batchId: string,
+  userEmail?: string | null,
+  revertBatchId: string = createBatchId()
+): Promise<RevertResult> {
+  const emptyResult = { reverted: 0, skipped: [], failed: 0 };
+
+  const entries = await getBatchEntries(shop, batchId);
+  if (entries.length === 0) {
+    return { ...emptyResult, success: false, error: "Batch not found" };
+  }
+
+  if (await isBatchReverted(shop, batchId)) {
+    return { ...emptyResult, success: false, error: "This batch has already been undone" };
+  }
+
+  console.log(`↩️ Reverting batch ${batchId} (${entries.length} variants) for ${shop}`);
+
+  // A batch is written either to base prices or to a single price list
+  const priceList: PriceListTarget | null = entries[0].priceListId
+    ? {
+        id: entries[0].priceListId,
+        name: entries[0].market ?? entries[0].priceListId,
+        currency: entries[0].currency ?? "",
+        market: entries[0].market,
+      }
+    : null;
+
+  const variantIds = entries.map((entry) => entry.variantId);
+  const currentPrices: Map<string, { price: number; compareAtPrice: number | null; unitCost?: number | null }> =
+    priceList
+      ? await getPriceListPrices(admin, priceList.id, variantIds)
+      : await getCurrentVariantPrices(admin, variantIds);
+  const shopGuardrails = await getPriceGuardrails(shop);
+  const guardrails = priceList ? guardrailsForPriceList(shopGuardrails) : shopGuardrails;
+
+  const skipped: RevertResult["skipped"] = [];
+  const toRevertByProduct = new Map<string, typeof entries>();
+
+  for (const entry of entries) {
+    const current = currentPrices.get(entry.variantId);
+
+    if (!current) {
+      skipped.push({
+        variantId: entry.variantId,
+        productTitle: entry.productTitle,
+        variantTitle: entry.variantTitle,
+        reason: "Variant no longer exists",
+      });
+      continue;
+    }
+
+    const compareAtChanged = entry.oldCompareAtPrice !== entry.newCompareAtPrice;
+    const compareAtMovedSince = compareAtChanged && !samePrice(current.compareAtPrice, entry.newCompareAtPrice);
+
+    if (!samePrice(current.price, entry.newPrice) || compareAtMovedSince) {
+      skipped.push({
+        variantId: entry.variantId,
+        productTitle: entry.productTitle,
+        variantTitle: entry.variantTitle,
+        reason: samePrice(current.price, entry.newPrice)
+          ? "Compare-at price changed since this batch"
+          : `Price changed since this batch (now ${current.price.toFixed(2)})`,
+      });
+      continue;
+    }
+
+    // Undoing is a price write like any other
+    const rejection = checkPriceGuardrails(guardrails, {
+      oldPrice: current.price,
+      newPrice: entry.oldPrice,
+      unitCost: current.unitCost,
+    });
+    if (rejection) {
+      skipped.push({
+        variantId: entry.variantId,
+        productTitle: entry.productTitle,
+        variantTitle: entry.variantTitle,
+        reason: `Blocked by guardrails: ${rejection}`,
+      });
+      continue;
+    }
+
+    const productEntries = toRevertByProduct.get(entry.productId) || [];
+    productEntries.push(entry);
+    toRevertByProduct.set(entry.productId, productEntries);
+  }
+
+  if (toRevertByProduct.size > 0 && !(await claimBatchRevert(shop, batchId, revertBatchId))) {
+    return { ...emptyResult, success: false, error: "This batch has already been undone" };
+  }
+
+  const revertedEntries: PriceHistoryEntry[] = [];
+  let failed = 0;
+
+  for (const [productId, productEntries] of toRevertByProduct) {
+    try {
+      const results = priceList
+        ? await revertPriceListPrices(admin, priceList, productEntries)
+        : await updateProductVariantPrices(
+            admin,
+            productId,
+            productEntries.map((entry) => ({
+              id: entry.variantId,
+              price: entry.oldPrice.toFixed(2),
+              ...(entry.oldCompareAtPrice !== entry.newCompareAtPrice && {
+                compareAtPrice: entry.oldCompareAtPrice === null ? null : entry.oldCompareAtPrice.toFixed(2),
+              }),
+            }))
+          );
+
+      for (let index = 0; index < results.length; index++) {
+        const entry = productEntries[index];
+        if (results[index].success) {
+          revertedEntries.push({
+            productId: entry.productId,
+            variantId: entry.variantId,
+            productTitle: entry.productTitle,
+            variantTitle: entry.variantTitle,
+            oldPrice: entry.newPrice,
+            newPrice: entry.oldPrice,
+            oldCompareAtPrice: entry.newCompareAtPrice,
+            newCompareAtPrice: entry.oldCompareAtPrice,
+            // The batch being undone always wrote a fixed price
+            oldPriceFixed: priceList ? true : null,
+            vendor: entry.vendor,
+          });
+        } else {
+          failed++;
+          console.warn(`⚠️ Could not revert variant ${entry.variantId}:`, results[index].errors);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ Error reverting product ${productId}:`, error);
+      skipped.push(...productEntries.map((entry) => ({
+        variantId: entry.variantId,
+        productTitle: entry.productTitle,
+        variantTitle: entry.variantTitle,
+        reason: createUserFriendlyError(error, `reverting ${entry.productTitle}`),
+      })));
+    }
+  }
+
+  if (revertedEntries.length === 0) {
+    if (toRevertByProduct.size > 0) {
+      await releaseBatchRevert(shop, batchId, revertBatchId);
+    }
+    return {
+      success: false,
+      reverted: 0,
+      skipped,
+      failed,
+      error: "No variants could be reverted",
+    };
+  }
+
+  await recordPriceHistory(shop, revertBatchId, revertedEntries, {
+    actionType: "revert",
+    adjustmentValue: 0,
+    userEmail,
+    revertedBatchId: batchId,
+    priceList,
+  });
+
+  await queueVariantPriceEvents(shop, { batchId: revertBatchId, actionType: "revert", priceList }, revertedEntries);
+  await queueBatchCompletedEvent(shop, {
+    batchId: revertBatchId,
+    actionType: "revert",
+    succeededVariants: revertedEntries.length,
+    failedVariants: failed,
+    priceList,
+    revertedBatchId: batchId,
+  });
+
+  console.log(`✅ Reverted ${revertedEntries.length} variants, skipped ${skipped.length}, failed ${failed}`);
+
+  return {
+    success: true,
+    revertBatchId,
+    reverted: revertedEntries.length,
+    skipped,
+    failed,
+  };
+}
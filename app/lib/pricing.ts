@@ -0,0 +1,326 @@
+// app/lib/pricing.ts - Price adjustment math shared by the pricing UI and the server
+
+export const ADJUSTMENT_TYPES = [
+  "percentage",
+  "fixed",
+  "add",
+  "subtract",
+  "compare_at_discount",
+  "clear_compare_at",
+  "compare_at_multiplier",
+  "cost_markup",
+  "target_margin",
+] as const;
+
+export type AdjustmentType = (typeof ADJUSTMENT_TYPES)[number];
+
+export const ADJUSTMENT_TYPE_LABELS: Record<AdjustmentType, string> = {
+  percentage: "Percentage (%)",
+  fixed: "Fixed Price ($)",
+  add: "Add Amount (+$)",
+  subtract: "Subtract Amount (-$)",
+  compare_at_discount: "Sale: compare-at = old price, discount by %",
+  clear_compare_at: "Clear compare-at price",
+  compare_at_multiplier: "Compare-at = price × N",
+  cost_markup: "Markup on cost (%)",
+  target_margin: "Target margin (%)",
+};
+
+export const MIN_PRICE = 0.01;
+export const MAX_PRICE = 99999;
+
+export const ROUNDING_STRATEGIES = [
+  "none",
+  "end_99",
+  "end_95",
+  "end_00",
+  "nearest_0_05",
+  "nearest_0_10",
+  "nearest_1",
+  "custom_ending",
+] as const;
+
+export type RoundingStrategy = (typeof ROUNDING_STRATEGIES)[number];
+
+export const ROUNDING_STRATEGY_LABELS: Record<RoundingStrategy, string> = {
+  none: "No rounding",
+  end_99: "End in .99",
+  end_95: "End in .95",
+  end_00: "End in .00",
+  nearest_0_05: "Multiple of 0.05",
+  nearest_0_10: "Multiple of 0.10",
+  nearest_1: "Whole amount",
+  custom_ending: "Custom ending",
+};
+
+export const ROUNDING_DIRECTIONS = ["nearest", "up", "down"] as const;
+
+export type RoundingDirection = (typeof ROUNDING_DIRECTIONS)[number];
+
+export interface RoundingRule {
+  strategy: RoundingStrategy;
+  direction: RoundingDirection;
+  // Cents to end on for custom_ending, e.g. 0.49
+  customEnding?: number;
+}
+
+export const NO_ROUNDING: RoundingRule = { strategy: "none", direction: "nearest" };
+
+const ROUNDING_ENDINGS: Partial<Record<RoundingStrategy, number>> = {
+  end_99: 0.99,
+  end_95: 0.95,
+  end_00: 0,
+};
+
+const ROUNDING_STEPS: Partial<Record<RoundingStrategy, number>> = {
+  nearest_0_05: 0.05,
+  nearest_0_10: 0.1,
+  nearest_1: 1,
+};
+
+export interface VariantPrices {
+  price: number;
+  compareAtPrice: number | null;
+  // Inventory item unit cost, needed by the cost-based types
+  unitCost?: number | null;
+}
+
+export function isAdjustmentType(value: unknown): value is AdjustmentType {
+  return typeof value === "string" && (ADJUSTMENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether an adjustment type sets the price from the variant's unit cost.
+ * Variants without a cost are skipped by these types.
+ */
+export function isCostBasedAdjustment(adjustmentType: string): boolean {
+  return adjustmentType === "cost_markup" || adjustmentType === "target_margin";
+}
+
+/**
+ * Gross margin as a percentage of the price, or null without a cost
+ */
+export function calculateMargin(price: number, unitCost: number | null | undefined): number | null {
+  if (unitCost === null || unitCost === undefined || price <= 0) return null;
+  return Math.round(((price - unitCost) / price) * 1000) / 10;
+}
+
+/**
+ * e.g. "25.0% → 40.0%", or "—" when the variant has no cost
+ */
+export function describeMarginChange(oldPrice: number, newPrice: number, unitCost: number | null | undefined): string {
+  const before = calculateMargin(oldPrice, unitCost);
+  const after = calculateMargin(newPrice, unitCost);
+  if (before === null || after === null) return "—";
+  return before === after ? `${after.toFixed(1)}%` : `${before.toFixed(1)}% → ${after.toFixed(1)}%`;
+}
+
+/**
+ * Short form of an adjustment, e.g. "+10%", "set to $20.00", "compare-at ×1.5"
+ */
+export function describeAdjustment(adjustmentType: string, adjustmentValue: number): string {
+  switch (adjustmentType) {
+    case "percentage":
+      return `${adjustmentValue > 0 ? "+" : ""}${adjustmentValue}%`;
+    case "fixed":
+      return `set to $${adjustmentValue.toFixed(2)}`;
+    case "add":
+      return `+$${adjustmentValue.toFixed(2)}`;
+    case "subtract":
+      return `−$${adjustmentValue.toFixed(2)}`;
+    case "compare_at_discount":
+      return `sale −${adjustmentValue}%`;
+    case "compare_at_multiplier":
+      return `compare-at ×${adjustmentValue}`;
+    case "cost_markup":
+      return `cost +${adjustmentValue}%`;
+    case "target_margin":
+      return `${adjustmentValue}% margin`;
+    default:
+      return ADJUSTMENT_TYPE_LABELS[adjustmentType as AdjustmentType] || adjustmentType;
+  }
+}
+
+/**
+ * "$12.50" in the shop's currency, or "12.50 EUR" for a market price list
+ */
+export function formatMoney(amount: number, currency?: string | null): string {
+  return currency ? `${amount.toFixed(2)} ${currency}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Whether an adjustment type writes the compare-at price
+ */
+export function changesCompareAtPrice(adjustmentType: string): boolean {
+  return ["compare_at_discount", "clear_compare_at", "compare_at_multiplier"].includes(adjustmentType);
+}
+
+export function isRoundingStrategy(value: unknown): value is RoundingStrategy {
+  return typeof value === "string" && (ROUNDING_STRATEGIES as readonly string[]).includes(value);
+}
+
+export function isRoundingDirection(value: unknown): value is RoundingDirection {
+  return typeof value === "string" && (ROUNDING_DIRECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Build a rule from the raw pricing form fields. Unknown values are passed
+ * through so validatePricingData can report them.
+ */
+export function parseRoundingRule(
+  strategy: string | null,
+  direction: string | null,
+  customEnding: string | null
+): RoundingRule {
+  return {
+    strategy: (strategy || "none") as RoundingStrategy,
+    direction: (direction || "nearest") as RoundingDirection,
+    customEnding: strategy === "custom_ending" ? parseFloat(customEnding || "") : undefined,
+  };
+}
+
+/**
+ * Compact form stored with history rows and jobs, e.g. "end_99:up" or
+ * "custom_ending:0.49:nearest". No rounding is stored as null.
+ */
+export function serializeRoundingRule(rule: RoundingRule | undefined): string | null {
+  if (!rule || rule.strategy === "none") return null;
+  if (rule.strategy === "custom_ending") {
+    return `${rule.strategy}:${rule.customEnding}:${rule.direction}`;
+  }
+  return `${rule.strategy}:${rule.direction}`;
+}
+
+export function deserializeRoundingRule(value: string | null | undefined): RoundingRule {
+  if (!value) return NO_ROUNDING;
+
+  const parts = value.split(":");
+  if (parts[0] === "custom_ending") {
+    return { strategy: "custom_ending", customEnding: parseFloat(parts[1]), direction: parts[2] as RoundingDirection };
+  }
+  return { strategy: parts[0] as RoundingStrategy, direction: parts[1] as RoundingDirection };
+}
+
+export function describeRoundingRule(rule: RoundingRule): string {
+  if (rule.strategy === "none") return ROUNDING_STRATEGY_LABELS.none;
+
+  const label = rule.strategy === "custom_ending"
+    ? `End in .${Math.round((rule.customEnding ?? 0) * 100).toString().padStart(2, "0")}`
+    : ROUNDING_STRATEGY_LABELS[rule.strategy];
+  return `${label} (${rule.direction === "nearest" ? "nearest" : `round ${rule.direction}`})`;
+}
+
+function pickRounded(price: number, lower: number, upper: number, direction: RoundingDirection): number {
+  if (direction === "up") return upper;
+  if (direction === "down") return lower;
+  return price - lower < upper - price ? lower : upper;
+}
+
+/**
+ * Round an adjusted price to a price ending or a multiple of a step. Works
+ * in cents to avoid floating point drift.
+ */
+export function applyRounding(price: number, rule: RoundingRule | undefined): number {
+  if (!rule || rule.strategy === "none") return price;
+
+  const cents = Math.round(price * 100);
+  let lower: number;
+  let upper: number;
+
+  const step = ROUNDING_STEPS[rule.strategy];
+  if (step !== undefined) {
+    const stepCents = Math.round(step * 100);
+    lower = Math.floor(cents / stepCents) * stepCents;
+    upper = Math.ceil(cents / stepCents) * stepCents;
+  } else {
+    const ending = rule.strategy === "custom_ending" ? rule.customEnding ?? 0 : ROUNDING_ENDINGS[rule.strategy] ?? 0;
+    const endingCents = Math.round(ending * 100);
+    // Closest prices with this ending at or below / at or above the price
+    lower = Math.floor((cents - endingCents) / 100) * 100 + endingCents;
+    upper = lower === cents ? cents : lower + 100;
+  }
+
+  let rounded = pickRounded(cents, lower, upper, rule.direction);
+  // Never round a price down to zero
+  if (rounded < MIN_PRICE * 100) {
+    rounded = upper;
+  }
+  return rounded / 100;
+}
+
+function clampPrice(price: number): number {
+  return Math.max(MIN_PRICE, Math.min(MAX_PRICE, Math.round(price * 100) / 100));
+}
+
+/**
+ * New price for one variant, clamped to the range Shopify accepts and rounded
+ * to cents, then to the rounding rule if one is given
+ */
+export function calculateAdjustedPrice(
+  currentPrice: number,
+  adjustmentType: string,
+  adjustmentValue: number,
+  rounding?: RoundingRule,
+  unitCost?: number | null
+): number {
+  let newPrice: number;
+
+  // Nothing to work from; callers skip variants without a cost
+  if (isCostBasedAdjustment(adjustmentType) && (unitCost === null || unitCost === undefined)) {
+    return clampPrice(currentPrice);
+  }
+
+  switch (adjustmentType) {
+    case "percentage":
+      newPrice = currentPrice * (1 + adjustmentValue / 100);
+      break;
+    case "fixed":
+      newPrice = adjustmentValue;
+      break;
+    case "add":
+      newPrice = currentPrice + adjustmentValue;
+      break;
+    case "subtract":
+      newPrice = currentPrice - adjustmentValue;
+      break;
+    case "compare_at_discount":
+      newPrice = currentPrice * (1 - adjustmentValue / 100);
+      break;
+    case "cost_markup":
+      newPrice = (unitCost as number) * (1 + adjustmentValue / 100);
+      break;
+    case "target_margin":
+      // A 40% margin means cost is 60% of the price
+      newPrice = (unitCost as number) / (1 - adjustmentValue / 100);
+      break;
+    default:
+      // Types that leave the price alone aren't rounded either
+      return clampPrice(currentPrice);
+  }
+
+  return clampPrice(applyRounding(clampPrice(newPrice), rounding));
+}
+
+/**
+ * New price and compare-at price for one variant. Types that don't touch the
+ * compare-at price return the current one unchanged.
+ */
+export function calculateAdjustedPrices(
+  current: VariantPrices,
+  adjustmentType: string,
+  adjustmentValue: number,
+  rounding?: RoundingRule
+): VariantPrices {
+  const price = calculateAdjustedPrice(current.price, adjustmentType, adjustmentValue, rounding, current.unitCost);
+
+  switch (adjustmentType) {
+    case "compare_at_discount":
+      return { price, compareAtPrice: current.price };
+    case "clear_compare_at":
+      return { price, compareAtPrice: null };
+    case "compare_at_multiplier":
+      return { price, compareAtPrice: clampPrice(current.price * adjustmentValue) };
+    default:
+      return { price, compareAtPrice: current.compareAtPrice };
+  }
+}
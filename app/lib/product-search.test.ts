@@ -0,0 +1,26 @@
+// app/lib/product-search.test.ts - Building the products search query from filters
+import { describe, expect, it } from "vitest";
+import { buildProductSearchQuery, parseProductFilters } from "./product-search";
+
+function queryFor(params: string): string {
+  return buildProductSearchQuery(parseProductFilters(new URLSearchParams(params)));
+}
+
+describe("buildProductSearchQuery", () => {
+  it("filters by collection given as a GID or a numeric ID", () => {
+    expect(queryFor("collection=gid://shopify/Collection/123")).toBe("collection_id:123");
+    expect(queryFor("collection=456")).toBe("collection_id:456");
+  });
+
+  it("leaves out collection values that would change the query", () => {
+    expect(queryFor("collection=1 OR vendor:Acme")).toBe("");
+    expect(queryFor("collection=gid://shopify/Collection/1) OR (tag:sale&vendor=Acme")).toBe('vendor:"Acme"');
+
+    const filters = { ...parseProductFilters(new URLSearchParams()), collection: "1 OR status:draft" };
+    expect(buildProductSearchQuery(filters)).toBe("");
+  });
+
+  it("quotes vendor and tag values", () => {
+    expect(queryFor('vendor=Acme "Co"&tag=a:b')).toBe('vendor:"Acme \\"Co\\"" AND tag:"a:b"');
+  });
+});
@@ -0,0 +1,205 @@
+// app/lib/product-search.ts - Product filters encoded as Admin API search syntax
+
+export interface ProductFilters {
+  search: string;
+  status: string[];
+  vendor: string[];
+  productType: string[];
+  tag: string[];
+  collection: string;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export const PRODUCT_STATUSES = ["ACTIVE", "DRAFT", "ARCHIVED"];
+
+export const EMPTY_PRODUCT_FILTERS: ProductFilters = {
+  search: "",
+  status: [],
+  vendor: [],
+  productType: [],
+  tag: [],
+  collection: "",
+  minPrice: null,
+  maxPrice: null,
+};
+
+function parsePrice(value: string | null): number | null {
+  if (!value) return null;
+  const price = parseFloat(value);
+  return isNaN(price) || price < 0 ? null : price;
+}
+
+/**
+ * Numeric ID of a collection given as a GID or a plain number, or null for
+ * anything else
+ */
+function parseCollectionId(value: string): string | null {
+  const match = value.trim().match(/^(?:gid:\/\/shopify\/Collection\/)?(\d+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Read filters from the pricing page URL. Multi-value filters are repeated
+ * params, e.g. ?vendor=Acme&vendor=Globex
+ */
+export function parseProductFilters(searchParams: URLSearchParams): ProductFilters {
+  const collection = (searchParams.get("collection") || "").trim();
+
+  return {
+    search: (searchParams.get("q") || "").trim(),
+    status: searchParams.getAll("status").filter((s) => PRODUCT_STATUSES.includes(s)),
+    vendor: searchParams.getAll("vendor"),
+    productType: searchParams.getAll("productType"),
+    tag: searchParams.getAll("tag"),
+    collection: parseCollectionId(collection) ? collection : "",
+    minPrice: parsePrice(searchParams.get("minPrice")),
+    maxPrice: parsePrice(searchParams.get("maxPrice")),
+  };
+}
+
+/**
+ * Write filters back to URL params, leaving out the ones that aren't set
+ */
+export function appendProductFilters(params: URLSearchParams, filters: ProductFilters) {
+  if (filters.search) params.set("q", filters.search);
+  filters.status.forEach((value) => params.append("status", value));
+  filters.vendor.forEach((value) => params.append("vendor", value));
+  filters.productType.forEach((value) => params.append("productType", value));
+  filters.tag.forEach((value) => params.append("tag", value));
+  if (filters.collection) params.set("collection", filters.collection);
+  if (filters.minPrice !== null) params.set("minPrice", filters.minPrice.toString());
+  if (filters.maxPrice !== null) params.set("maxPrice", filters.maxPrice.toString());
+  return params;
+}
+
+export function hasProductFilters(filters: ProductFilters): boolean {
+  return buildProductSearchQuery(filters) !== "";
+}
+
+/**
+ * Quote a value for the search syntax so spaces, colons and quotes in vendor
+ * names or tags don't break the query
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Escape a single search word so it can be used with a trailing wildcard
+ */
+function escapeTerm(value: string): string {
+  return value.replace(/([\\:()"'])/g, "\\$1");
+}
+
+function anyOf(field: string, values: string[]): string {
+  const terms = values.map((value) => `${field}:${quote(value)}`);
+  return terms.length === 1 ? terms[0] : `(${terms.join(" OR ")})`;
+}
+
+/**
+ * Build the `query:` argument for the products connection. Returns an empty
+ * string when no filters are set.
+ * https://shopify.dev/docs/api/usage/search-syntax
+ */
+export function buildProductSearchQuery(filters: ProductFilters): string {
+  const parts: string[] = [];
+
+  if (filters.search) {
+    // Prefix-match every word so "blue sh" finds "Blue Shirt"
+    filters.search.split(/\s+/).forEach((word) => {
+      parts.push(`title:${escapeTerm(word)}*`);
+    });
+  }
+  if (filters.status.length > 0) {
+    parts.push(anyOf("status", filters.status));
+  }
+  if (filters.vendor.length > 0) {
+    parts.push(anyOf("vendor", filters.vendor));
+  }
+  if (filters.productType.length > 0) {
+    parts.push(anyOf("product_type", filters.productType));
+  }
+  if (filters.tag.length > 0) {
+    parts.push(anyOf("tag", filters.tag));
+  }
+  // collection_id takes the numeric part of the GID; anything else is left
+  // out rather than passed into the query
+  const collectionId = filters.collection ? parseCollectionId(filters.collection) : null;
+  if (collectionId) {
+    parts.push(`collection_id:${collectionId}`);
+  }
+  if (filters.minPrice !== null) {
+    parts.push(`price:>=${filters.minPrice}`);
+  }
+  if (filters.maxPrice !== null) {
+    parts.push(`price:<=${filters.maxPrice}`);
+  }
+
+  return parts.join(" AND ");
+}
+
+/**
+ * e.g. "Vendor: Acme, Globex · Tag: sale · $10 – $50". Collections show as
+ * "1 collection" since only the ID is stored.
+ */
+export function describeProductFilters(filters: ProductFilters): string {
+  const parts: string[] = [];
+
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.status.length > 0) parts.push(`Status: ${filters.status.join(", ")}`);
+  if (filters.vendor.length > 0) parts.push(`Vendor: ${filters.vendor.join(", ")}`);
+  if (filters.productType.length > 0) parts.push(`Type: ${filters.productType.join(", ")}`);
+  if (filters.tag.length > 0) parts.push(`Tag: ${filters.tag.join(", ")}`);
+  if (filters.collection) parts.push("1 collection");
+  if (filters.minPrice !== null || filters.maxPrice !== null) {
+    parts.push(`$${filters.minPrice ?? 0} – ${filters.maxPrice !== null ? `$${filters.maxPrice}` : "any"}`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "All products";
+}
+
+/**
+ * Limit a price change to the variants with one of the given values for an
+ * option, e.g. only "Size: XL". Option names and values match case-insensitively.
+ */
+export interface VariantFilter {
+  optionName: string;
+  optionValues: string[];
+}
+
+/**
+ * Read a variant filter posted as JSON. Returns null when the field is
+ * missing, malformed or doesn't name any values, meaning every variant.
+ */
+export function parseVariantFilter(raw: string | null | undefined): VariantFilter | null {
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    const optionName = typeof parsed?.optionName === "string" ? parsed.optionName.trim() : "";
+    const optionValues = Array.isArray(parsed?.optionValues)
+      ? parsed.optionValues.filter((value: unknown): value is string => typeof value === "string" && value !== "")
+      : [];
+
+    return optionName && optionValues.length > 0 ? { optionName, optionValues } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function matchesVariantFilter(
+  selectedOptions: Array<{ name: string; value: string }> | undefined,
+  filter: VariantFilter | null
+): boolean {
+  if (!filter) return true;
+
+  const option = (selectedOptions || []).find(
+    (candidate) => candidate.name.toLowerCase() === filter.optionName.toLowerCase()
+  );
+  return !!option && filter.optionValues.some((value) => value.toLowerCase() === option.value.toLowerCase());
+}
+
+export function describeVariantFilter(filter: VariantFilter | null): string {
+  return filter ? `${filter.optionName}: ${filter.optionValues.join(", ")}` : "All variants";
+}
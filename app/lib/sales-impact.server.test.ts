@@ -0,0 +1,251 @@
+// app/lib/sales-impact.server.test.ts - Order sync and batch sales impact against a stubbed Admin API
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import { retryOrderSyncJob } from "../models/order-cache.server";
+import type { PricingBatchSummary } from "../models/pricing-history.server";
+import { getBatchSalesImpact, syncOrderCache } from "./sales-impact.server";
+import { runQueuedOrderSyncs } from "./order-sync.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const shopifyAdmin = vi.hoisted(() => ({ current: null as any }));
+vi.mock("../shopify.server", () => ({
+  unauthenticated: { admin: async () => ({ admin: shopifyAdmin.current }) },
+}));
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "sales-test.myshopify.com";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHANGED_AT = new Date("2026-03-15T00:00:00.000Z");
+const NOW = new Date(CHANGED_AT.getTime() + 20 * DAY_MS);
+
+interface StubOrder {
+  id: string;
+  processedAt: string;
+  cancelledAt: string | null;
+  // [variant id or null for a custom item, quantity, line total]
+  lines: Array<[string | null, number, number]>;
+}
+
+function order(n: number, daysFromChange: number, lines: StubOrder["lines"], cancelled: boolean = false): StubOrder {
+  const processedAt = new Date(CHANGED_AT.getTime() + daysFromChange * DAY_MS).toISOString();
+  return { id: `gid://shopify/Order/${n}`, processedAt, cancelledAt: cancelled ? processedAt : null, lines };
+}
+
+function lineItemConnection(stub: StubOrder, first: number, offset: number) {
+  const items = stub.lines.slice(offset, offset + first).map(([variantId, quantity, total], i) => ({
+    node: {
+      id: `${stub.id}/Line/${offset + i}`,
+      quantity,
+      variant: variantId ? { id: variantId } : null,
+      discountedTotalSet: { shopMoney: { amount: total.toFixed(2) } },
+    },
+  }));
+  return {
+    edges: items,
+    pageInfo: { hasNextPage: offset + first < stub.lines.length, endCursor: String(offset + first) },
+  };
+}
+
+/**
+ * admin.graphql answering the orders queries from a fixed list, paged the
+ * way Shopify pages them
+ */
+function stubAdmin(orders: StubOrder[]) {
+  const graphql = vi.fn(async (query: string, { variables }: any) => {
+    if (query.includes("getOrderLineItems")) {
+      const stub = orders.find((candidate) => candidate.id === variables.id)!;
+      const connection = lineItemConnection(stub, variables.first, parseInt(variables.after, 10));
+      return { json: async () => ({ data: { order: { lineItems: connection } } }) };
+    }
+
+    const [, from, to] = variables.query.match(/processed_at:>='(.+?)' processed_at:<'(.+?)'/);
+    const matching = orders
+      .filter((stub) => stub.processedAt >= from && stub.processedAt < to)
+      .sort((a, b) => a.processedAt.localeCompare(b.processedAt));
+    const offset = variables.after ? parseInt(variables.after, 10) : 0;
+    const page = matching.slice(offset, offset + variables.first);
+
+    return {
+      json: async () => ({
+        data: {
+          orders: {
+            edges: page.map((stub) => ({
+              node: {
+                id: stub.id,
+                processedAt: stub.processedAt,
+                cancelledAt: stub.cancelledAt,
+                lineItems: lineItemConnection(stub, variables.lineItems, 0),
+              },
+            })),
+            pageInfo: {
+              hasNextPage: offset + variables.first < matching.length,
+              endCursor: String(offset + variables.first),
+            },
+          },
+        },
+      }),
+    };
+  });
+  return { graphql };
+}
+
+function queriedRanges(admin: { graphql: ReturnType<typeof vi.fn> }): string[] {
+  return Array.from(new Set(
+    admin.graphql.mock.calls
+      .map(([, { variables }]: any) => variables.query)
+      .filter(Boolean)
+  ));
+}
+
+const BATCH: PricingBatchSummary = {
+  batchId: "batch-1",
+  actionType: "percentage",
+  adjustmentValue: 10,
+  roundingRule: null,
+  market: null,
+  variantCount: 1,
+  createdAt: CHANGED_AT,
+  reverted: false,
+};
+
+async function seedBatch() {
+  await fakeDb.pricingHistory.create({
+    data: {
+      shop: SHOP,
+      batchId: BATCH.batchId,
+      productId: "gid://shopify/Product/1",
+      productTitle: "Shirt",
+      variantId: "gid://shopify/ProductVariant/1",
+      oldPrice: 20,
+      newPrice: 22,
+      createdAt: CHANGED_AT,
+    },
+  });
+}
+
+describe("syncOrderCache", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("caches every line of every page, leaving out cancelled orders and custom items", async () => {
+    const orders = [
+      ...Array.from({ length: 12 }, (_, i) => order(i + 1, -5 + i * 0.1, [["gid://shopify/ProductVariant/1", 1, 22]])),
+      // More lines than the first query returns, so the rest are paged
+      order(100, 1, Array.from({ length: 25 }, () => ["gid://shopify/ProductVariant/2", 1, 5] as [string, number, number])),
+      order(101, 2, [["gid://shopify/ProductVariant/1", 3, 66]], true),
+      order(102, 3, [[null, 1, 10], ["gid://shopify/ProductVariant/1", 2, 44]]),
+    ];
+    const admin = stubAdmin(orders);
+    const onPage = vi.fn(async () => {});
+    const from = new Date(CHANGED_AT.getTime() - 10 * DAY_MS);
+
+    await syncOrderCache(admin, SHOP, from, NOW, onPage);
+
+    expect(await fakeDb.orderLine.count()).toBe(12 + 25 + 1);
+    expect(await fakeDb.orderLine.count({ where: { orderId: "gid://shopify/Order/101" } })).toBe(0);
+    expect(onPage).toHaveBeenCalledTimes(2);
+    expect(await fakeDb.orderSyncState.findUnique({ where: { shop: SHOP } })).toMatchObject({
+      syncedFrom: from,
+      syncedTo: NOW,
+    });
+  });
+
+  it("only fetches the parts of the range that aren't cached", async () => {
+    const admin = stubAdmin([order(1, -8, [["gid://shopify/ProductVariant/1", 1, 22]])]);
+    const day = (days: number) => new Date(CHANGED_AT.getTime() + days * DAY_MS);
+
+    await syncOrderCache(admin, SHOP, day(-5), day(5));
+    admin.graphql.mockClear();
+    await syncOrderCache(admin, SHOP, day(-10), day(10));
+
+    expect(queriedRanges(admin)).toEqual([
+      `processed_at:>='${day(-10).toISOString()}' processed_at:<'${day(-5).toISOString()}'`,
+      `processed_at:>='${day(5).toISOString()}' processed_at:<'${day(10).toISOString()}'`,
+    ]);
+    expect(await fakeDb.orderLine.count()).toBe(1);
+    expect(await fakeDb.orderSyncState.findUnique({ where: { shop: SHOP } })).toMatchObject({
+      syncedFrom: day(-10),
+      syncedTo: day(10),
+    });
+  });
+});
+
+describe("getBatchSalesImpact", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await seedBatch();
+  });
+
+  it("queues the order fetch instead of calling Shopify, then reports from the cache", async () => {
+    shopifyAdmin.current = stubAdmin([
+      order(1, -10, [["gid://shopify/ProductVariant/1", 2, 40]]),
+      order(2, -1, [["gid://shopify/ProductVariant/1", 1, 20]]),
+      order(3, 4, [["gid://shopify/ProductVariant/1", 4, 88]]),
+      // Another variant and an order outside both windows don't count
+      order(4, 5, [["gid://shopify/ProductVariant/9", 7, 70]]),
+      order(5, -30, [["gid://shopify/ProductVariant/1", 9, 180]]),
+    ]);
+
+    const first = await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    expect(first).toEqual({ impacts: [], syncing: true, failedSyncId: null });
+    expect(shopifyAdmin.current.graphql).not.toHaveBeenCalled();
+
+    // Loads while the fetch is queued don't queue another
+    await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    expect(await fakeDb.orderSyncJob.count()).toBe(1);
+
+    await runQueuedOrderSyncs();
+    expect((await fakeDb.orderSyncJob.findFirst())?.status).toBe("succeeded");
+
+    const { impacts, syncing } = await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    expect(syncing).toBe(false);
+    expect(impacts).toHaveLength(1);
+    expect(impacts[0].report).toMatchObject({
+      before: { units: 3, revenue: 60 },
+      after: { units: 4, revenue: 88 },
+      unitLiftPercent: 33.3,
+    });
+  });
+
+  it("reports a failed fetch so it can be retried", async () => {
+    shopifyAdmin.current = {
+      graphql: vi.fn(async () => ({
+        json: async () => ({ errors: [{ message: "Access denied for orders field." }] }),
+      })),
+    };
+
+    await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    await runQueuedOrderSyncs();
+
+    const failed = await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    expect(failed.syncing).toBe(false);
+    expect(failed.failedSyncId).not.toBeNull();
+    expect((await fakeDb.orderSyncJob.findFirst())?.lastError).toContain("Access denied");
+
+    expect(await retryOrderSyncJob(SHOP, failed.failedSyncId!)).toBe(true);
+    expect((await getBatchSalesImpact(SHOP, [BATCH], 14, NOW)).syncing).toBe(true);
+  });
+
+  it("requeues a sync whose worker stopped reporting", async () => {
+    await getBatchSalesImpact(SHOP, [BATCH], 14, NOW);
+    await fakeDb.orderSyncJob.updateMany({
+      data: { status: "running", updatedAt: new Date(Date.now() - 11 * 60 * 1000) },
+    });
+    shopifyAdmin.current = stubAdmin([]);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await runQueuedOrderSyncs();
+
+    expect((await fakeDb.orderSyncJob.findFirst())?.status).toBe("succeeded");
+  });
+});
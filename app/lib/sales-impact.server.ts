@@ -0,0 +1,212 @@
+// app/lib/sales-impact.server.ts - Fetching orders and comparing sales around history batches
+import { GET_ORDER_LINE_ITEMS, GET_ORDER_LINES } from "../graphql/queries/orders";
+import {
+  createOrderSyncJob,
+  getLatestOrderSyncJob,
+  getOrderLines,
+  getOrderSyncWindow,
+  saveOrderLines,
+  saveOrderSyncWindow,
+  type OrderSyncWindow,
+} from "../models/order-cache.server";
+import { getBatchEntries, type PricingBatchSummary } from "../models/pricing-history.server";
+import { graphqlWithRetry } from "./pricing.server";
+import {
+  getSalesWindows,
+  summarizeSalesImpact,
+  type CachedOrderLine,
+  type SalesImpactReport,
+  type SalesWindows,
+} from "./sales-impact";
+
+// Keeps each orders query under Shopify's cost limit; longer orders are paged
+const ORDERS_PAGE_SIZE = 10;
+const LINE_ITEMS_PAGE_SIZE = 20;
+const REMAINING_LINE_ITEMS_PAGE_SIZE = 100;
+// Reports are shown while the last hour of orders is still being fetched
+const CACHE_FRESHNESS_MS = 60 * 60 * 1000;
+
+type OrderLineRow = CachedOrderLine & { orderId: string; lineItemId: string };
+
+export interface BatchSalesImpact {
+  batch: PricingBatchSummary;
+  windows: SalesWindows;
+  report: SalesImpactReport;
+}
+
+export interface SalesImpactResult {
+  impacts: BatchSalesImpact[];
+  // Orders for the report are still being fetched in the background
+  syncing: boolean;
+  // The background fetch that failed, so it can be retried
+  failedSyncId: string | null;
+}
+
+function toOrderLineRows(order: any, lineItems: any[]): OrderLineRow[] {
+  return lineItems
+    // Custom items and deleted variants can't be tied to a price change
+    .filter((item) => item.variant?.id)
+    .map((item) => ({
+      orderId: order.id,
+      lineItemId: item.id,
+      variantId: item.variant.id,
+      quantity: item.quantity,
+      revenue: parseFloat(item.discountedTotalSet?.shopMoney?.amount || "0"),
+      processedAt: new Date(order.processedAt),
+    }));
+}
+
+async function fetchRemainingLineItems(admin: any, orderId: string, after: string): Promise<any[]> {
+  const items: any[] = [];
+  let cursor: string | null = after;
+
+  while (cursor) {
+    const result = await graphqlWithRetry(admin, GET_ORDER_LINE_ITEMS, {
+      id: orderId,
+      first: REMAINING_LINE_ITEMS_PAGE_SIZE,
+      after: cursor,
+    });
+    const connection = result.data?.order?.lineItems;
+    if (!connection) {
+      throw new Error(`GraphQL error loading line items: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    connection.edges.forEach((edge: any) => items.push(edge.node));
+    cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  }
+
+  return items;
+}
+
+/**
+ * Every line item of the orders processed in [from, to), leaving out
+ * cancelled orders. onPage runs after each page of orders.
+ */
+export async function fetchOrderLines(
+  admin: any,
+  from: Date,
+  to: Date,
+  onPage?: () => Promise<void>
+): Promise<OrderLineRow[]> {
+  const rows: OrderLineRow[] = [];
+  const query = `processed_at:>='${from.toISOString()}' processed_at:<'${to.toISOString()}'`;
+  let after: string | null = null;
+
+  do {
+    const result = await graphqlWithRetry(admin, GET_ORDER_LINES, {
+      first: ORDERS_PAGE_SIZE,
+      after,
+      query,
+      lineItems: LINE_ITEMS_PAGE_SIZE,
+    });
+    const connection = result.data?.orders;
+    if (!connection) {
+      throw new Error(`GraphQL error loading orders: ${JSON.stringify(result.errors || result)}`);
+    }
+
+    for (const { node: order } of connection.edges) {
+      if (order.cancelledAt) continue;
+
+      const lineItems = order.lineItems.edges.map((edge: any) => edge.node);
+      if (order.lineItems.pageInfo.hasNextPage) {
+        lineItems.push(...(await fetchRemainingLineItems(admin, order.id, order.lineItems.pageInfo.endCursor)));
+      }
+      rows.push(...toOrderLineRows(order, lineItems));
+    }
+
+    after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    await onPage?.();
+  } while (after);
+
+  return rows;
+}
+
+/**
+ * Make sure orders processed in [from, to) are in the local cache. Only the
+ * parts outside what's already been synced are fetched, so the cached range
+ * only ever grows at either end. It's saved after each part, so a sync that
+ * stops halfway doesn't fetch that part again.
+ */
+export async function syncOrderCache(
+  admin: any,
+  shop: string,
+  from: Date,
+  to: Date,
+  onPage?: () => Promise<void>
+): Promise<void> {
+  const synced = await getOrderSyncWindow(shop);
+  const segments: Array<[Date, Date]> = [];
+
+  if (!synced) {
+    segments.push([from, to]);
+  } else {
+    if (from < synced.syncedFrom) segments.push([from, synced.syncedFrom]);
+    if (to > synced.syncedTo) segments.push([synced.syncedTo, to]);
+  }
+
+  let window: OrderSyncWindow | null = synced;
+  for (const [segmentFrom, segmentTo] of segments) {
+    const lines = await fetchOrderLines(admin, segmentFrom, segmentTo, onPage);
+    await saveOrderLines(shop, lines);
+
+    window = {
+      syncedFrom: window && window.syncedFrom < segmentFrom ? window.syncedFrom : segmentFrom,
+      syncedTo: window && window.syncedTo > segmentTo ? window.syncedTo : segmentTo,
+    };
+    await saveOrderSyncWindow(shop, window);
+    console.log(`🧾 Cached ${lines.length} order lines for ${shop} (${segmentFrom.toISOString()} → ${segmentTo.toISOString()})`);
+  }
+}
+
+/**
+ * Compare sales in equal windows either side of each batch, for the variants
+ * the batch changed, from the local order cache. Orders missing from the
+ * cache are fetched by the order sync worker; until they're in, the result
+ * says it's syncing and has no impacts.
+ */
+export async function getBatchSalesImpact(
+  shop: string,
+  batches: PricingBatchSummary[],
+  windowDays: number,
+  now: Date = new Date()
+): Promise<SalesImpactResult> {
+  const loaded = await Promise.all(batches.map(async (batch) => {
+    const entries = await getBatchEntries(shop, batch.batchId);
+    // Entries are oldest first; large batches are written over a few minutes
+    const changedAt = entries.length > 0 ? entries[0].createdAt : new Date(batch.createdAt);
+    return { batch, entries, windows: getSalesWindows(changedAt, windowDays, now) };
+  }));
+
+  if (loaded.length === 0) {
+    return { impacts: [], syncing: false, failedSyncId: null };
+  }
+
+  const from = new Date(Math.min(...loaded.map(({ windows }) => windows.beforeStart.getTime())));
+  const to = new Date(Math.max(...loaded.map(({ windows }) => windows.afterEnd.getTime())));
+  const [synced, job] = await Promise.all([getOrderSyncWindow(shop), getLatestOrderSyncJob(shop)]);
+
+  const covers = (end: Date) => synced !== null && synced.syncedFrom <= from && synced.syncedTo >= end;
+  const ready = covers(new Date(to.getTime() - CACHE_FRESHNESS_MS));
+
+  if (!ready && job?.status === "failed") {
+    return { impacts: [], syncing: false, failedSyncId: job.id };
+  }
+  if (!covers(to) && job?.status !== "queued" && job?.status !== "running") {
+    await createOrderSyncJob(shop, from, to);
+  }
+  if (!ready) {
+    return { impacts: [], syncing: true, failedSyncId: null };
+  }
+
+  const impacts = await Promise.all(loaded.map(async ({ batch, entries, windows }) => {
+    const lines = await getOrderLines(
+      shop,
+      entries.map((entry) => entry.variantId),
+      windows.beforeStart,
+      windows.afterEnd
+    );
+    return { batch, windows, report: summarizeSalesImpact(entries, lines, windows) };
+  }));
+
+  return { impacts, syncing: false, failedSyncId: null };
+}
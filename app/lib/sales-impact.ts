@@ -0,0 +1,176 @@
+// app/lib/sales-impact.ts - Units and revenue before and after a price change
+
+export const SALES_WINDOW_DAYS = [7, 14, 30] as const;
+export const DEFAULT_SALES_WINDOW_DAYS = 14;
+// Without read_all_orders, Shopify only returns the last 60 days of orders
+export const ORDER_HISTORY_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CachedOrderLine {
+  variantId: string;
+  quantity: number;
+  revenue: number;
+  processedAt: Date;
+}
+
+/**
+ * One variant's price change in a batch
+ */
+export interface SalesImpactEntry {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  oldPrice: number;
+  newPrice: number;
+}
+
+/**
+ * Two windows of the same length either side of the change
+ */
+export interface SalesWindows {
+  beforeStart: Date;
+  changedAt: Date;
+  afterEnd: Date;
+  days: number;
+  // The change is too recent for the windows to be the length asked for
+  shortened: boolean;
+  // Part of the before window is older than the orders Shopify returns
+  beforeIncomplete: boolean;
+}
+
+export interface SalesTotals {
+  units: number;
+  revenue: number;
+}
+
+export interface SalesComparison {
+  before: SalesTotals;
+  after: SalesTotals;
+  // null when nothing sold before, so there's nothing to compare against
+  unitLiftPercent: number | null;
+  revenueLiftPercent: number | null;
+}
+
+export interface ProductSalesImpact extends SalesComparison {
+  productId: string;
+  productTitle: string;
+  variants: number;
+  averagePriceChangePercent: number | null;
+}
+
+export interface SalesImpactReport extends SalesComparison {
+  products: ProductSalesImpact[];
+}
+
+export function parseSalesWindowDays(value: string | null): number {
+  const days = parseInt(value || "", 10);
+  return (SALES_WINDOW_DAYS as readonly number[]).includes(days) ? days : DEFAULT_SALES_WINDOW_DAYS;
+}
+
+/**
+ * Windows of `windowDays` before and after the change, both shortened to the
+ * time elapsed since when the change is more recent than that
+ */
+export function getSalesWindows(changedAt: Date, windowDays: number, now: Date = new Date()): SalesWindows {
+  const elapsed = Math.max(0, now.getTime() - changedAt.getTime());
+  const length = Math.min(windowDays * DAY_MS, elapsed);
+  const beforeStart = new Date(changedAt.getTime() - length);
+
+  return {
+    beforeStart,
+    changedAt,
+    afterEnd: new Date(changedAt.getTime() + length),
+    days: Math.round((length / DAY_MS) * 10) / 10,
+    shortened: length < windowDays * DAY_MS,
+    beforeIncomplete: beforeStart.getTime() < now.getTime() - ORDER_HISTORY_DAYS * DAY_MS,
+  };
+}
+
+function liftPercent(before: number, after: number): number | null {
+  if (before <= 0) return null;
+  return Math.round(((after - before) / before) * 1000) / 10;
+}
+
+function compare(before: SalesTotals, after: SalesTotals): SalesComparison {
+  return {
+    before,
+    after,
+    unitLiftPercent: liftPercent(before.units, after.units),
+    revenueLiftPercent: liftPercent(before.revenue, after.revenue),
+  };
+}
+
+function addLine(totals: SalesTotals, line: CachedOrderLine) {
+  totals.units += line.quantity;
+  totals.revenue = Math.round((totals.revenue + line.revenue) * 100) / 100;
+}
+
+/**
+ * Sum the sales of each changed variant in both windows, per product and for
+ * the batch as a whole. Products are listed with the biggest sellers first.
+ */
+export function summarizeSalesImpact(
+  entries: SalesImpactEntry[],
+  lines: CachedOrderLine[],
+  windows: SalesWindows
+): SalesImpactReport {
+  const productByVariant = new Map(entries.map((entry) => [entry.variantId, entry.productId]));
+  const products = new Map<string, { title: string; variants: number; percents: number[]; before: SalesTotals; after: SalesTotals }>();
+
+  for (const entry of entries) {
+    const product = products.get(entry.productId)
+      || { title: entry.productTitle, variants: 0, percents: [], before: { units: 0, revenue: 0 }, after: { units: 0, revenue: 0 } };
+    product.variants++;
+    if (entry.oldPrice > 0) {
+      product.percents.push(((entry.newPrice - entry.oldPrice) / entry.oldPrice) * 100);
+    }
+    products.set(entry.productId, product);
+  }
+
+  const before: SalesTotals = { units: 0, revenue: 0 };
+  const after: SalesTotals = { units: 0, revenue: 0 };
+
+  for (const line of lines) {
+    const productId = productByVariant.get(line.variantId);
+    const product = productId ? products.get(productId) : undefined;
+    const time = new Date(line.processedAt).getTime();
+    if (!product) continue;
+
+    if (time >= windows.beforeStart.getTime() && time < windows.changedAt.getTime()) {
+      addLine(before, line);
+      addLine(product.before, line);
+    } else if (time >= windows.changedAt.getTime() && time < windows.afterEnd.getTime()) {
+      addLine(after, line);
+      addLine(product.after, line);
+    }
+  }
+
+  return {
+    ...compare(before, after),
+    products: Array.from(products.entries())
+      .map(([productId, product]) => ({
+        productId,
+        productTitle: product.title,
+        variants: product.variants,
+        averagePriceChangePercent: product.percents.length > 0
+          ? Math.round((product.percents.reduce((sum, p) => sum + p, 0) / product.percents.length) * 10) / 10
+          : null,
+        ...compare(product.before, product.after),
+      }))
+      .sort((a, b) => (b.before.units + b.after.units) - (a.before.units + a.after.units)),
+  };
+}
+
+/**
+ * e.g. "+12.5%", "−3.0%", "new sales" when nothing sold before, "—" when
+ * nothing sold at all
+ */
+export function describeLift(comparison: SalesComparison, measure: "units" | "revenue"): string {
+  const percent = measure === "units" ? comparison.unitLiftPercent : comparison.revenueLiftPercent;
+  if (percent === null) {
+    return comparison.after[measure] > 0 ? "new sales" : "—";
+  }
+  if (percent === 0) return "0.0%";
+  return `${percent > 0 ? "+" : "−"}${Math.abs(percent).toFixed(1)}%`;
+}
@@ -0,0 +1,148 @@
+// app/lib/scheduler.server.test.ts - Scheduled changes that stop part way through
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import { runDueSchedules } from "./scheduler.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const shopifyAdmin = vi.hoisted(() => ({ current: null as any }));
+vi.mock("../shopify.server", () => ({
+  unauthenticated: { admin: async () => ({ admin: shopifyAdmin.current }) },
+}));
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "schedule-test.myshopify.com";
+const BATCH_ID = "batch-1";
+const NOW = new Date();
+const HOUR_MS = 60 * 60 * 1000;
+
+async function seedSchedule(data: Record<string, any>) {
+  return await fakeDb.scheduledPriceChange.create({
+    data: {
+      shop: SHOP,
+      products: [{ id: "gid://shopify/Product/1", title: "Shirt" }],
+      adjustmentType: "percentage",
+      adjustmentValue: 10,
+      roundingRule: null,
+      variantFilter: null,
+      startAt: new Date(NOW.getTime() - 2 * HOUR_MS),
+      endAt: new Date(NOW.getTime() + HOUR_MS),
+      status: "scheduled",
+      appliedBatchId: null,
+      revertBatchId: null,
+      lastError: null,
+      ...data,
+    },
+  });
+}
+
+async function seedHistory() {
+  await fakeDb.pricingHistory.create({
+    data: {
+      shop: SHOP,
+      batchId: BATCH_ID,
+      productId: "gid://shopify/Product/1",
+      productTitle: "Shirt",
+      variantId: "gid://shopify/ProductVariant/1",
+      variantTitle: "Default",
+      actionType: "percentage",
+      adjustmentValue: 10,
+      oldPrice: 20,
+      newPrice: 22,
+      oldCompareAtPrice: null,
+      newCompareAtPrice: null,
+      createdAt: new Date(NOW.getTime() - HOUR_MS),
+    },
+  });
+}
+
+// admin.graphql with the variant still at the scheduled price
+function stubAdmin() {
+  return {
+    graphql: vi.fn(async (query: string, { variables }: any) => ({
+      json: async (): Promise<any> => ({
+        data: query.includes("getVariantPrices")
+          ? {
+              nodes: variables.ids.map((id: string) => ({
+                id,
+                price: "22.00",
+                compareAtPrice: null,
+                inventoryItem: null,
+                product: { id: "gid://shopify/Product/1" },
+              })),
+            }
+          : { productVariantsBulkUpdate: { productVariants: [], userErrors: [] } },
+      }),
+    })),
+  };
+}
+
+async function scheduleStatus(id: string) {
+  return await fakeDb.scheduledPriceChange.findUnique({ where: { id } });
+}
+
+describe("runDueSchedules", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Scheduling needs Pro; a shop downgraded mid-run can't finish applying
+    await fakeDb.subscription.create({ data: { shop: SHOP, planName: "standard", status: "active", usageLimit: 500 } });
+  });
+
+  it("fails a schedule that stops before writing anything", async () => {
+    const schedule = await seedSchedule({});
+
+    await runDueSchedules(NOW);
+
+    expect(await scheduleStatus(schedule.id)).toMatchObject({ status: "failed" });
+  });
+
+  it("keeps a partly applied schedule active so it's still reverted at its end time", async () => {
+    await seedHistory();
+    const schedule = await seedSchedule({ appliedBatchId: BATCH_ID });
+
+    await runDueSchedules(NOW);
+
+    const stopped = await scheduleStatus(schedule.id);
+    expect(stopped?.status).toBe("active");
+    expect(stopped?.lastError).toMatch(/Stopped after 1 variant\(s\) were updated: .*scheduled price updates/);
+  });
+
+  it("completes a partly applied schedule without an end time", async () => {
+    await seedHistory();
+    const schedule = await seedSchedule({ appliedBatchId: BATCH_ID, endAt: null });
+
+    await runDueSchedules(NOW);
+
+    expect((await scheduleStatus(schedule.id))?.status).toBe("completed");
+  });
+
+  it("tries a revert that failed again on the next run", async () => {
+    await seedHistory();
+    const schedule = await seedSchedule({
+      status: "active",
+      appliedBatchId: BATCH_ID,
+      endAt: new Date(NOW.getTime() - HOUR_MS),
+    });
+    shopifyAdmin.current = {
+      graphql: vi.fn(async () => ({ json: async () => ({ errors: [{ message: "Internal error" }] }) })),
+    };
+
+    await runDueSchedules(NOW);
+    expect(await scheduleStatus(schedule.id)).toMatchObject({ status: "active", lastError: expect.stringContaining("Internal error") });
+
+    shopifyAdmin.current = stubAdmin();
+    await runDueSchedules(NOW);
+
+    const reverted = await scheduleStatus(schedule.id);
+    expect(reverted?.status).toBe("completed");
+    expect(await fakeDb.pricingHistory.count({ where: { revertedBatchId: BATCH_ID } })).toBe(1);
+    expect((await fakeDb.pricingHistory.findFirst({ where: { revertedBatchId: BATCH_ID } }))?.batchId).toBe(reverted?.revertBatchId);
+  });
+});
@@ -0,0 +1,279 @@
+// app/lib/scheduler.server.ts - Background runner for scheduled price changes
+
+import { unauthenticated } from "../shopify.server";
+import {
+  claimScheduledPriceChange,
+  findDueScheduledPriceChanges,
+  getScheduledPriceChange,
+  requeueStaleScheduledPriceChanges,
+  touchScheduledPriceChange,
+  updateScheduledPriceChange,
+  type ScheduledProduct,
+} from "../models/scheduled-price-change.server";
+import { createBatchId, getBatchEntries } from "../models/pricing-history.server";
+import { getOrCreateSubscription, wouldExceedProductLimit } from "../models/subscription.server";
+import {
+  applyPriceAdjustment,
+  applyVariantFilter,
+  fetchPricingProducts,
+  revertPricingBatch,
+  skipVariantsWithoutCost,
+} from "./pricing.server";
+import { deserializeRoundingRule, isCostBasedAdjustment } from "./pricing";
+import { parseVariantFilter } from "./product-search";
+import { validatePricingData } from "./validators";
+import { canUseFeature } from "./plans";
+import { queueBatchCompletedEvent } from "./webhooks.server";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+// Schedules applying or reverting without a sign of life for this long are assumed dead
+const STALE_AFTER_MS = 10 * 60 * 1000;
+// How often a runner shows it's alive while prices are being written
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Products written between heartbeats
+const CHUNK_SIZE = 10;
+
+declare global {
+  var __priceScheduler__: NodeJS.Timeout | undefined;
+}
+
+let working = false;
+
+/**
+ * Run a write while touching the schedule every minute, so a slow one isn't
+ * mistaken for a dead runner and handed to another run
+ */
+async function withHeartbeat<T>(scheduleId: string, work: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    touchScheduledPriceChange(scheduleId).catch((error) => {
+      console.error(`❌ Scheduled change ${scheduleId} heartbeat failed:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await work();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function applyScheduledChange(schedule: {
+  id: string;
+  shop: string;
+  products: any;
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule: string | null;
+  variantFilter: any;
+  endAt: Date | null;
+  appliedBatchId: string | null;
+}) {
+  const { shop } = schedule;
+
+  const subscription = await getOrCreateSubscription(shop);
+  if (!canUseFeature(subscription, 'scheduled_updates')) {
+    throw new Error("Your current plan does not include scheduled price updates");
+  }
+
+  const productIds = (schedule.products as ScheduledProduct[]).map((p) => p.id);
+  if (await wouldExceedProductLimit(shop, productIds)) {
+    throw new Error("Applying this change would exceed your monthly modification limit");
+  }
+
+  // The batch is chosen up front so a run that was interrupted carries on
+  // in it, leaving alone the variants it already wrote
+  const batchId = schedule.appliedBatchId ?? createBatchId();
+  if (!schedule.appliedBatchId) {
+    await updateScheduledPriceChange(schedule.id, { appliedBatchId: batchId });
+  }
+  const written = new Set((await getBatchEntries(shop, batchId)).map((entry) => entry.variantId));
+
+  const { admin } = await unauthenticated.admin(shop);
+  let products = applyVariantFilter(
+    await fetchPricingProducts(admin, productIds),
+    parseVariantFilter(JSON.stringify(schedule.variantFilter))
+  );
+  if (products.length === 0) {
+    throw new Error("None of the scheduled products or variants exist anymore");
+  }
+
+  products = products
+    .map((product) => ({ ...product, variants: product.variants.filter((variant) => !written.has(variant.id)) }))
+    .filter((product) => product.variants.length > 0);
+  if (written.size > 0) {
+    console.log(`⏰ Resuming scheduled change ${schedule.id}: ${written.size} variant(s) already written`);
+  }
+
+  if (isCostBasedAdjustment(schedule.adjustmentType)) {
+    products = skipVariantsWithoutCost(products).products;
+    if (products.length === 0 && written.size === 0) {
+      throw new Error("None of the scheduled variants have a unit cost set in Shopify");
+    }
+  }
+
+  const rounding = deserializeRoundingRule(schedule.roundingRule);
+  if (products.length > 0) {
+    const validation = validatePricingData(products, schedule.adjustmentType, schedule.adjustmentValue, { rounding });
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(", "));
+    }
+  }
+
+  const results: Awaited<ReturnType<typeof applyPriceAdjustment>>["results"] = [];
+  for (let i = 0; i < products.length; i += CHUNK_SIZE) {
+    const chunk = await withHeartbeat(schedule.id, () => applyPriceAdjustment(
+      admin,
+      shop,
+      products.slice(i, i + CHUNK_SIZE),
+      { adjustmentType: schedule.adjustmentType, adjustmentValue: schedule.adjustmentValue, rounding },
+      null,
+      batchId
+    ));
+    results.push(...chunk.results);
+    await touchScheduledPriceChange(schedule.id);
+  }
+
+  const succeeded = written.size + results.filter((r) => r.success).length;
+  const failed = results.filter((r) => !r.success).length;
+  if (succeeded === 0) {
+    const firstError = results.find((r) => r.errors.length > 0)?.errors[0]?.message;
+    throw new Error(firstError || "No prices were updated");
+  }
+
+  await updateScheduledPriceChange(schedule.id, {
+    status: schedule.endAt ? "active" : "completed",
+    lastError: failed > 0 ? `${failed} variant(s) failed to update` : null,
+  });
+  await queueBatchCompletedEvent(shop, {
+    batchId,
+    actionType: schedule.adjustmentType,
+    succeededVariants: succeeded,
+    failedVariants: failed,
+  });
+
+  console.log(`⏰ Applied scheduled change ${schedule.id} for ${shop}: ${succeeded}/${succeeded + failed} variants`);
+}
+
+async function revertScheduledChange(schedule: {
+  id: string;
+  shop: string;
+  appliedBatchId: string | null;
+  revertBatchId: string | null;
+}) {
+  if (!schedule.appliedBatchId) {
+    throw new Error("Scheduled change has no applied batch to revert");
+  }
+  const appliedBatchId = schedule.appliedBatchId;
+
+  // Chosen up front, like the applied batch, so a revert that was
+  // interrupted can claim the batch again
+  const revertBatchId = schedule.revertBatchId ?? createBatchId();
+  if (!schedule.revertBatchId) {
+    await updateScheduledPriceChange(schedule.id, { revertBatchId });
+  }
+
+  const { admin } = await unauthenticated.admin(schedule.shop);
+  const result = await withHeartbeat(schedule.id, () =>
+    revertPricingBatch(admin, schedule.shop, appliedBatchId, null, revertBatchId)
+  );
+
+  if (!result.success && result.failed > 0) {
+    throw new Error(result.error || "Revert failed");
+  }
+  if (!result.success) {
+    // Already undone by hand, or every price changed since: nothing to retry
+    await updateScheduledPriceChange(schedule.id, { status: "completed", lastError: result.error || "Revert failed" });
+    console.log(`⏰ Nothing to revert for scheduled change ${schedule.id}: ${result.error}`);
+    return;
+  }
+
+  await updateScheduledPriceChange(schedule.id, {
+    status: "completed",
+    revertBatchId: result.revertBatchId,
+    lastError: result.skipped.length > 0
+      ? `${result.skipped.length} variant(s) were not reverted because their price changed`
+      : null,
+  });
+
+  console.log(`⏰ Reverted scheduled change ${schedule.id} for ${schedule.shop}: ${result.reverted} variants`);
+}
+
+/**
+ * Record an apply that threw. Prices it already wrote stay live, so the
+ * schedule is left active to be reverted at its end time, or completed with
+ * the error noted when it has none.
+ */
+async function failScheduledApply(scheduleId: string, shop: string, error: any) {
+  const schedule = await getScheduledPriceChange(scheduleId);
+  const written = schedule?.appliedBatchId ? (await getBatchEntries(shop, schedule.appliedBatchId)).length : 0;
+
+  if (!schedule || written === 0) {
+    await updateScheduledPriceChange(scheduleId, { status: "failed", lastError: error.message });
+    return;
+  }
+
+  await updateScheduledPriceChange(scheduleId, {
+    status: schedule.endAt ? "active" : "completed",
+    lastError: `Stopped after ${written} variant(s) were updated: ${error.message}`,
+  });
+}
+
+/**
+ * Apply every change whose start time has passed and revert every active
+ * change whose end time has passed. Safe to run from several processes: each
+ * schedule is claimed before it is worked on.
+ */
+export async function runDueSchedules(now: Date = new Date()) {
+  if (working) return;
+  working = true;
+
+  try {
+    const requeued = await requeueStaleScheduledPriceChanges(new Date(now.getTime() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`⚠️ Requeued ${requeued} stalled scheduled change(s)`);
+    }
+
+    const { toApply, toRevert } = await findDueScheduledPriceChanges(now);
+
+    for (const schedule of toApply) {
+      if (!(await claimScheduledPriceChange(schedule.id, "scheduled", "applying"))) continue;
+
+      try {
+        await applyScheduledChange(schedule);
+      } catch (error: any) {
+        console.error(`❌ Scheduled change ${schedule.id} failed to apply:`, error);
+        await failScheduledApply(schedule.id, schedule.shop, error);
+      }
+    }
+
+    for (const schedule of toRevert) {
+      if (!(await claimScheduledPriceChange(schedule.id, "active", "reverting"))) continue;
+
+      try {
+        await revertScheduledChange(schedule);
+      } catch (error: any) {
+        console.error(`❌ Scheduled change ${schedule.id} failed to revert:`, error);
+        // The scheduled prices are still live, so the next run tries again
+        await updateScheduledPriceChange(schedule.id, { status: "active", lastError: error.message });
+      }
+    }
+  } finally {
+    working = false;
+  }
+}
+
+/**
+ * Start polling for due schedules. Only one timer is kept per process, even
+ * across dev server reloads.
+ */
+export function startScheduler() {
+  if (global.__priceScheduler__) return;
+
+  global.__priceScheduler__ = setInterval(() => {
+    runDueSchedules().catch((error) => {
+      console.error("❌ Scheduler run failed:", error);
+    });
+  }, POLL_INTERVAL_MS);
+
+  console.log("⏰ Price change scheduler started");
+}
@@ -1,5 +1,5 @@
 
-import { updateSubscription, resetUsage } from "../models/subscription.server";
+import { updateSubscription, resetUsage, trackAllProductModifications } from "../models/subscription.server";
 import { PLANS } from "./plans";
 import { db } from "../db.server";
 
@@ -21,7 +21,6 @@ export async function setupTestSubscription(
   const plan = PLANS[options.planName];
   
   let usageCount = options.usageCount || 0;
-  let uniqueProductsModified: string[] = [];
   
   // Calculate usage based on options
   if (options.simulateNearLimit) {
@@ -30,17 +29,21 @@ export async function setupTestSubscription(
     usageCount = plan.usageLimit + 5; // Over limit
   }
   
-  // Generate fake product IDs for usage simulation
-  if (usageCount > 0) {
-    uniqueProductsModified = Array.from(
-      { length: usageCount }, 
-      (_, i) => `gid://shopify/Product/test-${i}`
-    );
+  // Usage comes from product_modifications rows, so start this period from
+  // zero whenever we simulate some
+  if (options.resetUsage || usageCount > 0) {
+    await resetUsage(shop);
   }
   
-  // Reset first if requested
-  if (options.resetUsage) {
-    await resetUsage(shop);
+  // Record fake products for usage simulation
+  if (usageCount > 0) {
+    await trackAllProductModifications(
+      shop,
+      Array.from({ length: usageCount }, (_, i) => ({
+        id: `gid://shopify/Product/test-${i}`,
+        title: `Test Product ${i + 1}`,
+      }))
+    );
   }
   
   // Update subscription
@@ -49,7 +52,6 @@ export async function setupTestSubscription(
     status: "active",
     usageLimit: plan.usageLimit,
     usageCount,
-    uniqueProductsModified,
     totalPriceChanges: usageCount * 2, // Simulate multiple changes per product
     currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
   });
@@ -122,7 +124,7 @@ export async function testUpgradeScenario(
     planName: toPlanData.name,
     usageLimit: toPlanData.usageLimit,
     status: "active"
-    // Note: usageCount and uniqueProductsModified should remain the same during upgrade
+    // Note: usageCount and product_modifications rows should remain the same during upgrade
   });
   
   console.log(`🧪 Upgrade test complete:`, {
@@ -0,0 +1,94 @@
+// app/lib/usage-periods.test.ts - Usage period bounds and rollovers at a given time
+import { describe, expect, it } from "vitest";
+import { getCurrentUsagePeriod, getUsageRollover, USAGE_PERIOD_DAYS } from "./usage-periods";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS = USAGE_PERIOD_DAYS * DAY_MS;
+const START = new Date("2026-01-01T00:00:00.000Z");
+
+function at(ms: number): Date {
+  return new Date(START.getTime() + ms);
+}
+
+function subscription(overrides: Record<string, any> = {}) {
+  return {
+    periodStart: START,
+    currentPeriodEnd: null,
+    billingInterval: "EVERY_30_DAYS",
+    createdAt: START,
+    ...overrides,
+  };
+}
+
+describe("getUsageRollover", () => {
+  it("waits until the instant the period ends", () => {
+    expect(getUsageRollover(subscription(), at(PERIOD_MS - 1))).toBeNull();
+
+    expect(getUsageRollover(subscription(), at(PERIOD_MS))).toEqual({
+      closing: { start: START, end: at(PERIOD_MS) },
+      next: { start: at(PERIOD_MS), end: at(2 * PERIOD_MS) },
+    });
+  });
+
+  it("skips to the period running now after several missed ones", () => {
+    const rollover = getUsageRollover(subscription(), at(3 * PERIOD_MS + 5 * DAY_MS));
+
+    expect(rollover?.closing).toEqual({ start: START, end: at(PERIOD_MS) });
+    expect(rollover?.next).toEqual({ start: at(3 * PERIOD_MS), end: at(4 * PERIOD_MS) });
+  });
+
+  it("rolls over on Shopify's billing date once a new billing cycle moves it", () => {
+    // A plan bought 12 days into the period starts a billing cycle of its own
+    const upgraded = subscription({ currentPeriodEnd: at(42 * DAY_MS) });
+
+    expect(getUsageRollover(upgraded, at(12 * DAY_MS - 1))).toBeNull();
+    expect(getUsageRollover(upgraded, at(12 * DAY_MS))).toEqual({
+      closing: { start: START, end: at(12 * DAY_MS) },
+      next: { start: at(12 * DAY_MS), end: at(42 * DAY_MS) },
+    });
+
+    // Shopify has moved on a cycle since the period was pinned
+    const renewed = subscription({ currentPeriodEnd: at(PERIOD_MS + 35 * DAY_MS) });
+    expect(getUsageRollover(renewed, at(20 * DAY_MS))?.next).toEqual({
+      start: at(5 * DAY_MS),
+      end: at(35 * DAY_MS),
+    });
+  });
+
+  it("keeps 30-day periods that already end on the billing date", () => {
+    const aligned = subscription({ currentPeriodEnd: at(2 * PERIOD_MS) });
+
+    expect(getCurrentUsagePeriod(aligned)).toEqual({ start: START, end: at(PERIOD_MS) });
+  });
+
+  it("counts annual plans in 30-day periods too", () => {
+    const annual = subscription({ billingInterval: "ANNUAL", currentPeriodEnd: at(365 * DAY_MS) });
+
+    expect(getUsageRollover(annual, at(PERIOD_MS - 1))).toBeNull();
+    expect(getUsageRollover(annual, at(PERIOD_MS))?.next).toEqual({
+      start: at(PERIOD_MS),
+      end: at(2 * PERIOD_MS),
+    });
+  });
+});
+
+describe("getCurrentUsagePeriod", () => {
+  it("ends an unpinned monthly period on Shopify's billing date", () => {
+    const monthly = subscription({ periodStart: null, currentPeriodEnd: at(12 * DAY_MS) });
+
+    expect(getCurrentUsagePeriod(monthly)).toEqual({
+      start: at(12 * DAY_MS - PERIOD_MS),
+      end: at(12 * DAY_MS),
+    });
+  });
+
+  it("ends an unpinned annual period 30 days from install, not at the yearly renewal", () => {
+    const annual = subscription({
+      periodStart: null,
+      billingInterval: "ANNUAL",
+      currentPeriodEnd: at(365 * DAY_MS),
+    });
+
+    expect(getCurrentUsagePeriod(annual)).toEqual({ start: START, end: at(PERIOD_MS) });
+  });
+});
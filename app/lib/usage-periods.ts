@@ -0,0 +1,89 @@
+// app/lib/usage-periods.ts - Monthly usage periods and when they roll over
+import { PLANS, type Plan } from "./plans";
+
+// Shopify bills every 30 days; free shops reset on the same cycle from install
+export const USAGE_PERIOD_DAYS = 30;
+
+// Products listed per period on the usage page; enough for a full Standard
+// period, Pro periods can be longer
+export const MAX_PERIOD_PRODUCTS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS = USAGE_PERIOD_DAYS * DAY_MS;
+
+export interface UsagePeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+export interface UsageRollover {
+  // The period whose usage is archived
+  closing: UsagePeriodBounds;
+  // The period running at `now`; any empty periods in between are skipped
+  next: UsagePeriodBounds;
+}
+
+interface SubscriptionPeriodFields {
+  periodStart: Date | string | null;
+  currentPeriodEnd: Date | string | null;
+  billingInterval?: string | null;
+  createdAt: Date | string;
+}
+
+/**
+ * The period the subscription's counters currently cover. Monthly paid plans
+ * end theirs on Shopify's billing date: the first one after the period
+ * start, so when a plan change or a new billing cycle moves that date the
+ * next reset follows it. Free shops, annual plans and shops without a known
+ * billing date end 30 days from the period start, or from install before a
+ * period start is pinned. Shopify's billing date is never changed by a
+ * rollover, so it's only read here.
+ */
+export function getCurrentUsagePeriod(subscription: SubscriptionPeriodFields): UsagePeriodBounds {
+  const billingEnd = subscription.currentPeriodEnd && subscription.billingInterval !== "ANNUAL"
+    ? new Date(subscription.currentPeriodEnd).getTime()
+    : null;
+
+  if (subscription.periodStart) {
+    const start = new Date(subscription.periodStart);
+    if (billingEnd === null) {
+      return { start, end: new Date(start.getTime() + PERIOD_MS) };
+    }
+
+    // Billing dates fall every 30 days either side of the one Shopify reports
+    const untilBillingDate = (((billingEnd - start.getTime()) % PERIOD_MS) + PERIOD_MS) % PERIOD_MS;
+    return { start, end: new Date(start.getTime() + (untilBillingDate || PERIOD_MS)) };
+  }
+
+  const end = billingEnd !== null
+    ? new Date(billingEnd)
+    : new Date(new Date(subscription.createdAt).getTime() + PERIOD_MS);
+
+  return { start: new Date(end.getTime() - PERIOD_MS), end };
+}
+
+/**
+ * The rollover due at `now`, or null while the current period is running
+ */
+export function getUsageRollover(subscription: SubscriptionPeriodFields, now: Date = new Date()): UsageRollover | null {
+  const closing = getCurrentUsagePeriod(subscription);
+  if (now.getTime() < closing.end.getTime()) {
+    return null;
+  }
+
+  const periodsSinceEnd = Math.floor((now.getTime() - closing.end.getTime()) / PERIOD_MS);
+  const nextStart = new Date(closing.end.getTime() + periodsSinceEnd * PERIOD_MS);
+
+  return {
+    closing,
+    next: { start: nextStart, end: new Date(nextStart.getTime() + PERIOD_MS) },
+  };
+}
+
+/**
+ * The cheapest plan whose monthly limit covers this many products
+ */
+export function getSmallestFittingPlan(productCount: number): Plan {
+  const plans = Object.values(PLANS).sort((a, b) => a.price - b.price);
+  return plans.find((plan) => plan.usageLimit >= productCount) ?? plans[plans.length - 1];
+}
@@ -1,4 +1,21 @@
 // app/lib/validators.ts - Updated validators for product-based quota
+import type { PriceGuardrails } from "./guardrails";
+import {
+  isAdjustmentType,
+  isRoundingDirection,
+  isRoundingStrategy,
+  MAX_PRICE,
+  MIN_PRICE,
+  type RoundingRule,
+} from "./pricing";
+import {
+  isBandCondition,
+  isRuleActionType,
+  isRuleConditionField,
+  MAX_RULE_CONDITIONS,
+  MAX_RULE_STEPS,
+  type PriceRuleStep,
+} from "./price-rules";
 
 export interface PricingValidationResult {
   isValid: boolean;
@@ -18,8 +35,10 @@ export interface ProductQuotaValidationResult extends PricingValidationResult {
 export function validatePricingData(
   selectedProducts: any[],
   adjustmentType: string,
-  adjustmentValue: number
+  adjustmentValue: number,
+  options: { maxProducts?: number; rounding?: RoundingRule } = {}
 ): PricingValidationResult {
+  const { maxProducts = 1000, rounding } = options;
   const errors: string[] = [];
   
   // Validate product selection
@@ -28,12 +47,43 @@ export function validatePricingData(
   }
   
   // Updated limit check - now based on reasonable bulk operation limits
-  if (selectedProducts.length > 1000) {
-    errors.push("Maximum 1000 products can be modified at once");
+  if (selectedProducts.length > maxProducts) {
+    errors.push(`Maximum ${maxProducts} products can be modified at once`);
   }
   
+  errors.push(...validateAdjustmentValue(adjustmentType, adjustmentValue));
+  
+  if (adjustmentType === "subtract") {
+    // Check if subtraction would result in negative prices
+    const hasNegativeResult = selectedProducts.some(product => 
+      product.variants.some((variant: any) => 
+        variant.currentPrice - adjustmentValue < 0.01
+      )
+    );
+    
+    if (hasNegativeResult) {
+      errors.push("Subtraction would result in negative or zero prices for some products");
+    }
+  }
+  
+  if (rounding) {
+    errors.push(...validateRoundingRule(rounding).errors);
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Check an adjustment type and value on their own, without a product selection
+ */
+export function validateAdjustmentValue(adjustmentType: string, adjustmentValue: number): string[] {
+  const errors: string[] = [];
+  
   // Validate adjustment type
-  if (!["percentage", "fixed", "add", "subtract"].includes(adjustmentType)) {
+  if (!isAdjustmentType(adjustmentType)) {
     errors.push("Invalid adjustment type selected");
   }
   
@@ -64,16 +114,106 @@ export function validatePricingData(
     if (adjustmentValue < 0.01 || adjustmentValue > 9999) {
       errors.push("Subtract amount must be between $0.01 and $9,999");
     }
+  }
+  
+  if (adjustmentType === "compare_at_discount") {
+    if (adjustmentValue < 1 || adjustmentValue > 99) {
+      errors.push("Sale discount must be between 1% and 99%");
+    }
+  }
+  
+  if (adjustmentType === "compare_at_multiplier") {
+    if (adjustmentValue <= 1 || adjustmentValue > 10) {
+      errors.push("Compare-at multiplier must be greater than 1 and at most 10");
+    }
+  }
+  
+  if (adjustmentType === "cost_markup") {
+    if (adjustmentValue < 0 || adjustmentValue > 1000) {
+      errors.push("Markup on cost must be between 0% and 1000%");
+    }
+  }
+  
+  if (adjustmentType === "target_margin") {
+    if (adjustmentValue < 1 || adjustmentValue > 95) {
+      errors.push("Target margin must be between 1% and 95%");
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Check the steps of a price rule before it's saved or run
+ */
+export function validatePriceRuleSteps(steps: PriceRuleStep[]): PricingValidationResult {
+  const errors: string[] = [];
+  
+  if (steps.length === 0) {
+    errors.push("Add at least one step to the rule");
+  }
+  
+  if (steps.length > MAX_RULE_STEPS) {
+    errors.push(`A rule can have at most ${MAX_RULE_STEPS} steps`);
+  }
+  
+  steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`;
+    
+    if (!isRuleActionType(step.adjustmentType)) {
+      errors.push(`${label}: choose a percentage, fixed price, add or subtract adjustment`);
+    } else {
+      errors.push(...validateAdjustmentValue(step.adjustmentType, step.adjustmentValue).map((error) => `${label}: ${error}`));
+    }
     
-    // Check if subtraction would result in negative prices
-    const hasNegativeResult = selectedProducts.some(product => 
-      product.variants.some((variant: any) => 
-        variant.currentPrice - adjustmentValue < 0.01
-      )
-    );
+    // A step without conditions matches everything, so nothing after it would ever run
+    if (step.conditions.length === 0 && index < steps.length - 1) {
+      errors.push(`${label}: only the last step can apply to everything else`);
+    }
     
-    if (hasNegativeResult) {
-      errors.push("Subtraction would result in negative or zero prices for some products");
+    if (step.conditions.length > MAX_RULE_CONDITIONS) {
+      errors.push(`${label}: at most ${MAX_RULE_CONDITIONS} conditions per step`);
+    }
+    
+    step.conditions.forEach((condition) => {
+      if (!isRuleConditionField(condition.field)) {
+        errors.push(`${label}: unknown condition`);
+      } else if (isBandCondition(condition.field)) {
+        const hasMin = condition.min !== null && condition.min !== undefined;
+        const hasMax = condition.max !== null && condition.max !== undefined;
+        if (!hasMin && !hasMax) {
+          errors.push(`${label}: set a minimum or maximum for the ${condition.field} condition`);
+        } else if (hasMin && hasMax && (condition.min as number) >= (condition.max as number)) {
+          errors.push(`${label}: the ${condition.field} minimum must be below the maximum`);
+        }
+      } else if (!condition.value) {
+        errors.push(`${label}: enter a value for the ${condition.field.replace("_", " ")} condition`);
+      }
+    });
+  });
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export function validateRoundingRule(rounding: RoundingRule): PricingValidationResult {
+  const errors: string[] = [];
+  
+  if (!isRoundingStrategy(rounding.strategy)) {
+    errors.push("Invalid rounding rule selected");
+  }
+  
+  if (!isRoundingDirection(rounding.direction)) {
+    errors.push("Rounding direction must be nearest, up or down");
+  }
+  
+  if (rounding.strategy === "custom_ending") {
+    const ending = rounding.customEnding;
+    if (ending === undefined || isNaN(ending) || ending < 0 || ending > 0.99 ||
+        Math.abs(ending * 100 - Math.round(ending * 100)) > 1e-9) {
+      errors.push("Custom price ending must be between .00 and .99, e.g. 0.49");
     }
   }
   
@@ -83,6 +223,32 @@ export function validatePricingData(
   };
 }
 
+export function validatePriceGuardrails(guardrails: PriceGuardrails): PricingValidationResult {
+  const errors: string[] = [];
+  const { minPrice, maxPrice, maxChangePercent } = guardrails;
+  
+  if (minPrice !== null && (isNaN(minPrice) || minPrice < MIN_PRICE || minPrice > MAX_PRICE)) {
+    errors.push(`Minimum price must be between $${MIN_PRICE} and $${MAX_PRICE.toLocaleString()}`);
+  }
+  
+  if (maxPrice !== null && (isNaN(maxPrice) || maxPrice < MIN_PRICE || maxPrice > MAX_PRICE)) {
+    errors.push(`Maximum price must be between $${MIN_PRICE} and $${MAX_PRICE.toLocaleString()}`);
+  }
+  
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    errors.push("Minimum price can't be above the maximum price");
+  }
+  
+  if (maxChangePercent !== null && (isNaN(maxChangePercent) || maxChangePercent <= 0 || maxChangePercent > 1000)) {
+    errors.push("Maximum change must be between 0% and 1000%");
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * NEW: Validate product quota limits - checks unique products instead of price changes
  */
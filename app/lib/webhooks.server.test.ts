@@ -0,0 +1,79 @@
+// app/lib/webhooks.server.test.ts - Webhook hosts are checked against DNS when saved and when sent
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+import { lookup } from "dns/promises";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import { createWebhookEndpoint } from "../models/webhook.server";
+import { checkWebhookUrl, sendTestWebhook } from "./webhooks.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+vi.mock("dns/promises", () => ({ lookup: vi.fn() }));
+
+const fakeDb = db as unknown as FakeDb;
+const resolve = lookup as unknown as Mock;
+
+const SHOP = "webhooks-test.myshopify.com";
+
+function resolvesTo(...addresses: string[]) {
+  resolve.mockResolvedValue(addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })));
+}
+
+describe("checkWebhookUrl", () => {
+  beforeEach(() => {
+    resolve.mockReset();
+  });
+
+  it("accepts hosts that only resolve to public addresses", async () => {
+    resolvesTo("93.184.216.34", "2606:2800:220:1::1");
+
+    expect(await checkWebhookUrl("https://example.com/hook")).toBeNull();
+  });
+
+  it.each([
+    ["a private address", ["10.0.0.5"]],
+    ["the metadata service", ["169.254.169.254"]],
+    ["a public and a private address", ["93.184.216.34", "192.168.0.10"]],
+    ["an IPv4-mapped loopback", ["::ffff:127.0.0.1"]],
+    ["a unique local IPv6 address", ["fd00::10"]],
+  ])("refuses hosts that resolve to %s", async (_, addresses) => {
+    resolvesTo(...addresses);
+
+    expect(await checkWebhookUrl("https://internal.example.com/hook")).toBe(
+      "Webhook URLs must be reachable from the internet"
+    );
+  });
+
+  it("refuses hosts that don't resolve", async () => {
+    resolve.mockRejectedValue(Object.assign(new Error("getaddrinfo ENOTFOUND"), { code: "ENOTFOUND" }));
+
+    expect(await checkWebhookUrl("https://nowhere.example.com/hook")).toMatch(/Couldn't find nowhere\.example\.com/);
+  });
+});
+
+describe("webhook delivery", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    resolve.mockReset();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("doesn't send to a host that has been pointed at a private address since it was saved", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const endpoint = await createWebhookEndpoint(SHOP, { url: "https://hooks.example.com/in", events: ["batch.completed"] });
+    resolvesTo("10.0.0.5");
+
+    await sendTestWebhook(SHOP, endpoint.id);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    const delivery = await fakeDb.webhookDelivery.findFirst();
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "Not sent: Webhook URLs must be reachable from the internet",
+    });
+  });
+});
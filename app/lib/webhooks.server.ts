@@ -0,0 +1,288 @@
+// app/lib/webhooks.server.ts - Queueing, signing and delivering outgoing webhooks
+
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import {
+  claimWebhookDelivery,
+  createWebhookDeliveries,
+  createWebhookDelivery,
+  findDueWebhookDeliveries,
+  findSubscribedEndpoints,
+  getWebhookEndpointById,
+  requeueStaleWebhookDeliveries,
+  updateWebhookDelivery,
+} from "../models/webhook.server";
+import type { PriceHistoryEntry } from "../models/pricing-history.server";
+import type { PriceListTarget } from "./price-lists";
+import {
+  getNextWebhookAttempt,
+  isPrivateAddress,
+  TEST_WEBHOOK_EVENT,
+  validateWebhookUrl,
+  type WebhookEvent,
+} from "./webhooks";
+
+const POLL_INTERVAL_MS = 10 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Deliveries stuck in sending for this long are assumed lost
+const STALE_AFTER_MS = 5 * 60 * 1000;
+// Keeps the delivery log readable when a receiver returns a whole error page
+const MAX_ERROR_LENGTH = 500;
+
+declare global {
+  var __webhookWorker__: NodeJS.Timeout | undefined;
+}
+
+let working = false;
+
+/**
+ * Base64 HMAC-SHA256 of the raw body, sent as X-PriceBoost-Hmac-Sha256.
+ * Receivers compute the same with their endpoint's secret and compare.
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return createHmac("sha256", secret).update(body, "utf8").digest("base64");
+}
+
+/**
+ * validateWebhookUrl plus a DNS lookup, so hostnames that point at private
+ * addresses are refused too. Run when an endpoint is saved and again before
+ * every delivery, as the host's DNS can change in between.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const error = validateWebhookUrl(url);
+  if (error) return error;
+
+  const { hostname } = new URL(url);
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(hostname.replace(/^\[|\]$/g, ""), { all: true, verbatim: true });
+  } catch {
+    return `Couldn't find ${hostname}. Check the URL is right.`;
+  }
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return "Webhook URLs must be reachable from the internet";
+  }
+  return null;
+}
+
+function buildPayload(shop: string, event: string, data: any) {
+  return { event, shop, createdAt: new Date().toISOString(), data };
+}
+
+/**
+ * Queue one delivery per event for every active endpoint subscribed to it.
+ * Webhooks are a side effect of price changes, so failures are logged and
+ * never thrown at the caller.
+ */
+async function queueEvents(shop: string, event: WebhookEvent, items: any[]) {
+  if (items.length === 0) return;
+
+  try {
+    const endpoints = await findSubscribedEndpoints(shop, event);
+    if (endpoints.length === 0) return;
+
+    const deliveries = endpoints.flatMap((endpoint) => items.map((data) => ({
+      endpointId: endpoint.id,
+      event,
+      payload: buildPayload(shop, event, data),
+    })));
+    await createWebhookDeliveries(shop, deliveries);
+
+    console.log(`🪝 Queued ${deliveries.length} ${event} webhook(s) for ${shop}`);
+  } catch (error) {
+    console.error(`❌ Failed to queue ${event} webhooks for ${shop}:`, error);
+  }
+}
+
+export async function queueWebhookEvent(shop: string, event: WebhookEvent, data: any) {
+  await queueEvents(shop, event, [data]);
+}
+
+/**
+ * A variant.price_changed event for every history entry of a batch
+ */
+export async function queueVariantPriceEvents(
+  shop: string,
+  batch: { batchId: string; actionType: string; priceList?: PriceListTarget | null },
+  entries: PriceHistoryEntry[]
+) {
+  await queueEvents(shop, "variant.price_changed", entries.map((entry) => ({
+    batchId: batch.batchId,
+    actionType: batch.actionType,
+    productId: entry.productId,
+    variantId: entry.variantId,
+    productTitle: entry.productTitle,
+    variantTitle: entry.variantTitle,
+    oldPrice: entry.oldPrice,
+    newPrice: entry.newPrice,
+    oldCompareAtPrice: entry.oldCompareAtPrice ?? null,
+    newCompareAtPrice: entry.newCompareAtPrice ?? null,
+    market: batch.priceList ? (batch.priceList.market ?? batch.priceList.name) : null,
+    currency: batch.priceList?.currency ?? null,
+  })));
+}
+
+export async function queueBatchCompletedEvent(shop: string, batch: {
+  batchId: string;
+  actionType: string;
+  succeededVariants: number;
+  failedVariants: number;
+  priceList?: PriceListTarget | null;
+  revertedBatchId?: string;
+  // Why the batch stopped before every variant was tried
+  error?: string | null;
+}) {
+  await queueWebhookEvent(shop, "batch.completed", {
+    batchId: batch.batchId,
+    actionType: batch.actionType,
+    succeededVariants: batch.succeededVariants,
+    failedVariants: batch.failedVariants,
+    market: batch.priceList ? (batch.priceList.market ?? batch.priceList.name) : null,
+    revertedBatchId: batch.revertedBatchId ?? null,
+    error: batch.error ?? null,
+  });
+}
+
+async function deliverWebhook(delivery: {
+  id: string;
+  shop: string;
+  endpointId: string;
+  event: string;
+  payload: any;
+  attempts: number;
+}) {
+  const attempts = delivery.attempts + 1;
+  const endpoint = await getWebhookEndpointById(delivery.endpointId);
+
+  if (!endpoint || !endpoint.active) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      attempts: delivery.attempts,
+      lastError: endpoint ? "Endpoint is turned off" : "Endpoint was removed",
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  const blocked = await checkWebhookUrl(endpoint.url);
+  if (blocked) {
+    error = `Not sent: ${blocked}`;
+  } else {
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "PriceBoost-Webhooks/1.0",
+          "X-PriceBoost-Event": delivery.event,
+          "X-PriceBoost-Delivery-Id": delivery.id,
+          "X-PriceBoost-Shop": delivery.shop,
+          "X-PriceBoost-Hmac-Sha256": signWebhookPayload(endpoint.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        redirect: "manual",
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ""}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.name === "TimeoutError"
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+        : requestError.message || "Request failed";
+    }
+  }
+
+  if (!error) {
+    await updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: null,
+      deliveredAt: new Date(),
+    });
+    return;
+  }
+
+  const nextAttemptAt = getNextWebhookAttempt(attempts);
+  await updateWebhookDelivery(delivery.id, {
+    status: nextAttemptAt ? "pending" : "failed",
+    attempts,
+    ...(nextAttemptAt && { nextAttemptAt }),
+    lastStatusCode: statusCode,
+    lastError: error,
+  });
+
+  console.warn(`⚠️ Webhook ${delivery.id} to ${endpoint.url} failed (attempt ${attempts}): ${error}`);
+}
+
+/**
+ * Send a test event to one endpoint right away. It's logged like any other
+ * delivery and retried if it fails.
+ */
+export async function sendTestWebhook(shop: string, endpointId: string) {
+  const delivery = await createWebhookDelivery(shop, {
+    endpointId,
+    event: TEST_WEBHOOK_EVENT,
+    payload: buildPayload(shop, TEST_WEBHOOK_EVENT, { message: "This is a test event from PriceBoost" }),
+  });
+
+  if (await claimWebhookDelivery(delivery.id)) {
+    await deliverWebhook(delivery);
+  }
+}
+
+/**
+ * Send every delivery that's due. Deliveries are claimed first, so several
+ * processes can run the worker side by side.
+ */
+export async function runWebhookDeliveries() {
+  if (working) return;
+  working = true;
+
+  try {
+    const requeued = await requeueStaleWebhookDeliveries(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`⚠️ Requeued ${requeued} stalled webhook deliveries`);
+    }
+
+    for (const delivery of await findDueWebhookDeliveries()) {
+      if (!(await claimWebhookDelivery(delivery.id))) continue;
+
+      try {
+        await deliverWebhook(delivery);
+      } catch (error: any) {
+        console.error(`❌ Webhook delivery ${delivery.id} errored:`, error);
+        await updateWebhookDelivery(delivery.id, {
+          status: "pending",
+          attempts: delivery.attempts,
+          lastError: error.message,
+        });
+      }
+    }
+  } finally {
+    working = false;
+  }
+}
+
+/**
+ * Start polling for due deliveries. Only one timer is kept per process, even
+ * across dev server reloads.
+ */
+export function startWebhookWorker() {
+  if (global.__webhookWorker__) return;
+
+  global.__webhookWorker__ = setInterval(() => {
+    runWebhookDeliveries().catch((error) => {
+      console.error("❌ Webhook worker run failed:", error);
+    });
+  }, POLL_INTERVAL_MS);
+
+  console.log("🪝 Webhook worker started");
+}
@@ -0,0 +1,64 @@
+// app/lib/webhooks.test.ts - Webhook endpoint URL checks
+import { describe, expect, it } from "vitest";
+import { isPrivateAddress, validateWebhookUrl } from "./webhooks";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "[::ffff:a9fe:a9fe]",
+    "64:ff9b::10.0.0.1",
+  ])("refuses %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "8.8.8.8",
+    "172.32.0.1",
+    "192.169.0.1",
+    "2606:4700::1111",
+    "::ffff:8.8.8.8",
+    "example.com",
+  ])("allows %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("validateWebhookUrl", () => {
+  it.each([
+    "https://localhost/hook",
+    "https://api.localhost/hook",
+    "https://10.0.0.5/hook",
+    // Decimal, hex and shortened IPv4 forms all mean 127.0.0.1
+    "https://2130706433/hook",
+    "https://0x7f000001/hook",
+    "https://127.1/hook",
+    "https://[::ffff:127.0.0.1]/hook",
+    "https://[fd00::1]/hook",
+  ])("refuses %s", (url) => {
+    expect(validateWebhookUrl(url)).toBe("Webhook URLs must be reachable from the internet");
+  });
+
+  it("asks for HTTPS and a full URL", () => {
+    expect(validateWebhookUrl("http://example.com/hook")).toBe("Webhook URLs must use HTTPS");
+    expect(validateWebhookUrl("example.com/hook")).toMatch(/full URL/);
+  });
+
+  it("accepts public hosts", () => {
+    expect(validateWebhookUrl("https://example.com/webhooks/priceboost")).toBeNull();
+    expect(validateWebhookUrl("https://8.8.8.8/hook")).toBeNull();
+  });
+});
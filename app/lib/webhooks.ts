@@ -0,0 +1,157 @@
+// app/lib/webhooks.ts - Outgoing webhook events, retry schedule and endpoint checks
+
+export const WEBHOOK_EVENTS = ["batch.completed", "variant.price_changed", "quota.threshold_reached"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the "Send test event" button only; endpoints can't subscribe to it
+export const TEST_WEBHOOK_EVENT = "test";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "batch.completed": "Batch completed",
+  "variant.price_changed": "Variant price changed",
+  "quota.threshold_reached": "Quota threshold reached",
+};
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  "batch.completed": "Once per price change, import, rule, scheduled change or undo, with how many variants changed",
+  "variant.price_changed": "Once for every variant whose price changed, with the old and new price",
+  "quota.threshold_reached": "When this period's usage reaches 80% and 100% of your plan's limit",
+};
+
+// Share of the monthly modification limit that triggers a quota event
+export const QUOTA_THRESHOLDS = [80, 100];
+
+// Wait before each retry; a delivery that fails them all is given up on
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * When to try again after `attempts` failed attempts, or null to give up
+ */
+export function getNextWebhookAttempt(attempts: number, now: Date = new Date()): Date | null {
+  const delay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+/**
+ * Thresholds passed by usage going from `before` to `after`, e.g. [80] for
+ * 75 → 85 out of 100
+ */
+export function crossedQuotaThresholds(before: number, after: number, limit: number): number[] {
+  if (limit <= 0) return [];
+  return QUOTA_THRESHOLDS.filter((percent) => {
+    const boundary = (limit * percent) / 100;
+    return before < boundary && after >= boundary;
+  });
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with or without brackets,
+ * including the ::ffff:1.2.3.4 form
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, "").split("%")[0];
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (!ipv4) return null;
+    text = `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    // Multicast and reserved
+    || a >= 224;
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the IPv4 address inside
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+
+  // ::, ::1 and the old IPv4-compatible form
+  return groups.slice(0, 6).every((group) => group === 0)
+    // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+    || (groups[0] & 0xfe00) === 0xfc00
+    || (groups[0] & 0xffc0) === 0xfe80
+    || (groups[0] & 0xff00) === 0xff00;
+}
+
+/**
+ * Loopback, private, link-local and other addresses that aren't on the
+ * public internet. Anything that isn't an IP address is false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPrivateIPv6(ipv6) : false;
+}
+
+/**
+ * Check the URL itself. Hosts given as an IP address are checked here, in
+ * any form the URL parser accepts (it turns http://2130706433 into
+ * 127.0.0.1); hostnames are resolved and checked by checkWebhookUrl.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Enter a full URL, e.g. https://example.com/webhooks/priceboost";
+  }
+
+  if (parsed.protocol !== "https:") {
+    return "Webhook URLs must use HTTPS";
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host)) {
+    return "Webhook URLs must be reachable from the internet";
+  }
+  return null;
+}
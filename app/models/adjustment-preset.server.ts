@@ -0,0 +1,68 @@
+// app/models/adjustment-preset.server.ts - Persistence for saved adjustment presets
+import { db } from "../db.server";
+import type { AdjustmentPreset } from "../lib/presets";
+import { EMPTY_PRODUCT_FILTERS, type ProductFilters } from "../lib/product-search";
+
+function toAdjustmentPreset(row: {
+  id: string;
+  name: string;
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule: string | null;
+  filters: any;
+}): AdjustmentPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    adjustmentType: row.adjustmentType,
+    adjustmentValue: row.adjustmentValue,
+    roundingRule: row.roundingRule,
+    filters: { ...EMPTY_PRODUCT_FILTERS, ...((row.filters as ProductFilters | null) || {}) },
+  };
+}
+
+export async function listAdjustmentPresets(shop: string): Promise<Array<AdjustmentPreset & { updatedAt: Date }>> {
+  const rows = await db.adjustmentPreset.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return rows.map((row) => ({ ...toAdjustmentPreset(row), updatedAt: row.updatedAt }));
+}
+
+export async function getAdjustmentPreset(shop: string, id: string): Promise<AdjustmentPreset | null> {
+  const row = await db.adjustmentPreset.findFirst({ where: { id, shop } });
+  return row ? toAdjustmentPreset(row) : null;
+}
+
+/**
+ * Create a preset, or replace an existing one when `id` is given. Returns
+ * null if that preset doesn't belong to the shop.
+ */
+export async function saveAdjustmentPreset(shop: string, data: {
+  id?: string | null;
+  name: string;
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule?: string | null;
+  filters: ProductFilters;
+}): Promise<AdjustmentPreset | null> {
+  const fields = {
+    name: data.name,
+    adjustmentType: data.adjustmentType,
+    adjustmentValue: data.adjustmentValue,
+    roundingRule: data.roundingRule ?? null,
+    filters: data.filters as any,
+  };
+
+  if (!data.id) {
+    return toAdjustmentPreset(await db.adjustmentPreset.create({ data: { shop, ...fields } }));
+  }
+
+  const { count } = await db.adjustmentPreset.updateMany({ where: { id: data.id, shop }, data: fields });
+  return count === 1 ? getAdjustmentPreset(shop, data.id) : null;
+}
+
+export async function deleteAdjustmentPreset(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.adjustmentPreset.deleteMany({ where: { id, shop } });
+  return count === 1;
+}
@@ -0,0 +1,75 @@
+// app/models/api-key.server.ts - Per-shop keys for the public API
+import { createHash, randomBytes } from "crypto";
+import { db } from "../db.server";
+
+const KEY_PREFIX = "pb_";
+// Characters of the key kept in plain text so shops can tell their keys apart
+const VISIBLE_PREFIX_LENGTH = 10;
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Create a key for the shop. The key itself is only returned here; just its
+ * hash is stored, so it can't be shown again.
+ */
+export async function createApiKey(shop: string, name: string): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+
+  const apiKey = await db.apiKey.create({
+    data: {
+      shop,
+      name,
+      prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+    },
+    select: { id: true, name: true, prefix: true, lastUsedAt: true, revokedAt: true, createdAt: true },
+  });
+
+  console.log(`🔑 Created API key ${apiKey.prefix}… for ${shop}`);
+  return { apiKey, key };
+}
+
+export async function listApiKeys(shop: string): Promise<ApiKeySummary[]> {
+  return await db.apiKey.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, name: true, prefix: true, lastUsedAt: true, revokedAt: true, createdAt: true },
+  });
+}
+
+export async function revokeApiKey(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.apiKey.updateMany({
+    where: { id, shop, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count === 1;
+}
+
+/**
+ * The key's shop and name, or null if it's unknown or revoked. Marks the key
+ * as used.
+ */
+export async function findActiveApiKey(key: string): Promise<{ shop: string; name: string } | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await db.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  await db.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+  return { shop: apiKey.shop, name: apiKey.name };
+}
@@ -0,0 +1,141 @@
+// app/models/order-cache.server.ts - Local cache of order line items for sales reports
+import { db } from "../db.server";
+import type { CachedOrderLine } from "../lib/sales-impact";
+
+export interface OrderSyncWindow {
+  syncedFrom: Date;
+  syncedTo: Date;
+}
+
+export async function getOrderSyncWindow(shop: string): Promise<OrderSyncWindow | null> {
+  const state = await db.orderSyncState.findUnique({ where: { shop } });
+  return state ? { syncedFrom: state.syncedFrom, syncedTo: state.syncedTo } : null;
+}
+
+export async function saveOrderSyncWindow(shop: string, window: OrderSyncWindow) {
+  return await db.orderSyncState.upsert({
+    where: { shop },
+    create: { shop, ...window },
+    update: window,
+  });
+}
+
+/**
+ * Store line items, skipping ones already cached from an overlapping sync
+ */
+export async function saveOrderLines(shop: string, lines: Array<CachedOrderLine & { orderId: string; lineItemId: string }>) {
+  if (lines.length === 0) {
+    return { count: 0 };
+  }
+
+  return await db.orderLine.createMany({
+    data: lines.map((line) => ({
+      shop,
+      orderId: line.orderId,
+      lineItemId: line.lineItemId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      revenue: line.revenue,
+      processedAt: line.processedAt,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+export async function getOrderLines(
+  shop: string,
+  variantIds: string[],
+  from: Date,
+  to: Date
+): Promise<CachedOrderLine[]> {
+  if (variantIds.length === 0) {
+    return [];
+  }
+
+  return await db.orderLine.findMany({
+    where: { shop, variantId: { in: variantIds }, processedAt: { gte: from, lt: to } },
+    select: { variantId: true, quantity: true, revenue: true, processedAt: true },
+  });
+}
+
+/**
+ * queued → running → succeeded | failed
+ */
+export type OrderSyncJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export async function getLatestOrderSyncJob(shop: string) {
+  return await db.orderSyncJob.findFirst({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function createOrderSyncJob(shop: string, syncFrom: Date, syncTo: Date) {
+  return await db.orderSyncJob.create({
+    data: { shop, status: "queued", syncFrom, syncTo },
+  });
+}
+
+/**
+ * Queue a failed sync again, for its original range
+ */
+export async function retryOrderSyncJob(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.orderSyncJob.updateMany({
+    where: { id, shop, status: "failed" },
+    data: { status: "queued", lastError: null, startedAt: null, finishedAt: null },
+  });
+  return count === 1;
+}
+
+export async function findQueuedOrderSyncJobs(limit: number = 5) {
+  return await db.orderSyncJob.findMany({
+    where: { status: "queued" },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Move a job from queued to running unless another worker got there first
+ */
+export async function claimOrderSyncJob(id: string): Promise<boolean> {
+  const { count } = await db.orderSyncJob.updateMany({
+    where: { id, status: "queued" },
+    data: { status: "running", startedAt: new Date() },
+  });
+  return count === 1;
+}
+
+export async function updateOrderSyncJob(id: string, data: {
+  status?: OrderSyncJobStatus;
+  lastError?: string | null;
+  finishedAt?: Date;
+}) {
+  return await db.orderSyncJob.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Show a running job is still alive
+ */
+export async function touchOrderSyncJob(id: string) {
+  await db.orderSyncJob.update({
+    where: { id },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Put running jobs that stopped reporting progress (e.g. the process died)
+ * back in the queue. Running jobs touch updatedAt after every page of
+ * orders, and a requeued job only fetches what isn't cached yet.
+ */
+export async function requeueStaleOrderSyncJobs(staleBefore: Date) {
+  const { count } = await db.orderSyncJob.updateMany({
+    where: { status: "running", updatedAt: { lt: staleBefore } },
+    data: { status: "queued" },
+  });
+  return count;
+}
@@ -0,0 +1,54 @@
+// app/models/price-rule.server.ts - Persistence for saved price rules
+import { db } from "../db.server";
+import type { PriceRule, PriceRuleStep } from "../lib/price-rules";
+
+function toPriceRule(row: { id: string; name: string; steps: any; roundingRule: string | null }): PriceRule {
+  return {
+    id: row.id,
+    name: row.name,
+    steps: (row.steps as PriceRuleStep[]) || [],
+    roundingRule: row.roundingRule,
+  };
+}
+
+export async function listPriceRules(shop: string): Promise<Array<PriceRule & { updatedAt: Date }>> {
+  const rows = await db.priceRule.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return rows.map((row) => ({ ...toPriceRule(row), updatedAt: row.updatedAt }));
+}
+
+export async function getPriceRule(shop: string, id: string): Promise<PriceRule | null> {
+  const row = await db.priceRule.findFirst({ where: { id, shop } });
+  return row ? toPriceRule(row) : null;
+}
+
+/**
+ * Create a rule, or replace the name, steps and rounding of an existing one
+ * when `id` is given. Returns null if that rule doesn't belong to the shop.
+ */
+export async function savePriceRule(shop: string, data: {
+  id?: string | null;
+  name: string;
+  steps: PriceRuleStep[];
+  roundingRule?: string | null;
+}): Promise<PriceRule | null> {
+  const fields = {
+    name: data.name,
+    steps: data.steps as any,
+    roundingRule: data.roundingRule ?? null,
+  };
+
+  if (!data.id) {
+    return toPriceRule(await db.priceRule.create({ data: { shop, ...fields } }));
+  }
+
+  const { count } = await db.priceRule.updateMany({ where: { id: data.id, shop }, data: fields });
+  return count === 1 ? getPriceRule(shop, data.id) : null;
+}
+
+export async function deletePriceRule(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.priceRule.deleteMany({ where: { id, shop } });
+  return count === 1;
+}
@@ -0,0 +1,238 @@
+// app/models/pricing-history.server.ts - Pricing history persistence grouped by batch
+import { randomUUID } from "crypto";
+import { db } from "../db.server";
+import type { PriceListTarget } from "../lib/price-lists";
+import { getAnalyticsRangeBounds, type AnalyticsHistoryRow, type AnalyticsRange } from "../lib/analytics";
+
+// Enough for months of heavy use; past this the analytics page says so
+const MAX_ANALYTICS_ROWS = 50000;
+
+export interface PriceHistoryEntry {
+  productId: string;
+  variantId: string;
+  productTitle: string;
+  variantTitle: string;
+  oldPrice: number;
+  newPrice: number;
+  oldCompareAtPrice?: number | null;
+  newCompareAtPrice?: number | null;
+  // Unit cost when the change was made, for showing margins
+  unitCost?: number | null;
+  // Price list batches only: whether the old price was a fixed one
+  oldPriceFixed?: boolean | null;
+  vendor?: string | null;
+}
+
+export interface HistoryFilters {
+  actionType: string | null;
+  search: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface PricingBatchSummary {
+  batchId: string;
+  actionType: string;
+  adjustmentValue: number;
+  roundingRule: string | null;
+  // Market the batch's price list serves; null for base prices
+  market: string | null;
+  variantCount: number;
+  createdAt: Date;
+  reverted: boolean;
+}
+
+/**
+ * Every run of a bulk price change gets its own batch ID so its history rows
+ * can be listed and undone together
+ */
+export function createBatchId(): string {
+  return randomUUID();
+}
+
+export async function recordPriceHistory(
+  shop: string,
+  batchId: string,
+  entries: PriceHistoryEntry[],
+  details: {
+    actionType: string;
+    adjustmentValue: number;
+    userEmail?: string | null;
+    revertedBatchId?: string;
+    roundingRule?: string | null;
+    // Set when the prices were written to a market price list
+    priceList?: PriceListTarget | null;
+  }
+) {
+  if (entries.length === 0) {
+    return { count: 0 };
+  }
+
+  return await db.pricingHistory.createMany({
+    data: entries.map((entry) => ({
+      shop,
+      batchId,
+      productId: entry.productId,
+      variantId: entry.variantId,
+      productTitle: entry.productTitle,
+      variantTitle: entry.variantTitle,
+      actionType: details.actionType,
+      adjustmentValue: details.adjustmentValue,
+      oldPrice: entry.oldPrice,
+      newPrice: entry.newPrice,
+      oldCompareAtPrice: entry.oldCompareAtPrice ?? null,
+      newCompareAtPrice: entry.newCompareAtPrice ?? null,
+      unitCost: entry.unitCost ?? null,
+      oldPriceFixed: details.priceList ? entry.oldPriceFixed ?? null : null,
+      vendor: entry.vendor || null,
+      userEmail: details.userEmail ?? null,
+      revertedBatchId: details.revertedBatchId ?? null,
+      roundingRule: details.roundingRule ?? null,
+      priceListId: details.priceList?.id ?? null,
+      market: details.priceList ? (details.priceList.market ?? details.priceList.name) : null,
+      currency: details.priceList?.currency ?? null,
+    })),
+  });
+}
+
+export function parseHistoryFilters(searchParams: URLSearchParams): HistoryFilters {
+  return {
+    actionType: searchParams.get("actionType"),
+    search: searchParams.get("search"),
+    startDate: searchParams.get("startDate"),
+    endDate: searchParams.get("endDate"),
+  };
+}
+
+/**
+ * Prisma where clause for the history page filters, shared by the page and
+ * the CSV export so both always show the same rows
+ */
+export function buildHistoryWhere(shop: string, filters: HistoryFilters) {
+  const where: any = { shop };
+  
+  if (filters.actionType && filters.actionType !== "all") {
+    where.actionType = filters.actionType;
+  }
+  
+  if (filters.search) {
+    // MySQL's default collation already compares case-insensitively
+    where.OR = [
+      { productTitle: { contains: filters.search } },
+      { variantTitle: { contains: filters.search } },
+    ];
+  }
+  
+  if (filters.startDate) {
+    where.createdAt = { gte: new Date(filters.startDate) };
+  }
+  
+  if (filters.endDate) {
+    where.createdAt = {
+      ...where.createdAt,
+      lte: new Date(filters.endDate)
+    };
+  }
+  
+  return where;
+}
+
+export async function getBatchEntries(shop: string, batchId: string) {
+  return await db.pricingHistory.findMany({
+    where: { shop, batchId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function isBatchReverted(shop: string, batchId: string): Promise<boolean> {
+  const revert = await db.pricingHistory.findFirst({
+    where: { shop, revertedBatchId: batchId },
+    select: { id: true },
+  });
+
+  return revert !== null;
+}
+
+/**
+ * Claim a batch for an undo before any prices are written back, so two undos
+ * of the same batch can't both run. Returns false when another undo got
+ * there first. An undo that was interrupted can claim its batch again with
+ * the same revert batch ID.
+ */
+export async function claimBatchRevert(shop: string, batchId: string, revertBatchId: string): Promise<boolean> {
+  const { count } = await db.pricingHistory.updateMany({
+    where: { shop, batchId, OR: [{ undoneByBatchId: null }, { undoneByBatchId: revertBatchId }] },
+    data: { undoneByBatchId: revertBatchId },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Give up a claim when the undo wrote nothing, so it can be tried again
+ */
+export async function releaseBatchRevert(shop: string, batchId: string, revertBatchId: string) {
+  await db.pricingHistory.updateMany({
+    where: { shop, batchId, undoneByBatchId: revertBatchId },
+    data: { undoneByBatchId: null },
+  });
+}
+
+/**
+ * Most recent batches for a shop, newest first
+ */
+export async function getRecentBatches(shop: string, limit: number = 10): Promise<PricingBatchSummary[]> {
+  const groups = await db.pricingHistory.groupBy({
+    by: ["batchId", "actionType", "adjustmentValue", "roundingRule", "market"],
+    where: { shop, batchId: { not: null } },
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: { _max: { createdAt: "desc" } },
+    take: limit,
+  });
+
+  const batchIds = groups.map((group) => group.batchId as string);
+  const reverts = await db.pricingHistory.findMany({
+    where: { shop, revertedBatchId: { in: batchIds } },
+    select: { revertedBatchId: true },
+    distinct: ["revertedBatchId"],
+  });
+  const revertedIds = new Set(reverts.map((r) => r.revertedBatchId));
+
+  return groups.map((group) => ({
+    batchId: group.batchId as string,
+    actionType: group.actionType,
+    adjustmentValue: group.adjustmentValue,
+    roundingRule: group.roundingRule,
+    market: group.market,
+    variantCount: group._count._all,
+    createdAt: group._max.createdAt as Date,
+    reverted: revertedIds.has(group.batchId),
+  }));
+}
+
+/**
+ * Every history row in a date range, with just the columns analytics uses.
+ * `truncated` is set when the range holds more rows than are loaded.
+ */
+export async function getAnalyticsHistory(
+  shop: string,
+  range: AnalyticsRange
+): Promise<{ rows: AnalyticsHistoryRow[]; truncated: boolean }> {
+  const rows = await db.pricingHistory.findMany({
+    where: { shop, createdAt: getAnalyticsRangeBounds(range) },
+    select: {
+      productId: true,
+      productTitle: true,
+      vendor: true,
+      batchId: true,
+      oldPrice: true,
+      newPrice: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_ANALYTICS_ROWS + 1,
+  });
+
+  return { rows: rows.slice(0, MAX_ANALYTICS_ROWS), truncated: rows.length > MAX_ANALYTICS_ROWS };
+}
@@ -0,0 +1,67 @@
+// app/models/pricing-job.server.test.ts - Claiming, requeueing and ownership of pricing jobs
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import {
+  claimPricingJob,
+  createPricingJob,
+  requeueStalePricingJobs,
+  updatePricingJob,
+} from "./pricing-job.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "jobs-test.myshopify.com";
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+async function queueJob() {
+  return await createPricingJob(SHOP, {
+    adjustmentType: "percentage",
+    adjustmentValue: 10,
+    productIds: ["gid://shopify/Product/1"],
+  });
+}
+
+describe("pricing job ownership", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it("lets only one worker claim a queued job", async () => {
+    const job = await queueJob();
+
+    const [first, second] = await Promise.all([claimPricingJob(job.id), claimPricingJob(job.id)]);
+
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+  });
+
+  it("keeps a job whose worker is still saving progress out of the queue", async () => {
+    const job = await queueJob();
+    const workerId = (await claimPricingJob(job.id))!;
+
+    expect(await updatePricingJob(job.id, workerId, { cursor: 10 })).toBe(true);
+    expect(await requeueStalePricingJobs(new Date(Date.now() - STALE_AFTER_MS))).toBe(0);
+  });
+
+  it("stops the first worker once a stale job is claimed again", async () => {
+    const job = await queueJob();
+    const stalled = (await claimPricingJob(job.id))!;
+    await fakeDb.pricingJob.update({
+      where: { id: job.id },
+      data: { updatedAt: new Date(Date.now() - STALE_AFTER_MS - 1) },
+    });
+
+    expect(await requeueStalePricingJobs(new Date(Date.now() - STALE_AFTER_MS))).toBe(1);
+    const resumed = (await claimPricingJob(job.id))!;
+
+    // The slow worker finishes its chunk, but can't save it or go on
+    expect(await updatePricingJob(job.id, stalled, { cursor: 10 })).toBe(false);
+    expect(await updatePricingJob(job.id, resumed, { cursor: 10 })).toBe(true);
+    expect((await fakeDb.pricingJob.findUnique({ where: { id: job.id } }))?.cursor).toBe(10);
+  });
+});
@@ -0,0 +1,133 @@
+// app/models/pricing-job.server.ts - Persistence for queued bulk price updates
+import { randomUUID } from "crypto";
+import { db } from "../db.server";
+import type { PricingProduct } from "../lib/pricing.server";
+import type { PriceListTarget } from "../lib/price-lists";
+import type { PriceRule } from "../lib/price-rules";
+import type { VariantFilter } from "../lib/product-search";
+import { createBatchId } from "./pricing-history.server";
+
+/**
+ * queued → running → succeeded | partial | failed
+ * partial means some variants failed; the rest were written and recorded.
+ */
+export type PricingJobStatus = "queued" | "running" | "succeeded" | "partial" | "failed";
+
+export interface PricingJobFailure {
+  productTitle: string;
+  variantTitle: string;
+  message: string;
+}
+
+// Only the first failures are kept so the job row stays small
+export const MAX_STORED_FAILURES = 50;
+
+export function countVariants(products: PricingProduct[]): number {
+  return products.reduce((sum, product) => sum + (product.variants?.length || 0), 0);
+}
+
+/**
+ * Queue a job for product IDs or for every product matching a search query.
+ * The worker resolves a query to product IDs when it starts, then loads
+ * variants and applies the variant filter one chunk at a time.
+ */
+export async function createPricingJob(shop: string, data: {
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule?: string | null;
+  // A copy of the rule, so editing it doesn't change a job already queued
+  priceRule?: PriceRule | null;
+  productIds?: string[];
+  searchQuery?: string;
+  variantFilter?: VariantFilter | null;
+  // Write to this market price list instead of base prices
+  priceList?: PriceListTarget | null;
+  userEmail?: string | null;
+}) {
+  return await db.pricingJob.create({
+    data: {
+      shop,
+      status: "queued",
+      adjustmentType: data.adjustmentType,
+      adjustmentValue: data.adjustmentValue,
+      roundingRule: data.roundingRule ?? null,
+      priceRule: data.priceRule ? (data.priceRule as any) : undefined,
+      productIds: data.productIds ? (data.productIds as any) : undefined,
+      searchQuery: data.productIds ? null : (data.searchQuery ?? ""),
+      variantFilter: data.variantFilter ? (data.variantFilter as any) : undefined,
+      priceList: data.priceList ? (data.priceList as any) : undefined,
+      totalProducts: data.productIds?.length ?? 0,
+      userEmail: data.userEmail ?? null,
+      batchId: createBatchId(),
+    },
+  });
+}
+
+export async function getPricingJob(shop: string, id: string) {
+  return await db.pricingJob.findFirst({ where: { id, shop } });
+}
+
+export async function findQueuedPricingJobs(limit: number = 5) {
+  return await db.pricingJob.findMany({
+    where: { status: "queued" },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Move a job from queued to running unless another worker got there first.
+ * Returns the worker ID that later updates must pass, or null.
+ */
+export async function claimPricingJob(id: string): Promise<string | null> {
+  const workerId = randomUUID();
+  const { count } = await db.pricingJob.updateMany({
+    where: { id, status: "queued" },
+    data: { status: "running", workerId, startedAt: new Date() },
+  });
+  return count === 1 ? workerId : null;
+}
+
+/**
+ * Update a running job, only while the worker that claimed it still owns it.
+ * Returns false once the job was requeued and claimed by another worker, so
+ * the first one stops instead of writing the same chunks again.
+ */
+export async function updatePricingJob(id: string, workerId: string, data: {
+  status?: PricingJobStatus;
+  productIds?: string[];
+  cursor?: number;
+  totalProducts?: number;
+  totalVariants?: number;
+  processedVariants?: number;
+  succeededVariants?: number;
+  failedVariants?: number;
+  failures?: PricingJobFailure[];
+  lastError?: string | null;
+  finishedAt?: Date;
+}): Promise<boolean> {
+  const { count } = await db.pricingJob.updateMany({
+    where: { id, workerId, status: "running" },
+    data: {
+      ...data,
+      productIds: data.productIds ? (data.productIds as any) : undefined,
+      failures: data.failures ? (data.failures as any) : undefined,
+      updatedAt: new Date(),
+    },
+  });
+  return count === 1;
+}
+
+/**
+ * Put running jobs that stopped reporting progress (e.g. the process died)
+ * back in the queue. Progress is saved after every chunk and live workers
+ * show they're alive while a chunk is written, so they resume from where
+ * they stopped.
+ */
+export async function requeueStalePricingJobs(staleBefore: Date) {
+  const { count } = await db.pricingJob.updateMany({
+    where: { status: "running", updatedAt: { lt: staleBefore } },
+    data: { status: "queued" },
+  });
+  return count;
+}
@@ -0,0 +1,160 @@
+// app/models/scheduled-price-change.server.ts - Persistence for scheduled price changes
+import { db } from "../db.server";
+import type { VariantFilter } from "../lib/product-search";
+
+/**
+ * scheduled → applying → active (has an end time) → reverting → completed
+ * scheduled → applying → completed (no end time)
+ * Any step can end in failed; only scheduled changes can be cancelled.
+ * Changes left applying or reverting by a runner that died go back a step
+ * and are picked up again.
+ */
+export type ScheduleStatus =
+  | "scheduled"
+  | "applying"
+  | "active"
+  | "reverting"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+export interface ScheduledProduct {
+  id: string;
+  title: string;
+}
+
+export async function createScheduledPriceChange(shop: string, data: {
+  products: ScheduledProduct[];
+  adjustmentType: string;
+  adjustmentValue: number;
+  roundingRule?: string | null;
+  variantFilter?: VariantFilter | null;
+  startAt: Date;
+  endAt?: Date | null;
+}) {
+  return await db.scheduledPriceChange.create({
+    data: {
+      shop,
+      products: data.products as any,
+      adjustmentType: data.adjustmentType,
+      adjustmentValue: data.adjustmentValue,
+      roundingRule: data.roundingRule ?? null,
+      variantFilter: data.variantFilter ? (data.variantFilter as any) : undefined,
+      startAt: data.startAt,
+      endAt: data.endAt ?? null,
+      status: "scheduled",
+    },
+  });
+}
+
+export async function listScheduledPriceChanges(shop: string) {
+  return await db.scheduledPriceChange.findMany({
+    where: { shop },
+    orderBy: { startAt: "desc" },
+    take: 100,
+  });
+}
+
+/**
+ * Cancel a pending change, or bring the end time of an active one forward so
+ * the runner reverts it on its next pass
+ */
+export async function cancelScheduledPriceChange(shop: string, id: string): Promise<ScheduleStatus | null> {
+  const schedule = await db.scheduledPriceChange.findFirst({ where: { id, shop } });
+  if (!schedule) return null;
+
+  if (schedule.status === "scheduled") {
+    const { count } = await db.scheduledPriceChange.updateMany({
+      where: { id, status: "scheduled" },
+      data: { status: "cancelled" },
+    });
+    return count === 1 ? "cancelled" : null;
+  }
+
+  if (schedule.status === "active") {
+    await db.scheduledPriceChange.update({
+      where: { id },
+      data: { endAt: new Date() },
+    });
+    return "active";
+  }
+
+  return null;
+}
+
+export async function getScheduledPriceChange(id: string) {
+  return await db.scheduledPriceChange.findUnique({ where: { id } });
+}
+
+/**
+ * Move a schedule from one status to another only if nobody else has done so
+ * already. Returns false when another runner won the race.
+ */
+export async function claimScheduledPriceChange(
+  id: string,
+  from: ScheduleStatus,
+  to: ScheduleStatus
+): Promise<boolean> {
+  const { count } = await db.scheduledPriceChange.updateMany({
+    where: { id, status: from },
+    data: { status: to },
+  });
+  return count === 1;
+}
+
+export async function updateScheduledPriceChange(id: string, data: {
+  status?: ScheduleStatus;
+  appliedBatchId?: string;
+  revertBatchId?: string;
+  lastError?: string | null;
+}) {
+  return await db.scheduledPriceChange.update({
+    where: { id },
+    data,
+  });
+}
+
+/**
+ * Show a runner is still working on a schedule
+ */
+export async function touchScheduledPriceChange(id: string) {
+  await db.scheduledPriceChange.update({
+    where: { id },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Put schedules whose runner stopped reporting (e.g. the process died) back
+ * where they were before being claimed. Applying resumes in the same batch
+ * and skips variants already written; reverting only touches variants
+ * still at the scheduled price.
+ */
+export async function requeueStaleScheduledPriceChanges(staleBefore: Date) {
+  const [applying, reverting] = await Promise.all([
+    db.scheduledPriceChange.updateMany({
+      where: { status: "applying", updatedAt: { lt: staleBefore } },
+      data: { status: "scheduled" },
+    }),
+    db.scheduledPriceChange.updateMany({
+      where: { status: "reverting", updatedAt: { lt: staleBefore } },
+      data: { status: "active" },
+    }),
+  ]);
+  return applying.count + reverting.count;
+}
+
+export async function findDueScheduledPriceChanges(now: Date) {
+  const [toApply, toRevert] = await Promise.all([
+    db.scheduledPriceChange.findMany({
+      where: { status: "scheduled", startAt: { lte: now } },
+      orderBy: { startAt: "asc" },
+    }),
+    db.scheduledPriceChange.findMany({
+      where: { status: "active", endAt: { lte: now } },
+      orderBy: { endAt: "asc" },
+    }),
+  ]);
+
+  return { toApply, toRevert };
+}
@@ -0,0 +1,39 @@
+// app/models/shop-settings.server.ts - Persistence for per-shop settings
+import { db } from "../db.server";
+import { DEFAULT_GUARDRAILS, type PriceGuardrails } from "../lib/guardrails";
+
+/**
+ * The shop's price guardrails, or the defaults (all off) when it hasn't
+ * saved any
+ */
+export async function getPriceGuardrails(shop: string): Promise<PriceGuardrails> {
+  const settings = await db.shopSettings.findUnique({ where: { shop } });
+  if (!settings) {
+    return { ...DEFAULT_GUARDRAILS };
+  }
+
+  return {
+    minPrice: settings.minPrice,
+    maxPrice: settings.maxPrice,
+    maxChangePercent: settings.maxChangePercent,
+    neverBelowCost: settings.neverBelowCost,
+  };
+}
+
+export async function savePriceGuardrails(shop: string, guardrails: PriceGuardrails): Promise<PriceGuardrails> {
+  const data = {
+    minPrice: guardrails.minPrice,
+    maxPrice: guardrails.maxPrice,
+    maxChangePercent: guardrails.maxChangePercent,
+    neverBelowCost: guardrails.neverBelowCost,
+  };
+
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+
+  console.log(`🛡️ Saved price guardrails for ${shop}`);
+  return data;
+}
@@ -0,0 +1,224 @@
+// app/models/subscription.server.test.ts - Usage rollover and quota reservations against an in-memory database
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "../db.server";
+import type { FakeDb } from "../test/fake-db";
+import {
+  getOrCreateSubscription,
+  releaseProductQuota,
+  reserveProductQuota,
+  rolloverUsagePeriod,
+} from "./subscription.server";
+
+vi.mock("../db.server", async () => {
+  const { createFakeDb } = await import("../test/fake-db");
+  return { db: createFakeDb() };
+});
+
+const fakeDb = db as unknown as FakeDb;
+
+const SHOP = "rollover-test.myshopify.com";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS = 30 * DAY_MS;
+const START = new Date("2026-01-01T00:00:00.000Z");
+
+function at(ms: number): Date {
+  return new Date(START.getTime() + ms);
+}
+
+async function seedSubscription(data: Record<string, any> = {}, modifiedProducts: number = 3) {
+  const subscription = await fakeDb.subscription.create({
+    data: {
+      shop: SHOP,
+      planName: "standard",
+      status: "active",
+      usageLimit: 500,
+      usageCount: modifiedProducts,
+      totalPriceChanges: modifiedProducts * 2,
+      periodStart: START,
+      ...data,
+    },
+  });
+
+  await fakeDb.productModification.createMany({
+    data: Array.from({ length: modifiedProducts }, (_, i) => ({
+      shop: SHOP,
+      productId: `gid://shopify/Product/${i + 1}`,
+      productTitle: `Product ${i + 1}`,
+      subscriptionId: subscription.id,
+      billingPeriodStart: START,
+    })),
+  });
+
+  return subscription;
+}
+
+describe("usage period rollover", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("leaves a running period alone", async () => {
+    await seedSubscription();
+
+    const subscription = await getOrCreateSubscription(SHOP, at(PERIOD_MS - 1));
+
+    expect(subscription.usageCount).toBe(3);
+    expect(subscription.periodStart).toEqual(START);
+    expect(await fakeDb.usagePeriod.count()).toBe(0);
+  });
+
+  it("archives the period and resets the counters at the boundary", async () => {
+    await seedSubscription();
+
+    const subscription = await getOrCreateSubscription(SHOP, at(PERIOD_MS));
+
+    expect(subscription.usageCount).toBe(0);
+    expect(subscription.totalPriceChanges).toBe(0);
+    expect(subscription.periodStart).toEqual(at(PERIOD_MS));
+
+    const periods = await fakeDb.usagePeriod.findMany();
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({
+      planName: "standard",
+      periodStart: START,
+      periodEnd: at(PERIOD_MS),
+      usageCount: 3,
+      usageLimit: 500,
+      uniqueProducts: 3,
+      totalPriceChanges: 6,
+    });
+
+    // The closing period's products stay on record for the usage page
+    expect(await fakeDb.productModification.count({ where: { billingPeriodStart: START } })).toBe(3);
+  });
+
+  it("archives only the last active period after several missed ones", async () => {
+    await seedSubscription();
+
+    const subscription = await getOrCreateSubscription(SHOP, at(3 * PERIOD_MS + 10 * DAY_MS));
+
+    expect(subscription.periodStart).toEqual(at(3 * PERIOD_MS));
+    const periods = await fakeDb.usagePeriod.findMany();
+    expect(periods).toHaveLength(1);
+    expect(periods[0].periodEnd).toEqual(at(PERIOD_MS));
+  });
+
+  it("rolls annual plans over monthly and keeps Shopify's yearly billing date", async () => {
+    const renewal = at(365 * DAY_MS);
+    await seedSubscription({ planName: "pro", billingInterval: "ANNUAL", currentPeriodEnd: renewal });
+
+    const subscription = await getOrCreateSubscription(SHOP, at(PERIOD_MS + DAY_MS));
+
+    expect(subscription.periodStart).toEqual(at(PERIOD_MS));
+    expect(subscription.currentPeriodEnd).toEqual(renewal);
+    expect(await fakeDb.usagePeriod.count()).toBe(1);
+  });
+
+  it("rolls monthly plans over on Shopify's billing date and keeps it as it was", async () => {
+    const billingDate = at(PERIOD_MS + 3 * DAY_MS);
+    await seedSubscription({ currentPeriodEnd: billingDate });
+
+    const subscription = await getOrCreateSubscription(SHOP, at(PERIOD_MS));
+
+    expect(subscription.periodStart).toEqual(at(3 * DAY_MS));
+    expect(subscription.currentPeriodEnd).toEqual(billingDate);
+  });
+
+  it("rolls a period over once when two requests race", async () => {
+    const stale = await seedSubscription();
+    const archive = vi.spyOn(fakeDb.usagePeriod, "create");
+
+    const [first, second] = await Promise.all([
+      rolloverUsagePeriod(stale, at(PERIOD_MS)),
+      rolloverUsagePeriod(stale, at(PERIOD_MS)),
+    ]);
+
+    // The loser's reset matches no row, so it never gets as far as archiving
+    expect(archive).toHaveBeenCalledTimes(1);
+    expect(await fakeDb.usagePeriod.count()).toBe(1);
+    expect(first.periodStart).toEqual(at(PERIOD_MS));
+    expect(second.periodStart).toEqual(at(PERIOD_MS));
+    expect(second.usageCount).toBe(0);
+  });
+
+  it("skips the reset when usage was tracked since the subscription was read", async () => {
+    const stale = await seedSubscription();
+    await fakeDb.subscription.update({ where: { shop: SHOP }, data: { usageCount: { increment: 1 } } });
+
+    const subscription = await rolloverUsagePeriod(stale, at(PERIOD_MS));
+
+    expect(subscription.usageCount).toBe(4);
+    expect(subscription.periodStart).toEqual(START);
+    expect(await fakeDb.usagePeriod.count()).toBe(0);
+
+    // The next read sees the fresh row and rolls it over with the tracked product
+    const rolled = await getOrCreateSubscription(SHOP, at(PERIOD_MS));
+    expect(rolled.usageCount).toBe(0);
+    expect((await fakeDb.usagePeriod.findFirst())?.usageCount).toBe(4);
+  });
+});
+
+describe("quota reservations", () => {
+  const NOW = at(10 * DAY_MS);
+  const TTL_MS = 15 * 60 * 1000;
+
+  function products(from: number, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => `gid://shopify/Product/${from + i}`);
+  }
+
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    // 17 of the free plan's 20 products used, so 3 are left
+    await seedSubscription({ planName: "free", usageLimit: 20 }, 17);
+  });
+
+  it("lets only one of two overlapping batches into the last of the quota", async () => {
+    const results = await Promise.all([
+      reserveProductQuota(SHOP, products(101, 2), NOW),
+      reserveProductQuota(SHOP, products(201, 2), NOW),
+    ]);
+
+    expect(results.map((result) => result.reserved).sort()).toEqual([false, true]);
+    expect(results.find((result) => !result.reserved)).toMatchObject({ limit: 20, totalAfter: 21 });
+    expect(await fakeDb.quotaReservation.count()).toBe(2);
+  });
+
+  it("doesn't count products changed this period or held by another batch twice", async () => {
+    const first = await reserveProductQuota(SHOP, products(101, 3), NOW);
+    const second = await reserveProductQuota(SHOP, [...products(1, 5), ...products(101, 3)], NOW);
+
+    expect(first.reserved).toBe(true);
+    expect(second.reserved).toBe(true);
+  });
+
+  it("gives the quota back when a batch releases its reservation", async () => {
+    const failed = await reserveProductQuota(SHOP, products(101, 3), NOW);
+    expect(failed.reserved).toBe(true);
+    expect((await reserveProductQuota(SHOP, products(201, 3), NOW)).reserved).toBe(false);
+
+    await releaseProductQuota(failed.reserved ? failed.reservationId : null);
+
+    expect((await reserveProductQuota(SHOP, products(201, 3), NOW)).reserved).toBe(true);
+  });
+
+  it("lets a reservation that was never released expire after 15 minutes", async () => {
+    expect((await reserveProductQuota(SHOP, products(101, 3), NOW)).reserved).toBe(true);
+
+    const during = await reserveProductQuota(SHOP, products(201, 3), new Date(NOW.getTime() + TTL_MS - 1));
+    expect(during.reserved).toBe(false);
+
+    const after = await reserveProductQuota(SHOP, products(201, 3), new Date(NOW.getTime() + TTL_MS));
+    expect(after.reserved).toBe(true);
+    expect(await fakeDb.quotaReservation.count({ where: { productId: { in: products(101, 3) } } })).toBe(0);
+  });
+
+  it("skips reservations on unlimited plans", async () => {
+    await fakeDb.subscription.update({ where: { shop: SHOP }, data: { planName: "pro", usageLimit: 999999 } });
+
+    expect(await reserveProductQuota(SHOP, products(101, 50), NOW)).toEqual({ reserved: true, reservationId: null });
+    expect(await fakeDb.quotaReservation.count()).toBe(0);
+  });
+});
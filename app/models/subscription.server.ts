@@ -1,8 +1,14 @@
 // app/models/subscription.server.ts - COMPLETE FILE with modification tracking
+import { randomUUID } from "crypto";
 import { db } from "../db.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, hasUnlimitedProducts } from "../lib/plans";
+import { crossedQuotaThresholds } from "../lib/webhooks";
+import { queueWebhookEvent } from "../lib/webhooks.server";
+import { getCurrentUsagePeriod, getUsageRollover } from "../lib/usage-periods";
 
-export async function getOrCreateSubscription(shop: string) {
+type SubscriptionRecord = NonNullable<Awaited<ReturnType<typeof db.subscription.findUnique>>>;
+
+export async function getOrCreateSubscription(shop: string, now: Date = new Date()) {
   try {
     let subscription = await db.subscription.findUnique({
       where: { shop },
@@ -18,11 +24,12 @@ export async function getOrCreateSubscription(shop: string) {
           usageCount: 0,
           uniqueProductsModified: [],
           totalPriceChanges: 0,
+          periodStart: now,
         },
       });
     }
     
-    return subscription;
+    return await rolloverUsagePeriod(await migrateLegacyUsage(subscription), now);
   } catch (error: any) {
     if (error.code === 'P2002') {
       console.log(`Subscription exists for ${shop}, fetching...`);
@@ -39,13 +46,128 @@ export async function getOrCreateSubscription(shop: string) {
   }
 }
 
+/**
+ * Subscriptions from before usage periods were tracked have no periodStart
+ * and keep their modified products in a JSON list. Pin the period they're
+ * in and move that list into product_modifications.
+ */
+async function migrateLegacyUsage(subscription: SubscriptionRecord): Promise<SubscriptionRecord> {
+  if (subscription.periodStart) {
+    return subscription;
+  }
+
+  const { shop } = subscription;
+  const periodStart = getCurrentUsagePeriod(subscription).start;
+  const productIds = Array.from(new Set((subscription.uniqueProductsModified as string[] | null) || []));
+  const titles = new Map(
+    (await db.pricingHistory.findMany({
+      where: { shop, productId: { in: productIds } },
+      distinct: ["productId"],
+      select: { productId: true, productTitle: true },
+    })).map((row) => [row.productId, row.productTitle])
+  );
+
+  await db.$transaction(async (tx) => {
+    await tx.productModification.createMany({
+      data: productIds.map((productId) => ({
+        shop,
+        productId,
+        productTitle: titles.get(productId) || "",
+        subscriptionId: subscription.id,
+        billingPeriodStart: periodStart,
+      })),
+      skipDuplicates: true,
+    });
+    await tx.subscription.updateMany({
+      where: { shop, periodStart: null },
+      data: {
+        periodStart,
+        usageCount: await tx.productModification.count({ where: { shop, billingPeriodStart: periodStart } }),
+        uniqueProductsModified: [],
+      },
+    });
+  });
+
+  console.log(`🗓️ Moved ${productIds.length} modified product(s) for ${shop} into the period starting ${periodStart.toISOString()}`);
+  return (await db.subscription.findUnique({ where: { shop } })) ?? subscription;
+}
+
+/**
+ * Archive the usage of a period that has ended and reset the counters for
+ * the one running at `now`. The reset only applies if the subscription is
+ * unchanged since it was read, so usage tracked at the same moment is never
+ * lost and two requests can't both roll the same period over. The closing
+ * period's product_modifications rows are kept.
+ */
+export async function rolloverUsagePeriod(subscription: SubscriptionRecord, now: Date = new Date()): Promise<SubscriptionRecord> {
+  const rollover = getUsageRollover(subscription, now);
+  if (!rollover) {
+    return subscription;
+  }
+
+  const { shop } = subscription;
+  try {
+    const rolled = await db.$transaction(async (tx) => {
+      const { count } = await tx.subscription.updateMany({
+        where: { shop, updatedAt: subscription.updatedAt },
+        data: {
+          usageCount: 0,
+          totalPriceChanges: 0,
+          periodStart: rollover.next.start,
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.usagePeriod.create({
+        data: {
+          shop,
+          planName: subscription.planName,
+          periodStart: rollover.closing.start,
+          periodEnd: rollover.closing.end,
+          usageCount: subscription.usageCount,
+          usageLimit: subscription.usageLimit,
+          uniqueProducts: await tx.productModification.count({
+            where: { shop, billingPeriodStart: subscription.periodStart ?? rollover.closing.start },
+          }),
+          totalPriceChanges: subscription.totalPriceChanges ?? 0,
+        },
+      });
+      return true;
+    });
+
+    if (rolled) {
+      console.log(`🗓️ Usage period rolled over for ${shop}: archived ${subscription.usageCount} product(s), next period ends ${rollover.next.end.toISOString()}`);
+    }
+  } catch (error: any) {
+    // Another request archived this period first
+    if (error.code !== 'P2002') throw error;
+  }
+
+  return (await db.subscription.findUnique({ where: { shop } })) ?? subscription;
+}
+
+/**
+ * Start of the period usage is being counted in
+ */
+function getBillingPeriodStart(subscription: SubscriptionRecord): Date {
+  return subscription.periodStart ?? getCurrentUsagePeriod(subscription).start;
+}
+
+async function countModifiedProducts(shop: string, billingPeriodStart: Date, productIds?: string[]): Promise<number> {
+  return await db.productModification.count({
+    where: { shop, billingPeriodStart, ...(productIds && { productId: { in: productIds } }) },
+  });
+}
+
 export async function updateSubscription(shop: string, data: {
   planName?: string;
   status?: string;
   subscriptionId?: string;
   usageLimit?: number;
   currentPeriodEnd?: Date;
-  uniqueProductsModified?: string[];
+  billingInterval?: string;
   totalPriceChanges?: number;
   usageCount?: number;
 }) {
@@ -64,7 +186,6 @@ export async function updateSubscription(shop: string, data: {
     planName: result.planName,
     usageLimit: result.usageLimit,
     usageCount: result.usageCount,
-    uniqueProductsCount: ((result.uniqueProductsModified as string[]) || []).length,
     status: result.status
   });
   
@@ -72,73 +193,64 @@ export async function updateSubscription(shop: string, data: {
 }
 
 /**
- * ✅ NEW: Track ALL product modifications (not just unique ones)
- * This increments the counter for EVERY product modification
+ * Record that these products had their prices changed. Each product counts
+ * once per period however often it's changed: the first change adds its
+ * product_modifications row, later ones bump that row's modificationCount.
+ * Rows are inserted with skipDuplicates, so batches running side by side
+ * can't count a product twice. Returns false if the shop is now over its limit.
  */
-export async function trackAllProductModifications(shop: string, productIds: string[]): Promise<boolean> {
+export async function trackAllProductModifications(
+  shop: string,
+  products: Array<{ id: string; title: string }>
+): Promise<boolean> {
   const subscription = await getOrCreateSubscription(shop);
-  
-  // Calculate how many products we're about to modify
-  const modificationsToAdd = productIds.length;
-  const newTotalCount = subscription.usageCount + modificationsToAdd;
-  
-  console.log(`📊 Tracking ${modificationsToAdd} product modifications for ${shop}`);
-  console.log(`📈 Current: ${subscription.usageCount}, Adding: ${modificationsToAdd}, New Total: ${newTotalCount}`);
-  
-  // Check if this would exceed the limit
-  if (newTotalCount > subscription.usageLimit) {
-    console.log(`❌ Would exceed limit: ${newTotalCount} > ${subscription.usageLimit}`);
-    return false; // Would exceed limit
+  const billingPeriodStart = getBillingPeriodStart(subscription);
+  const uniqueProducts = Array.from(new Map(products.map((product) => [product.id, product])).values());
+  const productIds = uniqueProducts.map((product) => product.id);
+
+  if (productIds.length === 0) {
+    return subscription.usageCount <= subscription.usageLimit;
   }
-  
-  // Update the usage count with ALL modifications
-  await db.subscription.update({
+
+  const added = await db.productModification.createMany({
+    data: uniqueProducts.map((product) => ({
+      shop,
+      productId: product.id,
+      productTitle: product.title,
+      subscriptionId: subscription.id,
+      billingPeriodStart,
+      modificationCount: 0,
+    })),
+    skipDuplicates: true,
+  });
+  await db.productModification.updateMany({
+    where: { shop, billingPeriodStart, productId: { in: productIds } },
+    data: { modificationCount: { increment: 1 } },
+  });
+
+  const updated = await db.subscription.update({
     where: { shop },
     data: {
-      usageCount: newTotalCount,
-      // Also track total price changes for analytics
-      totalPriceChanges: {
-        increment: modificationsToAdd
-      },
-      updatedAt: new Date(),
+      usageCount: { increment: added.count },
+      // Every change counts here, for analytics
+      totalPriceChanges: { increment: productIds.length },
     },
   });
-  
-  console.log(`✅ Product modifications tracked:`, {
-    shop,
-    addedModifications: modificationsToAdd,
-    newTotalCount,
-    remainingCapacity: subscription.usageLimit - newTotalCount
-  });
-  
-  return true; // Within limits
-}
 
-/**
- * ✅ KEEP: Original function for unique product tracking (for analytics)
- * This maintains the list of unique products modified this period
- */
-export async function trackUniqueProducts(shop: string, productIds: string[]): Promise<void> {
-  const subscription = await getOrCreateSubscription(shop);
-  
-  // Get current unique products modified this period
-  const currentUniqueProducts = (subscription.uniqueProductsModified as string[]) || [];
-  
-  // Add new product IDs to the set (avoiding duplicates)
-  const updatedUniqueProducts = Array.from(new Set([...currentUniqueProducts, ...productIds]));
-  
-  // Update only if there are new unique products
-  if (updatedUniqueProducts.length > currentUniqueProducts.length) {
-    await db.subscription.update({
-      where: { shop },
-      data: {
-        uniqueProductsModified: updatedUniqueProducts,
-        updatedAt: new Date(),
-      },
-    });
-    
-    console.log(`📋 Unique products updated: ${currentUniqueProducts.length} → ${updatedUniqueProducts.length}`);
+  console.log(`📊 Tracked ${productIds.length} modified product(s) for ${shop}: ${added.count} new this period, ${updated.usageCount} / ${updated.usageLimit} used`);
+
+  if (!hasUnlimitedProducts(updated.planName)) {
+    for (const threshold of crossedQuotaThresholds(updated.usageCount - added.count, updated.usageCount, updated.usageLimit)) {
+      await queueWebhookEvent(shop, "quota.threshold_reached", {
+        threshold,
+        used: updated.usageCount,
+        limit: updated.usageLimit,
+        plan: updated.planName,
+      });
+    }
   }
+  
+  return updated.usageCount <= updated.usageLimit;
 }
 
 /**
@@ -147,18 +259,15 @@ export async function trackUniqueProducts(shop: string, productIds: string[]): P
  */
 export async function trackProductModifications(shop: string, productIds: string[]): Promise<boolean> {
   console.warn("⚠️ trackProductModifications is deprecated, use trackAllProductModifications instead");
-  return await trackAllProductModifications(shop, productIds);
+  return await trackAllProductModifications(shop, productIds.map((id) => ({ id, title: "" })));
 }
 
 /**
- * Check if adding new product modifications would exceed limits
+ * Check if changing these products would take the shop past its limit.
+ * Products already changed this period don't count again.
  */
 export async function wouldExceedProductLimit(shop: string, productIds: string[]): Promise<boolean> {
-  const subscription = await getOrCreateSubscription(shop);
-  const modificationsToAdd = productIds.length;
-  const newTotalCount = subscription.usageCount + modificationsToAdd;
-  
-  return newTotalCount > subscription.usageLimit;
+  return (await calculateQuotaImpact(shop, productIds)).wouldExceed;
 }
 
 /**
@@ -172,13 +281,17 @@ export async function getModificationStats(shop: string): Promise<{
   usagePercentage: number;
 }> {
   const subscription = await getOrCreateSubscription(shop);
-  const uniqueProducts = (subscription.uniqueProductsModified as string[]) || [];
+  const { _count, _sum } = await db.productModification.aggregate({
+    where: { shop, billingPeriodStart: getBillingPeriodStart(subscription) },
+    _count: { _all: true },
+    _sum: { modificationCount: true },
+  });
   
-  const totalModifications = subscription.usageCount;
-  const uniqueProductCount = uniqueProducts.length;
+  const totalModifications = _sum.modificationCount ?? 0;
+  const uniqueProductCount = _count._all;
   const averageModificationsPerProduct = uniqueProductCount > 0 ? totalModifications / uniqueProductCount : 0;
-  const remainingCapacity = subscription.usageLimit - totalModifications;
-  const usagePercentage = (totalModifications / subscription.usageLimit) * 100;
+  const remainingCapacity = subscription.usageLimit - uniqueProductCount;
+  const usagePercentage = (uniqueProductCount / subscription.usageLimit) * 100;
   
   return {
     totalModifications,
@@ -190,28 +303,37 @@ export async function getModificationStats(shop: string): Promise<{
 }
 
 /**
- * Force sync usageCount - now this just ensures data consistency
+ * Recount usageCount from this period's product_modifications rows, which
+ * are the source of truth; usageCount is kept on the subscription so pages
+ * can show it without counting
  */
 export async function syncUsageCount(shop: string) {
   const subscription = await getOrCreateSubscription(shop);
-  
-  // With the new system, usageCount should always be accurate
-  // This function now just validates consistency
-  console.log(`ℹ️ Usage count for ${shop}: ${subscription.usageCount} (no sync needed with new system)`);
-  
-  return { 
-    synced: false, 
-    count: subscription.usageCount,
-    message: "New system maintains accurate count automatically"
-  };
+  const count = await countModifiedProducts(shop, getBillingPeriodStart(subscription));
+
+  if (count === subscription.usageCount) {
+    return { synced: false, count, oldCount: count, newCount: count };
+  }
+
+  await db.subscription.update({ where: { shop }, data: { usageCount: count } });
+  console.log(`🔄 Usage count for ${shop} recounted: ${subscription.usageCount} → ${count}`);
+
+  return { synced: true, count, oldCount: subscription.usageCount, newCount: count };
 }
 
+/**
+ * Start the current period's count again from zero
+ */
 export async function resetUsage(shop: string) {
+  const subscription = await getOrCreateSubscription(shop);
+  await db.productModification.deleteMany({
+    where: { shop, billingPeriodStart: getBillingPeriodStart(subscription) },
+  });
+
   return await db.subscription.update({
     where: { shop },
     data: {
       usageCount: 0,
-      uniqueProductsModified: [],
       totalPriceChanges: 0,
     },
   });
@@ -227,7 +349,11 @@ export async function checkUsageLimit(shop: string): Promise<boolean> {
  */
 export async function getModifiedProductsThisPeriod(shop: string): Promise<string[]> {
   const subscription = await getOrCreateSubscription(shop);
-  return (subscription.uniqueProductsModified as string[]) || [];
+  const rows = await db.productModification.findMany({
+    where: { shop, billingPeriodStart: getBillingPeriodStart(subscription) },
+    select: { productId: true },
+  });
+  return rows.map((row) => row.productId);
 }
 
 export async function getSubscriptionStats(shop: string) {
@@ -246,31 +372,140 @@ export async function getSubscriptionStats(shop: string) {
   };
 }
 
+type QuotaClient = Pick<typeof db, "productModification" | "quotaReservation">;
+
+// Long enough for a batch to get through Shopify's rate limits
+const QUOTA_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
 /**
- * Calculate the impact of a potential bulk selection on quota
+ * Products counted against the limit if these were changed: those changed
+ * this period, those held by batches still running, and any new ones here
+ */
+async function countQuotaUsage(client: QuotaClient, shop: string, billingPeriodStart: Date, productIds: string[], now: Date) {
+  const held = await client.quotaReservation.findMany({
+    where: { shop, billingPeriodStart, expiresAt: { gt: now } },
+    select: { productId: true },
+    distinct: ["productId"],
+  });
+  const heldIds = held.map((row) => row.productId);
+
+  const [currentUsage, modifiedRequested, heldModified] = await Promise.all([
+    client.productModification.count({ where: { shop, billingPeriodStart } }),
+    productIds.length > 0
+      ? client.productModification.findMany({
+          where: { shop, billingPeriodStart, productId: { in: productIds } },
+          select: { productId: true },
+        })
+      : [],
+    heldIds.length > 0
+      ? client.productModification.count({ where: { shop, billingPeriodStart, productId: { in: heldIds } } })
+      : 0,
+  ]);
+
+  const modifiedIds = new Set(modifiedRequested.map((row) => row.productId));
+  const heldSet = new Set(heldIds);
+  const unmodifiedIds = productIds.filter((id) => !modifiedIds.has(id));
+
+  return {
+    currentUsage,
+    inFlight: heldIds.length - heldModified,
+    modificationsToAdd: unmodifiedIds.filter((id) => !heldSet.has(id)).length,
+    unmodifiedIds,
+  };
+}
+
+/**
+ * Calculate the impact of a potential bulk selection on quota. Only products
+ * not yet changed this period add to it; products other batches are still
+ * writing count as used.
  */
 export async function calculateQuotaImpact(shop: string, productIds: string[]): Promise<{
   currentUsage: number;
+  inFlight: number;
   modificationsToAdd: number;
   totalAfter: number;
   wouldExceed: boolean;
   remainingAfter: number;
 }> {
   const subscription = await getOrCreateSubscription(shop);
-  
-  const currentUsage = subscription.usageCount;
-  const modificationsToAdd = productIds.length;
-  const totalAfter = currentUsage + modificationsToAdd;
+  const usage = await countQuotaUsage(
+    db, shop, getBillingPeriodStart(subscription), Array.from(new Set(productIds)), new Date()
+  );
+  const totalAfter = usage.currentUsage + usage.inFlight + usage.modificationsToAdd;
   
   return {
-    currentUsage,
-    modificationsToAdd,
+    currentUsage: usage.currentUsage,
+    inFlight: usage.inFlight,
+    modificationsToAdd: usage.modificationsToAdd,
     totalAfter,
     wouldExceed: totalAfter > subscription.usageLimit,
     remainingAfter: subscription.usageLimit - totalAfter
   };
 }
 
+export type QuotaReservationResult =
+  | { reserved: true; reservationId: string | null }
+  | { reserved: false; limit: number; totalAfter: number };
+
+/**
+ * Hold quota for these products before their prices are written. The check
+ * and the hold happen while the shop's subscription row is locked, so two
+ * batches can't both squeeze into the last of the quota. Expired holds are
+ * cleared on the way. Unlimited plans get a null reservationId and no rows.
+ */
+export async function reserveProductQuota(
+  shop: string,
+  productIds: string[],
+  now: Date = new Date()
+): Promise<QuotaReservationResult> {
+  const subscription = await getOrCreateSubscription(shop, now);
+  const uniqueIds = Array.from(new Set(productIds));
+
+  if (hasUnlimitedProducts(subscription.planName) || uniqueIds.length === 0) {
+    return { reserved: true, reservationId: null };
+  }
+
+  const billingPeriodStart = getBillingPeriodStart(subscription);
+  const reservationId = randomUUID();
+
+  return await db.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM subscriptions WHERE shop = ${shop} FOR UPDATE`;
+    await tx.quotaReservation.deleteMany({ where: { shop, expiresAt: { lte: now } } });
+
+    const usage = await countQuotaUsage(tx, shop, billingPeriodStart, uniqueIds, now);
+    const totalAfter = usage.currentUsage + usage.inFlight + usage.modificationsToAdd;
+    if (totalAfter > subscription.usageLimit) {
+      console.warn(`🚫 Quota reservation refused for ${shop}: ${totalAfter} / ${subscription.usageLimit}`);
+      return { reserved: false as const, limit: subscription.usageLimit, totalAfter };
+    }
+
+    // Products held by another batch are held here too, so they stay
+    // covered if that batch fails and lets go of them
+    await tx.quotaReservation.createMany({
+      data: usage.unmodifiedIds.map((productId) => ({
+        shop,
+        reservationId,
+        productId,
+        billingPeriodStart,
+        expiresAt: new Date(now.getTime() + QUOTA_RESERVATION_TTL_MS),
+      })),
+    });
+
+    console.log(`🔒 Reserved quota for ${usage.modificationsToAdd} new product(s) for ${shop} (${reservationId})`);
+    return { reserved: true as const, reservationId };
+  });
+}
+
+/**
+ * Let go of a reservation once its batch is tracked. Products that were
+ * changed are in product_modifications by then; the rest, whose variants
+ * all failed, go back to the shop's quota.
+ */
+export async function releaseProductQuota(reservationId: string | null) {
+  if (!reservationId) return;
+  await db.quotaReservation.deleteMany({ where: { reservationId } });
+}
+
 /**
  * Force refresh subscription data from database
  */
@@ -329,38 +564,50 @@ export async function getUsageStatistics(shop: string) {
 }
 
 /**
- * Sync subscription data with pricing history
+ * Add any product changed in this period's pricing history that's missing
+ * from product_modifications, then recount usage
  * Useful for data consistency checks or after manual database changes
  */
 export async function syncSubscriptionWithHistory(shop: string) {
   const subscription = await getOrCreateSubscription(shop);
+  const billingPeriodStart = getBillingPeriodStart(subscription);
   
-  // Get unique products from last 30 days of history
   const recentHistory = await db.pricingHistory.findMany({
     where: {
       shop,
-      createdAt: {
-        gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-      }
+      createdAt: { gte: billingPeriodStart },
+      actionType: { not: "revert" },
     },
     select: {
       productId: true,
-      createdAt: true
+      productTitle: true,
+      batchId: true,
     }
   });
   
-  const uniqueProducts = Array.from(new Set(recentHistory.map(h => h.productId)));
-  const totalChanges = recentHistory.length;
+  // A product changed in several batches was modified several times
+  const products = new Map<string, { title: string; batches: Set<string | null> }>();
+  for (const entry of recentHistory) {
+    const product = products.get(entry.productId) || { title: entry.productTitle, batches: new Set() };
+    product.batches.add(entry.batchId);
+    products.set(entry.productId, product);
+  }
+  
+  await db.productModification.createMany({
+    data: Array.from(products.entries()).map(([productId, product]) => ({
+      shop,
+      productId,
+      productTitle: product.title,
+      subscriptionId: subscription.id,
+      billingPeriodStart,
+      modificationCount: product.batches.size,
+    })),
+    skipDuplicates: true,
+  });
   
-  // Update subscription with synced data
+  await syncUsageCount(shop);
   return await db.subscription.update({
     where: { shop },
-    data: {
-      uniqueProductsModified: uniqueProducts,
-      // Note: We don't automatically sync usageCount from history 
-      // as it might interfere with the current tracking system
-      totalPriceChanges: totalChanges,
-      updatedAt: new Date()
-    }
+    data: { totalPriceChanges: recentHistory.length },
   });
-}
\ No newline at end of file
+}
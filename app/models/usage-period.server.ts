@@ -0,0 +1,72 @@
+// app/models/usage-period.server.ts - Past usage periods and the products that used each one's quota
+import { db } from "../db.server";
+import { getCurrentUsagePeriod, MAX_PERIOD_PRODUCTS } from "../lib/usage-periods";
+import { getOrCreateSubscription } from "./subscription.server";
+
+export interface UsagePeriodSummary {
+  // "current" for the period still running
+  id: string;
+  current: boolean;
+  planName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  usageLimit: number;
+  productsModified: number;
+  totalPriceChanges: number;
+}
+
+/**
+ * The running period followed by archived ones, newest first
+ */
+export async function listUsagePeriods(shop: string, limit: number = 12): Promise<UsagePeriodSummary[]> {
+  const subscription = await getOrCreateSubscription(shop);
+  const { start, end } = getCurrentUsagePeriod(subscription);
+
+  const archived = await db.usagePeriod.findMany({
+    where: { shop },
+    orderBy: { periodStart: "desc" },
+    take: limit,
+  });
+
+  return [
+    {
+      id: "current",
+      current: true,
+      planName: subscription.planName,
+      periodStart: start,
+      periodEnd: end,
+      usageLimit: subscription.usageLimit,
+      productsModified: subscription.usageCount,
+      totalPriceChanges: subscription.totalPriceChanges ?? 0,
+    },
+    ...archived.map((period) => ({
+      id: period.id,
+      current: false,
+      planName: period.planName,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      usageLimit: period.usageLimit,
+      productsModified: period.uniqueProducts,
+      totalPriceChanges: period.totalPriceChanges,
+    })),
+  ];
+}
+
+/**
+ * Products that counted against a period's quota, in the order they were
+ * first changed
+ */
+export async function getPeriodProducts(shop: string, periodStart: Date) {
+  return await db.productModification.findMany({
+    where: { shop, billingPeriodStart: periodStart },
+    orderBy: { firstModified: "asc" },
+    take: MAX_PERIOD_PRODUCTS,
+    select: {
+      productId: true,
+      productTitle: true,
+      modificationCount: true,
+      firstModified: true,
+      lastModified: true,
+    },
+  });
+}
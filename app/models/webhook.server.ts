@@ -0,0 +1,172 @@
+// app/models/webhook.server.ts - Webhook endpoints and their delivery log
+import { randomBytes } from "crypto";
+import { db } from "../db.server";
+import type { WebhookEvent } from "../lib/webhooks";
+
+export type WebhookDeliveryStatus = "pending" | "sending" | "succeeded" | "failed";
+
+export interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+}
+
+function toEndpointSummary(row: any): WebhookEndpointSummary {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    events: (row.events as WebhookEvent[] | null) || [],
+    active: row.active,
+    createdAt: row.createdAt,
+  };
+}
+
+export async function listWebhookEndpoints(shop: string): Promise<WebhookEndpointSummary[]> {
+  const rows = await db.webhookEndpoint.findMany({ where: { shop }, orderBy: { createdAt: "asc" } });
+  return rows.map(toEndpointSummary);
+}
+
+export async function getWebhookEndpoint(shop: string, id: string): Promise<WebhookEndpointSummary | null> {
+  const row = await db.webhookEndpoint.findFirst({ where: { id, shop } });
+  return row ? toEndpointSummary(row) : null;
+}
+
+// Not scoped to a shop; for the delivery worker
+export async function getWebhookEndpointById(id: string): Promise<WebhookEndpointSummary | null> {
+  const row = await db.webhookEndpoint.findUnique({ where: { id } });
+  return row ? toEndpointSummary(row) : null;
+}
+
+export async function createWebhookEndpoint(shop: string, data: { url: string; events: WebhookEvent[] }) {
+  const row = await db.webhookEndpoint.create({
+    data: {
+      shop,
+      url: data.url,
+      events: data.events as any,
+      secret: `whsec_${randomBytes(24).toString("hex")}`,
+    },
+  });
+  return toEndpointSummary(row);
+}
+
+export async function setWebhookEndpointActive(shop: string, id: string, active: boolean): Promise<boolean> {
+  const { count } = await db.webhookEndpoint.updateMany({ where: { id, shop }, data: { active } });
+  return count === 1;
+}
+
+/**
+ * Remove an endpoint along with its delivery log
+ */
+export async function deleteWebhookEndpoint(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.webhookEndpoint.deleteMany({ where: { id, shop } });
+  if (count === 1) {
+    await db.webhookDelivery.deleteMany({ where: { shop, endpointId: id } });
+  }
+  return count === 1;
+}
+
+/**
+ * Active endpoints that receive the event
+ */
+export async function findSubscribedEndpoints(shop: string, event: WebhookEvent) {
+  const endpoints = await db.webhookEndpoint.findMany({ where: { shop, active: true } });
+  return endpoints.map(toEndpointSummary).filter((endpoint) => endpoint.events.includes(event));
+}
+
+export async function createWebhookDeliveries(
+  shop: string,
+  deliveries: Array<{ endpointId: string; event: string; payload: any }>
+) {
+  if (deliveries.length === 0) {
+    return { count: 0 };
+  }
+
+  return await db.webhookDelivery.createMany({
+    data: deliveries.map((delivery) => ({
+      shop,
+      endpointId: delivery.endpointId,
+      event: delivery.event,
+      payload: delivery.payload,
+    })),
+  });
+}
+
+export async function createWebhookDelivery(shop: string, data: { endpointId: string; event: string; payload: any }) {
+  return await db.webhookDelivery.create({ data: { shop, ...data } });
+}
+
+export async function findDueWebhookDeliveries(limit: number = 50) {
+  return await db.webhookDelivery.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Move a delivery from pending to sending unless another worker got there first
+ */
+export async function claimWebhookDelivery(id: string): Promise<boolean> {
+  const { count } = await db.webhookDelivery.updateMany({
+    where: { id, status: "pending" },
+    data: { status: "sending" },
+  });
+  return count === 1;
+}
+
+export async function updateWebhookDelivery(id: string, data: {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  deliveredAt?: Date;
+}) {
+  return await db.webhookDelivery.update({ where: { id }, data });
+}
+
+/**
+ * Put deliveries left in sending by a process that died back in the queue
+ */
+export async function requeueStaleWebhookDeliveries(staleBefore: Date) {
+  const { count } = await db.webhookDelivery.updateMany({
+    where: { status: "sending", updatedAt: { lt: staleBefore } },
+    data: { status: "pending" },
+  });
+  return count;
+}
+
+export async function listWebhookDeliveries(shop: string, limit: number = 50) {
+  return await db.webhookDelivery.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: {
+      id: true,
+      endpointId: true,
+      event: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      lastStatusCode: true,
+      lastError: true,
+      deliveredAt: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Send a failed delivery again straight away, with a fresh set of retries
+ */
+export async function retryWebhookDelivery(shop: string, id: string): Promise<boolean> {
+  const { count } = await db.webhookDelivery.updateMany({
+    where: { id, shop, status: "failed" },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+  });
+  return count === 1;
+}
@@ -0,0 +1,106 @@
+// app/routes/api.v1.adjustments.tsx - Public API: apply a bulk price adjustment
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { apiError, authenticateApiRequest, toSearchParams } from "../lib/api.server";
+import { submitPriceChange } from "../lib/price-changes.server";
+import { getPriceListTarget } from "../lib/price-lists.server";
+import { parseRoundingRule } from "../lib/pricing";
+import { parseProductFilters, parseVariantFilter } from "../lib/product-search";
+import { getPriceRule } from "../models/price-rule.server";
+
+/**
+ * POST /api/v1/adjustments with a JSON body:
+ *   { "productIds": ["gid://shopify/Product/1"], "adjustmentType": "percentage",
+ *     "adjustmentValue": 10, "rounding": { "strategy": "end_99", "direction": "up" } }
+ * Leave out productIds and send "filters" to change every matching product.
+ * "variantFilter", "priceRuleId" and "priceListId" work as on the pricing page.
+ *
+ * Small changes are applied straight away; large ones are queued and the
+ * response has a jobId to poll at /api/v1/jobs/<jobId>.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return apiError(405, "Use POST to apply an adjustment");
+  }
+
+  const { shop, admin, actor } = await authenticateApiRequest(request);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError(400, "Request body must be JSON");
+  }
+  if (!body || typeof body !== "object") {
+    return apiError(400, "Request body must be a JSON object");
+  }
+
+  let productIds: string[] | null = null;
+  if (body.productIds !== undefined) {
+    if (!Array.isArray(body.productIds) || !body.productIds.every((id: unknown) => typeof id === "string")) {
+      return apiError(400, "productIds must be an array of product IDs");
+    }
+    // Numeric IDs from the REST Admin API are accepted too
+    productIds = body.productIds.map((id: string) => /^\d+$/.test(id) ? `gid://shopify/Product/${id}` : id);
+  } else if (!body.filters) {
+    return apiError(400, "Send productIds, or filters to change every matching product");
+  }
+
+  const priceRule = body.priceRuleId ? await getPriceRule(shop, String(body.priceRuleId)) : null;
+  if (body.priceRuleId && !priceRule) {
+    return apiError(404, "Price rule not found");
+  }
+
+  const priceList = body.priceListId ? await getPriceListTarget(admin, String(body.priceListId)) : null;
+  if (body.priceListId && !priceList) {
+    return apiError(404, "Price list not found");
+  }
+
+  const rounding = body.rounding || {};
+  const submission = await submitPriceChange(admin, shop, {
+    productIds,
+    filters: parseProductFilters(toSearchParams(body.filters)),
+    adjustmentType: String(body.adjustmentType || ""),
+    adjustmentValue: typeof body.adjustmentValue === "number" ? body.adjustmentValue : parseFloat(body.adjustmentValue),
+    rounding: parseRoundingRule(
+      rounding.strategy ?? null,
+      rounding.direction ?? null,
+      rounding.customEnding !== undefined ? String(rounding.customEnding) : null
+    ),
+    variantFilter: body.variantFilter ? parseVariantFilter(JSON.stringify(body.variantFilter)) : null,
+    priceRule,
+    priceList,
+    userEmail: actor,
+  });
+
+  if (submission.status === "rejected") {
+    return apiError(422, submission.error, {
+      ...(submission.validationErrors && { validationErrors: submission.validationErrors }),
+      ...(submission.quota && { quota: submission.quota }),
+    });
+  }
+
+  if (submission.status === "queued") {
+    console.log(`🔌 API queued job ${submission.jobId} for ${shop}`);
+    return json({ status: "queued", jobId: submission.jobId }, { status: 202 });
+  }
+
+  const { results, batchId, successfulProductIds } = submission.outcome;
+  console.log(`🔌 API applied batch ${batchId} for ${shop}`);
+
+  return json({
+    status: "applied",
+    batchId,
+    updated: results.filter((result) => result.success).length,
+    failed: results.filter((result) => !result.success).length,
+    modificationsUsed: successfulProductIds.length,
+    results: results.map((result) => ({
+      variantId: result.variantId,
+      productTitle: result.productTitle,
+      variantTitle: result.variantTitle,
+      oldPrice: result.oldPrice,
+      newPrice: result.newPrice,
+      success: result.success,
+      errors: result.errors,
+    })),
+  });
+};
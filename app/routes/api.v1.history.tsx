@@ -0,0 +1,60 @@
+// app/routes/api.v1.history.tsx - Public API: pricing history
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { db } from "../db.server";
+import { authenticateApiRequest, parseApiLimit } from "../lib/api.server";
+import { buildHistoryWhere, parseHistoryFilters } from "../models/pricing-history.server";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 250;
+
+/**
+ * GET /api/v1/history?page=1&limit=50
+ * Takes the history page's filters (actionType, search, startDate, endDate)
+ * and batchId to list a single batch. Newest changes first.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop } = await authenticateApiRequest(request);
+  const url = new URL(request.url);
+  const page = parseApiLimit(url.searchParams.get("page"), 1, Number.MAX_SAFE_INTEGER);
+  const limit = parseApiLimit(url.searchParams.get("limit"), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const batchId = url.searchParams.get("batchId");
+
+  const where = buildHistoryWhere(shop, parseHistoryFilters(url.searchParams));
+  if (batchId) {
+    where.batchId = batchId;
+  }
+
+  const [entries, totalCount] = await Promise.all([
+    db.pricingHistory.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      skip: (page - 1) * limit,
+    }),
+    db.pricingHistory.count({ where }),
+  ]);
+
+  return json({
+    entries: entries.map((entry) => ({
+      batchId: entry.batchId,
+      productId: entry.productId,
+      variantId: entry.variantId,
+      productTitle: entry.productTitle,
+      variantTitle: entry.variantTitle,
+      actionType: entry.actionType,
+      adjustmentValue: entry.adjustmentValue,
+      oldPrice: entry.oldPrice,
+      newPrice: entry.newPrice,
+      oldCompareAtPrice: entry.oldCompareAtPrice,
+      newCompareAtPrice: entry.newCompareAtPrice,
+      market: entry.market,
+      currency: entry.currency,
+      user: entry.userEmail,
+      createdAt: entry.createdAt,
+    })),
+    page,
+    limit,
+    totalCount,
+    totalPages: Math.ceil(totalCount / limit),
+  });
+};
@@ -0,0 +1,28 @@
+// app/routes/api.v1.jobs.$jobId.tsx - Public API: progress of a queued adjustment
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { apiError, authenticateApiRequest } from "../lib/api.server";
+import { getPricingJob, type PricingJobFailure } from "../models/pricing-job.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { shop } = await authenticateApiRequest(request);
+
+  const job = await getPricingJob(shop, params.jobId || "");
+  if (!job) {
+    return apiError(404, "Job not found");
+  }
+
+  return json({
+    id: job.id,
+    status: job.status,
+    batchId: job.batchId,
+    totalProducts: job.totalProducts,
+    processedProducts: job.cursor,
+    totalVariants: job.totalVariants,
+    processedVariants: job.processedVariants,
+    succeededVariants: job.succeededVariants,
+    failedVariants: job.failedVariants,
+    failures: (job.failures as unknown as PricingJobFailure[] | null) || [],
+    lastError: job.lastError,
+    finished: ["succeeded", "partial", "failed"].includes(job.status),
+  });
+};
@@ -0,0 +1,55 @@
+// app/routes/api.v1.products.tsx - Public API: products and their variant prices
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { GET_PRODUCTS } from "../graphql/queries/products";
+import { apiError, authenticateApiRequest, parseApiLimit } from "../lib/api.server";
+import { graphqlWithRetry } from "../lib/pricing.server";
+import { buildProductSearchQuery, parseProductFilters } from "../lib/product-search";
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/v1/products?first=25&after=<cursor>
+ * Takes the same filters as the pricing page URL (q, status, vendor,
+ * productType, tag, collection, minPrice, maxPrice). Each product lists its
+ * first 10 variants; variantsCount says how many it has in total.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin } = await authenticateApiRequest(request);
+  const url = new URL(request.url);
+  const query = buildProductSearchQuery(parseProductFilters(url.searchParams));
+
+  const result = await graphqlWithRetry(admin, GET_PRODUCTS, {
+    first: parseApiLimit(url.searchParams.get("first"), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    after: url.searchParams.get("after") || null,
+    query: query || null,
+  });
+  const connection = result.data?.products;
+  if (!connection) {
+    console.error("❌ API products query failed:", result.errors);
+    return apiError(502, "Couldn't load products from Shopify");
+  }
+
+  return json({
+    products: connection.edges.map(({ node }: any) => ({
+      id: node.id,
+      title: node.title,
+      handle: node.handle,
+      status: node.status,
+      vendor: node.vendor,
+      productType: node.productType,
+      variantsCount: node.variantsCount?.count ?? node.variants.edges.length,
+      variants: node.variants.edges.map(({ node: variant }: any) => ({
+        id: variant.id,
+        title: variant.title,
+        price: parseFloat(variant.price),
+        compareAtPrice: variant.compareAtPrice ? parseFloat(variant.compareAtPrice) : null,
+        inventoryQuantity: variant.inventoryQuantity,
+      })),
+    })),
+    pageInfo: {
+      hasNextPage: connection.pageInfo.hasNextPage,
+      endCursor: connection.pageInfo.endCursor,
+    },
+  });
+};
@@ -0,0 +1,26 @@
+// app/routes/api.v1.quota.tsx - Public API: plan and modifications left this period
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticateApiRequest } from "../lib/api.server";
+import { hasUnlimitedProducts } from "../lib/plans";
+import { getModificationStats, getOrCreateSubscription } from "../models/subscription.server";
+
+/**
+ * GET /api/v1/quota
+ * remaining is null on plans without a limit
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { shop } = await authenticateApiRequest(request);
+  const subscription = await getOrCreateSubscription(shop);
+  const stats = await getModificationStats(shop);
+  const unlimited = hasUnlimitedProducts(subscription.planName);
+
+  return json({
+    plan: subscription.planName,
+    status: subscription.status,
+    used: stats.uniqueProducts,
+    limit: unlimited ? null : subscription.usageLimit,
+    remaining: unlimited ? null : stats.remainingCapacity,
+    uniqueProducts: stats.uniqueProducts,
+    periodEnd: subscription.currentPeriodEnd,
+  });
+};
@@ -23,7 +23,7 @@ import {
   PlanIcon,
 } from "@shopify/polaris-icons";
 import { getSubscriptionStats } from "../models/subscription.server";
-import { getPlan, formatPriceDisplay, PLANS, formatUsageDisplay, hasUnlimitedProducts } from "../lib/plans";
+import { getPlan, formatPriceDisplay, PLANS, formatUsageDisplay, hasUnlimitedProducts, getPlanPrice, parseBillingInterval, getBillingPeriodEnd } from "../lib/plans";
 import { autoSyncSubscription } from "../lib/auto-sync.server";
 import { useEffect } from "react";
 
@@ -66,13 +66,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         if (PLANS[planUpgraded as keyof typeof PLANS]) {
           const { updateSubscription } = await import("../models/subscription.server");
           const plan = PLANS[planUpgraded as keyof typeof PLANS];
+          const billingInterval = parseBillingInterval(url.searchParams.get("interval"));
           
           await updateSubscription(session.shop, {
             planName: planUpgraded,
             status: "active",
             usageLimit: plan.usageLimit,
+            billingInterval,
             subscriptionId: chargeId || `manual_${Date.now()}`,
-            currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+            currentPeriodEnd: getBillingPeriodEnd(billingInterval),
           });
           
           billingMessage = `🎉 Payment successful! You're now on the ${plan.displayName} plan. Your new limits are active.`;
@@ -306,7 +308,11 @@ export default function Index() {
                     {plan.displayName}
                   </Text>
                   <Text as="p" variant="bodySm" tone="subdued">
-                    {formatPriceDisplay(plan.price)}
+                    {formatPriceDisplay(
+                      getPlanPrice(plan, parseBillingInterval(subscription.billingInterval)),
+                      plan.currency,
+                      parseBillingInterval(subscription.billingInterval)
+                    )}
                   </Text>
                 </div>
               </Card>
@@ -328,6 +334,9 @@ export default function Index() {
                   <Text as="p" variant="bodySm" tone="subdued">
                     Product modifications this month
                   </Text>
+                  <Link to="/app/usage">
+                    <Text as="span" variant="bodySm">View usage history</Text>
+                  </Link>
                   {!isUnlimited && (
                     <div style={{ marginTop: "0.5rem" }}>
                       <ProgressBar 
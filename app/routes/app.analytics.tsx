@@ -0,0 +1,307 @@
+// app/routes/app.analytics.tsx - Pro analytics on price changes over a date range
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, Form, Link } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Button,
+  ButtonGroup,
+  EmptyState,
+  TextField,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { getAnalyticsHistory } from "../models/pricing-history.server";
+import { canUseFeature } from "../lib/plans";
+import {
+  formatChangePercent,
+  parseAnalyticsRange,
+  summarizePriceChanges,
+  type DailyPriceChanges,
+} from "../lib/analytics";
+
+const QUICK_RANGES = [7, 30, 90, 365];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const range = parseAnalyticsRange(url.searchParams);
+  const subscription = await getOrCreateSubscription(session.shop);
+
+  if (!canUseFeature(subscription, 'analytics')) {
+    return json({ canView: false, range, analytics: null, truncated: false });
+  }
+
+  const { rows, truncated } = await getAnalyticsHistory(session.shop, range);
+  console.log(`📈 Analytics for ${session.shop}: ${rows.length} changes from ${range.startDate} to ${range.endDate}`);
+
+  return json({ canView: true, range, analytics: summarizePriceChanges(rows, range), truncated });
+};
+
+function quickRangeUrl(days: number): string {
+  const end = new Date();
+  const start = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const params = new URLSearchParams({
+    startDate: start.toISOString().split("T")[0],
+    endDate: end.toISOString().split("T")[0],
+  });
+  return `/app/analytics?${params.toString()}`;
+}
+
+function StatTile({ value, label }: { value: string | number; label: string }) {
+  return (
+    <div style={{ textAlign: "center" }}>
+      <Text as="p" variant="headingLg">{value}</Text>
+      <Text as="p" variant="bodySm" tone="subdued">{label}</Text>
+    </div>
+  );
+}
+
+/**
+ * One bar per day, increases stacked on decreases, everything else in grey
+ */
+function DailyChart({ days }: { days: DailyPriceChanges[] }) {
+  const busiest = Math.max(1, ...days.map((day) => day.changes));
+  const barHeight = (count: number) => `${(count / busiest) * 100}%`;
+
+  return (
+    <BlockStack gap="200">
+      <div style={{ display: "flex", alignItems: "flex-end", gap: "2px", height: "160px" }}>
+        {days.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${day.changes} changes (${day.increased} up, ${day.decreased} down)`}
+            style={{ flex: 1, height: "100%", display: "flex", flexDirection: "column", justifyContent: "flex-end" }}
+          >
+            <div style={{ height: barHeight(day.changes - day.increased - day.decreased), background: "#b5b5b5" }} />
+            <div style={{ height: barHeight(day.increased), background: "#008060" }} />
+            <div style={{ height: barHeight(day.decreased), background: "#d72c0d" }} />
+          </div>
+        ))}
+      </div>
+      <InlineStack align="space-between">
+        <Text as="span" variant="bodySm" tone="subdued">{days[0]?.date}</Text>
+        <Text as="span" variant="bodySm" tone="subdued">
+          🟩 up · 🟥 down · ⬜ other · busiest day {busiest} changes
+        </Text>
+        <Text as="span" variant="bodySm" tone="subdued">{days[days.length - 1]?.date}</Text>
+      </InlineStack>
+    </BlockStack>
+  );
+}
+
+export default function Analytics() {
+  const { canView, range, analytics, truncated } = useLoaderData<typeof loader>();
+
+  const [startDate, setStartDate] = useState(range.startDate);
+  const [endDate, setEndDate] = useState(range.endDate);
+
+  // Quick ranges and swapped dates come back from the loader; show what was used
+  useEffect(() => {
+    setStartDate(range.startDate);
+    setEndDate(range.endDate);
+  }, [range.startDate, range.endDate]);
+
+  if (!canView || !analytics) {
+    return (
+      <Page title="Analytics" backAction={{ content: "← Price History", url: "/app/history" }}>
+        <Layout>
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="Analytics are a Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">
+                Upgrade to Pro to see how often prices change, which products you reprice most, and how each vendor's prices have moved.
+              </Text>
+            </Banner>
+          </Layout.Section>
+        </Layout>
+      </Page>
+    );
+  }
+
+  const { totals } = analytics;
+  const percentOf = (count: number) => totals.changes > 0 ? Math.round((count / totals.changes) * 100) : 0;
+
+  return (
+    <Page
+      title="Analytics"
+      subtitle={`Price changes from ${range.startDate} to ${range.endDate} (UTC)`}
+      backAction={{ content: "← Price History", url: "/app/history" }}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <Form method="get">
+                <InlineStack gap="300" blockAlign="end" wrap>
+                  <TextField
+                    label="From"
+                    name="startDate"
+                    type="date"
+                    value={startDate}
+                    onChange={setStartDate}
+                    autoComplete="off"
+                  />
+                  <TextField
+                    label="To"
+                    name="endDate"
+                    type="date"
+                    value={endDate}
+                    onChange={setEndDate}
+                    autoComplete="off"
+                  />
+                  <Button submit variant="primary">Apply</Button>
+                  <ButtonGroup variant="segmented">
+                    {QUICK_RANGES.map((days) => (
+                      <Button key={days} url={quickRangeUrl(days)}>{`${days}d`}</Button>
+                    ))}
+                  </ButtonGroup>
+                </InlineStack>
+              </Form>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        {truncated && (
+          <Layout.Section>
+            <Banner tone="warning" title="Showing the most recent changes only">
+              <Text as="p">This range has too many changes to analyse at once. Pick a shorter range to see all of it.</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {totals.changes === 0 ? (
+          <Layout.Section>
+            <Card>
+              <EmptyState
+                heading="No price changes in this range"
+                action={{ content: "Update Prices", url: "/app/pricing" }}
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Pick a wider date range, or make some changes on the bulk pricing page.</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        ) : (
+          <>
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: "1.5rem" }}>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(140px, 1fr))", gap: "1rem" }}>
+                    <StatTile value={totals.changes} label="Variant price changes" />
+                    <StatTile value={totals.products} label="Products repriced" />
+                    <StatTile value={totals.batches} label="Operations" />
+                    <StatTile value={formatChangePercent(totals.averageChangePercent)} label="Average change" />
+                    <StatTile value={formatChangePercent(totals.averageIncreasePercent)} label="Average increase" />
+                    <StatTile value={formatChangePercent(totals.averageDecreasePercent)} label="Average decrease" />
+                  </div>
+                </div>
+              </Card>
+            </Layout.Section>
+
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">Changes per Day</Text>
+                    <DailyChart days={analytics.daily} />
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">Up vs Down</Text>
+                    <div style={{ display: "flex", height: "24px", borderRadius: "4px", overflow: "hidden" }}>
+                      <div style={{ width: `${percentOf(totals.increased)}%`, background: "#008060" }} />
+                      <div style={{ width: `${percentOf(totals.decreased)}%`, background: "#d72c0d" }} />
+                      <div style={{ flex: 1, background: "#b5b5b5" }} />
+                    </div>
+                    <InlineStack gap="400">
+                      <Text as="span" variant="bodySm">
+                        ⬆️ {totals.increased} up ({percentOf(totals.increased)}%, avg {formatChangePercent(totals.averageIncreasePercent)})
+                      </Text>
+                      <Text as="span" variant="bodySm">
+                        ⬇️ {totals.decreased} down ({percentOf(totals.decreased)}%, avg {formatChangePercent(totals.averageDecreasePercent)})
+                      </Text>
+                      {totals.unchanged > 0 && (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {totals.unchanged} with the same price (compare-at only)
+                        </Text>
+                      )}
+                    </InlineStack>
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+
+            <Layout.Section variant="oneHalf">
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">Most Repriced Products</Text>
+                    <DataTable
+                      columnContentTypes={['text', 'numeric', 'numeric', 'text']}
+                      headings={['Product', 'Times', 'Variants', 'Last changed']}
+                      rows={analytics.topProducts.map((product) => [
+                        <Link
+                          key={product.productId}
+                          to={`/app/history?search=${encodeURIComponent(product.productTitle)}`}
+                        >
+                          {product.productTitle}
+                        </Link>,
+                        product.timesRepriced,
+                        product.variantChanges,
+                        new Date(product.lastChangedAt).toLocaleDateString(),
+                      ])}
+                    />
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+
+            <Layout.Section variant="oneHalf">
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">By Vendor</Text>
+                    <DataTable
+                      columnContentTypes={['text', 'numeric', 'numeric', 'numeric', 'numeric', 'numeric']}
+                      headings={['Vendor', 'Changes', 'Products', 'Up', 'Down', 'Avg change']}
+                      rows={analytics.vendors.map((vendor) => [
+                        vendor.vendor ?? "Not recorded",
+                        vendor.changes,
+                        vendor.products,
+                        vendor.increased,
+                        vendor.decreased,
+                        formatChangePercent(vendor.averageChangePercent),
+                      ])}
+                    />
+                    {analytics.vendors.some((vendor) => vendor.vendor === null) && (
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        Changes made before vendors were tracked show as "Not recorded".
+                      </Text>
+                    )}
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+          </>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,232 @@
+// app/routes/app.api-keys.tsx - API keys for integrations
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form } from "@remix-run/react";
+import { useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Badge,
+  Button,
+  TextField,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import { createApiKey, listApiKeys, revokeApiKey } from "../models/api-key.server";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { canUseFeature } from "../lib/plans";
+
+const MAX_KEY_NAME_LENGTH = 60;
+
+const API_ENDPOINTS = [
+  ["GET", "/api/v1/products", "Products and variant prices. Takes first, after and the pricing page's filters."],
+  ["POST", "/api/v1/adjustments", "Apply an adjustment to productIds, or to every product matching filters."],
+  ["GET", "/api/v1/jobs/:jobId", "Progress of an adjustment that was queued."],
+  ["GET", "/api/v1/history", "Price changes, newest first. Takes page, limit, batchId and the history filters."],
+  ["GET", "/api/v1/quota", "Your plan and the modifications left this period."],
+];
+
+interface ActionResult {
+  success?: string;
+  errors?: string[];
+  // Only ever shown once, straight after the key is created
+  createdKey?: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const subscription = await getOrCreateSubscription(session.shop);
+  const apiKeys = await listApiKeys(session.shop);
+
+  return json({
+    apiKeys,
+    canUseApi: canUseFeature(subscription, 'api_access'),
+    apiBaseUrl: process.env.SHOPIFY_APP_URL || "",
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "revoke") {
+    const revoked = await revokeApiKey(session.shop, (formData.get("apiKeyId") as string) || "");
+    return json<ActionResult>(revoked ? { success: "API key revoked" } : { errors: ["API key not found"] });
+  }
+
+  if (intent !== "create") {
+    return json<ActionResult>({ errors: ["Unknown action"] });
+  }
+
+  const subscription = await getOrCreateSubscription(session.shop);
+  if (!canUseFeature(subscription, 'api_access')) {
+    return json<ActionResult>({ errors: ["API access is a Pro feature"] });
+  }
+
+  const name = ((formData.get("name") as string) || "").trim();
+  if (!name) {
+    return json<ActionResult>({ errors: ["Please give the key a name"] });
+  }
+  if (name.length > MAX_KEY_NAME_LENGTH) {
+    return json<ActionResult>({ errors: [`Key names can be at most ${MAX_KEY_NAME_LENGTH} characters`] });
+  }
+
+  const { key } = await createApiKey(session.shop, name);
+  return json<ActionResult>({ success: `API key "${name}" created`, createdKey: key });
+};
+
+export default function ApiKeys() {
+  const { apiKeys, canUseApi, apiBaseUrl } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+  const [name, setName] = useState("");
+
+  const isSubmitting = navigation.state === "submitting";
+  const activeKeys = apiKeys.filter((apiKey) => !apiKey.revokedAt);
+
+  const rows = apiKeys.map((apiKey) => [
+    apiKey.name,
+    <Text key={`prefix-${apiKey.id}`} as="span" variant="bodySm">{apiKey.prefix}…</Text>,
+    new Date(apiKey.createdAt).toLocaleDateString(),
+    apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never",
+    apiKey.revokedAt ? (
+      <Badge key={`status-${apiKey.id}`}>Revoked</Badge>
+    ) : (
+      <Form key={`revoke-${apiKey.id}`} method="post">
+        <input type="hidden" name="intent" value="revoke" />
+        <input type="hidden" name="apiKeyId" value={apiKey.id} />
+        <Button size="slim" tone="critical" submit loading={isSubmitting && navigation.formData?.get("apiKeyId") === apiKey.id}>
+          Revoke
+        </Button>
+      </Form>
+    ),
+  ]);
+
+  return (
+    <Page
+      title="API Keys"
+      subtitle="Let your own systems read and change prices"
+      backAction={{ content: "← Settings", url: "/app/settings" }}
+    >
+      <Layout>
+        {!canUseApi && (
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="API access is a Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">
+                Upgrade to Pro to create keys. Existing keys stop working while your plan doesn't include API access.
+              </Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.errors && actionData.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="Something went wrong">
+              {actionData.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.createdKey ? (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success}>
+              <BlockStack gap="200">
+                <Text as="p">Copy this key now. It won't be shown again.</Text>
+                <TextField
+                  label="API key"
+                  labelHidden
+                  value={actionData.createdKey}
+                  readOnly
+                  autoComplete="off"
+                  monospaced
+                />
+              </BlockStack>
+            </Banner>
+          </Layout.Section>
+        ) : actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success} />
+          </Layout.Section>
+        )}
+
+        {canUseApi && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <Form method="post" onSubmit={() => setName("")}>
+                  <input type="hidden" name="intent" value="create" />
+                  <InlineStack gap="300" blockAlign="end">
+                    <div style={{ flexGrow: 1 }}>
+                      <TextField
+                        label="New key name"
+                        name="name"
+                        value={name}
+                        onChange={setName}
+                        placeholder="e.g., ERP sync"
+                        maxLength={MAX_KEY_NAME_LENGTH}
+                        autoComplete="off"
+                      />
+                    </div>
+                    <Button submit variant="primary" loading={isSubmitting && navigation.formData?.get("intent") === "create"}>
+                      Create key
+                    </Button>
+                  </InlineStack>
+                </Form>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">🔑 Keys ({activeKeys.length} active)</Text>
+                {apiKeys.length === 0 ? (
+                  <Text as="p" tone="subdued">No keys yet.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                    headings={['Name', 'Key', 'Created', 'Last used', '']}
+                    rows={rows}
+                  />
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Using the API</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Send the key in an <code>Authorization: Bearer &lt;key&gt;</code> header to {apiBaseUrl || "this app's URL"}.
+                  Adjustments made through the API count toward your plan and respect your guardrails, like changes made here.
+                  They show in the history under the key's name.
+                </Text>
+                <DataTable
+                  columnContentTypes={['text', 'text', 'text']}
+                  headings={['Method', 'Path', 'Returns']}
+                  rows={API_ENDPOINTS}
+                />
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -3,9 +3,20 @@ import React from "react";
 import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useActionData, useSubmit } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
-import { Card, Layout, Page, Text, Button, Grid, Badge, List, Banner, BlockStack } from "@shopify/polaris";
+import { Card, Layout, Page, Text, Button, ButtonGroup, Grid, Badge, List, Banner, BlockStack } from "@shopify/polaris";
 import { getOrCreateSubscription, updateSubscription } from "../models/subscription.server";
-import { PLANS, formatPriceDisplay, isEligibleForTrial, getPriceWithTrial, hasUnlimitedProducts } from "../lib/plans";
+import {
+  PLANS,
+  formatPriceDisplay,
+  isEligibleForTrial,
+  getPriceWithTrial,
+  hasUnlimitedProducts,
+  getAnnualSavings,
+  getBillingPlanName,
+  getPlanPrice,
+  parseBillingInterval,
+  type BillingInterval,
+} from "../lib/plans";
 
 interface ActionResult {
   success?: string;
@@ -31,6 +42,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const formData = await request.formData();
     const selectedPlan = formData.get("plan");
     const actionType = formData.get("action");
+    const interval = parseBillingInterval(formData.get("interval"));
 
     console.log(`🔄 Billing action: ${actionType} for plan: ${selectedPlan}`);
 
@@ -82,6 +94,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           usageLimit: PLANS.free.usageLimit,
           subscriptionId: undefined,
           currentPeriodEnd: undefined,
+          billingInterval: "EVERY_30_DAYS",
         });
 
         console.log(`✅ Successfully downgraded ${session.shop} to free plan`);
@@ -104,12 +117,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const plan = PLANS[selectedPlan];
 
+    if (interval === "ANNUAL" && plan.annualPrice === undefined) {
+      return json<ActionResult>({ error: `${plan.displayName} isn't available with yearly billing` });
+    }
+
     // ✅ FIX: Proper embedded app return URL that prevents login redirect
     const shopDomain = session.shop;
     const host = Buffer.from(`${shopDomain}/admin`).toString('base64');
     
     // Use Shopify's embedded app return URL format
-    const returnUrl = `https://${shopDomain}/admin/apps/${process.env.SHOPIFY_API_KEY}?host=${host}&billing_success=1&plan=${selectedPlan}`;
+    const returnUrl = `https://${shopDomain}/admin/apps/${process.env.SHOPIFY_API_KEY}?host=${host}&billing_success=1&plan=${selectedPlan}&interval=${interval}`;
     
     console.log(`🔗 Return URL: ${returnUrl}`);
     
@@ -119,15 +136,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     
     // Build GraphQL variables
     const variables: any = {
-      name: `${plan.displayName} Plan`,
+      name: getBillingPlanName(plan, interval),
       returnUrl,
       test: process.env.NODE_ENV !== "production",
       lineItems: [
         {
           plan: {
             appRecurringPricingDetails: {
-              price: { amount: plan.price, currencyCode: "USD" },
-              interval: "EVERY_30_DAYS"
+              price: { amount: getPlanPrice(plan, interval), currencyCode: "USD" },
+              interval
             }
           }
         }
@@ -140,7 +157,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       console.log(`🎁 Adding ${plan.trialDays} trial days`);
     }
     
-    console.log(`🔄 Creating Shopify subscription for ${plan.displayName}`);
+    console.log(`🔄 Creating Shopify subscription for ${plan.displayName} (${interval})`);
     
     // Create Shopify subscription
     const response = await admin.graphql(`
@@ -208,6 +225,8 @@ export default function Billing() {
   const submit = useSubmit();
 
   const { shop, subscription, plans } = loaderData;
+  const currentInterval = parseBillingInterval(subscription.billingInterval);
+  const [interval, setSelectedInterval] = React.useState<BillingInterval>(currentInterval);
 
   // Redirect to Shopify billing
   React.useEffect(() => {
@@ -225,6 +244,7 @@ export default function Billing() {
   const handlePlanAction = (planName: string) => {
     const formData = new FormData();
     formData.append("plan", planName);
+    formData.append("interval", interval);
     submit(formData, { method: "post" });
   };
 
@@ -305,7 +325,11 @@ export default function Billing() {
                     </Text>
                   </div>
                   <Badge tone={subscription.planName === 'free' ? 'info' : 'success'}>
-                    {formatPriceDisplay(PLANS[subscription.planName as keyof typeof PLANS]?.price || 0)}
+                    {formatPriceDisplay(
+                      PLANS[subscription.planName] ? getPlanPrice(PLANS[subscription.planName], currentInterval) : 0,
+                      "USD",
+                      currentInterval
+                    )}
                   </Badge>
                 </div>
               </BlockStack>
@@ -313,14 +337,32 @@ export default function Billing() {
           </Card>
         </Layout.Section>
 
+        {/* Billing interval */}
+        <Layout.Section>
+          <div style={{ display: "flex", justifyContent: "center" }}>
+            <ButtonGroup variant="segmented">
+              <Button pressed={interval === "EVERY_30_DAYS"} onClick={() => setSelectedInterval("EVERY_30_DAYS")}>
+                Monthly
+              </Button>
+              <Button pressed={interval === "ANNUAL"} onClick={() => setSelectedInterval("ANNUAL")}>
+                Yearly (2 months free)
+              </Button>
+            </ButtonGroup>
+          </div>
+        </Layout.Section>
+
         {/* Available plans */}
         <Layout.Section>
           <Grid>
             {plans.map((plan: any) => {
-              const isCurrentPlan = subscription.planName === plan.name;
+              // Free has no yearly price, so it always shows monthly
+              const planInterval: BillingInterval = plan.annualPrice === undefined ? "EVERY_30_DAYS" : interval;
+              const isCurrentPlan = subscription.planName === plan.name &&
+                (plan.name === "free" || currentInterval === planInterval);
+              const isIntervalSwitch = subscription.planName === plan.name && !isCurrentPlan;
               const canDowngrade = plan.name === 'free' && subscription.planName !== 'free';
               const trialEligible = isEligibleForTrial(subscription, plan.name);
-              const priceDisplay = getPriceWithTrial(plan, trialEligible);
+              const priceDisplay = getPriceWithTrial(plan, trialEligible, planInterval);
               const isUnlimited = hasUnlimitedProducts(plan.name);
               
               return (
@@ -350,6 +392,11 @@ export default function Billing() {
                           <Text as="p" variant="headingXl" fontWeight="bold">
                             {priceDisplay.displayPrice}
                           </Text>
+                          {planInterval === "ANNUAL" && (
+                            <Text as="p" variant="bodySm" tone="success">
+                              Save ${getAnnualSavings(plan).toFixed(2)} a year
+                            </Text>
+                          )}
                           {trialEligible && priceDisplay.trialInfo && (
                             <Text as="p" variant="bodySm" tone="subdued">
                               {priceDisplay.trialInfo}
@@ -403,7 +450,9 @@ export default function Billing() {
                           >
                             {plan.name === "free" 
                               ? "Free Plan" 
-                              : `${trialEligible && priceDisplay.trialInfo ? "Start Free Trial" : `Upgrade to ${plan.displayName}`}`
+                              : isIntervalSwitch
+                                ? `Switch to ${planInterval === "ANNUAL" ? "yearly" : "monthly"} billing`
+                                : `${trialEligible && priceDisplay.trialInfo ? "Start Free Trial" : `Upgrade to ${plan.displayName}`}`
                             }
                           </Button>
                         )}
@@ -432,6 +481,9 @@ export default function Billing() {
                   <Text as="p" variant="bodySm">
                     • <strong>Pro ($9.99/month):</strong> Unlimited products - For large catalogs
                   </Text>
+                  <Text as="p" variant="bodySm">
+                    • Paid plans can be billed yearly for the price of 10 months; product limits still reset every month
+                  </Text>
                   <Text as="p" variant="bodySm">
                     • Billing is handled securely through Shopify
                   </Text>
@@ -0,0 +1,106 @@
+// app/routes/app.history-export.tsx - Streams the filtered pricing history as CSV (Standard & Pro)
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { db } from "../db.server";
+import { buildHistoryWhere, parseHistoryFilters } from "../models/pricing-history.server";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { canUseFeature } from "../lib/plans";
+import { toCsvRow } from "../lib/csv";
+
+// Rows read from the database per query while streaming
+const EXPORT_PAGE_SIZE = 1000;
+
+const CSV_HEADER = [
+  "Date",
+  "Product",
+  "Variant",
+  "Product ID",
+  "Variant ID",
+  "Action",
+  "Adjustment Value",
+  "Rounding",
+  "Old Price",
+  "New Price",
+  "Old Compare-at Price",
+  "New Compare-at Price",
+  "Unit Cost",
+  "Market",
+  "Currency",
+  "User",
+  "Batch ID",
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const subscription = await getOrCreateSubscription(session.shop);
+  if (!canUseFeature(subscription, 'csv_export')) {
+    return new Response("CSV export is available on the Standard and Pro plans", { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const where = buildHistoryWhere(session.shop, parseHistoryFilters(url.searchParams));
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let exported = 0;
+
+  // Pull one page at a time so large histories never sit in memory at once
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow(CSV_HEADER)));
+    },
+    async pull(controller) {
+      try {
+        const rows: any[] = await db.pricingHistory.findMany({
+          where,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          take: EXPORT_PAGE_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+
+        if (rows.length === 0) {
+          console.log(`📤 Exported ${exported} history rows for ${session.shop}`);
+          controller.close();
+          return;
+        }
+
+        const chunk = rows.map((row) => toCsvRow([
+          row.createdAt,
+          row.productTitle,
+          row.variantTitle,
+          row.productId,
+          row.variantId,
+          row.actionType,
+          row.adjustmentValue,
+          row.roundingRule,
+          row.oldPrice.toFixed(2),
+          row.newPrice.toFixed(2),
+          row.oldCompareAtPrice?.toFixed(2),
+          row.newCompareAtPrice?.toFixed(2),
+          row.unitCost?.toFixed(2),
+          row.market,
+          row.currency,
+          row.userEmail,
+          row.batchId,
+        ])).join("");
+
+        controller.enqueue(encoder.encode(chunk));
+        exported += rows.length;
+        cursor = rows[rows.length - 1].id;
+      } catch (error) {
+        console.error("❌ History export failed:", error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const filename = `pricing-history-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
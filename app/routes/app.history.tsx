@@ -1,7 +1,8 @@
-import { json, LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, useSearchParams } from "@remix-run/react";
+import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useSearchParams, useNavigation, Form } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import { 
+  Banner,
   Card, 
   Layout, 
   Page, 
@@ -25,6 +26,11 @@ import {
   FilterIcon,
 } from "@shopify/polaris-icons";
 import { db } from "../db.server";
+import { buildHistoryWhere, getRecentBatches, parseHistoryFilters } from "../models/pricing-history.server";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { canUseFeature } from "../lib/plans";
+import { revertPricingBatch, type RevertResult } from "../lib/pricing.server";
+import { describeMarginChange, describeRoundingRule, deserializeRoundingRule, formatMoney } from "../lib/pricing";
 import { useState, useCallback, useMemo } from "react";
 
 interface HistoryEntry {
@@ -34,9 +40,32 @@ interface HistoryEntry {
   variantTitle: string;
   actionType: string;
   adjustmentValue: number;
+  roundingRule: string | null;
   oldPrice: number;
   newPrice: number;
+  oldCompareAtPrice: number | null;
+  newCompareAtPrice: number | null;
+  unitCost: number | null;
+  // Set for changes written to a market price list
+  market: string | null;
+  currency: string | null;
   userEmail: string | null;
+  batchId: string | null;
+}
+
+interface BatchSummary {
+  batchId: string;
+  actionType: string;
+  adjustmentValue: number;
+  roundingRule: string | null;
+  market: string | null;
+  variantCount: number;
+  createdAt: string;
+  reverted: boolean;
+}
+
+interface ActionResult extends Partial<RevertResult> {
+  message?: string;
 }
 
 interface LoaderData {
@@ -46,6 +75,9 @@ interface LoaderData {
   totalPages: number;
   limit: number;
   stats: Array<{ actionType: string; _count: { actionType: number } }>;
+  batches: BatchSummary[];
+  canExport: boolean;
+  canViewAnalytics: boolean;
   filters: {
     actionType?: string | null;
     search?: string | null;
@@ -60,37 +92,11 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
   const url = new URL(request.url);
   const page = parseInt(url.searchParams.get("page") || "1");
   const limit = parseInt(url.searchParams.get("limit") || "50");
-  const actionType = url.searchParams.get("actionType");
-  const search = url.searchParams.get("search");
-  const startDate = url.searchParams.get("startDate");
-  const endDate = url.searchParams.get("endDate");
+  const filters = parseHistoryFilters(url.searchParams);
   
   const offset = (page - 1) * limit;
   
-  // Build where clause
-  const where: any = { shop: session.shop };
-  
-  if (actionType && actionType !== "all") {
-    where.actionType = actionType;
-  }
-  
-  if (search) {
-    where.OR = [
-      { productTitle: { contains: search, mode: 'insensitive' } },
-      { variantTitle: { contains: search, mode: 'insensitive' } },
-    ];
-  }
-  
-  if (startDate) {
-    where.createdAt = { gte: new Date(startDate) };
-  }
-  
-  if (endDate) {
-    where.createdAt = {
-      ...where.createdAt,
-      lte: new Date(endDate)
-    };
-  }
+  const where = buildHistoryWhere(session.shop, filters);
   
   try {
     const [history, totalCount] = await Promise.all([
@@ -110,6 +116,9 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
       _count: { actionType: true },
     });
     
+    const batches = await getRecentBatches(session.shop);
+    const subscription = await getOrCreateSubscription(session.shop);
+    
     return json({ 
       history, 
       totalCount,
@@ -117,12 +126,10 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
       totalPages: Math.ceil(totalCount / limit),
       limit,
       stats,
-      filters: {
-        actionType,
-        search,
-        startDate,
-        endDate
-      }
+      batches,
+      canExport: canUseFeature(subscription, 'csv_export'),
+      canViewAnalytics: canUseFeature(subscription, 'analytics'),
+      filters,
     });
   } catch (error) {
     console.error("History loader error:", error);
@@ -133,11 +140,43 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
       totalPages: 0,
       limit,
       stats: [],
+      batches: [],
+      canExport: false,
+      canViewAnalytics: false,
       filters: {}
     });
   }
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const batchId = formData.get("batchId");
+  
+  if (intent !== "undo" || !batchId || typeof batchId !== "string") {
+    return json<ActionResult>({ success: false, error: "Invalid undo request" });
+  }
+  
+  try {
+    const result = await revertPricingBatch(admin, session.shop, batchId, session.shop);
+    
+    return json<ActionResult>({
+      ...result,
+      message: result.success
+        ? `Restored ${result.reverted} price(s).${result.skipped.length > 0 ? ` ${result.skipped.length} variant(s) were skipped.` : ""}`
+        : undefined,
+    });
+  } catch (error: any) {
+    console.error("Undo batch error:", error);
+    return json<ActionResult>({
+      success: false,
+      error: `Failed to undo batch: ${error.message}`,
+    });
+  }
+};
+
 export default function History() {
   const { 
     history, 
@@ -146,10 +185,48 @@ export default function History() {
     totalPages, 
     limit,
     stats,
+    batches,
+    canExport,
+    canViewAnalytics,
     filters 
   } = useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
   
   const [searchParams, setSearchParams] = useSearchParams();
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  
+  // Fetch through App Bridge so the request carries the session token, then
+  // hand the file to the browser
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const params = new URLSearchParams(searchParams);
+      params.delete("page");
+      params.delete("limit");
+      const response = await fetch(`/app/history-export?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      
+      const blob = await response.blob();
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = `pricing-history-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error: any) {
+      setExportError(error.message || "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [searchParams]);
+  
+  const undoingBatchId = navigation.state === "submitting" 
+    ? navigation.formData?.get("batchId") 
+    : null;
   
   // Filter states
   const safeFilters = filters || {};
@@ -215,11 +292,83 @@ export default function History() {
       fixed: <Badge tone="success">Fixed Price</Badge>,
       add: <Badge tone="attention">Add Amount</Badge>,
       subtract: <Badge tone="critical">Subtract Amount</Badge>,
+      revert: <Badge tone="warning">Undo</Badge>,
+      compare_at_discount: <Badge tone="success">Sale</Badge>,
+      clear_compare_at: <Badge>Clear Compare-at</Badge>,
+      compare_at_multiplier: <Badge tone="info">Compare-at × N</Badge>,
+      cost_markup: <Badge tone="success">Markup on Cost</Badge>,
+      target_margin: <Badge tone="success">Target Margin</Badge>,
+      csv_import: <Badge tone="info">CSV Import</Badge>,
+      price_rule: <Badge tone="info">Price Rule</Badge>,
     };
     return badges[actionType as keyof typeof badges] || <Badge>{actionType}</Badge>;
   };
 
-  const formatPriceChange = (oldPrice: number, newPrice: number) => {
+  const formatAdjustmentValue = (actionType: string, adjustmentValue: number) => {
+    switch (actionType) {
+      case 'percentage':
+        return `${adjustmentValue > 0 ? '+' : ''}${adjustmentValue}%`;
+      case 'compare_at_discount':
+        return `-${adjustmentValue}%`;
+      case 'compare_at_multiplier':
+        return `×${adjustmentValue}`;
+      case 'cost_markup':
+        return `cost +${adjustmentValue}%`;
+      case 'target_margin':
+        return `${adjustmentValue}% margin`;
+      case 'clear_compare_at':
+      case 'csv_import':
+      case 'price_rule':
+      case 'revert':
+        return '-';
+      default:
+        return Math.abs(adjustmentValue).toFixed(2);
+    }
+  };
+
+  const formatAdjustment = (key: string, actionType: string, adjustmentValue: number, roundingRule: string | null) => (
+    <div key={key}>
+      <Text as="span">{formatAdjustmentValue(actionType, adjustmentValue)}</Text>
+      {roundingRule && (
+        <Text as="p" variant="bodySm" tone="subdued">
+          {describeRoundingRule(deserializeRoundingRule(roundingRule))}
+        </Text>
+      )}
+    </div>
+  );
+
+  const formatCompareAtChange = (entry: HistoryEntry) => {
+    if (entry.oldCompareAtPrice === entry.newCompareAtPrice) return null;
+    
+    const format = (price: number | null) => price === null ? "none" : formatMoney(price, entry.currency);
+    return (
+      <Text as="span" variant="bodySm" tone="subdued">
+        Compare-at: {format(entry.oldCompareAtPrice)} → {format(entry.newCompareAtPrice)}
+      </Text>
+    );
+  };
+
+  const formatMarginChange = (entry: HistoryEntry) => {
+    if (entry.unitCost === null) return null;
+
+    return (
+      <Text as="p" variant="bodySm" tone="subdued">
+        Margin: {describeMarginChange(entry.oldPrice, entry.newPrice, entry.unitCost)}
+      </Text>
+    );
+  };
+
+  const formatMarket = (entry: HistoryEntry) => {
+    if (!entry.market) return null;
+
+    return (
+      <Text as="p" variant="bodySm" tone="subdued">
+        Market: {entry.market} ({entry.currency})
+      </Text>
+    );
+  };
+
+  const formatPriceChange = (oldPrice: number, newPrice: number, currency: string | null) => {
     const difference = newPrice - oldPrice;
     const isIncrease = difference > 0;
     const percentageChange = oldPrice > 0 ? (difference / oldPrice) * 100 : 0;
@@ -227,11 +376,11 @@ export default function History() {
     return (
       <div>
         <Text as="span" fontWeight="semibold" tone={isIncrease ? "success" : "critical"}>
-          ${oldPrice.toFixed(2)} → ${newPrice.toFixed(2)}
+          {formatMoney(oldPrice, currency)} → {formatMoney(newPrice, currency)}
         </Text>
         <br />
         <Text as="span" variant="bodySm" tone="subdued">
-          {isIncrease ? "+" : ""}${difference.toFixed(2)} ({isIncrease ? "+" : ""}{percentageChange.toFixed(1)}%)
+          {isIncrease ? "+" : ""}{formatMoney(difference, currency)} ({isIncrease ? "+" : ""}{percentageChange.toFixed(1)}%)
         </Text>
       </div>
     );
@@ -301,10 +450,13 @@ export default function History() {
       <Text as="span" variant="bodySm" tone="subdued">{entry.variantTitle}</Text>
     </div>,
     getActionTypeBadge(entry.actionType),
-    entry.actionType === 'percentage' 
-      ? `${entry.adjustmentValue > 0 ? '+' : ''}${entry.adjustmentValue}%`
-      : `${Math.abs(entry.adjustmentValue).toFixed(2)}`,
-    formatPriceChange(entry.oldPrice, entry.newPrice),
+    formatAdjustment(`value-${entry.id}`, entry.actionType, entry.adjustmentValue, entry.roundingRule),
+    <div key={`change-${entry.id}`}>
+      {formatPriceChange(entry.oldPrice, entry.newPrice, entry.currency)}
+      {formatCompareAtChange(entry)}
+      {formatMarginChange(entry)}
+      {formatMarket(entry)}
+    </div>,
     <Text key={`user-${entry.id}`} as="span" variant="bodySm" tone="subdued">
       {entry.userEmail || "System"}
     </Text>,
@@ -317,8 +469,12 @@ export default function History() {
       backAction={{ content: "← Dashboard", url: "/app" }}
       primaryAction={
         <ButtonGroup>
-          <Button disabled>
-            Export CSV
+          <Button
+            onClick={handleExport}
+            loading={isExporting}
+            disabled={!canExport || totalCount === 0}
+          >
+            {canExport ? "Export CSV" : "Export CSV (Standard & Pro)"}
           </Button>
           <Button url="/app/pricing">
             Update More Prices
@@ -327,13 +483,59 @@ export default function History() {
       }
     >
       <Layout>
+        {exportError && (
+          <Layout.Section>
+            <Banner tone="critical" title="Export failed" onDismiss={() => setExportError(null)}>
+              <Text as="p">{exportError}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {/* Undo result */}
+        {actionData && (
+          <Layout.Section>
+            {actionData.success ? (
+              <Banner tone="success" title="Batch undone">
+                <Text as="p">{actionData.message}</Text>
+                {actionData.skipped && actionData.skipped.length > 0 && (
+                  <div style={{ marginTop: "0.5rem" }}>
+                    {actionData.skipped.map((skip) => (
+                      <Text key={skip.variantId} as="p" variant="bodySm" tone="subdued">
+                        • {skip.productTitle} ({skip.variantTitle}): {skip.reason}
+                      </Text>
+                    ))}
+                  </div>
+                )}
+              </Banner>
+            ) : (
+              <Banner tone="critical" title="Undo failed">
+                <Text as="p">{actionData.error}</Text>
+                {actionData.skipped && actionData.skipped.length > 0 && (
+                  <div style={{ marginTop: "0.5rem" }}>
+                    {actionData.skipped.map((skip) => (
+                      <Text key={skip.variantId} as="p" variant="bodySm" tone="subdued">
+                        • {skip.productTitle} ({skip.variantTitle}): {skip.reason}
+                      </Text>
+                    ))}
+                  </div>
+                )}
+              </Banner>
+            )}
+          </Layout.Section>
+        )}
+
         {/* Statistics Overview */}
         {stats.length > 0 && (
           <Layout.Section>
             <Card>
               <div style={{ padding: "1.5rem" }}>
                 <BlockStack gap="300">
-                  <Text as="h3" variant="headingMd">Modification Summary</Text>
+                  <InlineStack align="space-between">
+                    <Text as="h3" variant="headingMd">Modification Summary</Text>
+                    <Button variant="plain" url="/app/analytics">
+                      {canViewAnalytics ? "📈 View analytics" : "📈 Analytics (Pro)"}
+                    </Button>
+                  </InlineStack>
                   <div style={{ 
                     display: "grid", 
                     gridTemplateColumns: "repeat(auto-fit, minmax(150px, 1fr))", 
@@ -358,6 +560,58 @@ export default function History() {
           </Layout.Section>
         )}
 
+        {/* Recent batches with undo */}
+        {batches.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between">
+                    <Text as="h3" variant="headingMd">Recent Batches</Text>
+                    <Button variant="plain" url="/app/sales-impact">
+                      {canViewAnalytics ? "🛒 Sales impact" : "🛒 Sales impact (Pro)"}
+                    </Button>
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Undo restores each variant's previous price. Variants whose price changed again since the batch ran are skipped.
+                  </Text>
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'numeric', 'text']}
+                    headings={['Date', 'Action', 'Value', 'Variants', '']}
+                    rows={batches.map((batch) => [
+                      new Date(batch.createdAt).toLocaleString(),
+                      <div key={`action-${batch.batchId}`}>
+                        {getActionTypeBadge(batch.actionType)}
+                        {batch.market && (
+                          <Text as="p" variant="bodySm" tone="subdued">{batch.market}</Text>
+                        )}
+                      </div>,
+                      formatAdjustment(`value-${batch.batchId}`, batch.actionType, batch.adjustmentValue, batch.roundingRule),
+                      batch.variantCount,
+                      batch.reverted ? (
+                        <Badge key={`reverted-${batch.batchId}`}>Undone</Badge>
+                      ) : (
+                        <Form key={`undo-${batch.batchId}`} method="post">
+                          <input type="hidden" name="intent" value="undo" />
+                          <input type="hidden" name="batchId" value={batch.batchId} />
+                          <Button
+                            submit
+                            size="slim"
+                            loading={undoingBatchId === batch.batchId}
+                            disabled={navigation.state === "submitting"}
+                          >
+                            Undo this batch
+                          </Button>
+                        </Form>
+                      ),
+                    ])}
+                  />
+                </BlockStack>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
         {/* Filters */}
         <Layout.Section>
           <Card>
@@ -396,6 +650,14 @@ export default function History() {
                             { label: 'Fixed Price', value: 'fixed' },
                             { label: 'Add Amount', value: 'add' },
                             { label: 'Subtract Amount', value: 'subtract' },
+                            { label: 'Sale (compare-at)', value: 'compare_at_discount' },
+                            { label: 'Clear Compare-at', value: 'clear_compare_at' },
+                            { label: 'Compare-at × N', value: 'compare_at_multiplier' },
+                            { label: 'Markup on Cost', value: 'cost_markup' },
+                            { label: 'Target Margin', value: 'target_margin' },
+                            { label: 'CSV Import', value: 'csv_import' },
+                            { label: 'Price Rule', value: 'price_rule' },
+                            { label: 'Undo', value: 'revert' },
                           ]}
                           selected={actionTypeFilter}
                           onChange={handleActionTypeChange}
@@ -0,0 +1,295 @@
+// app/routes/app.import.tsx - Import new prices from a CSV (Standard & Pro)
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form, Link } from "@remix-run/react";
+import { useState, useCallback } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Badge,
+  Banner,
+  Button,
+  DropZone,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import { getOrCreateSubscription, wouldExceedProductLimit } from "../models/subscription.server";
+import { canUseFeature } from "../lib/plans";
+import { GUARDRAIL_ERROR_FIELD } from "../lib/guardrails";
+import {
+  applyPriceImport,
+  buildPriceImportReport,
+  getMatchedProductIds,
+  MAX_IMPORT_ROWS,
+  type ImportReport,
+} from "../lib/price-import.server";
+
+interface ActionResult {
+  intent: string;
+  report?: ImportReport;
+  error?: string;
+  updated?: number;
+  failed?: number;
+  // "Product — Variant: reason" for rows the shop's price guardrails rejected
+  blocked?: string[];
+}
+
+// Uploaded files are sent as text; this comfortably fits MAX_IMPORT_ROWS rows
+const MAX_CSV_LENGTH = 1024 * 1024;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const subscription = await getOrCreateSubscription(session.shop);
+
+  return json({
+    canImport: canUseFeature(subscription, 'csv_import'),
+    maxRows: MAX_IMPORT_ROWS,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") as string;
+  const csv = (formData.get("csv") as string) || "";
+
+  const subscription = await getOrCreateSubscription(session.shop);
+  if (!canUseFeature(subscription, 'csv_import')) {
+    return json<ActionResult>({ intent, error: "CSV import is available on the Standard and Pro plans" });
+  }
+
+  if (!csv.trim()) {
+    return json<ActionResult>({ intent, error: "Choose a CSV file to import" });
+  }
+  if (csv.length > MAX_CSV_LENGTH) {
+    return json<ActionResult>({ intent, error: "The file is too large - split it into smaller files" });
+  }
+
+  try {
+    // Always re-check against the store; never trust a report sent back by the browser
+    const report = await buildPriceImportReport(admin, csv);
+
+    if (intent !== "apply" || report.errors.length > 0) {
+      return json<ActionResult>({ intent: "validate", report });
+    }
+
+    if (report.matched === 0) {
+      return json<ActionResult>({ intent, report, error: "No rows matched a variant in your store" });
+    }
+
+    if (await wouldExceedProductLimit(session.shop, getMatchedProductIds(report))) {
+      return json<ActionResult>({
+        intent,
+        report,
+        error: `Importing would modify ${getMatchedProductIds(report).length} product(s), exceeding your monthly limit of ${subscription.usageLimit} modifications`,
+      });
+    }
+
+    const { results } = await applyPriceImport(admin, session.shop, report, session.shop);
+    const updated = results.filter((result) => result.success).length;
+    const blocked = results
+      .filter((result) => result.errors.some((error) => error.field === GUARDRAIL_ERROR_FIELD))
+      .map((result) => `${result.productTitle} — ${result.variantTitle}: ${result.errors[0].message}`);
+
+    console.log(`📥 Imported ${updated}/${results.length} prices for ${session.shop}`);
+
+    return json<ActionResult>({ intent, updated, failed: results.length - updated, blocked });
+  } catch (error: any) {
+    console.error("❌ Price import failed:", error);
+    return json<ActionResult>({ intent, error: `Import failed: ${error.message}` });
+  }
+};
+
+const STATUS_BADGES: Record<string, JSX.Element> = {
+  matched: <Badge tone="success">Matched</Badge>,
+  unmatched: <Badge tone="warning">Unmatched</Badge>,
+  invalid: <Badge tone="critical">Invalid</Badge>,
+};
+
+function formatPrice(price: number | null | undefined) {
+  return price === null || price === undefined ? "—" : `$${price.toFixed(2)}`;
+}
+
+export default function Import() {
+  const { canImport, maxRows } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  // The file the current report was built from
+  const [checkedCsv, setCheckedCsv] = useState<string | null>(null);
+
+  const isSubmitting = navigation.state === "submitting";
+  const report = actionData?.report;
+  const canApply = canImport &&
+    actionData?.intent === "validate" &&
+    !!report && report.matched > 0 &&
+    checkedCsv === csv;
+
+  const handleDrop = useCallback((_dropFiles: File[], acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    file.text().then(setCsv);
+  }, []);
+
+  const rows = (report?.rows || []).map((row) => [
+    row.line,
+    row.key,
+    row.productTitle ? `${row.productTitle} — ${row.variantTitle}` : "—",
+    row.status === "matched" ? `${formatPrice(row.oldPrice)} → ${formatPrice(row.newPrice)}` : "—",
+    row.status === "matched" && row.newCompareAtPrice !== undefined
+      ? `${formatPrice(row.oldCompareAtPrice)} → ${formatPrice(row.newCompareAtPrice)}`
+      : "—",
+    <div key={`status-${row.line}`}>
+      {STATUS_BADGES[row.status]}
+      {row.message && <Text as="p" variant="bodySm" tone="subdued">{row.message}</Text>}
+    </div>,
+  ]);
+
+  return (
+    <Page
+      title="Import Prices"
+      subtitle="Update prices from a spreadsheet"
+      backAction={{ content: "← Pricing", url: "/app/pricing" }}
+    >
+      <Layout>
+        {!canImport && (
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="CSV import is a Standard & Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">Upgrade to update prices for many variants at once from a spreadsheet.</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Import problem">
+              <Text as="p">{actionData.error}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.intent === "apply" && actionData.updated !== undefined && (
+          <Layout.Section>
+            <Banner tone={actionData.failed ? "warning" : "success"} title="Import finished">
+              <Text as="p">
+                {actionData.updated} price(s) updated{actionData.failed ? `, ${actionData.failed} failed` : ""}.
+              </Text>
+              {actionData.blocked && actionData.blocked.length > 0 && (
+                <BlockStack gap="100">
+                  <Text as="p" fontWeight="semibold">🛡️ Skipped by your price guardrails:</Text>
+                  {actionData.blocked.map((line, index) => (
+                    <Text key={index} as="p" variant="bodySm">{line}</Text>
+                  ))}
+                </BlockStack>
+              )}
+              <Link to="/app/history">You can undo this import from the history page.</Link>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">1. Choose a file</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Match rows with a <b>Variant ID</b>, <b>SKU</b>, or <b>Handle</b> plus <b>Option1</b>–<b>Option3</b> values.
+                  Set new prices in <b>Price</b> and/or <b>Compare-at Price</b> (use "clear" to remove a compare-at price).
+                  Up to {maxRows} rows per file.
+                </Text>
+                <DropZone
+                  accept=".csv,text/csv"
+                  type="file"
+                  allowMultiple={false}
+                  onDrop={handleDrop}
+                  disabled={!canImport}
+                >
+                  {fileName ? (
+                    <div style={{ padding: "1rem", textAlign: "center" }}>
+                      <Text as="p" fontWeight="semibold">📄 {fileName}</Text>
+                    </div>
+                  ) : (
+                    <DropZone.FileUpload actionHint="Accepts .csv files" />
+                  )}
+                </DropZone>
+
+                <InlineStack gap="200">
+                  <Form method="post" onSubmit={() => setCheckedCsv(csv)}>
+                    <input type="hidden" name="intent" value="validate" />
+                    <input type="hidden" name="csv" value={csv} />
+                    <Button
+                      submit
+                      disabled={!canImport || !csv}
+                      loading={isSubmitting && navigation.formData?.get("intent") === "validate"}
+                    >
+                      Check File
+                    </Button>
+                  </Form>
+                  {canApply && (
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="apply" />
+                      <input type="hidden" name="csv" value={csv} />
+                      <Button
+                        submit
+                        variant="primary"
+                        loading={isSubmitting && navigation.formData?.get("intent") === "apply"}
+                      >
+                        {`Apply ${report?.matched} Matched Row(s)`}
+                      </Button>
+                    </Form>
+                  )}
+                </InlineStack>
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        {report && report.errors.length === 0 && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">2. Review</Text>
+                  <InlineStack gap="200">
+                    <Badge tone="success">{`${report.matched} matched`}</Badge>
+                    <Badge tone="warning">{`${report.unmatched} unmatched`}</Badge>
+                    <Badge tone="critical">{`${report.invalid} invalid`}</Badge>
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Only matched rows are applied. Each product counts as one modification toward your monthly limit.
+                  </Text>
+                  <DataTable
+                    columnContentTypes={['numeric', 'text', 'text', 'text', 'text', 'text']}
+                    headings={['Line', 'Key', 'Variant', 'Price', 'Compare-at', 'Status']}
+                    rows={rows}
+                  />
+                </BlockStack>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {report && report.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="This file can't be imported">
+              {report.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -2,7 +2,7 @@ import { ActionFunctionArgs, LoaderFunctionArgs, json, redirect } from "@remix-r
 import { useLoaderData, useActionData, Form } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import { updateSubscription, getOrCreateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, matchBillingPlan } from "../lib/plans";
 import {
   Card,
   Layout,
@@ -88,6 +88,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                           amount
                           currencyCode
                         }
+                        interval
                       }
                     }
                   }
@@ -103,22 +104,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
       if (activeSubscriptions.length > 0) {
         const subscription = activeSubscriptions[0];
-        const amount = parseFloat(subscription.lineItems?.[0]?.plan?.pricingDetails?.price?.amount || "0");
+        const pricingDetails = subscription.lineItems?.[0]?.plan?.pricingDetails;
+        const amount = parseFloat(pricingDetails?.price?.amount || "0");
         
         // Mapper au plan
-        let detectedPlan = "free";
-        for (const [planKey, planData] of Object.entries(PLANS)) {
-          if (Math.abs(planData.price - amount) < 0.02) {
-            detectedPlan = planKey;
-            break;
-          }
-        }
+        const match = matchBillingPlan({ name: subscription.name, amount, interval: pricingDetails?.interval });
+        const detectedPlan = match?.planName ?? "free";
 
         // Mettre à jour automatiquement
         await updateSubscription(session.shop, {
           planName: detectedPlan,
           status: "active",
           usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
+          billingInterval: match?.billingInterval ?? "EVERY_30_DAYS",
           subscriptionId: subscription.id,
           currentPeriodEnd: subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
         });
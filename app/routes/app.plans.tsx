@@ -2,9 +2,16 @@ import React from "react";
 import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useActionData, useSubmit } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
-import { Card, Layout, Page, Text, Button, Grid, Badge, List, Banner, BlockStack } from "@shopify/polaris";
+import { Card, Layout, Page, Text, Button, ButtonGroup, Grid, Badge, List, Banner, BlockStack } from "@shopify/polaris";
 import { getOrCreateSubscription, updateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import {
+  PLANS,
+  getAnnualSavings,
+  getBillingPlanName,
+  getPlanPrice,
+  parseBillingInterval,
+  type BillingInterval,
+} from "../lib/plans";
 
 interface ActionResult {
   success?: string;
@@ -29,6 +36,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const formData = await request.formData();
     const selectedPlan = formData.get("plan");
     const actionType = formData.get("action");
+    const interval = parseBillingInterval(formData.get("interval"));
 
     if (!selectedPlan || typeof selectedPlan !== "string") {
       return json<ActionResult>({ error: "Invalid plan selected" });
@@ -47,6 +55,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         status: "active",
         usageLimit: PLANS.free.usageLimit,
         subscriptionId: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
 
       return json<ActionResult>({ success: "Subscription cancelled successfully" });
@@ -56,7 +65,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return json<ActionResult>({ error: "You're already on the free plan" });
     }
 
-    console.log(`🔄 Creating billing charge for ${session.shop}: ${plan.displayName}`);
+    if (interval === "ANNUAL" && plan.annualPrice === undefined) {
+      return json<ActionResult>({ error: `${plan.displayName} isn't available with yearly billing` });
+    }
+
+    console.log(`🔄 Creating billing charge for ${session.shop}: ${plan.displayName} (${interval})`);
 
     // Utiliser l'approche GraphQL directe
     const response = await admin.graphql(`
@@ -74,15 +87,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     `, {
       variables: {
-        name: plan.displayName,
-        returnUrl: `https://${session.shop}/admin/apps/pricefy-1/app?billing_success=1&plan=${selectedPlan}`,
+        name: getBillingPlanName(plan, interval),
+        returnUrl: `https://${session.shop}/admin/apps/pricefy-1/app?billing_success=1&plan=${selectedPlan}&interval=${interval}`,
         test: true,
         lineItems: [
           {
             plan: {
               appRecurringPricingDetails: {
-                price: { amount: plan.price, currencyCode: "USD" },
-                interval: "EVERY_30_DAYS"
+                price: { amount: getPlanPrice(plan, interval), currencyCode: "USD" },
+                interval
               }
             }
           }
@@ -129,6 +142,8 @@ export default function Plans() {
   const submit = useSubmit();
 
   const { shop, subscription, plans } = loaderData;
+  const currentInterval = parseBillingInterval(subscription.billingInterval);
+  const [interval, setSelectedInterval] = React.useState<BillingInterval>(currentInterval);
 
   // Redirection vers Shopify billing
   React.useEffect(() => {
@@ -140,6 +155,7 @@ export default function Plans() {
   const handlePurchaseAction = (planName: string) => {
     const formData = new FormData();
     formData.append("plan", planName);
+    formData.append("interval", interval);
     submit(formData, { method: "post" });
   };
 
@@ -177,9 +193,28 @@ export default function Plans() {
           </Layout.Section>
         )}
 
+        <Layout.Section>
+          <div style={{ display: "flex", justifyContent: "center" }}>
+            <ButtonGroup variant="segmented">
+              <Button pressed={interval === "EVERY_30_DAYS"} onClick={() => setSelectedInterval("EVERY_30_DAYS")}>
+                Monthly
+              </Button>
+              <Button pressed={interval === "ANNUAL"} onClick={() => setSelectedInterval("ANNUAL")}>
+                Yearly (2 months free)
+              </Button>
+            </ButtonGroup>
+          </div>
+        </Layout.Section>
+
         <Layout.Section>
           <Grid>
-            {plans.map((plan: any) => (
+            {plans.map((plan: any) => {
+              // Free has no yearly price, so it always shows monthly
+              const planInterval: BillingInterval = plan.annualPrice === undefined ? "EVERY_30_DAYS" : interval;
+              const isCurrentPlan = subscription.planName === plan.name &&
+                (plan.name === "free" || currentInterval === planInterval);
+
+              return (
               <Grid.Cell key={plan.name} columnSpan={{ xs: 6, sm: 6, md: 4, lg: 4, xl: 4 }}>
                 <Card>
                   <div style={{ padding: "2rem", textAlign: "center", minHeight: "400px" }}>
@@ -190,11 +225,16 @@ export default function Plans() {
 
                     <div style={{ marginBottom: "2rem" }}>
                       <Text as="p" variant="headingXl">
-                        {plan.price === 0 ? "Free" : `$${plan.price}`}
+                        {plan.price === 0 ? "Free" : `$${getPlanPrice(plan, planInterval)}`}
                       </Text>
                       <Text as="p" variant="bodySm" tone="subdued">
-                        {plan.price === 0 ? "Forever" : "per month"}
+                        {plan.price === 0 ? "Forever" : planInterval === "ANNUAL" ? "per year" : "per month"}
                       </Text>
+                      {planInterval === "ANNUAL" && (
+                        <Text as="p" variant="bodySm" tone="success">
+                          Save ${getAnnualSavings(plan).toFixed(2)} a year
+                        </Text>
+                      )}
                     </div>
 
                     <div style={{ marginBottom: "2rem" }}>
@@ -214,7 +254,7 @@ export default function Plans() {
                     </div>
 
                     <div>
-                      {subscription.planName === plan.name ? (
+                      {isCurrentPlan ? (
                         <div>
                           <Badge tone="success">Current Plan</Badge>
                           {plan.name !== "free" && (
@@ -238,14 +278,19 @@ export default function Plans() {
                           fullWidth
                           disabled={plan.name === "free"}
                         >
-                          {plan.name === "free" ? "Free Plan" : `Get ${plan.displayName}`}
+                          {plan.name === "free"
+                            ? "Free Plan"
+                            : subscription.planName === plan.name
+                              ? `Switch to ${planInterval === "ANNUAL" ? "yearly" : "monthly"} billing`
+                              : `Get ${plan.displayName}`}
                         </Button>
                       )}
                     </div>
                   </div>
                 </Card>
               </Grid.Cell>
-            ))}
+              );
+            })}
           </Grid>
         </Layout.Section>
       </Layout>
@@ -0,0 +1,342 @@
+// app/routes/app.presets.tsx - Saved adjustment presets
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form, Link } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Button,
+  ButtonGroup,
+  EmptyState,
+  Select,
+  TextField,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import {
+  deleteAdjustmentPreset,
+  listAdjustmentPresets,
+  saveAdjustmentPreset,
+} from "../models/adjustment-preset.server";
+import { buildPresetUrl, type AdjustmentPreset } from "../lib/presets";
+import {
+  ADJUSTMENT_TYPES,
+  ADJUSTMENT_TYPE_LABELS,
+  ROUNDING_STRATEGIES,
+  ROUNDING_STRATEGY_LABELS,
+  describeAdjustment,
+  describeRoundingRule,
+  deserializeRoundingRule,
+  isAdjustmentType,
+  parseRoundingRule,
+  serializeRoundingRule,
+} from "../lib/pricing";
+import {
+  EMPTY_PRODUCT_FILTERS,
+  appendProductFilters,
+  describeProductFilters,
+  parseProductFilters,
+  type ProductFilters,
+} from "../lib/product-search";
+import { validateAdjustmentValue, validateRoundingRule } from "../lib/validators";
+
+interface ActionResult {
+  success?: string;
+  errors?: string[];
+  savedPresetId?: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const presets = await listAdjustmentPresets(session.shop);
+
+  return json({ presets });
+};
+
+/**
+ * Also used by the pricing page's "Save as preset", which posts the
+ * filters currently applied there
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "delete") {
+    const deleted = await deleteAdjustmentPreset(session.shop, (formData.get("presetId") as string) || "");
+    return json<ActionResult>(deleted ? { success: "Preset deleted" } : { errors: ["Preset not found"] });
+  }
+
+  if (intent !== "save") {
+    return json<ActionResult>({ errors: ["Unknown action"] });
+  }
+
+  const name = ((formData.get("name") as string) || "").trim();
+  const adjustmentType = formData.get("adjustmentType") as string;
+  const adjustmentValue = parseFloat(formData.get("adjustmentValue") as string);
+  const rounding = parseRoundingRule(
+    formData.get("roundingStrategy") as string | null,
+    formData.get("roundingDirection") as string | null,
+    formData.get("roundingEnding") as string | null
+  );
+  const filters = parseProductFilters(new URLSearchParams((formData.get("filters") as string) || ""));
+
+  const errors: string[] = [];
+  if (!name) {
+    errors.push("Give the preset a name");
+  }
+  if (!isAdjustmentType(adjustmentType)) {
+    errors.push("Invalid adjustment type selected");
+  } else if (isNaN(adjustmentValue)) {
+    errors.push("Please enter a valid number for the adjustment value");
+  } else {
+    errors.push(...validateAdjustmentValue(adjustmentType, adjustmentValue));
+  }
+  errors.push(...validateRoundingRule(rounding).errors);
+
+  if (errors.length > 0) {
+    return json<ActionResult>({ errors });
+  }
+
+  const preset = await saveAdjustmentPreset(session.shop, {
+    id: (formData.get("presetId") as string) || null,
+    name,
+    adjustmentType,
+    adjustmentValue,
+    roundingRule: serializeRoundingRule(rounding),
+    filters,
+  });
+  if (!preset) {
+    return json<ActionResult>({ errors: ["Preset not found"] });
+  }
+
+  console.log(`🔖 Saved preset "${preset.name}" for ${session.shop}`);
+
+  return json<ActionResult>({ success: `Preset "${preset.name}" saved`, savedPresetId: preset.id });
+};
+
+export default function Presets() {
+  const { presets } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [adjustmentType, setAdjustmentType] = useState("percentage");
+  const [adjustmentValue, setAdjustmentValue] = useState("10");
+  const [roundingStrategy, setRoundingStrategy] = useState("none");
+  const [roundingDirection, setRoundingDirection] = useState("nearest");
+  const [roundingEnding, setRoundingEnding] = useState("0.49");
+  // Filters are picked on the pricing page; editing here keeps them
+  const [filters, setFilters] = useState<ProductFilters>(EMPTY_PRODUCT_FILTERS);
+
+  const startNewPreset = () => {
+    setEditingId(null);
+    setName("");
+    setAdjustmentType("percentage");
+    setAdjustmentValue("10");
+    setRoundingStrategy("none");
+    setRoundingDirection("nearest");
+    setRoundingEnding("0.49");
+    setFilters(EMPTY_PRODUCT_FILTERS);
+  };
+
+  const editPreset = (preset: AdjustmentPreset) => {
+    const rounding = deserializeRoundingRule(preset.roundingRule);
+    setEditingId(preset.id);
+    setName(preset.name);
+    setAdjustmentType(preset.adjustmentType);
+    setAdjustmentValue(String(preset.adjustmentValue));
+    setRoundingStrategy(rounding.strategy);
+    setRoundingDirection(rounding.direction);
+    setRoundingEnding(rounding.customEnding !== undefined ? rounding.customEnding.toFixed(2) : "0.49");
+    setFilters(preset.filters);
+  };
+
+  // Keep editing a preset after it's first saved, so a second save updates it
+  useEffect(() => {
+    if (actionData?.savedPresetId) {
+      setEditingId(actionData.savedPresetId);
+    }
+  }, [actionData]);
+
+  const presetRows = presets.map((preset) => [
+    <Text key={`name-${preset.id}`} as="span" fontWeight="semibold">{preset.name}</Text>,
+    describeAdjustment(preset.adjustmentType, preset.adjustmentValue),
+    describeRoundingRule(deserializeRoundingRule(preset.roundingRule)),
+    describeProductFilters(preset.filters),
+    <ButtonGroup key={`actions-${preset.id}`}>
+      <Link to={buildPresetUrl(preset)}>
+        <Button size="slim" variant="primary">Use</Button>
+      </Link>
+      <Button size="slim" onClick={() => editPreset(preset)}>Edit</Button>
+      <Form method="post">
+        <input type="hidden" name="intent" value="delete" />
+        <input type="hidden" name="presetId" value={preset.id} />
+        <Button size="slim" tone="critical" submit loading={isSubmitting && navigation.formData?.get("presetId") === preset.id}>
+          Delete
+        </Button>
+      </Form>
+    </ButtonGroup>,
+  ]);
+
+  return (
+    <Page
+      title="Presets"
+      subtitle="Adjustments you run again and again, with the products they apply to"
+      backAction={{ content: "← Pricing", url: "/app/pricing" }}
+    >
+      <Layout>
+        {actionData?.errors && actionData.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="The preset couldn't be saved">
+              {actionData.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success} />
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Saved Presets</Text>
+                {presets.length === 0 ? (
+                  <EmptyState
+                    heading="No presets yet"
+                    image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  >
+                    <p>Set up filters and an adjustment on the bulk pricing page, then choose "Save as preset".</p>
+                  </EmptyState>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                    headings={['Name', 'Adjustment', 'Rounding', 'Products', 'Actions']}
+                    rows={presetRows}
+                  />
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <Form method="post">
+                <BlockStack gap="400">
+                  <InlineStack align="space-between">
+                    <Text as="h2" variant="headingMd">{editingId ? "Edit Preset" : "New Preset"}</Text>
+                    {editingId && (
+                      <Button size="micro" onClick={startNewPreset}>Start a new preset</Button>
+                    )}
+                  </InlineStack>
+
+                  <TextField
+                    label="Name"
+                    name="name"
+                    value={name}
+                    onChange={setName}
+                    autoComplete="off"
+                    placeholder="e.g., Weekend −15%"
+                  />
+
+                  <InlineStack gap="200" blockAlign="end">
+                    <Select
+                      label="Adjustment Type"
+                      name="adjustmentType"
+                      value={adjustmentType}
+                      onChange={setAdjustmentType}
+                      options={ADJUSTMENT_TYPES.map((type) => ({
+                        label: ADJUSTMENT_TYPE_LABELS[type],
+                        value: type,
+                      }))}
+                    />
+                    <TextField
+                      label="Value"
+                      name="adjustmentValue"
+                      type="number"
+                      value={adjustmentType === "clear_compare_at" ? "0" : adjustmentValue}
+                      onChange={setAdjustmentValue}
+                      disabled={adjustmentType === "clear_compare_at"}
+                      autoComplete="off"
+                    />
+                  </InlineStack>
+
+                  <InlineStack gap="200" blockAlign="end">
+                    <Select
+                      label="Rounding"
+                      name="roundingStrategy"
+                      value={roundingStrategy}
+                      onChange={setRoundingStrategy}
+                      options={ROUNDING_STRATEGIES.map((strategy) => ({
+                        label: ROUNDING_STRATEGY_LABELS[strategy],
+                        value: strategy,
+                      }))}
+                    />
+                    {roundingStrategy !== "none" && (
+                      <Select
+                        label="Round"
+                        name="roundingDirection"
+                        value={roundingDirection}
+                        onChange={setRoundingDirection}
+                        options={[
+                          { label: "To nearest", value: "nearest" },
+                          { label: "Up", value: "up" },
+                          { label: "Down", value: "down" },
+                        ]}
+                      />
+                    )}
+                    {roundingStrategy === "custom_ending" && (
+                      <TextField
+                        label="Price ending"
+                        name="roundingEnding"
+                        value={roundingEnding}
+                        onChange={setRoundingEnding}
+                        type="number"
+                        step={0.01}
+                        autoComplete="off"
+                      />
+                    )}
+                  </InlineStack>
+
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Products: {describeProductFilters(filters)}. To change them, apply the preset, adjust the
+                    filters on the pricing page and save it again under the same name.
+                  </Text>
+
+                  <input type="hidden" name="intent" value="save" />
+                  <input type="hidden" name="presetId" value={editingId || ""} />
+                  <input type="hidden" name="filters" value={appendProductFilters(new URLSearchParams(), filters).toString()} />
+
+                  <div>
+                    <Button
+                      submit
+                      variant="primary"
+                      loading={isSubmitting && navigation.formData?.get("intent") === "save"}
+                    >
+                      {editingId ? "Save Changes" : "Create Preset"}
+                    </Button>
+                  </div>
+                </BlockStack>
+              </Form>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
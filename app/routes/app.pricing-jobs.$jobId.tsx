@@ -0,0 +1,43 @@
+// app/routes/app.pricing-jobs.$jobId.tsx - Progress of a queued bulk price update, polled by the pricing page
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getPricingJob, type PricingJobFailure } from "../models/pricing-job.server";
+
+export interface PricingJobProgress {
+  id: string;
+  status: string;
+  batchId: string;
+  totalProducts: number;
+  processedProducts: number;
+  totalVariants: number;
+  processedVariants: number;
+  succeededVariants: number;
+  failedVariants: number;
+  failures: PricingJobFailure[];
+  lastError: string | null;
+  finished: boolean;
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const job = await getPricingJob(session.shop, params.jobId || "");
+  if (!job) {
+    throw new Response("Job not found", { status: 404 });
+  }
+
+  return json<PricingJobProgress>({
+    id: job.id,
+    status: job.status,
+    batchId: job.batchId,
+    totalProducts: job.totalProducts,
+    processedProducts: job.cursor,
+    totalVariants: job.totalVariants,
+    processedVariants: job.processedVariants,
+    succeededVariants: job.succeededVariants,
+    failedVariants: job.failedVariants,
+    failures: (job.failures as unknown as PricingJobFailure[] | null) || [],
+    lastError: job.lastError,
+    finished: ["succeeded", "partial", "failed"].includes(job.status),
+  });
+};
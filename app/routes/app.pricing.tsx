@@ -1,9 +1,13 @@
 import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
-import { useLoaderData, useActionData, Form, useNavigation, Link } from "@remix-run/react";
+import { useLoaderData, useActionData, useFetcher, useRevalidator, Form, useNavigation, useNavigate, Link } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import { useState, useEffect } from "react";
-import { validatePricingData, validateProductData } from "../lib/validators";
-import { logError, handleGraphQLErrors, createUserFriendlyError } from "../lib/error-handler";
+import {
+  validatePriceRuleSteps,
+  validatePricingData,
+  validateProductData,
+} from "../lib/validators";
+import { logError, handleGraphQLErrors } from "../lib/error-handler";
 import {
   Card,
   Layout,
@@ -29,14 +33,62 @@ import {
   BlockStack,
   InlineStack,
 } from "@shopify/polaris";
-import { GET_PRODUCTS } from "../graphql/queries/products";
-import { UPDATE_PRODUCT_VARIANTS_BULK } from "../graphql/mutations/products";
-import { db } from "../db.server";
+import { GET_PRODUCTS, GET_PRODUCTS_COUNT, GET_PRODUCT_FILTER_OPTIONS } from "../graphql/queries/products";
+import {
+  applyVariantFilter,
+  fetchMatchingProductIds,
+  fetchPricingProducts,
+  previewPriceAdjustment,
+  skipVariantsWithoutCost,
+  type PricePreview,
+} from "../lib/pricing.server";
+import {
+  DEFAULT_GUARDRAILS,
+  GUARDRAIL_ERROR_FIELD,
+  describeGuardrails,
+  guardrailsForPriceList,
+  hasGuardrails,
+  type PriceGuardrails,
+} from "../lib/guardrails";
+import { getPriceGuardrails } from "../models/shop-settings.server";
+import { getPriceListTarget, listPriceLists, withPriceListPrices } from "../lib/price-lists.server";
+import { describePriceListTarget, type PriceListTarget } from "../lib/price-lists";
+import { MAX_JOB_PRODUCTS } from "../lib/pricing-jobs.server";
+import { NO_UNIT_COST_ERROR, submitPriceChange } from "../lib/price-changes.server";
+import { getPriceRule, listPriceRules } from "../models/price-rule.server";
+import { previewPriceRule } from "../lib/price-rules.server";
+import { describeRuleStep, type PriceRule } from "../lib/price-rules";
+import { listAdjustmentPresets } from "../models/adjustment-preset.server";
+import { buildPresetUrl, type AdjustmentPreset } from "../lib/presets";
+import type { PricingJobProgress } from "./app.pricing-jobs.$jobId";
+import {
+  ADJUSTMENT_TYPES,
+  ADJUSTMENT_TYPE_LABELS,
+  ROUNDING_STRATEGIES,
+  ROUNDING_STRATEGY_LABELS,
+  calculateAdjustedPrices,
+  changesCompareAtPrice,
+  describeMarginChange,
+  describeRoundingRule,
+  deserializeRoundingRule,
+  formatMoney,
+  isCostBasedAdjustment,
+  parseRoundingRule,
+} from "../lib/pricing";
+import {
+  EMPTY_PRODUCT_FILTERS,
+  appendProductFilters,
+  buildProductSearchQuery,
+  describeVariantFilter,
+  hasProductFilters,
+  matchesVariantFilter,
+  parseProductFilters,
+  parseVariantFilter,
+  type ProductFilters,
+  type VariantFilter,
+} from "../lib/product-search";
 import { 
   getOrCreateSubscription, 
-  trackAllProductModifications,
-  trackUniqueProducts,
-  wouldExceedProductLimit,
   getModifiedProductsThisPeriod
 } from "../models/subscription.server";
 import { canUseFeature, hasUnlimitedProducts } from "../lib/plans";
@@ -55,6 +107,8 @@ interface ActionResult {
   totalAttempted: number;
   modificationsUsed?: number;
   message?: string;
+  batchId?: string;
+  jobId?: string;
   globalError?: string;
   redirectToUpgrade?: boolean;
   quotaInfo?: {
@@ -65,6 +119,24 @@ interface ActionResult {
   };
 }
 
+interface PreviewResult {
+  errors: string[];
+  preview?: PricePreview;
+  // Set for saved rules: variants no step matched, and matches per step
+  unmatchedVariants?: number;
+  stepCounts?: number[];
+  // Only the first PREVIEW_PRODUCT_LIMIT matching products were previewed
+  sampled?: boolean;
+  // Cost-based adjustments: variants left out for having no unit cost
+  skippedWithoutCost?: number;
+  // Set when previewing a market price list: its currency, and variants it has no price for
+  currency?: string;
+  skippedWithoutListPrice?: number;
+}
+
+// Previews of "all matching products" look at this many products
+const PREVIEW_PRODUCT_LIMIT = 250;
+
 interface LoaderData {
   products: { edges: any[]; };
   subscription: {
@@ -73,7 +145,6 @@ interface LoaderData {
     planName: string;
     usageCount: number;
     usageLimit: number;
-    uniqueProductsModified?: string[];
     totalPriceChanges?: number;
   };
   pagination: {
@@ -87,18 +158,46 @@ interface LoaderData {
     before: string | null;
     first: number;
   };
+  filters: ProductFilters;
+  filterOptions: FilterOptions;
+  totalCount: number | null;
+  priceRules: PriceRule[];
+  guardrails: PriceGuardrails;
+  priceLists: PriceListTarget[];
+  presets: AdjustmentPreset[];
+  // The preset picked from the presets page or the selector, if any
+  activePresetId: string | null;
 }
 
-interface GraphQLError {
-  message: string;
-  locations?: Array<{ line: number; column: number }>;
-  path?: Array<string | number>;
-  extensions?: Record<string, any>;
+interface FilterOptions {
+  vendors: string[];
+  productTypes: string[];
+  tags: string[];
+  collections: Array<{ id: string; title: string }>;
 }
 
-interface GraphQLResponse {
-  data?: any;
-  errors?: GraphQLError[];
+const EMPTY_FILTER_OPTIONS: FilterOptions = { vendors: [], productTypes: [], tags: [], collections: [] };
+
+async function fetchFilterOptions(admin: any): Promise<FilterOptions> {
+  const response = await admin.graphql(GET_PRODUCT_FILTER_OPTIONS);
+  const data = await response.json();
+  if (!data.data) return EMPTY_FILTER_OPTIONS;
+
+  const names = (connection: any): string[] =>
+    (connection?.edges || []).map((edge: any) => edge.node).filter((name: string) => name);
+
+  return {
+    vendors: names(data.data.productVendors),
+    productTypes: names(data.data.productTypes),
+    tags: names(data.data.productTags),
+    collections: (data.data.collections?.edges || []).map((edge: any) => edge.node),
+  };
+}
+
+async function fetchProductsCount(admin: any, query: string): Promise<number | null> {
+  const response = await admin.graphql(GET_PRODUCTS_COUNT, { variables: { query: query || null } });
+  const data = await response.json();
+  return data.data?.productsCount?.count ?? null;
 }
 
 export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response> => {
@@ -108,11 +207,17 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
   const after = url.searchParams.get("after");
   const before = url.searchParams.get("before");
   const first = parseInt(url.searchParams.get("first") || "25");
+  const filters = parseProductFilters(url.searchParams);
+  const activePresetId = url.searchParams.get("preset");
   
   try {
     const subscription = await getOrCreateSubscription(session.shop);
     
     const variables: any = {};
+    const query = buildProductSearchQuery(filters);
+    if (query) {
+      variables.query = query;
+    }
     if (after) {
       variables.first = first;
       variables.after = after;
@@ -123,7 +228,21 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
       variables.first = first;
     }
     
-    const response = await admin.graphql(GET_PRODUCTS, { variables });
+    const [response, filterOptions, totalCount, priceRules, guardrails, priceLists, presets] = await Promise.all([
+      admin.graphql(GET_PRODUCTS, { variables }),
+      fetchFilterOptions(admin).catch((error) => {
+        console.error("Failed to load filter options:", error);
+        return EMPTY_FILTER_OPTIONS;
+      }),
+      fetchProductsCount(admin, query).catch((error) => {
+        console.error("Failed to count products:", error);
+        return null;
+      }),
+      listPriceRules(session.shop),
+      getPriceGuardrails(session.shop),
+      listPriceLists(admin),
+      listAdjustmentPresets(session.shop),
+    ]);
     const data = await response.json();
     
     return json({
@@ -135,7 +254,15 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
         startCursor: data.data.products.pageInfo.startCursor,
         endCursor: data.data.products.pageInfo.endCursor,
       },
-      currentPage: { after, before, first }
+      currentPage: { after, before, first },
+      filters,
+      filterOptions,
+      totalCount,
+      priceRules,
+      guardrails,
+      priceLists,
+      presets,
+      activePresetId,
     });
   } catch (error) {
     console.error("Pricing loader error:", error);
@@ -147,7 +274,6 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
         usageLimit: 20,
         planName: 'free',
         shop: session.shop,
-        uniqueProductsModified: [],
         totalPriceChanges: 0,
       },
       pagination: {
@@ -156,7 +282,15 @@ export const loader = async ({ request }: LoaderFunctionArgs): Promise<Response>
         startCursor: "",
         endCursor: "",
       },
-      currentPage: { after, before, first }
+      currentPage: { after, before, first },
+      filters,
+      filterOptions: EMPTY_FILTER_OPTIONS,
+      totalCount: null,
+      priceRules: [],
+      guardrails: DEFAULT_GUARDRAILS,
+      priceLists: [],
+      presets: [],
+      activePresetId: null,
     });
   }
 };
@@ -168,344 +302,189 @@ export const action = async ({ request }: ActionFunctionArgs): Promise<Response>
     console.log(`🔄 Processing pricing action for ${session.shop}`);
     
     const formData = await request.formData();
+    const selectionMode = formData.get("selectionMode");
     const selectedProductsStr = formData.get("selectedProducts") as string;
     const adjustmentType = formData.get("adjustmentType") as string;
     const adjustmentValue = parseFloat(formData.get("adjustmentValue") as string);
+    const rounding = parseRoundingRule(
+      formData.get("roundingStrategy") as string | null,
+      formData.get("roundingDirection") as string | null,
+      formData.get("roundingEnding") as string | null
+    );
+    const filters = parseProductFilters(new URLSearchParams((formData.get("filters") as string) || ""));
+    const variantFilter = parseVariantFilter(formData.get("variantFilter") as string | null);
 
-    // ✅ Better error handling for form data
-    if (!selectedProductsStr) {
-      console.error("❌ No selectedProducts in form data");
-      return json({
-        globalError: "No products selected for modification",
-      });
+    // A saved rule replaces the flat adjustment and brings its own rounding
+    const priceRuleId = formData.get("priceRuleId") as string | null;
+    const priceRule = priceRuleId ? await getPriceRule(session.shop, priceRuleId) : null;
+    if (priceRuleId && !priceRule) {
+      const message = "The selected price rule no longer exists";
+      return json(formData.get("intent") === "preview" ? { errors: [message] } : { globalError: message });
     }
 
-    let selectedProducts;
-    try {
-      selectedProducts = JSON.parse(selectedProductsStr);
-    } catch (parseError) {
-      console.error("❌ Failed to parse selectedProducts:", parseError);
-      return json({
-        globalError: "Invalid product data format",
-      });
+    // Write to a market's price list instead of the base prices
+    const priceListId = formData.get("priceListId") as string | null;
+    const priceList = priceListId ? await getPriceListTarget(admin, priceListId) : null;
+    const targetError = priceListId && !priceList
+      ? "The selected price list no longer exists"
+      : priceList && !priceRule && isCostBasedAdjustment(adjustmentType)
+        ? "Cost-based pricing only works on base prices, as unit costs are in your store's currency"
+        : null;
+    if (targetError) {
+      return json(formData.get("intent") === "preview" ? { errors: [targetError] } : { globalError: targetError });
     }
 
-    if (!Array.isArray(selectedProducts) || selectedProducts.length === 0) {
-      console.error("❌ selectedProducts is not a valid array");
-      return json({
-        globalError: "Please select at least one product to modify",
-      });
-    }
+    const validateChange = (products: any[], maxProducts?: number) => priceRule
+      ? validatePriceRuleSteps(priceRule.steps)
+      : validatePricingData(products, adjustmentType, adjustmentValue, { maxProducts, rounding });
 
-    console.log(`📋 Processing ${selectedProducts.length} products`);
-    console.log(`🔧 Adjustment: ${adjustmentType} ${adjustmentValue}`);
+    // Dry run: work out every new price without writing anything or using quota
+    if (formData.get("intent") === "preview") {
+      let productIds: string[];
+      try {
+        productIds = JSON.parse(selectedProductsStr || "[]").map((p: any) => p.id);
+      } catch (parseError) {
+        return json<PreviewResult>({ errors: ["Invalid product data format"] });
+      }
 
-    // Validate adjustment value
-    if (isNaN(adjustmentValue)) {
-      return json({
-        globalError: "Please enter a valid number for the adjustment value",
-      });
-    }
+      // One ID past the limit tells whether there are more than we preview
+      const previewIds = selectionMode === "all_matching"
+        ? await fetchMatchingProductIds(admin, buildProductSearchQuery(filters), PREVIEW_PRODUCT_LIMIT + 1)
+        : productIds;
 
-    // Validate adjustment type
-    if (!["percentage", "fixed", "add", "subtract"].includes(adjustmentType)) {
-      return json({
-        globalError: "Invalid adjustment type selected",
-      });
-    }
+      // Load every variant from Shopify; the page only lists the first few
+      const loaded = await fetchPricingProducts(admin, previewIds.slice(0, PREVIEW_PRODUCT_LIMIT));
+      let products = applyVariantFilter(loaded, variantFilter);
+      if (products.length === 0 && variantFilter) {
+        return json<PreviewResult>({ errors: [`No variants match ${describeVariantFilter(variantFilter)}`] });
+      }
 
-    // Extract product IDs from selection
-    const productIds = selectedProducts.map((p: any) => p.id);
-    
-    // ✅ NEW: Check if this would exceed the MODIFICATION limit
-    const wouldExceed = await wouldExceedProductLimit(session.shop, productIds);
-    if (wouldExceed) {
-      const subscription = await getOrCreateSubscription(session.shop);
-      const modificationsToAdd = productIds.length;
-      
-      return json({
-        globalError: `This would add ${modificationsToAdd} modification(s), exceeding your monthly limit of ${subscription.usageLimit} total modifications. Current usage: ${subscription.usageCount}. Please upgrade your plan or select fewer products.`,
-        redirectToUpgrade: true,
-        quotaInfo: {
-          currentModifications: subscription.usageCount,
-          limit: subscription.usageLimit,
-          wouldAdd: modificationsToAdd,
-          wouldTotal: subscription.usageCount + modificationsToAdd
+      let skippedWithoutCost = 0;
+      if (!priceRule && isCostBasedAdjustment(adjustmentType)) {
+        ({ products, skipped: skippedWithoutCost } = skipVariantsWithoutCost(products));
+        if (products.length === 0) {
+          return json<PreviewResult>({ errors: [NO_UNIT_COST_ERROR] });
         }
-      });
-    }
+      }
 
-    // Validate pricing data
-    const validation = validatePricingData(selectedProducts, adjustmentType, adjustmentValue);
-    if (!validation.isValid) {
-      console.error("❌ Validation failed:", validation.errors);
-      return json({
-        globalError: validation.errors.join(", "),
-        validationErrors: validation.errors,
-      });
-    }
+      let skippedWithoutListPrice = 0;
+      if (priceList) {
+        ({ products, skipped: skippedWithoutListPrice } = await withPriceListPrices(admin, priceList, products));
+        if (products.length === 0) {
+          return json<PreviewResult>({ errors: [`None of the selected variants have a price in ${priceList.name}`] });
+        }
+      }
 
-    // Validate product data
-    const invalidProducts = selectedProducts.filter((p: any) => !validateProductData(p));
-    if (invalidProducts.length > 0) {
-      console.error(`❌ ${invalidProducts.length} products have invalid data`);
-      return json({
-        globalError: `${invalidProducts.length} product(s) have invalid data or missing variants`,
+      const validation = validateChange(products, MAX_JOB_PRODUCTS);
+      if (!validation.isValid) {
+        return json<PreviewResult>({ errors: validation.errors });
+      }
+
+      const sampled = previewIds.length > PREVIEW_PRODUCT_LIMIT;
+
+      const shopGuardrails = await getPriceGuardrails(session.shop);
+      const guardrails = priceList ? guardrailsForPriceList(shopGuardrails) : shopGuardrails;
+      const target = { currency: priceList?.currency, skippedWithoutListPrice };
+
+      if (priceRule) {
+        return json<PreviewResult>({ errors: [], ...previewPriceRule(products, priceRule, guardrails), sampled, ...target });
+      }
+
+      return json<PreviewResult>({
+        errors: [],
+        preview: previewPriceAdjustment(products, { adjustmentType, adjustmentValue, rounding }, guardrails),
+        sampled,
+        skippedWithoutCost,
+        ...target,
       });
     }
-    
-    const results: ActionResult['results'] = [];
-    let processedProducts = 0;
-    
-    // ✅ Better error handling in product processing loop
-    for (const productData of selectedProducts) {
-      try {
-        console.log(`🔄 Processing product: ${productData.title}`);
-        
-        if (!productData.variants || !Array.isArray(productData.variants) || productData.variants.length === 0) {
-          console.error(`❌ Product ${productData.title} has no valid variants`);
-          results.push({
-            variantId: 'unknown',
-            variantTitle: 'No variants',
-            productTitle: productData.title,
-            oldPrice: 0,
-            newPrice: 0,
-            success: false,
-            errors: [{ message: "Product has no valid variants" }],
-          });
-          continue;
-        }
 
-        const variantsToUpdate: any[] = [];
-        
-        for (const variant of productData.variants) {
-          if (!variant.id || typeof variant.currentPrice !== 'number') {
-            console.error(`❌ Invalid variant data:`, variant);
-            continue;
-          }
-
-          let newPrice: number;
-          
-          // ✅ Better price calculation with error handling
-          switch (adjustmentType) {
-            case "percentage":
-              newPrice = variant.currentPrice * (1 + adjustmentValue / 100);
-              break;
-            case "fixed":
-              newPrice = adjustmentValue;
-              break;
-            case "add":
-              newPrice = variant.currentPrice + adjustmentValue;
-              break;
-            case "subtract":
-              newPrice = variant.currentPrice - adjustmentValue;
-              if (newPrice < 0.01) {
-                console.warn(`⚠️ Subtraction would result in negative price for variant ${variant.id}`);
-                newPrice = 0.01; // Minimum price
-              }
-              break;
-            default:
-              newPrice = variant.currentPrice;
-          }
-          
-          // Ensure valid price range
-          newPrice = Math.max(0.01, Math.min(99999, Math.round(newPrice * 100) / 100));
-          
-          variantsToUpdate.push({
-            id: variant.id,
-            price: newPrice.toFixed(2),
-          });
-        }
+    let productIds: string[] | null = null;
+    let variantCount: number | undefined;
+    if (selectionMode !== "all_matching") {
+      // ✅ Better error handling for form data
+      if (!selectedProductsStr) {
+        console.error("❌ No selectedProducts in form data");
+        return json({
+          globalError: "No products selected for modification",
+        });
+      }
 
-        if (variantsToUpdate.length === 0) {
-          console.error(`❌ No valid variants to update for product ${productData.title}`);
-          results.push({
-            variantId: 'unknown',
-            variantTitle: 'No valid variants',
-            productTitle: productData.title,
-            oldPrice: 0,
-            newPrice: 0,
-            success: false,
-            errors: [{ message: "No valid variants found to update" }],
-          });
-          continue;
-        }
+      let selectedProducts;
+      try {
+        selectedProducts = JSON.parse(selectedProductsStr);
+      } catch (parseError) {
+        console.error("❌ Failed to parse selectedProducts:", parseError);
+        return json({
+          globalError: "Invalid product data format",
+        });
+      }
 
-        // ✅ FIX: Proper GraphQL response handling with TypeScript
-        console.log(`🚀 Updating ${variantsToUpdate.length} variants for ${productData.title}`);
-        
-        const response = await admin.graphql(UPDATE_PRODUCT_VARIANTS_BULK, {
-          variables: {
-            productId: productData.id,
-            variants: variantsToUpdate,
-          },
+      if (!Array.isArray(selectedProducts) || selectedProducts.length === 0) {
+        console.error("❌ selectedProducts is not a valid array");
+        return json({
+          globalError: "Please select at least one product to modify",
         });
-        
-        // ✅ Type cast the response to our GraphQL interface
-        const result = await response.json() as GraphQLResponse;
-        
-        // ✅ Now TypeScript knows about the errors property
-        if (result.errors && result.errors.length > 0) {
-          console.error(`❌ GraphQL errors for product ${productData.title}:`, result.errors);
-          const errorMessages = result.errors.map(error => error.message);
-          
-          productData.variants.forEach((variant: any, index: number) => {
-            results.push({
-              variantId: variant.id,
-              variantTitle: variant.title,
-              productTitle: productData.title,
-              oldPrice: variant.currentPrice,
-              newPrice: parseFloat(variantsToUpdate[index]?.price || "0"),
-              success: false,
-              errors: [{ message: errorMessages.join(", ") }],
-            });
-          });
-          continue;
-        }
-        
-        // ✅ Check for successful response with data
-        if (result.data?.productVariantsBulkUpdate) {
-          const bulkResult = result.data.productVariantsBulkUpdate;
-          
-          // Process each variant result
-          productData.variants.forEach((variant: any, index: number) => {
-            // ✅ Safe check for userErrors
-            const userErrors = bulkResult.userErrors || [];
-            const hasErrors = Array.isArray(userErrors) && 
-              userErrors.some((error: any) => 
-                error.field && error.field.includes(`variants[${index}]`)
-              );
-            
-            const variantErrors = hasErrors 
-              ? userErrors.filter((error: any) => 
-                  error.field && error.field.includes(`variants[${index}]`)
-                )
-              : [];
-            
-            results.push({
-              variantId: variant.id,
-              variantTitle: variant.title,
-              productTitle: productData.title,
-              oldPrice: variant.currentPrice,
-              newPrice: parseFloat(variantsToUpdate[index]?.price || "0"),
-              success: !hasErrors,
-              errors: variantErrors,
-            });
-          });
-          
-          // ✅ Safe check for success
-          const userErrors = bulkResult.userErrors || [];
-          if (userErrors.length === 0) {
-            processedProducts++;
-            console.log(`✅ Successfully updated product: ${productData.title}`);
-          } else {
-            console.warn(`⚠️ Partial success for product ${productData.title}:`, userErrors);
-          }
-        } else {
-          // ✅ Handle case where response structure is unexpected
-          console.error(`❌ Unexpected response structure for product ${productData.title}`, result);
-          productData.variants.forEach((variant: any, index: number) => {
-            results.push({
-              variantId: variant.id,
-              variantTitle: variant.title,
-              productTitle: productData.title,
-              oldPrice: variant.currentPrice,
-              newPrice: parseFloat(variantsToUpdate[index]?.price || "0"),
-              success: false,
-              errors: [{ message: "Unexpected response from Shopify API" }],
-            });
-          });
-        }
-        
-      } catch (productError: any) {
-        console.error(`❌ Error processing product ${productData.title}:`, productError);
-        
-        // Add error result for this product
-        results.push({
-          variantId: 'unknown',
-          variantTitle: 'Error',
-          productTitle: productData.title,
-          oldPrice: 0,
-          newPrice: 0,
-          success: false,
-          errors: [{ message: createUserFriendlyError(productError, `updating ${productData.title}`) }],
+      }
+
+      // Validate product data
+      const invalidProducts = selectedProducts.filter((p: any) => !validateProductData(p));
+      if (invalidProducts.length > 0) {
+        console.error(`❌ ${invalidProducts.length} products have invalid data`);
+        return json({
+          globalError: `${invalidProducts.length} product(s) have invalid data or missing variants`,
         });
       }
+
+      console.log(`📋 Processing ${selectedProducts.length} products`);
+      productIds = selectedProducts.map((p: any) => p.id);
+      // The page only lists a product's first variants but knows how many there are
+      variantCount = selectedProducts.reduce(
+        (sum: number, p: any) => sum + (p.variantsCount ?? p.variants?.length ?? 0),
+        0
+      );
     }
-    
-    const successfulUpdates = results.filter((r: any) => r.success);
-    console.log(`📊 Results: ${successfulUpdates.length} successful, ${results.length - successfulUpdates.length} failed`);
-
-    // ✅ NEW: Track ALL product modifications (each product = one modification)
-    if (successfulUpdates.length > 0) {
-      const successfulProductIds = Array.from(new Set(
-        successfulUpdates.map((result: any) => 
-          selectedProducts.find((p: any) => 
-            p.variants.some((v: any) => v.id === result.variantId)
-          )?.id
-        ).filter(Boolean)
-      ));
-      
-      console.log(`📋 Tracking ${successfulProductIds.length} product modifications`);
-      
-      // Track ALL modifications - each product counts as one modification
-      const trackingSuccess = await trackAllProductModifications(session.shop, successfulProductIds);
-      if (!trackingSuccess) {
-        console.warn("⚠️ Product tracking failed - limit may have been reached during processing");
-      }
-      
-      // Also track unique products for analytics
-      await trackUniqueProducts(session.shop, successfulProductIds);
+
+    console.log(priceRule ? `📐 Rule: ${priceRule.name}` : `🔧 Adjustment: ${adjustmentType} ${adjustmentValue}`);
+
+    const submission = await submitPriceChange(admin, session.shop, {
+      productIds,
+      filters,
+      adjustmentType,
+      adjustmentValue,
+      rounding,
+      variantFilter,
+      priceRule,
+      priceList,
+      variantCount,
+      userEmail: session.shop,
+    });
+
+    if (submission.status === "rejected") {
+      console.error("❌ Price change rejected:", submission.error);
+      return json({
+        globalError: submission.error,
+        validationErrors: submission.validationErrors,
+        ...(submission.quota && { redirectToUpgrade: true, quotaInfo: submission.quota }),
+      });
     }
 
-    // Save to history (with better error handling)
-    if (successfulUpdates.length > 0) {
-      try {
-        console.log(`💾 Saving ${successfulUpdates.length} records to history`);
-        
-        for (const result of successfulUpdates) {
-          const productData = selectedProducts.find((p: any) => 
-            p.variants.some((v: any) => v.id === result.variantId)
-          );
-          
-          if (productData) {
-            await db.pricingHistory.create({
-              data: {
-                shop: session.shop,
-                productId: productData.id,
-                variantId: result.variantId,
-                productTitle: result.productTitle,
-                variantTitle: result.variantTitle,
-                actionType: adjustmentType,
-                adjustmentValue: adjustmentValue,
-                oldPrice: result.oldPrice,
-                newPrice: result.newPrice,
-                userEmail: session.shop,
-              },
-            });
-          }
-        }
-        
-        console.log(`✅ History saved successfully`);
-      } catch (historyError) {
-        console.error("❌ History save error (non-critical):", historyError);
-        // Don't fail the whole operation for history save errors
-      }
+    if (submission.status === "queued") {
+      return json({ jobId: submission.jobId });
     }
 
-    // Calculate unique products modified in this batch
-    const uniqueProductsInBatch = Array.from(new Set(
-      successfulUpdates.map((result: any) => 
-        selectedProducts.find((p: any) => 
-          p.variants.some((v: any) => v.id === result.variantId)
-        )?.id
-      ).filter(Boolean)
-    )).length;
+    const { results, batchId, successfulProductIds } = submission.outcome;
+    const successfulUpdates = results.filter((r) => r.success);
+    const uniqueProductsInBatch = successfulProductIds.length;
 
     // ✅ Better success/error reporting
     if (successfulUpdates.length === 0) {
+      const allBlocked = results.length > 0 &&
+        results.every((r) => r.errors.some((e) => e.field === GUARDRAIL_ERROR_FIELD));
       return json({ 
-        globalError: "No prices were updated successfully. Please check your product data and try again.",
+        globalError: allBlocked
+          ? "Every price change was blocked by your price guardrails. Adjust the change or your settings and try again."
+          : "No prices were updated successfully. Please check your product data and try again.",
         results,
         totalUpdated: 0,
         totalAttempted: results.length,
@@ -521,6 +500,7 @@ export const action = async ({ request }: ActionFunctionArgs): Promise<Response>
       totalAttempted: results.length,
       modificationsUsed: uniqueProductsInBatch,
       message: successMessage,
+      batchId,
     });
     
   } catch (error: any) {
@@ -557,10 +537,32 @@ export const action = async ({ request }: ActionFunctionArgs): Promise<Response>
   }
 };
 
+// Rejections past this many are summarised as a count
+const MAX_LISTED_REJECTIONS = 10;
+
+function GuardrailRejectionList({ rejections }: { rejections: ActionResult["results"] }) {
+  return (
+    <div style={{ marginTop: "0.5rem" }}>
+      <Text as="p" fontWeight="semibold">🛡️ {rejections.length} variant(s) skipped by your price guardrails:</Text>
+      {rejections.slice(0, MAX_LISTED_REJECTIONS).map((result) => (
+        <Text key={result.variantId} as="p" variant="bodySm">
+          {result.productTitle} — {result.variantTitle}: {result.errors[0]?.message}
+        </Text>
+      ))}
+      {rejections.length > MAX_LISTED_REJECTIONS && (
+        <Text as="p" variant="bodySm" tone="subdued">
+          …and {rejections.length - MAX_LISTED_REJECTIONS} more
+        </Text>
+      )}
+    </div>
+  );
+}
+
 export default function Pricing() {
   const data = useLoaderData<LoaderData>();
   const actionData = useActionData<ActionResult>();
   const navigation = useNavigation();
+  const navigate = useNavigate();
   
   const products = data.products.edges;
   const subscription = data.subscription || { 
@@ -569,11 +571,12 @@ export default function Pricing() {
     usageLimit: 20, 
     planName: 'free', 
     shop: "",
-    uniqueProductsModified: [],
     totalPriceChanges: 0,
   };
   const pagination = data.pagination;
   const currentPage = data.currentPage;
+  const filterOptions = data.filterOptions || EMPTY_FILTER_OPTIONS;
+  const appliedFilters = data.filters || EMPTY_PRODUCT_FILTERS;
 
   const isUnlimited = hasUnlimitedProducts(subscription.planName);
   const usagePercentage = subscription.usageLimit > 0 && !isUnlimited
@@ -581,23 +584,58 @@ export default function Pricing() {
     : 0;
   
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
-  const [adjustmentType, setAdjustmentType] = useState("percentage");
-  const [adjustmentValue, setAdjustmentValue] = useState("10");
+  // Every product matching the applied filters, across all pages
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  // Arriving from a preset's "Use" link starts from its adjustment
+  const presets = data.presets || [];
+  const activePreset = presets.find((preset) => preset.id === data.activePresetId) || null;
+  const activeRounding = deserializeRoundingRule(activePreset?.roundingRule);
+  const [adjustmentType, setAdjustmentType] = useState(activePreset?.adjustmentType ?? "percentage");
+  const [adjustmentValue, setAdjustmentValue] = useState(activePreset ? String(activePreset.adjustmentValue) : "10");
+  const [roundingStrategy, setRoundingStrategy] = useState<string>(activeRounding.strategy);
+  const [roundingDirection, setRoundingDirection] = useState<string>(activeRounding.direction);
+  const [roundingEnding, setRoundingEnding] = useState(activeRounding.customEnding?.toFixed(2) ?? "0.49");
+  // A saved rule replaces the adjustment, value and rounding below
+  const [priceRuleId, setPriceRuleId] = useState("");
+  const priceRules = data.priceRules || [];
+  const selectedRule = priceRules.find((rule) => rule.id === priceRuleId) || null;
+  // Empty means the variants' base prices
+  const [priceListId, setPriceListId] = useState("");
+  const priceLists = data.priceLists || [];
+  const selectedPriceList = priceLists.find((priceList) => priceList.id === priceListId) || null;
+  const [presetName, setPresetName] = useState(activePreset?.name ?? "");
+  const presetFetcher = useFetcher<{ success?: string; errors?: string[]; savedPresetId?: string }>();
+  // Empty option name means every variant of the selected products
+  const [variantOptionName, setVariantOptionName] = useState("");
+  const [variantOptionValues, setVariantOptionValues] = useState<string[]>([]);
   
-  // Enhanced filter states
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string[]>([]);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000]);
-  const [vendorFilter, setVendorFilter] = useState<string[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState(products);
+  // Filter states - applied server-side through the products search query
+  const [searchQuery, setSearchQuery] = useState(appliedFilters.search);
+  const [statusFilter, setStatusFilter] = useState<string[]>(appliedFilters.status);
+  const [priceRange, setPriceRange] = useState<[number, number]>([
+    appliedFilters.minPrice ?? 0,
+    appliedFilters.maxPrice ?? 1000,
+  ]);
+  const [vendorFilter, setVendorFilter] = useState<string[]>(appliedFilters.vendor);
+  const [productTypeFilter, setProductTypeFilter] = useState<string[]>(appliedFilters.productType);
+  const [tagFilter, setTagFilter] = useState<string[]>(appliedFilters.tag);
+  const [collectionFilter, setCollectionFilter] = useState(appliedFilters.collection);
   const [showToast, setShowToast] = useState(false);
   
+  // Scheduling (Pro)
+  const canSchedule = canUseFeature(subscription, 'scheduled_updates');
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduleStart, setScheduleStart] = useState("");
+  const [scheduleEnd, setScheduleEnd] = useState("");
+  
   const isLoading = navigation.state === "submitting";
 
   // ✅ NEW: Calculate modification impact (not unique products)
+  const totalCount = data.totalCount;
+  const selectedCount = selectAllMatching && totalCount !== null ? totalCount : selectedProducts.size;
+
   const getModificationImpact = () => {
-    const selectedArray = Array.from(selectedProducts);
-    const modificationsToAdd = selectedArray.length; // Each selected product = 1 modification
+    const modificationsToAdd = selectedCount; // Each selected product = 1 modification
     const totalAfter = subscription.usageCount + modificationsToAdd;
     const wouldExceed = !isUnlimited && totalAfter > subscription.usageLimit;
     
@@ -610,48 +648,26 @@ export default function Pricing() {
   };
 
   const modificationImpact = getModificationImpact();
+
+  // datetime-local values are in the merchant's browser timezone
+  const toIsoString = (localValue: string) => localValue ? new Date(localValue).toISOString() : "";
   const hasReachedLimit = !isUnlimited && usagePercentage >= 100;
 
-  // Advanced filtering logic
+  // Drop selections that are no longer on the page after filtering or paging
   useEffect(() => {
-    let filtered = products;
-    
-    if (searchQuery.trim()) {
-      filtered = filtered.filter((edge: any) =>
-        edge.node.title.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-    
-    if (statusFilter.length > 0) {
-      filtered = filtered.filter((edge: any) => 
-        statusFilter.includes(edge.node.status)
-      );
-    }
+    setSelectAllMatching(false);
+  }, [data.filters, data.pagination]);
 
-    if (vendorFilter.length > 0) {
-      filtered = filtered.filter((edge: any) => 
-        vendorFilter.includes(edge.node.vendor || "Unknown")
-      );
-    }
-    
-    // Price range filter
-    filtered = filtered.filter((edge: any) => {
-      const variants = edge.node.variants.edges;
-      if (variants.length === 0) return true;
-      const price = parseFloat(variants[0].node.price);
-      return price >= priceRange[0] && price <= priceRange[1];
-    });
-    
-    setFilteredProducts(filtered);
-    
-    const visibleProductIds = new Set(filtered.map((edge: any) => edge.node.id));
+  useEffect(() => {
+    const visibleProductIds = new Set(products.map((edge: any) => edge.node.id));
     const newSelected = new Set([...selectedProducts].filter(id => visibleProductIds.has(id)));
     if (newSelected.size !== selectedProducts.size) {
       setSelectedProducts(newSelected);
     }
-  }, [searchQuery, statusFilter, vendorFilter, priceRange, products, selectedProducts]);
+  }, [products, selectedProducts]);
 
   const handleSelectProduct = (productId: string, checked: boolean) => {
+    setSelectAllMatching(false);
     const newSelected = new Set(selectedProducts);
     if (checked) {
       newSelected.add(productId);
@@ -662,30 +678,72 @@ export default function Pricing() {
   };
 
   const handleSelectAll = () => {
-    if (selectedProducts.size === filteredProducts.length && filteredProducts.length > 0) {
+    if (selectedProducts.size === products.length && products.length > 0) {
+      setSelectAllMatching(false);
       setSelectedProducts(new Set());
     } else {
-      const allVisibleProductIds = filteredProducts.map((edge: any) => edge.node.id);
+      const allVisibleProductIds = products.map((edge: any) => edge.node.id);
       setSelectedProducts(new Set(allVisibleProductIds));
     }
   };
 
-  const calculateNewPrice = (currentPrice: number) => {
-    const value = parseFloat(adjustmentValue);
+  const calculateNewPrices = (variant: any) => {
+    return calculateAdjustedPrices(
+      {
+        price: parseFloat(variant.price),
+        compareAtPrice: variant.compareAtPrice ? parseFloat(variant.compareAtPrice) : null,
+      },
+      adjustmentType,
+      parseFloat(adjustmentValue),
+      parseRoundingRule(roundingStrategy, roundingDirection, roundingEnding)
+    );
+  };
+
+  const getValueHelpText = () => {
     switch (adjustmentType) {
       case "percentage":
-        return currentPrice * (1 + value / 100);
-      case "fixed":
-        return value;
-      case "add":
-        return currentPrice + value;
-      case "subtract":
-        return currentPrice - value;
+        return "e.g., 10 for +10%";
+      case "compare_at_discount":
+        return "Discount in %, e.g., 20 for 20% off. The old price becomes the compare-at price.";
+      case "compare_at_multiplier":
+        return "e.g., 1.5 sets compare-at to 1.5 × the current price";
+      case "clear_compare_at":
+        return "No value needed - the compare-at price is removed";
+      case "cost_markup":
+        return "e.g., 100 sets the price to 2 × the unit cost. Variants without a cost are skipped.";
+      case "target_margin":
+        return "e.g., 40 prices each variant for a 40% margin on its unit cost. Variants without a cost are skipped.";
       default:
-        return currentPrice;
+        return selectedPriceList ? `Amount in ${selectedPriceList.currency}` : "Amount in dollars";
     }
   };
 
+  const variantFilter: VariantFilter | null = variantOptionName && variantOptionValues.length > 0
+    ? { optionName: variantOptionName, optionValues: variantOptionValues }
+    : null;
+
+  // Option names and values offered by the selected products (or every listed
+  // product when all matching products are selected)
+  const variantOptions = new Map<string, Set<string>>();
+  products
+    .filter((edge: any) => selectAllMatching || selectedProducts.has(edge.node.id))
+    .forEach((edge: any) => {
+      (edge.node.options || []).forEach((option: any) => {
+        const values = variantOptions.get(option.name) || new Set<string>();
+        option.values.forEach((value: string) => values.add(value));
+        variantOptions.set(option.name, values);
+      });
+    });
+  // "Title" is the placeholder option of products without variants
+  variantOptions.delete("Title");
+
+  const variantFilterIncomplete = variantOptionName !== "" && variantOptionValues.length === 0;
+
+  const handleVariantOptionNameChange = (name: string) => {
+    setVariantOptionName(name);
+    setVariantOptionValues([]);
+  };
+
   const getSelectedProductsData = () => {
     return products
       .filter((edge: any) => selectedProducts.has(edge.node.id))
@@ -694,30 +752,100 @@ export default function Pricing() {
         return {
           id: product.id,
           title: product.title,
+          variantsCount: product.variantsCount?.count ?? product.variants.edges.length,
           variants: product.variants.edges.map((vEdge: any) => ({
             id: vEdge.node.id,
             title: vEdge.node.title,
             currentPrice: parseFloat(vEdge.node.price),
+            compareAtPrice: vEdge.node.compareAtPrice ? parseFloat(vEdge.node.compareAtPrice) : null,
           })),
         };
       });
   };
 
-  // Get unique vendors for filter
-  const uniqueVendors = Array.from(new Set(
-    products.map((edge: any) => edge.node.vendor || "Unknown")
-  )).sort();
+  const getFilterState = (): ProductFilters => ({
+    search: searchQuery.trim(),
+    status: statusFilter,
+    vendor: vendorFilter,
+    productType: productTypeFilter,
+    tag: tagFilter,
+    collection: collectionFilter,
+    minPrice: priceRange[0] > 0 ? priceRange[0] : null,
+    maxPrice: priceRange[1] < 1000 ? priceRange[1] : null,
+  });
+
+  // Filters always start again from the first page
+  const buildFilterUrl = (filters: ProductFilters, first: number = currentPage.first) => {
+    const params = new URLSearchParams();
+    params.set('first', first.toString());
+    appendProductFilters(params, filters);
+    return `/app/pricing?${params.toString()}`;
+  };
+
+  const applyFilters = () => {
+    navigate(buildFilterUrl(getFilterState()));
+  };
 
   const clearFilters = () => {
     setSearchQuery("");
     setStatusFilter([]);
     setVendorFilter([]);
+    setProductTypeFilter([]);
+    setTagFilter([]);
+    setCollectionFilter("");
     setPriceRange([0, 1000]);
+    navigate(buildFilterUrl(EMPTY_PRODUCT_FILTERS));
+  };
+
+  const filtersApplied = hasProductFilters(appliedFilters);
+
+  // Fill in the preset's adjustment and filters, then load its products
+  const selectPreset = (preset: AdjustmentPreset | undefined) => {
+    if (!preset) {
+      navigate(buildFilterUrl(appliedFilters));
+      return;
+    }
+    const rounding = deserializeRoundingRule(preset.roundingRule);
+    setPriceRuleId("");
+    setAdjustmentType(preset.adjustmentType);
+    setAdjustmentValue(String(preset.adjustmentValue));
+    setRoundingStrategy(rounding.strategy);
+    setRoundingDirection(rounding.direction);
+    setRoundingEnding(rounding.customEnding?.toFixed(2) ?? "0.49");
+    setPresetName(preset.name);
+    setSearchQuery(preset.filters.search);
+    setStatusFilter(preset.filters.status);
+    setVendorFilter(preset.filters.vendor);
+    setProductTypeFilter(preset.filters.productType);
+    setTagFilter(preset.filters.tag);
+    setCollectionFilter(preset.filters.collection);
+    setPriceRange([preset.filters.minPrice ?? 0, preset.filters.maxPrice ?? 1000]);
+    navigate(buildPresetUrl(preset, currentPage.first));
+  };
+
+  // Saving under the active preset's name updates it rather than adding another
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    presetFetcher.submit(
+      {
+        intent: "save",
+        presetId: activePreset && activePreset.name === name ? activePreset.id : "",
+        name,
+        adjustmentType,
+        adjustmentValue: adjustmentType === "clear_compare_at" ? "0" : adjustmentValue,
+        roundingStrategy,
+        roundingDirection,
+        roundingEnding,
+        filters: appendProductFilters(new URLSearchParams(), appliedFilters).toString(),
+      },
+      { method: "post", action: "/app/presets" }
+    );
   };
 
   const buildPaginationUrl = (direction: 'next' | 'prev' | 'first') => {
     const params = new URLSearchParams();
     params.set('first', currentPage.first.toString());
+    appendProductFilters(params, appliedFilters);
     
     switch (direction) {
       case 'next':
@@ -735,11 +863,47 @@ export default function Pricing() {
     return `/app/pricing?${params.toString()}`;
   };
 
-  const rows = filteredProducts.map((edge: any) => {
+  const canSelectAllMatching = totalCount !== null &&
+    totalCount > products.length &&
+    products.length > 0 &&
+    selectedProducts.size === products.length;
+
+  const rows = products.map((edge: any) => {
     const product = edge.node;
-    const variants = product.variants.edges;
+    const variants = product.variants.edges
+      .filter((vEdge: any) => matchesVariantFilter(vEdge.node.selectedOptions, variantFilter));
+    const variantsCount = product.variantsCount?.count ?? product.variants.edges.length;
     const isSelected = selectedProducts.has(product.id);
     
+    let newPriceCell: JSX.Element;
+    if (!isSelected || variants.length === 0) {
+      newPriceCell = <Text key={`no-price-${product.id}`} as="span" tone="subdued">-</Text>;
+    } else if (selectedRule) {
+      newPriceCell = <Text key={`rule-price-${product.id}`} as="span" tone="subdued">Set by rule</Text>;
+    } else if (selectedPriceList) {
+      // The page lists base prices; market prices are only loaded for the preview
+      newPriceCell = <Text key={`list-price-${product.id}`} as="span" tone="subdued">{selectedPriceList.currency} price list</Text>;
+    } else if (isCostBasedAdjustment(adjustmentType)) {
+      // Unit costs are only loaded for the preview
+      newPriceCell = <Text key={`cost-price-${product.id}`} as="span" tone="subdued">Set from cost</Text>;
+    } else {
+      newPriceCell = (
+        <div key={`new-price-${product.id}`}>
+          <Text as="span" fontWeight="semibold" tone="success">
+            ${calculateNewPrices(variants[0].node).price.toFixed(2)}
+          </Text>
+          {changesCompareAtPrice(adjustmentType) && (
+            <>
+              <br />
+              <Text as="span" variant="bodySm" tone="subdued">
+                Compare-at: {calculateNewPrices(variants[0].node).compareAtPrice?.toFixed(2) ?? "none"}
+              </Text>
+            </>
+          )}
+        </div>
+      );
+    }
+
     return [
       <Checkbox
         key={`checkbox-${product.id}`}
@@ -755,13 +919,9 @@ export default function Pricing() {
       <Badge key={`status-${product.id}`} tone={product.status === "ACTIVE" ? "success" : "info"}>
         {product.status}
       </Badge>,
-      `${variants.length} variant${variants.length !== 1 ? 's' : ''}`,
+      `${variantsCount} variant${variantsCount !== 1 ? 's' : ''}`,
       variants.length > 0 ? `${variants[0].node.price}` : "N/A",
-      isSelected && variants.length > 0
-        ? <Text key={`new-price-${product.id}`} as="span" fontWeight="semibold" tone="success">
-            ${calculateNewPrice(parseFloat(variants[0].node.price)).toFixed(2)}
-          </Text>
-        : <Text key={`no-price-${product.id}`} as="span" tone="subdued">-</Text>,
+      newPriceCell,
     ];
   });
 
@@ -769,6 +929,75 @@ export default function Pricing() {
     <Toast content="Prices updated successfully!" onDismiss={() => setShowToast(false)} />
   ) : null;
 
+  // Preview must be run for the current inputs before an immediate update
+  const previewFetcher = useFetcher<PreviewResult>();
+  const [previewedInputs, setPreviewedInputs] = useState<string | null>(null);
+  const previewInputs = JSON.stringify({
+    selection: selectAllMatching ? "all_matching" : Array.from(selectedProducts).sort(),
+    adjustmentType,
+    adjustmentValue,
+    roundingStrategy,
+    roundingDirection,
+    roundingEnding,
+    variantFilter,
+    priceRuleId,
+    priceListId,
+  });
+  const previewData = previewedInputs === previewInputs ? previewFetcher.data : undefined;
+  const isPreviewing = previewFetcher.state !== "idle";
+  const previewIsCurrent = !isPreviewing && !!previewData?.preview;
+
+  const handlePreview = () => {
+    setPreviewedInputs(previewInputs);
+    previewFetcher.submit(
+      {
+        intent: "preview",
+        selectedProducts: selectAllMatching ? "[]" : JSON.stringify(getSelectedProductsData()),
+        selectionMode: selectAllMatching ? "all_matching" : "",
+        filters: appendProductFilters(new URLSearchParams(), appliedFilters).toString(),
+        adjustmentType,
+        adjustmentValue: adjustmentType === "clear_compare_at" ? "0" : adjustmentValue,
+        roundingStrategy,
+        roundingDirection,
+        roundingEnding,
+        variantFilter: variantFilter ? JSON.stringify(variantFilter) : "",
+        priceRuleId,
+        priceListId,
+      },
+      { method: "post" }
+    );
+  };
+
+  const formatPreviewPrice = (price: number | null) => price === null ? "—" : formatMoney(price, previewData?.currency);
+
+  // Poll a queued job until the worker finishes it
+  const jobId = actionData?.jobId;
+  const guardrailRejections = (actionData?.results || [])
+    .filter((result) => result.errors.some((error) => error.field === GUARDRAIL_ERROR_FIELD));
+  const { load: loadJobProgress, data: jobProgress } = useFetcher<PricingJobProgress>();
+  const { revalidate } = useRevalidator();
+  const jobFinished = jobProgress?.id === jobId && jobProgress?.finished === true;
+
+  useEffect(() => {
+    if (!jobId || jobFinished) return;
+
+    loadJobProgress(`/app/pricing-jobs/${jobId}`);
+    const interval = setInterval(() => loadJobProgress(`/app/pricing-jobs/${jobId}`), 2000);
+    return () => clearInterval(interval);
+  }, [jobId, jobFinished, loadJobProgress]);
+
+  // Refresh usage numbers once the job is done
+  useEffect(() => {
+    if (jobFinished) {
+      revalidate();
+    }
+  }, [jobFinished, revalidate]);
+
+  // Variants are counted as the job loads them, so progress goes by product
+  const jobPercentage = jobProgress && jobProgress.totalProducts > 0
+    ? (jobProgress.processedProducts / jobProgress.totalProducts) * 100
+    : 0;
+
   // Show success toast
   useEffect(() => {
     if (actionData?.totalUpdated && actionData.totalUpdated > 0) {
@@ -860,12 +1089,65 @@ export default function Pricing() {
             </Layout.Section>
           )}
 
+          {/* Background job progress */}
+          {jobId && (
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <InlineStack align="space-between">
+                      <Text as="h2" variant="headingMd">
+                        {!jobProgress || jobProgress.status === "queued" ? "⏳ Update queued" :
+                         jobProgress.status === "running" ? "🔄 Updating prices..." :
+                         jobProgress.status === "succeeded" ? "✅ Prices updated" :
+                         jobProgress.status === "partial" ? "⚠️ Prices partially updated" :
+                         "❌ Update failed"}
+                      </Text>
+                      {jobProgress && (
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          {jobProgress.processedProducts} / {jobProgress.totalProducts || "?"} products, {jobProgress.processedVariants} variants
+                        </Text>
+                      )}
+                    </InlineStack>
+                    <ProgressBar
+                      progress={jobFinished ? 100 : jobPercentage}
+                      tone={jobProgress?.status === "failed" ? "critical" : "primary"}
+                    />
+                    {jobProgress?.lastError && (
+                      <Text as="p" tone="critical">{jobProgress.lastError}</Text>
+                    )}
+                    {jobFinished && jobProgress && (
+                      <Text as="p">
+                        {jobProgress.succeededVariants} price(s) updated, {jobProgress.failedVariants} failed.
+                        {jobProgress.succeededVariants > 0 && (
+                          <> <Link to="/app/history">You can undo this batch from the history page.</Link></>
+                        )}
+                      </Text>
+                    )}
+                    {jobProgress && jobProgress.failures.length > 0 && (
+                      <BlockStack gap="100">
+                        {jobProgress.failures.slice(0, 10).map((failure, index) => (
+                          <Text key={index} as="p" variant="bodySm" tone="subdued">
+                            {failure.productTitle} ({failure.variantTitle}): {failure.message}
+                          </Text>
+                        ))}
+                      </BlockStack>
+                    )}
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+          )}
+
           {/* Action Results */}
-          {actionData && (
+          {actionData && !jobId && (
             <Layout.Section>
               {actionData.globalError ? (
                 <Banner tone="critical" title="Update Failed">
                   <Text as="p">{actionData.globalError}</Text>
+                  {guardrailRejections.length > 0 && (
+                    <GuardrailRejectionList rejections={guardrailRejections} />
+                  )}
                   {actionData.quotaInfo && (
                     <div style={{ marginTop: "0.5rem" }}>
                       <Text as="p" variant="bodySm">
@@ -888,6 +1170,14 @@ export default function Pricing() {
                   <Text as="p">
                     {actionData.message || `✅ ${actionData.totalUpdated} price(s) updated successfully`}
                   </Text>
+                  {actionData.batchId && (
+                    <div style={{ marginTop: "0.5rem" }}>
+                      <Link to="/app/history">Changed your mind? You can undo this batch from the history page.</Link>
+                    </div>
+                  )}
+                  {guardrailRejections.length > 0 && (
+                    <GuardrailRejectionList rejections={guardrailRejections} />
+                  )}
                 </Banner>
               )}
             </Layout.Section>
@@ -908,15 +1198,18 @@ export default function Pricing() {
                   </InlineStack>
                   
                   <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(250px, 1fr))", gap: "1rem" }}>
-                    <TextField
-                      label="Search Products"
-                      value={searchQuery}
-                      onChange={setSearchQuery}
-                      placeholder="🔍 Product name..."
-                      clearButton
-                      onClearButtonClick={() => setSearchQuery("")}
-                      autoComplete="off"
-                    />
+                    <div onKeyDown={(event) => event.key === "Enter" && applyFilters()}>
+                      <TextField
+                        label="Search Products"
+                        value={searchQuery}
+                        onChange={setSearchQuery}
+                        placeholder="🔍 Product name..."
+                        helpText="Searches your whole catalog"
+                        clearButton
+                        onClearButtonClick={() => setSearchQuery("")}
+                        autoComplete="off"
+                      />
+                    </div>
                     
                     <div>
                       <Text as="p" variant="bodyMd">Product Status</Text>
@@ -940,7 +1233,7 @@ export default function Pricing() {
                         title="Vendor" 
                         titleHidden
                         allowMultiple
-                        choices={uniqueVendors.map(vendor => ({
+                        choices={filterOptions.vendors.map(vendor => ({
                           label: vendor,
                           value: vendor
                         }))}
@@ -949,6 +1242,55 @@ export default function Pricing() {
                       />
                     </div>
 
+                    {filterOptions.productTypes.length > 0 && (
+                      <div>
+                        <Text as="p" variant="bodyMd">Product Type</Text>
+                        <ChoiceList
+                          title="Product Type"
+                          titleHidden
+                          allowMultiple
+                          choices={filterOptions.productTypes.map(type => ({
+                            label: type,
+                            value: type
+                          }))}
+                          selected={productTypeFilter}
+                          onChange={setProductTypeFilter}
+                        />
+                      </div>
+                    )}
+
+                    {filterOptions.tags.length > 0 && (
+                      <div>
+                        <Text as="p" variant="bodyMd">Tags</Text>
+                        <ChoiceList
+                          title="Tags"
+                          titleHidden
+                          allowMultiple
+                          choices={filterOptions.tags.map(tag => ({
+                            label: tag,
+                            value: tag
+                          }))}
+                          selected={tagFilter}
+                          onChange={setTagFilter}
+                        />
+                      </div>
+                    )}
+
+                    {filterOptions.collections.length > 0 && (
+                      <Select
+                        label="Collection"
+                        value={collectionFilter}
+                        onChange={setCollectionFilter}
+                        options={[
+                          { label: "All collections", value: "" },
+                          ...filterOptions.collections.map(collection => ({
+                            label: collection.title,
+                            value: collection.id
+                          })),
+                        ]}
+                      />
+                    )}
+
                     <div>
                       <Text as="p" variant="bodyMd">
                         Price Range: ${priceRange[0]} - ${priceRange[1]}
@@ -965,11 +1307,14 @@ export default function Pricing() {
                     </div>
                   </div>
                   
-                  <InlineStack gap="200">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Button variant="primary" onClick={applyFilters}>
+                      Apply Filters
+                    </Button>
                     <Text as="p" variant="bodySm" tone="subdued">
-                      Showing {filteredProducts.length} of {products.length} products
+                      Showing {products.length} matching products on this page
                     </Text>
-                    {(searchQuery || statusFilter.length > 0 || vendorFilter.length > 0) && (
+                    {filtersApplied && (
                       <Badge tone="info">Filters Applied</Badge>
                     )}
                   </InlineStack>
@@ -986,58 +1331,307 @@ export default function Pricing() {
                   <Text as="h2" variant="headingMd">
                     Pricing Configuration
                   </Text>
+                  {hasGuardrails(data.guardrails) && (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      🛡️ Guardrails: {describeGuardrails(data.guardrails)}. <Link to="/app/settings">Change</Link>
+                    </Text>
+                  )}
                   
-                  <Form method="post">
+                  <Form method="post" action={scheduleEnabled ? "/app/schedules" : undefined}>
                     <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: "1rem" }}>
+                      {presets.length > 0 && (
+                        <Select
+                          label="Preset"
+                          value={activePreset?.id || ""}
+                          onChange={(value) => selectPreset(presets.find((preset) => preset.id === value))}
+                          options={[
+                            { label: "None", value: "" },
+                            ...presets.map((preset) => ({ label: preset.name, value: preset.id })),
+                          ]}
+                          helpText={<Link to="/app/presets">Manage presets</Link>}
+                        />
+                      )}
+
                       <Select
-                        label="Adjustment Type"
-                        value={adjustmentType}
-                        onChange={setAdjustmentType}
+                        label="Pricing"
+                        value={priceRuleId}
+                        onChange={(value) => {
+                          setPriceRuleId(value);
+                          if (value) setScheduleEnabled(false);
+                        }}
                         options={[
-                          { label: "Percentage (%)", value: "percentage" },
-                          { label: "Fixed Price ($)", value: "fixed" },
-                          { label: "Add Amount (+$)", value: "add" },
-                          { label: "Subtract Amount (-$)", value: "subtract" },
+                          { label: "One adjustment for everything", value: "" },
+                          ...priceRules.map((rule) => ({ label: `Rule: ${rule.name}`, value: rule.id })),
                         ]}
+                        helpText={<Link to="/app/rules">Manage price rules</Link>}
                       />
+
+                      {priceLists.length > 0 && (
+                        <Select
+                          label="Prices to change"
+                          value={priceListId}
+                          onChange={(value) => {
+                            setPriceListId(value);
+                            if (value) setScheduleEnabled(false);
+                          }}
+                          options={[
+                            { label: "Base prices (store currency)", value: "" },
+                            ...priceLists.map((priceList) => ({
+                              label: `Market: ${describePriceListTarget(priceList)}`,
+                              value: priceList.id,
+                            })),
+                          ]}
+                          helpText={selectedPriceList
+                            ? `Writes fixed ${selectedPriceList.currency} prices to this price list`
+                            : undefined}
+                        />
+                      )}
+
+                      {!selectedRule && (
+                        <>
+                          <Select
+                            label="Adjustment Type"
+                            value={adjustmentType}
+                            onChange={setAdjustmentType}
+                            options={ADJUSTMENT_TYPES.map((type) => ({
+                              label: ADJUSTMENT_TYPE_LABELS[type],
+                              value: type,
+                            }))}
+                          />
                       
-                      <TextField
-                        label="Value"
-                        value={adjustmentValue}
-                        onChange={setAdjustmentValue}
-                        type="number"
-                        autoComplete="off"
-                        helpText={
-                          adjustmentType === "percentage" 
-                            ? "e.g., 10 for +10%" 
-                            : "Amount in dollars"
-                        }
+                          <TextField
+                            label="Value"
+                            value={adjustmentValue}
+                            onChange={setAdjustmentValue}
+                            type="number"
+                            autoComplete="off"
+                            disabled={adjustmentType === "clear_compare_at"}
+                            helpText={getValueHelpText()}
+                          />
+
+                          <Select
+                            label="Rounding"
+                            value={roundingStrategy}
+                            onChange={setRoundingStrategy}
+                            disabled={adjustmentType === "clear_compare_at"}
+                            options={ROUNDING_STRATEGIES.map((strategy) => ({
+                              label: ROUNDING_STRATEGY_LABELS[strategy],
+                              value: strategy,
+                            }))}
+                            helpText="Applied to the new price after the adjustment"
+                          />
+
+                          {roundingStrategy !== "none" && (
+                            <Select
+                              label="Round"
+                              value={roundingDirection}
+                              onChange={setRoundingDirection}
+                              options={[
+                                { label: "To nearest", value: "nearest" },
+                                { label: "Up", value: "up" },
+                                { label: "Down", value: "down" },
+                              ]}
+                            />
+                          )}
+
+                          {roundingStrategy === "custom_ending" && (
+                            <TextField
+                              label="Price ending"
+                              value={roundingEnding}
+                              onChange={setRoundingEnding}
+                              type="number"
+                              step={0.01}
+                              min={0}
+                              max={0.99}
+                              autoComplete="off"
+                              helpText="e.g., 0.49 makes prices end in .49"
+                            />
+                          )}
+
+                          <TextField
+                            label="Save as preset"
+                            value={presetName}
+                            onChange={setPresetName}
+                            autoComplete="off"
+                            placeholder="Preset name"
+                            helpText={presetFetcher.data?.errors?.join(" ")
+                              || presetFetcher.data?.success
+                              || "Keeps this adjustment and the applied filters"}
+                            connectedRight={
+                              <Button
+                                onClick={handleSavePreset}
+                                loading={presetFetcher.state !== "idle"}
+                                disabled={!presetName.trim()}
+                              >
+                                Save
+                              </Button>
+                            }
+                          />
+                        </>
+                      )}
+
+                      <Select
+                        label="Variants"
+                        value={variantOptionName}
+                        onChange={handleVariantOptionNameChange}
+                        disabled={variantOptions.size === 0}
+                        options={[
+                          { label: "All variants", value: "" },
+                          ...Array.from(variantOptions.keys()).map((name) => ({
+                            label: `Only some ${name} values`,
+                            value: name,
+                          })),
+                        ]}
+                        helpText={variantOptionName
+                          ? "Only variants with the chosen values are updated"
+                          : "Every variant is updated, including ones not listed below"}
                       />
+
+                      {variantOptionName && (
+                        <ChoiceList
+                          title={variantOptionName}
+                          allowMultiple
+                          choices={Array.from(variantOptions.get(variantOptionName) || []).map((value) => ({
+                            label: value,
+                            value,
+                          }))}
+                          selected={variantOptionValues}
+                          onChange={setVariantOptionValues}
+                        />
+                      )}
                     </div>
+
+                    {selectedRule && (
+                      <div style={{ marginTop: "1rem" }}>
+                        <BlockStack gap="100">
+                          {selectedRule.steps.map((step, index) => (
+                            <Text key={index} as="p" variant="bodySm">
+                              {index + 1}. {describeRuleStep(step, index)}
+                            </Text>
+                          ))}
+                          {selectedRule.roundingRule && (
+                            <Text as="p" variant="bodySm" tone="subdued">
+                              {describeRoundingRule(deserializeRoundingRule(selectedRule.roundingRule))}
+                            </Text>
+                          )}
+                          <Text as="p" variant="bodySm" tone="subdued">
+                            Steps are checked in order for each variant; the first match decides the new price.
+                            Variants no step matches keep their price.
+                          </Text>
+                        </BlockStack>
+                      </div>
+                    )}
                     
                     <input 
                       type="hidden" 
                       name="selectedProducts" 
                       value={JSON.stringify(getSelectedProductsData())} 
                     />
+                    {selectAllMatching && (
+                      <>
+                        <input type="hidden" name="selectionMode" value="all_matching" />
+                        <input 
+                          type="hidden" 
+                          name="filters" 
+                          value={appendProductFilters(new URLSearchParams(), appliedFilters).toString()} 
+                        />
+                      </>
+                    )}
                     <input type="hidden" name="adjustmentType" value={adjustmentType} />
-                    <input type="hidden" name="adjustmentValue" value={adjustmentValue} />
+                    <input type="hidden" name="roundingStrategy" value={roundingStrategy} />
+                    <input type="hidden" name="roundingDirection" value={roundingDirection} />
+                    <input type="hidden" name="roundingEnding" value={roundingEnding} />
+                    <input type="hidden" name="variantFilter" value={variantFilter ? JSON.stringify(variantFilter) : ""} />
+                    {selectedRule && <input type="hidden" name="priceRuleId" value={selectedRule.id} />}
+                    {selectedPriceList && <input type="hidden" name="priceListId" value={selectedPriceList.id} />}
+                    <input 
+                      type="hidden" 
+                      name="adjustmentValue" 
+                      value={adjustmentType === "clear_compare_at" ? "0" : adjustmentValue} 
+                    />
+                    
+                    {canSchedule && (
+                      <div style={{ marginTop: "1rem" }}>
+                        <Checkbox
+                          label="Schedule for later"
+                          helpText={selectedRule
+                            ? "Price rules are applied straight away and can't be scheduled"
+                            : selectedPriceList
+                              ? "Market price list changes are applied straight away and can't be scheduled"
+                              : "Apply this change at a future time, and optionally revert it automatically"}
+                          checked={scheduleEnabled}
+                          onChange={setScheduleEnabled}
+                          disabled={!!selectedRule || !!selectedPriceList}
+                        />
+                        {scheduleEnabled && (
+                          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: "1rem", marginTop: "0.5rem" }}>
+                            <TextField
+                              label="Start"
+                              type="datetime-local"
+                              value={scheduleStart}
+                              onChange={setScheduleStart}
+                              autoComplete="off"
+                            />
+                            <TextField
+                              label="End (optional)"
+                              type="datetime-local"
+                              value={scheduleEnd}
+                              onChange={setScheduleEnd}
+                              autoComplete="off"
+                              helpText="Prices revert to their previous values at this time"
+                            />
+                          </div>
+                        )}
+                        <input type="hidden" name="intent" value="create" />
+                        <input type="hidden" name="startAt" value={toIsoString(scheduleStart)} />
+                        <input type="hidden" name="endAt" value={toIsoString(scheduleEnd)} />
+                      </div>
+                    )}
                     
                     <div style={{ marginTop: "1rem" }}>
-                      <Button
-                        submit
-                        variant="primary"
-                        loading={isLoading}
-                        disabled={selectedProducts.size === 0 || modificationImpact.wouldExceed}
-                        size="large"
-                      >
-                        {isLoading ? "Processing..." : 
-                         modificationImpact.wouldExceed ? "Would Exceed Modification Limit" :
-                         `Update ${selectedProducts.size} Product(s) (${modificationImpact.modificationsToAdd} modifications)`
-                        }
-                      </Button>
+                      <ButtonGroup>
+                        {!scheduleEnabled && (
+                          <Button
+                            size="large"
+                            onClick={handlePreview}
+                            loading={isPreviewing}
+                            disabled={selectedCount === 0 || variantFilterIncomplete}
+                          >
+                            👀 Preview Changes
+                          </Button>
+                        )}
+                        <Button
+                          submit
+                          variant="primary"
+                          loading={isLoading}
+                          disabled={
+                            selectedCount === 0 || 
+                            variantFilterIncomplete ||
+                            modificationImpact.wouldExceed ||
+                            (!scheduleEnabled && !previewIsCurrent) ||
+                            (scheduleEnabled && selectAllMatching) ||
+                            (scheduleEnabled && !scheduleStart)
+                          }
+                          size="large"
+                        >
+                          {isLoading ? "Processing..." : 
+                           modificationImpact.wouldExceed ? "Would Exceed Modification Limit" :
+                           scheduleEnabled && selectAllMatching ? "Select Products on This Page to Schedule" :
+                           scheduleEnabled ? `Schedule Change for ${selectedCount} Product(s)` :
+                           `Confirm: Update ${selectedCount} Product(s) (${modificationImpact.modificationsToAdd} modifications)`
+                          }
+                        </Button>
+                      </ButtonGroup>
+                      
+                      {!scheduleEnabled && selectedCount > 0 && !previewIsCurrent && (
+                        <div style={{ marginTop: "0.5rem" }}>
+                          <Text as="p" variant="bodySm" tone="subdued">
+                            Preview the new prices first - previews don't use any of your quota
+                          </Text>
+                        </div>
+                      )}
                       
-                      {selectedProducts.size > 0 && (
+                      {selectedCount > 0 && (
                         <div style={{ marginTop: "0.5rem" }}>
                           <Text as="p" variant="bodySm" tone="subdued">
                             This will use {modificationImpact.modificationsToAdd} modification(s) from your monthly quota
@@ -1051,6 +1645,105 @@ export default function Pricing() {
             </Card>
           </Layout.Section>
 
+          {/* Dry-run preview */}
+          {previewData && !scheduleEnabled && (
+            <Layout.Section>
+              <Card>
+                <div style={{ padding: "1rem" }}>
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">👀 Preview</Text>
+                    {previewData.errors.length > 0 ? (
+                      <Banner tone="critical" title="This change can't be applied">
+                        {previewData.errors.map((error, index) => (
+                          <Text key={index} as="p">{error}</Text>
+                        ))}
+                      </Banner>
+                    ) : previewData.preview && (
+                      <>
+                        {previewData.sampled && (
+                          <Banner tone="info" title={`This preview is a sample of the first ${PREVIEW_PRODUCT_LIMIT} of ${selectedCount} products`}>
+                            <Text as="p">
+                              The counts, totals and warnings below only cover these products. The rest are checked when the update runs.
+                            </Text>
+                          </Banner>
+                        )}
+                        <InlineStack gap="400">
+                          <Text as="p">
+                            {previewData.sampled ? "Sample: " : ""}{previewData.preview.totals.products} product(s), {previewData.preview.totals.variants} variant(s)
+                          </Text>
+                          <Text as="p" tone="success">▲ {previewData.preview.totals.increased} increased</Text>
+                          <Text as="p" tone="critical">▼ {previewData.preview.totals.decreased} decreased</Text>
+                          <Text as="p" tone="subdued">{previewData.preview.totals.unchanged} unchanged</Text>
+                          <Text as="p">
+                            Total: {formatPreviewPrice(previewData.preview.totals.oldTotal)} → {formatPreviewPrice(previewData.preview.totals.newTotal)}
+                          </Text>
+                        </InlineStack>
+                        {previewData.preview.totals.blocked > 0 && (
+                          <Banner tone="critical" title={`${previewData.preview.totals.blocked} variant(s) are blocked by your price guardrails`}>
+                            <Text as="p">These variants will be skipped. The reason is shown in the warnings below.</Text>
+                          </Banner>
+                        )}
+                        {previewData.preview.totals.withWarnings > 0 && (
+                          <Banner tone="warning" title={`${previewData.preview.totals.withWarnings} variant(s) need a closer look`}>
+                            <Text as="p">Check the warnings below before confirming.</Text>
+                          </Banner>
+                        )}
+                        {previewData.stepCounts && selectedRule && (
+                          <BlockStack gap="100">
+                            {selectedRule.steps.map((step, index) => (
+                              <Text key={index} as="p" variant="bodySm">
+                                {describeRuleStep(step, index)}: {previewData.stepCounts?.[index] ?? 0} variant(s)
+                              </Text>
+                            ))}
+                            {!!previewData.unmatchedVariants && (
+                              <Text as="p" variant="bodySm" tone="subdued">
+                                {previewData.unmatchedVariants} variant(s) match no step and keep their price
+                              </Text>
+                            )}
+                          </BlockStack>
+                        )}
+                        {!!previewData.skippedWithoutListPrice && (
+                          <Text as="p" variant="bodySm" tone="subdued">
+                            {previewData.skippedWithoutListPrice} variant(s) have no price in this price list and are left alone
+                          </Text>
+                        )}
+                        {!!previewData.skippedWithoutCost && (
+                          <Text as="p" variant="bodySm" tone="subdued">
+                            {previewData.skippedWithoutCost} variant(s) have no unit cost in Shopify and keep their price
+                          </Text>
+                        )}
+                        <DataTable
+                          columnContentTypes={['text', 'text', 'numeric', 'numeric', 'text', 'text', 'text']}
+                          headings={['Product', 'Variant', 'Current', 'New', 'Compare-at', 'Margin', 'Warnings']}
+                          rows={previewData.preview.rows.map((row) => [
+                            row.productTitle,
+                            row.variantTitle,
+                            formatPreviewPrice(row.oldPrice),
+                            <Text key={`new-${row.variantId}`} as="span" fontWeight="semibold" tone={
+                              row.newPrice > row.oldPrice ? "success" : row.newPrice < row.oldPrice ? "critical" : undefined
+                            }>
+                              {formatPreviewPrice(row.newPrice)}
+                            </Text>,
+                            row.oldCompareAtPrice === row.newCompareAtPrice
+                              ? formatPreviewPrice(row.newCompareAtPrice)
+                              : `${formatPreviewPrice(row.oldCompareAtPrice)} → ${formatPreviewPrice(row.newCompareAtPrice)}`,
+                            describeMarginChange(row.oldPrice, row.newPrice, row.unitCost),
+                            row.warnings.length > 0 ? (
+                              <Text key={`warn-${row.variantId}`} as="span" tone="caution">⚠️ {row.warnings.join("; ")}</Text>
+                            ) : "",
+                          ])}
+                          footerContent={previewData.preview.truncated
+                            ? `Showing ${previewData.preview.rows.length} of ${previewData.preview.totals.variants} variants`
+                            : `${previewData.preview.totals.variants} variants`}
+                        />
+                      </>
+                    )}
+                  </BlockStack>
+                </div>
+              </Card>
+            </Layout.Section>
+          )}
+
           {/* Products Table */}
           <Layout.Section>
             <Card>
@@ -1058,14 +1751,14 @@ export default function Pricing() {
                 <BlockStack gap="300">
                   <InlineStack align="space-between">
                     <Text as="h2" variant="headingMd">
-                      Products ({selectedProducts.size} selected)
+                      Products ({selectedCount} selected)
                     </Text>
                     <ButtonGroup>
                       <Button 
                         onClick={handleSelectAll}
-                        disabled={filteredProducts.length === 0}
+                        disabled={products.length === 0}
                       >
-                        {selectedProducts.size === filteredProducts.length && filteredProducts.length > 0 
+                        {selectedProducts.size === products.length && products.length > 0 
                           ? "Deselect All" 
                           : "Select All Visible"
                         }
@@ -1075,9 +1768,7 @@ export default function Pricing() {
                         labelHidden
                         value={currentPage.first.toString()}
                         onChange={(value) => {
-                          const params = new URLSearchParams();
-                          params.set('first', value);
-                          window.location.href = `/app/pricing?${params.toString()}`;
+                          navigate(buildFilterUrl(appliedFilters, parseInt(value)));
                         }}
                         options={[
                           { label: "10 per page", value: "10" },
@@ -1089,7 +1780,27 @@ export default function Pricing() {
                     </ButtonGroup>
                   </InlineStack>
                   
-                  {filteredProducts.length === 0 ? (
+                  {canSelectAllMatching && (
+                    <Banner tone="info">
+                      {selectAllMatching ? (
+                        <InlineStack gap="200" blockAlign="center">
+                          <Text as="p">All {totalCount} matching products are selected.</Text>
+                          <Button variant="plain" onClick={() => setSelectAllMatching(false)}>
+                            Select only this page
+                          </Button>
+                        </InlineStack>
+                      ) : (
+                        <InlineStack gap="200" blockAlign="center">
+                          <Text as="p">All {products.length} products on this page are selected.</Text>
+                          <Button variant="plain" onClick={() => setSelectAllMatching(true)}>
+                            {`Select all ${totalCount} matching products`}
+                          </Button>
+                        </InlineStack>
+                      )}
+                    </Banner>
+                  )}
+
+                  {products.length === 0 ? (
                     <EmptyState
                       heading="No products found"
                       image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
@@ -1105,7 +1816,7 @@ export default function Pricing() {
                       columnContentTypes={['text', 'text', 'text', 'text', 'text', 'text']}
                       headings={['Select', 'Product', 'Status', 'Variants', 'Current Price', 'New Price']}
                       rows={rows}
-                      footerContent={`Showing ${filteredProducts.length} of ${products.length} products`}
+                      footerContent={`Showing ${products.length} products`}
                     />
                   )}
                 </BlockStack>
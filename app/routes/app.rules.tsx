@@ -0,0 +1,465 @@
+// app/routes/app.rules.tsx - Saved price rules with conditional adjustments
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Button,
+  ButtonGroup,
+  EmptyState,
+  Select,
+  TextField,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import { deletePriceRule, listPriceRules, savePriceRule } from "../models/price-rule.server";
+import {
+  describeRuleStep,
+  isBandCondition,
+  parsePriceRuleSteps,
+  RULE_ACTION_TYPES,
+  RULE_CONDITION_FIELDS,
+  RULE_CONDITION_FIELD_LABELS,
+  type PriceRule,
+  type RuleConditionField,
+} from "../lib/price-rules";
+import {
+  ADJUSTMENT_TYPE_LABELS,
+  ROUNDING_STRATEGIES,
+  ROUNDING_STRATEGY_LABELS,
+  describeRoundingRule,
+  deserializeRoundingRule,
+  parseRoundingRule,
+  serializeRoundingRule,
+} from "../lib/pricing";
+import { validatePriceRuleSteps, validateRoundingRule } from "../lib/validators";
+
+interface ActionResult {
+  success?: string;
+  errors?: string[];
+  savedRuleId?: string;
+}
+
+// Form state keeps numbers as the strings typed into the fields
+interface EditableCondition {
+  field: RuleConditionField;
+  min: string;
+  max: string;
+  value: string;
+}
+
+interface EditableStep {
+  conditions: EditableCondition[];
+  adjustmentType: string;
+  adjustmentValue: string;
+}
+
+const NEW_CONDITION: EditableCondition = { field: "price", min: "", max: "", value: "" };
+const NEW_STEP: EditableStep = { conditions: [], adjustmentType: "percentage", adjustmentValue: "10" };
+
+function toEditableSteps(rule: PriceRule): EditableStep[] {
+  return rule.steps.map((step) => ({
+    conditions: step.conditions.map((condition) => ({
+      field: condition.field,
+      min: condition.min === null || condition.min === undefined ? "" : String(condition.min),
+      max: condition.max === null || condition.max === undefined ? "" : String(condition.max),
+      value: condition.value || "",
+    })),
+    adjustmentType: step.adjustmentType,
+    adjustmentValue: String(step.adjustmentValue),
+  }));
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const rules = await listPriceRules(session.shop);
+
+  return json({ rules });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "delete") {
+    const deleted = await deletePriceRule(session.shop, (formData.get("ruleId") as string) || "");
+    return json<ActionResult>(deleted ? { success: "Rule deleted" } : { errors: ["Rule not found"] });
+  }
+
+  if (intent !== "save") {
+    return json<ActionResult>({ errors: ["Unknown action"] });
+  }
+
+  const name = ((formData.get("name") as string) || "").trim();
+  const steps = parsePriceRuleSteps(formData.get("steps") as string | null);
+  const rounding = parseRoundingRule(
+    formData.get("roundingStrategy") as string | null,
+    formData.get("roundingDirection") as string | null,
+    formData.get("roundingEnding") as string | null
+  );
+
+  const errors: string[] = [];
+  if (!name) {
+    errors.push("Give the rule a name");
+  }
+  if (!steps) {
+    errors.push("Invalid rule steps");
+  } else {
+    errors.push(...validatePriceRuleSteps(steps).errors);
+  }
+  errors.push(...validateRoundingRule(rounding).errors);
+
+  if (errors.length > 0 || !steps) {
+    return json<ActionResult>({ errors });
+  }
+
+  const rule = await savePriceRule(session.shop, {
+    id: (formData.get("ruleId") as string) || null,
+    name,
+    steps,
+    roundingRule: serializeRoundingRule(rounding),
+  });
+  if (!rule) {
+    return json<ActionResult>({ errors: ["Rule not found"] });
+  }
+
+  console.log(`📐 Saved price rule "${rule.name}" (${rule.steps.length} steps) for ${session.shop}`);
+
+  return json<ActionResult>({ success: `Rule "${rule.name}" saved`, savedRuleId: rule.id });
+};
+
+export default function Rules() {
+  const { rules } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [steps, setSteps] = useState<EditableStep[]>([NEW_STEP]);
+  const [roundingStrategy, setRoundingStrategy] = useState("none");
+  const [roundingDirection, setRoundingDirection] = useState("nearest");
+  const [roundingEnding, setRoundingEnding] = useState("0.49");
+
+  const startNewRule = () => {
+    setEditingId(null);
+    setName("");
+    setSteps([NEW_STEP]);
+    setRoundingStrategy("none");
+    setRoundingDirection("nearest");
+    setRoundingEnding("0.49");
+  };
+
+  const editRule = (rule: PriceRule) => {
+    const rounding = deserializeRoundingRule(rule.roundingRule);
+    setEditingId(rule.id);
+    setName(rule.name);
+    setSteps(toEditableSteps(rule));
+    setRoundingStrategy(rounding.strategy);
+    setRoundingDirection(rounding.direction);
+    setRoundingEnding(rounding.customEnding !== undefined ? rounding.customEnding.toFixed(2) : "0.49");
+  };
+
+  // Keep editing a rule after it's first saved, so a second save updates it
+  useEffect(() => {
+    if (actionData?.savedRuleId) {
+      setEditingId(actionData.savedRuleId);
+    }
+  }, [actionData]);
+
+  const updateStep = (index: number, changes: Partial<EditableStep>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const updateCondition = (stepIndex: number, conditionIndex: number, changes: Partial<EditableCondition>) => {
+    const step = steps[stepIndex];
+    updateStep(stepIndex, {
+      conditions: step.conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  // New steps go before a trailing catch-all step, which has to stay last
+  const addStep = () => {
+    const step = { ...NEW_STEP, conditions: [NEW_CONDITION] };
+    const last = steps[steps.length - 1];
+    setSteps(last && last.conditions.length === 0 ? [...steps.slice(0, -1), step, last] : [...steps, step]);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    setSteps(next);
+  };
+
+  const ruleRows = rules.map((rule) => [
+    <Text key={`name-${rule.id}`} as="span" fontWeight="semibold">{rule.name}</Text>,
+    <BlockStack key={`steps-${rule.id}`} gap="100">
+      {rule.steps.map((step, index) => (
+        <Text key={index} as="p" variant="bodySm">{describeRuleStep(step, index)}</Text>
+      ))}
+    </BlockStack>,
+    describeRoundingRule(deserializeRoundingRule(rule.roundingRule)),
+    new Date(rule.updatedAt).toLocaleDateString(),
+    <ButtonGroup key={`actions-${rule.id}`}>
+      <Button size="slim" onClick={() => editRule(rule)}>Edit</Button>
+      <Form method="post">
+        <input type="hidden" name="intent" value="delete" />
+        <input type="hidden" name="ruleId" value={rule.id} />
+        <Button size="slim" tone="critical" submit loading={isSubmitting && navigation.formData?.get("ruleId") === rule.id}>
+          Delete
+        </Button>
+      </Form>
+    </ButtonGroup>,
+  ]);
+
+  return (
+    <Page
+      title="Price Rules"
+      subtitle="Different adjustments for different prices, vendors, types, tags or stock levels"
+      backAction={{ content: "← Pricing", url: "/app/pricing" }}
+    >
+      <Layout>
+        {actionData?.errors && actionData.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="The rule couldn't be saved">
+              {actionData.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success} />
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Saved Rules</Text>
+                {rules.length === 0 ? (
+                  <EmptyState
+                    heading="No price rules yet"
+                    image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                  >
+                    <p>Create a rule below, then pick it under "Pricing" on the bulk pricing page.</p>
+                  </EmptyState>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text']}
+                    headings={['Name', 'Steps', 'Rounding', 'Updated', 'Actions']}
+                    rows={ruleRows}
+                  />
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <Form method="post">
+                <BlockStack gap="400">
+                  <InlineStack align="space-between">
+                    <Text as="h2" variant="headingMd">{editingId ? "Edit Rule" : "New Rule"}</Text>
+                    {editingId && (
+                      <Button size="micro" onClick={startNewRule}>Start a new rule</Button>
+                    )}
+                  </InlineStack>
+
+                  <TextField
+                    label="Name"
+                    name="name"
+                    value={name}
+                    onChange={setName}
+                    autoComplete="off"
+                    placeholder="e.g., Tiered markup"
+                  />
+
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Each variant gets the adjustment of the first step whose conditions all match. Price and
+                    inventory ranges include the minimum but not the maximum. A step without conditions applies
+                    to everything else and must come last.
+                  </Text>
+
+                  {steps.map((step, stepIndex) => (
+                    <Card key={stepIndex}>
+                      <div style={{ padding: "1rem" }}>
+                        <BlockStack gap="300">
+                          <InlineStack align="space-between">
+                            <Text as="h3" variant="headingSm">Step {stepIndex + 1}</Text>
+                            <ButtonGroup>
+                              <Button size="micro" disabled={stepIndex === 0} onClick={() => moveStep(stepIndex, -1)}>↑</Button>
+                              <Button size="micro" disabled={stepIndex === steps.length - 1} onClick={() => moveStep(stepIndex, 1)}>↓</Button>
+                              <Button
+                                size="micro"
+                                tone="critical"
+                                disabled={steps.length === 1}
+                                onClick={() => setSteps(steps.filter((_, i) => i !== stepIndex))}
+                              >
+                                Remove step
+                              </Button>
+                            </ButtonGroup>
+                          </InlineStack>
+
+                          {step.conditions.length === 0 && (
+                            <Text as="p" variant="bodySm" tone="subdued">Applies to every variant not matched by an earlier step</Text>
+                          )}
+
+                          {step.conditions.map((condition, conditionIndex) => (
+                            <InlineStack key={conditionIndex} gap="200" blockAlign="end" wrap={false}>
+                              <Select
+                                label={conditionIndex === 0 ? "If" : "and"}
+                                value={condition.field}
+                                onChange={(field) => updateCondition(stepIndex, conditionIndex, { field: field as RuleConditionField })}
+                                options={RULE_CONDITION_FIELDS.map((field) => ({
+                                  label: RULE_CONDITION_FIELD_LABELS[field],
+                                  value: field,
+                                }))}
+                              />
+                              {isBandCondition(condition.field) ? (
+                                <>
+                                  <TextField
+                                    label="From (at least)"
+                                    type="number"
+                                    value={condition.min}
+                                    onChange={(min) => updateCondition(stepIndex, conditionIndex, { min })}
+                                    autoComplete="off"
+                                    prefix={condition.field === "price" ? "$" : undefined}
+                                  />
+                                  <TextField
+                                    label="To (below)"
+                                    type="number"
+                                    value={condition.max}
+                                    onChange={(max) => updateCondition(stepIndex, conditionIndex, { max })}
+                                    autoComplete="off"
+                                    prefix={condition.field === "price" ? "$" : undefined}
+                                  />
+                                </>
+                              ) : (
+                                <TextField
+                                  label={condition.field === "tag" ? "Has tag" : "Equals"}
+                                  value={condition.value}
+                                  onChange={(value) => updateCondition(stepIndex, conditionIndex, { value })}
+                                  autoComplete="off"
+                                />
+                              )}
+                              <Button
+                                size="slim"
+                                onClick={() => updateStep(stepIndex, {
+                                  conditions: step.conditions.filter((_, i) => i !== conditionIndex),
+                                })}
+                              >
+                                ✕
+                              </Button>
+                            </InlineStack>
+                          ))}
+
+                          <div>
+                            <Button
+                              size="slim"
+                              onClick={() => updateStep(stepIndex, { conditions: [...step.conditions, NEW_CONDITION] })}
+                            >
+                              + Add condition
+                            </Button>
+                          </div>
+
+                          <InlineStack gap="200" blockAlign="end">
+                            <Select
+                              label="Then"
+                              value={step.adjustmentType}
+                              onChange={(adjustmentType) => updateStep(stepIndex, { adjustmentType })}
+                              options={RULE_ACTION_TYPES.map((type) => ({
+                                label: ADJUSTMENT_TYPE_LABELS[type],
+                                value: type,
+                              }))}
+                            />
+                            <TextField
+                              label="Value"
+                              type="number"
+                              value={step.adjustmentValue}
+                              onChange={(adjustmentValue) => updateStep(stepIndex, { adjustmentValue })}
+                              autoComplete="off"
+                            />
+                          </InlineStack>
+                        </BlockStack>
+                      </div>
+                    </Card>
+                  ))}
+
+                  <div>
+                    <Button onClick={addStep}>+ Add step</Button>
+                  </div>
+
+                  <InlineStack gap="200" blockAlign="end">
+                    <Select
+                      label="Rounding"
+                      name="roundingStrategy"
+                      value={roundingStrategy}
+                      onChange={setRoundingStrategy}
+                      options={ROUNDING_STRATEGIES.map((strategy) => ({
+                        label: ROUNDING_STRATEGY_LABELS[strategy],
+                        value: strategy,
+                      }))}
+                      helpText="Applied to every new price the rule sets"
+                    />
+                    {roundingStrategy !== "none" && (
+                      <Select
+                        label="Round"
+                        name="roundingDirection"
+                        value={roundingDirection}
+                        onChange={setRoundingDirection}
+                        options={[
+                          { label: "To nearest", value: "nearest" },
+                          { label: "Up", value: "up" },
+                          { label: "Down", value: "down" },
+                        ]}
+                      />
+                    )}
+                    {roundingStrategy === "custom_ending" && (
+                      <TextField
+                        label="Price ending"
+                        name="roundingEnding"
+                        value={roundingEnding}
+                        onChange={setRoundingEnding}
+                        type="number"
+                        step={0.01}
+                        autoComplete="off"
+                      />
+                    )}
+                  </InlineStack>
+
+                  <input type="hidden" name="intent" value="save" />
+                  <input type="hidden" name="ruleId" value={editingId || ""} />
+                  <input type="hidden" name="steps" value={JSON.stringify(steps)} />
+
+                  <div>
+                    <Button
+                      submit
+                      variant="primary"
+                      loading={isSubmitting && navigation.formData?.get("intent") === "save"}
+                    >
+                      {editingId ? "Save Changes" : "Create Rule"}
+                    </Button>
+                  </div>
+                </BlockStack>
+              </Form>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
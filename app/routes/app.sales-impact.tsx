@@ -0,0 +1,305 @@
+// app/routes/app.sales-impact.tsx - Units sold and revenue before and after each price change
+import { useEffect } from "react";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useNavigate, useRevalidator, Form, Link } from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Badge,
+  EmptyState,
+  Select,
+  BlockStack,
+  InlineStack,
+  Button,
+  Spinner,
+} from "@shopify/polaris";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { getRecentBatches } from "../models/pricing-history.server";
+import { retryOrderSyncJob } from "../models/order-cache.server";
+import { getBatchSalesImpact, type BatchSalesImpact } from "../lib/sales-impact.server";
+import {
+  ORDER_HISTORY_DAYS,
+  SALES_WINDOW_DAYS,
+  describeLift,
+  parseSalesWindowDays,
+  type SalesComparison,
+} from "../lib/sales-impact";
+import { canUseFeature } from "../lib/plans";
+import { describeAdjustment } from "../lib/pricing";
+import { formatChangePercent } from "../lib/analytics";
+
+// Batches shown, newest first; undos aren't price decisions so they're left out
+const REPORTED_BATCHES = 10;
+// How often the page checks whether orders have finished loading
+const SYNC_POLL_MS = 3000;
+
+const ORDERS_ERROR = "Couldn't load your orders from Shopify. If you've just updated the app, approve its access to orders and try again.";
+
+const BATCH_ACTION_LABELS: Record<string, string> = {
+  price_rule: "Price rule",
+  csv_import: "CSV import",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const windowDays = parseSalesWindowDays(url.searchParams.get("window"));
+  const selectedBatchId = url.searchParams.get("batchId");
+  const subscription = await getOrCreateSubscription(session.shop);
+
+  if (!canUseFeature(subscription, 'analytics')) {
+    return json({
+      canView: false,
+      windowDays,
+      selectedBatchId,
+      impacts: [] as BatchSalesImpact[],
+      syncing: false,
+      failedSyncId: null,
+      error: null,
+    });
+  }
+
+  const batches = (await getRecentBatches(session.shop, REPORTED_BATCHES * 2))
+    .filter((batch) => batch.actionType !== "revert")
+    .slice(0, REPORTED_BATCHES);
+
+  try {
+    const { impacts, syncing, failedSyncId } = await getBatchSalesImpact(session.shop, batches, windowDays);
+    return json({
+      canView: true,
+      windowDays,
+      selectedBatchId,
+      impacts,
+      syncing,
+      failedSyncId,
+      error: failedSyncId ? ORDERS_ERROR : null,
+    });
+  } catch (error: any) {
+    console.error("❌ Sales impact error:", error);
+    return json({
+      canView: true,
+      windowDays,
+      selectedBatchId,
+      impacts: [] as BatchSalesImpact[],
+      syncing: false,
+      failedSyncId: null,
+      error: ORDERS_ERROR,
+    });
+  }
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "retry-sync") {
+    await retryOrderSyncJob(session.shop, (formData.get("syncId") as string) || "");
+  }
+
+  return json({ ok: true });
+};
+
+function describeBatch(actionType: string, adjustmentValue: number): string {
+  return BATCH_ACTION_LABELS[actionType] || describeAdjustment(actionType, adjustmentValue);
+}
+
+function formatRevenue(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function LiftBadge({ comparison, measure }: { comparison: SalesComparison; measure: "units" | "revenue" }) {
+  const percent = measure === "units" ? comparison.unitLiftPercent : comparison.revenueLiftPercent;
+  const tone = percent === null ? undefined : percent > 0 ? "success" : percent < 0 ? "critical" : undefined;
+  return <Badge tone={tone}>{describeLift(comparison, measure)}</Badge>;
+}
+
+export default function SalesImpact() {
+  const { canView, windowDays, selectedBatchId, impacts, syncing, failedSyncId, error } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const { revalidate } = useRevalidator();
+
+  // Orders load in the background; check back until they're in
+  useEffect(() => {
+    if (!syncing) return;
+    const interval = setInterval(revalidate, SYNC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [syncing, revalidate]);
+
+  const buildUrl = (params: { window?: number; batchId?: string | null }) => {
+    const search = new URLSearchParams();
+    search.set("window", String(params.window ?? windowDays));
+    const batchId = params.batchId === undefined ? selectedBatchId : params.batchId;
+    if (batchId) search.set("batchId", batchId);
+    return `/app/sales-impact?${search.toString()}`;
+  };
+
+  if (!canView) {
+    return (
+      <Page title="Sales Impact" backAction={{ content: "← Price History", url: "/app/history" }}>
+        <Layout>
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="Sales impact reports are a Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">Upgrade to Pro to see whether your price changes sold more or less than before.</Text>
+            </Banner>
+          </Layout.Section>
+        </Layout>
+      </Page>
+    );
+  }
+
+  const selected = impacts.find((impact) => impact.batch.batchId === selectedBatchId) || null;
+
+  return (
+    <Page
+      title="Sales Impact"
+      subtitle="Units sold and revenue for the changed variants, before and after each change"
+      backAction={{ content: "← Price History", url: "/app/history" }}
+    >
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Sales data unavailable">
+              <BlockStack gap="200">
+                <Text as="p">{error}</Text>
+                {failedSyncId && (
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="retry-sync" />
+                    <input type="hidden" name="syncId" value={failedSyncId} />
+                    <Button submit>Try again</Button>
+                  </Form>
+                )}
+              </BlockStack>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {syncing && (
+          <Layout.Section>
+            <Banner tone="info" title="Loading your orders from Shopify">
+              <InlineStack gap="200" blockAlign="center">
+                <Spinner size="small" />
+                <Text as="p">
+                  Orders are fetched in the background the first time, which can take a few minutes for busy stores. This page updates when they're in.
+                </Text>
+              </InlineStack>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="200">
+                <InlineStack gap="300" blockAlign="end">
+                  <Select
+                    label="Compare"
+                    value={String(windowDays)}
+                    onChange={(value) => navigate(buildUrl({ window: parseInt(value) }))}
+                    options={SALES_WINDOW_DAYS.map((days) => ({
+                      label: `${days} days before vs ${days} days after`,
+                      value: String(days),
+                    }))}
+                  />
+                </InlineStack>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Recent changes are compared over the time since they were made, with a window of the same length before.
+                  Revenue is each line's total after discounts, in your store currency, from orders in every market.
+                  Shopify shares the last {ORDER_HISTORY_DAYS} days of orders, so older windows may be missing sales.
+                </Text>
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        {impacts.length === 0 && !error && !syncing ? (
+          <Layout.Section>
+            <Card>
+              <EmptyState
+                heading="No price changes to report on"
+                action={{ content: "Update Prices", url: "/app/pricing" }}
+                image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+              >
+                <p>Once you've changed some prices, you'll see how sales moved afterwards.</p>
+              </EmptyState>
+            </Card>
+          </Layout.Section>
+        ) : impacts.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <BlockStack gap="300">
+                  <Text as="h2" variant="headingMd">Recent Batches</Text>
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'numeric', 'text', 'numeric', 'text', 'text']}
+                    headings={['Date', 'Change', 'Window', 'Units', 'Units lift', 'Revenue', 'Revenue lift', '']}
+                    rows={impacts.map(({ batch, windows, report }) => [
+                      new Date(windows.changedAt).toLocaleDateString(),
+                      <BlockStack key={`change-${batch.batchId}`} gap="100">
+                        <Text as="span">{describeBatch(batch.actionType, batch.adjustmentValue)}</Text>
+                        {batch.market && <Text as="span" variant="bodySm" tone="subdued">{batch.market}</Text>}
+                        {batch.reverted && <Badge>Undone</Badge>}
+                      </BlockStack>,
+                      <BlockStack key={`window-${batch.batchId}`} gap="100">
+                        <Text as="span">{windows.days} days{windows.shortened ? " so far" : ""}</Text>
+                        {windows.beforeIncomplete && (
+                          <Text as="span" variant="bodySm" tone="caution">Before window partly unavailable</Text>
+                        )}
+                      </BlockStack>,
+                      `${report.before.units} → ${report.after.units}`,
+                      <LiftBadge key={`units-${batch.batchId}`} comparison={report} measure="units" />,
+                      `${formatRevenue(report.before.revenue)} → ${formatRevenue(report.after.revenue)}`,
+                      <LiftBadge key={`revenue-${batch.batchId}`} comparison={report} measure="revenue" />,
+                      <Link key={`products-${batch.batchId}`} to={buildUrl({ batchId: batch.batchId })}>
+                        {batch.batchId === selectedBatchId ? "Showing products" : "By product"}
+                      </Link>,
+                    ])}
+                  />
+                </BlockStack>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {selected && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <BlockStack gap="300">
+                  <InlineStack align="space-between">
+                    <Text as="h2" variant="headingMd">
+                      {describeBatch(selected.batch.actionType, selected.batch.adjustmentValue)} on{" "}
+                      {new Date(selected.windows.changedAt).toLocaleString()}
+                    </Text>
+                    <Link to={buildUrl({ batchId: null })}>Close</Link>
+                  </InlineStack>
+                  <DataTable
+                    columnContentTypes={['text', 'numeric', 'text', 'numeric', 'text', 'numeric', 'text']}
+                    headings={['Product', 'Variants', 'Price change', 'Units', 'Units lift', 'Revenue', 'Revenue lift']}
+                    rows={selected.report.products.map((product) => [
+                      product.productTitle,
+                      product.variants,
+                      formatChangePercent(product.averagePriceChangePercent),
+                      `${product.before.units} → ${product.after.units}`,
+                      <LiftBadge key={`units-${product.productId}`} comparison={product} measure="units" />,
+                      `${formatRevenue(product.before.revenue)} → ${formatRevenue(product.after.revenue)}`,
+                      <LiftBadge key={`revenue-${product.productId}`} comparison={product} measure="revenue" />,
+                    ])}
+                  />
+                </BlockStack>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,283 @@
+// app/routes/app.schedules.tsx - Scheduled price changes (Pro)
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form } from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Badge,
+  Banner,
+  Button,
+  EmptyState,
+  BlockStack,
+} from "@shopify/polaris";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import {
+  cancelScheduledPriceChange,
+  createScheduledPriceChange,
+  listScheduledPriceChanges,
+  type ScheduledProduct,
+} from "../models/scheduled-price-change.server";
+import { canUseFeature } from "../lib/plans";
+import {
+  describeRoundingRule,
+  deserializeRoundingRule,
+  isAdjustmentType,
+  parseRoundingRule,
+  serializeRoundingRule,
+} from "../lib/pricing";
+import { describeVariantFilter, parseVariantFilter } from "../lib/product-search";
+import { validatePricingData } from "../lib/validators";
+
+interface ActionResult {
+  success?: string;
+  error?: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const subscription = await getOrCreateSubscription(session.shop);
+  const schedules = await listScheduledPriceChanges(session.shop);
+
+  return json({
+    canSchedule: canUseFeature(subscription, 'scheduled_updates'),
+    schedules,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "cancel") {
+    const id = formData.get("scheduleId");
+    if (!id || typeof id !== "string") {
+      return json<ActionResult>({ error: "Invalid schedule" });
+    }
+
+    const status = await cancelScheduledPriceChange(session.shop, id);
+    if (status === "cancelled") {
+      return json<ActionResult>({ success: "Scheduled change cancelled" });
+    }
+    if (status === "active") {
+      return json<ActionResult>({ success: "Prices will be reverted within the next minute" });
+    }
+    return json<ActionResult>({ error: "This change can no longer be cancelled" });
+  }
+
+  if (intent !== "create") {
+    return json<ActionResult>({ error: "Unknown action" });
+  }
+
+  const subscription = await getOrCreateSubscription(session.shop);
+  if (!canUseFeature(subscription, 'scheduled_updates')) {
+    return json<ActionResult>({ error: "Scheduled price updates are available on the Pro plan" });
+  }
+
+  const adjustmentType = formData.get("adjustmentType") as string;
+  const adjustmentValue = parseFloat(formData.get("adjustmentValue") as string);
+  const startAt = new Date(formData.get("startAt") as string);
+  const endAtValue = formData.get("endAt") as string | null;
+  const endAt = endAtValue ? new Date(endAtValue) : null;
+  const rounding = parseRoundingRule(
+    formData.get("roundingStrategy") as string | null,
+    formData.get("roundingDirection") as string | null,
+    formData.get("roundingEnding") as string | null
+  );
+  const variantFilter = parseVariantFilter(formData.get("variantFilter") as string | null);
+
+  let selectedProducts: any[];
+  try {
+    selectedProducts = JSON.parse((formData.get("selectedProducts") as string) || "[]");
+  } catch {
+    return json<ActionResult>({ error: "Invalid product data format" });
+  }
+
+  if (!isAdjustmentType(adjustmentType)) {
+    return json<ActionResult>({ error: "Invalid adjustment type selected" });
+  }
+
+  const validation = validatePricingData(selectedProducts, adjustmentType, adjustmentValue, { rounding });
+  if (!validation.isValid) {
+    return json<ActionResult>({ error: validation.errors.join(", ") });
+  }
+
+  if (isNaN(startAt.getTime()) || startAt.getTime() < Date.now() - 60 * 1000) {
+    return json<ActionResult>({ error: "Start time must be in the future" });
+  }
+
+  if (endAt && (isNaN(endAt.getTime()) || endAt <= startAt)) {
+    return json<ActionResult>({ error: "End time must be after the start time" });
+  }
+
+  const products: ScheduledProduct[] = selectedProducts.map((p: any) => ({ id: p.id, title: p.title }));
+
+  await createScheduledPriceChange(session.shop, {
+    products,
+    adjustmentType,
+    adjustmentValue,
+    roundingRule: serializeRoundingRule(rounding),
+    variantFilter,
+    startAt,
+    endAt,
+  });
+
+  console.log(`⏰ Scheduled ${adjustmentType} ${adjustmentValue} on ${products.length} products for ${session.shop} at ${startAt.toISOString()}`);
+
+  return json<ActionResult>({
+    success: `Price change scheduled for ${products.length} product(s) on ${startAt.toLocaleString()}`,
+  });
+};
+
+const STATUS_BADGES: Record<string, JSX.Element> = {
+  scheduled: <Badge tone="info">Scheduled</Badge>,
+  applying: <Badge tone="attention">Applying</Badge>,
+  active: <Badge tone="success">Active</Badge>,
+  reverting: <Badge tone="attention">Reverting</Badge>,
+  completed: <Badge>Completed</Badge>,
+  cancelled: <Badge>Cancelled</Badge>,
+  failed: <Badge tone="critical">Failed</Badge>,
+};
+
+function formatAdjustment(adjustmentType: string, adjustmentValue: number) {
+  switch (adjustmentType) {
+    case "percentage":
+      return `${adjustmentValue > 0 ? "+" : ""}${adjustmentValue}%`;
+    case "fixed":
+      return `Set to ${adjustmentValue.toFixed(2)}`;
+    case "add":
+      return `+${adjustmentValue.toFixed(2)}`;
+    case "subtract":
+      return `-${adjustmentValue.toFixed(2)}`;
+    case "compare_at_discount":
+      return `Sale: -${adjustmentValue}%`;
+    case "clear_compare_at":
+      return "Clear compare-at";
+    case "compare_at_multiplier":
+      return `Compare-at ×${adjustmentValue}`;
+    case "cost_markup":
+      return `Cost +${adjustmentValue}%`;
+    case "target_margin":
+      return `${adjustmentValue}% margin on cost`;
+    default:
+      return `${adjustmentValue}`;
+  }
+}
+
+export default function Schedules() {
+  const { canSchedule, schedules } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+
+  const rows = schedules.map((schedule) => {
+    const products = schedule.products as unknown as ScheduledProduct[];
+
+    return [
+      new Date(schedule.startAt).toLocaleString(),
+      schedule.endAt ? new Date(schedule.endAt).toLocaleString() : "—",
+      <div key={`products-${schedule.id}`}>
+        <Text as="span">{products.length} product(s)</Text>
+        <br />
+        <Text as="span" variant="bodySm" tone="subdued">
+          {products.slice(0, 3).map((p) => p.title).join(", ")}
+          {products.length > 3 ? "…" : ""}
+        </Text>
+        {schedule.variantFilter && (
+          <Text as="p" variant="bodySm" tone="subdued">
+            {describeVariantFilter(parseVariantFilter(JSON.stringify(schedule.variantFilter)))}
+          </Text>
+        )}
+      </div>,
+      <div key={`adjustment-${schedule.id}`}>
+        <Text as="span">{formatAdjustment(schedule.adjustmentType, schedule.adjustmentValue)}</Text>
+        {schedule.roundingRule && (
+          <Text as="p" variant="bodySm" tone="subdued">
+            {describeRoundingRule(deserializeRoundingRule(schedule.roundingRule))}
+          </Text>
+        )}
+      </div>,
+      <div key={`status-${schedule.id}`}>
+        {STATUS_BADGES[schedule.status] || <Badge>{schedule.status}</Badge>}
+        {schedule.lastError && (
+          <Text as="p" variant="bodySm" tone="critical">{schedule.lastError}</Text>
+        )}
+      </div>,
+      schedule.status === "scheduled" || schedule.status === "active" ? (
+        <Form key={`cancel-${schedule.id}`} method="post">
+          <input type="hidden" name="intent" value="cancel" />
+          <input type="hidden" name="scheduleId" value={schedule.id} />
+          <Button submit size="slim" tone="critical" disabled={navigation.state === "submitting"}>
+            {schedule.status === "scheduled" ? "Cancel" : "End now"}
+          </Button>
+        </Form>
+      ) : "",
+    ];
+  });
+
+  return (
+    <Page
+      title="Scheduled Price Changes"
+      backAction={{ content: "← Dashboard", url: "/app" }}
+      primaryAction={{ content: "Schedule a change", url: "/app/pricing", disabled: !canSchedule }}
+    >
+      <Layout>
+        {actionData?.error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Could not update schedule">
+              <Text as="p">{actionData.error}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title="Schedule updated">
+              <Text as="p">{actionData.success}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!canSchedule && (
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="Scheduled updates are a Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">Upgrade to Pro to plan price changes ahead of time and revert them automatically.</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Schedules</Text>
+                {schedules.length === 0 ? (
+                  <EmptyState
+                    heading="No scheduled changes"
+                    image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
+                    action={canSchedule ? { content: "Schedule a change", url: "/app/pricing" } : undefined}
+                  >
+                    <p>Select products on the pricing page and choose "Schedule for later".</p>
+                  </EmptyState>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'text', 'text']}
+                    headings={['Starts', 'Reverts', 'Products', 'Adjustment', 'Status', '']}
+                    rows={rows}
+                  />
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,164 @@
+// app/routes/app.settings.tsx - Shop settings: price guardrails
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form } from "@remix-run/react";
+import { useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  Text,
+  Banner,
+  Button,
+  Checkbox,
+  FormLayout,
+  TextField,
+  BlockStack,
+} from "@shopify/polaris";
+import { getPriceGuardrails, savePriceGuardrails } from "../models/shop-settings.server";
+import { describeGuardrails, type PriceGuardrails } from "../lib/guardrails";
+import { validatePriceGuardrails } from "../lib/validators";
+
+interface ActionResult {
+  success?: string;
+  errors?: string[];
+}
+
+// Blank fields turn a limit off; anything else that isn't a number fails validation
+function parseLimit(value: FormDataEntryValue | null): number | null {
+  const text = ((value as string) || "").trim();
+  return text === "" ? null : parseFloat(text);
+}
+
+function formatLimit(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const guardrails = await getPriceGuardrails(session.shop);
+
+  return json({ guardrails });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const guardrails: PriceGuardrails = {
+    minPrice: parseLimit(formData.get("minPrice")),
+    maxPrice: parseLimit(formData.get("maxPrice")),
+    maxChangePercent: parseLimit(formData.get("maxChangePercent")),
+    neverBelowCost: formData.get("neverBelowCost") === "true",
+  };
+
+  const validation = validatePriceGuardrails(guardrails);
+  if (!validation.isValid) {
+    return json<ActionResult>({ errors: validation.errors });
+  }
+
+  try {
+    const saved = await savePriceGuardrails(session.shop, guardrails);
+    return json<ActionResult>({ success: `Guardrails saved: ${describeGuardrails(saved)}` });
+  } catch (error: any) {
+    console.error("❌ Failed to save guardrails:", error);
+    return json<ActionResult>({ errors: ["Couldn't save your settings, please try again"] });
+  }
+};
+
+export default function Settings() {
+  const { guardrails } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+
+  const [minPrice, setMinPrice] = useState(formatLimit(guardrails.minPrice));
+  const [maxPrice, setMaxPrice] = useState(formatLimit(guardrails.maxPrice));
+  const [maxChangePercent, setMaxChangePercent] = useState(formatLimit(guardrails.maxChangePercent));
+  const [neverBelowCost, setNeverBelowCost] = useState(guardrails.neverBelowCost);
+
+  return (
+    <Page
+      title="Settings"
+      subtitle="Limits that apply to every price change"
+      backAction={{ content: "← Dashboard", url: "/app" }}
+    >
+      <Layout>
+        {actionData?.errors && actionData.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="Settings not saved">
+              {actionData.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success} />
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="400">
+                <Text as="h2" variant="headingMd">🛡️ Price Guardrails</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Bulk changes, rules, imports, scheduled changes and undos all check these limits.
+                  Variants that would break one are skipped and the reason is shown. Leave a field blank to turn that limit off.
+                  Market price lists are in their own currency, so only the maximum change applies to them.
+                </Text>
+
+                <Form method="post">
+                  <FormLayout>
+                    <FormLayout.Group>
+                      <TextField
+                        label="Minimum price"
+                        name="minPrice"
+                        type="number"
+                        prefix="$"
+                        value={minPrice}
+                        onChange={setMinPrice}
+                        autoComplete="off"
+                      />
+                      <TextField
+                        label="Maximum price"
+                        name="maxPrice"
+                        type="number"
+                        prefix="$"
+                        value={maxPrice}
+                        onChange={setMaxPrice}
+                        autoComplete="off"
+                      />
+                    </FormLayout.Group>
+                    <TextField
+                      label="Maximum change per operation"
+                      name="maxChangePercent"
+                      type="number"
+                      suffix="%"
+                      value={maxChangePercent}
+                      onChange={setMaxChangePercent}
+                      helpText="e.g., 30 rejects any price that would move more than 30% up or down in one go"
+                      autoComplete="off"
+                    />
+                    <Checkbox
+                      label="Never price below cost"
+                      helpText="Uses the unit cost set on each variant's inventory item. Variants without a cost aren't checked."
+                      checked={neverBelowCost}
+                      onChange={setNeverBelowCost}
+                    />
+                    <input type="hidden" name="neverBelowCost" value={String(neverBelowCost)} />
+                    <Button submit variant="primary" loading={navigation.state === "submitting"}>
+                      Save
+                    </Button>
+                  </FormLayout>
+                </Form>
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -3,7 +3,7 @@ import { json, LoaderFunctionArgs, ActionFunctionArgs, redirect } from "@remix-r
 import { useLoaderData, useActionData, Link } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import { updateSubscription, getOrCreateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, matchBillingPlan } from "../lib/plans";
 import {
   Card,
   Layout,
@@ -132,6 +132,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                         amount
                         currencyCode
                       }
+                      interval
                     }
                   }
                 }
@@ -154,6 +155,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         status: "active",
         usageLimit: PLANS.free.usageLimit,
         subscriptionId: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
       
       return redirect("/app?sync=success&plan=free&message=No active subscription found");
@@ -161,18 +163,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     
     // Prendre le premier abonnement actif
     const subscription = activeSubscriptions[0];
-    const amount = parseFloat(subscription.lineItems?.[0]?.plan?.pricingDetails?.price?.amount || "0");
+    const pricingDetails = subscription.lineItems?.[0]?.plan?.pricingDetails;
+    const amount = parseFloat(pricingDetails?.price?.amount || "0");
     
-    console.log(`💰 Subscription amount: $${amount}`);
+    console.log(`💰 Subscription amount: $${amount} (${pricingDetails?.interval})`);
     
-    // Mapper le montant au plan correspondant
-    let detectedPlan = "free";
-    for (const [planKey, planData] of Object.entries(PLANS)) {
-      if (Math.abs(planData.price - amount) < 0.02) { // Tolérance de 2 centimes
-        detectedPlan = planKey;
-        break;
-      }
-    }
+    // Mapper le nom, l'intervalle et le montant au plan correspondant
+    const match = matchBillingPlan({ name: subscription.name, amount, interval: pricingDetails?.interval });
+    const detectedPlan = match?.planName ?? "free";
     
     console.log(`📋 Detected plan: ${detectedPlan}`);
     
@@ -181,6 +179,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       planName: detectedPlan,
       status: subscription.status.toLowerCase(),
       usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
+      billingInterval: match?.billingInterval ?? "EVERY_30_DAYS",
       subscriptionId: subscription.id,
       currentPeriodEnd: subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd) : undefined,
     });
@@ -225,16 +224,14 @@ export default function SyncSubscription() {
     
     if (hasActiveShopifySubscription) {
       const subscription = shopifySubscriptions[0];
-      const amount = parseFloat(subscription.lineItems?.[0]?.plan?.pricingDetails?.price?.amount || "0");
+      const pricingDetails = subscription.lineItems?.[0]?.plan?.pricingDetails;
       
       // Trouver le plan correspondant
-      let expectedPlan = "free";
-      for (const [planKey, planData] of Object.entries(plans)) {
-        if (Math.abs(planData.price - amount) < 0.02) {
-          expectedPlan = planKey;
-          break;
-        }
-      }
+      const expectedPlan = matchBillingPlan({
+        name: subscription.name,
+        amount: parseFloat(pricingDetails?.price?.amount || "0"),
+        interval: pricingDetails?.interval,
+      })?.planName ?? "free";
       
       return localSubscription.planName !== expectedPlan;
     }
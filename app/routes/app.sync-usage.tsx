@@ -2,7 +2,7 @@
 import { json, LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useActionData, Form } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
-import { syncUsageCount, getOrCreateSubscription } from "../models/subscription.server";
+import { syncUsageCount, getOrCreateSubscription, getModifiedProductsThisPeriod } from "../models/subscription.server";
 import {
   Card,
   Layout,
@@ -26,7 +26,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const subscription = await getOrCreateSubscription(session.shop);
   
-  const currentProducts = (subscription.uniqueProductsModified as string[]) || [];
+  const currentProducts = await getModifiedProductsThisPeriod(session.shop);
   const usageCountSynced = subscription.usageCount === currentProducts.length;
   
   return json({
@@ -52,6 +52,42 @@ export default function App() {
           )}
         </Link>
         
+        <Link to="/app/analytics">
+          📈 Analytics
+        </Link>
+        
+        <Link to="/app/usage">
+          📊 Usage History
+        </Link>
+        
+        <Link to="/app/rules">
+          📐 Price Rules
+        </Link>
+        
+        <Link to="/app/presets">
+          🔖 Presets
+        </Link>
+        
+        <Link to="/app/import">
+          📥 Import Prices
+        </Link>
+        
+        <Link to="/app/schedules">
+          ⏰ Scheduled Changes
+        </Link>
+        
+        <Link to="/app/settings">
+          🛡️ Settings
+        </Link>
+        
+        <Link to="/app/api-keys">
+          🔑 API Keys
+        </Link>
+        
+        <Link to="/app/webhooks">
+          🪝 Webhooks
+        </Link>
+        
         {/* ✅ FIX: Clear subscription navigation */}
         <Link to="/app/billing">
           {subscription.planName === 'free' ? (
@@ -0,0 +1,145 @@
+// app/routes/app.usage.tsx - Quota used in each billing period and the products that used it
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Badge,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import { getPeriodProducts, listUsagePeriods } from "../models/usage-period.server";
+import { formatPriceDisplay, formatUsageLimit, getPlan, hasUnlimitedProducts } from "../lib/plans";
+import { getSmallestFittingPlan, MAX_PERIOD_PRODUCTS } from "../lib/usage-periods";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const periods = await listUsagePeriods(session.shop);
+
+  const selected = periods.find((period) => period.id === url.searchParams.get("period")) ?? periods[0];
+  const products = await getPeriodProducts(session.shop, selected.periodStart);
+
+  return json({ periods, selectedId: selected.id, products });
+};
+
+function formatPeriod(start: string, end: string): string {
+  // Periods end at the instant the next one starts
+  const lastDay = new Date(new Date(end).getTime() - 1);
+  return `${new Date(start).toLocaleDateString()} – ${lastDay.toLocaleDateString()}`;
+}
+
+export default function UsageHistory() {
+  const { periods, selectedId, products } = useLoaderData<typeof loader>();
+  const selected = periods.find((period) => period.id === selectedId) ?? periods[0];
+  const current = periods[0];
+
+  const limitHits = periods.filter((period) =>
+    !hasUnlimitedProducts(period.planName) && period.productsModified >= period.usageLimit
+  );
+  const busiest = Math.max(...periods.map((period) => period.productsModified));
+  const fittingPlan = getSmallestFittingPlan(busiest);
+  const currentPlan = getPlan(current.planName);
+
+  const periodRows = periods.map((period) => {
+    const unlimited = hasUnlimitedProducts(period.planName);
+    const atLimit = !unlimited && period.productsModified >= period.usageLimit;
+
+    return [
+      <Link key={period.id} to={`/app/usage?period=${period.id}`}>
+        {formatPeriod(period.periodStart, period.periodEnd)}
+        {period.current ? " (current)" : ""}
+      </Link>,
+      getPlan(period.planName).displayName,
+      formatUsageLimit(period.usageLimit),
+      <InlineStack key={`${period.id}-used`} gap="200" blockAlign="center">
+        <Text as="span">{period.productsModified.toLocaleString()}</Text>
+        {atLimit && <Badge tone="critical">Limit reached</Badge>}
+      </InlineStack>,
+      period.totalPriceChanges.toLocaleString(),
+      getSmallestFittingPlan(period.productsModified).displayName,
+    ];
+  });
+
+  const productRows = products.map((product) => [
+    product.productTitle || product.productId.split("/").pop() || product.productId,
+    new Date(product.firstModified).toLocaleDateString(),
+    new Date(product.lastModified).toLocaleDateString(),
+    product.modificationCount.toLocaleString(),
+  ]);
+
+  return (
+    <Page
+      title="Usage History"
+      subtitle="Products modified in each billing period, and what counted against your limit"
+      backAction={{ content: "← Dashboard", url: "/app" }}
+    >
+      <Layout>
+        {limitHits.length > 0 && fittingPlan.usageLimit > currentPlan.usageLimit && (
+          <Layout.Section>
+            <Banner
+              tone="warning"
+              title={`You reached your limit in ${limitHits.length} of the last ${periods.length} period(s)`}
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">
+                Your busiest period modified {busiest.toLocaleString()} products. {fittingPlan.displayName} ({formatPriceDisplay(fittingPlan.price)}) covers {formatUsageLimit(fittingPlan.usageLimit)} products a month.
+              </Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Billing periods</Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Each product counts once per period, however many times its price changes. The price changes column counts every change.
+                </Text>
+                <DataTable
+                  columnContentTypes={["text", "text", "numeric", "numeric", "numeric", "text"]}
+                  headings={["Period", "Plan", "Limit", "Products modified", "Price changes", "Smallest plan that fits"]}
+                  rows={periodRows}
+                />
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Products that used quota, {formatPeriod(selected.periodStart, selected.periodEnd)}
+                </Text>
+                {productRows.length === 0 ? (
+                  <Text as="p" tone="subdued">No products were modified in this period.</Text>
+                ) : (
+                  <>
+                    <DataTable
+                      columnContentTypes={["text", "text", "text", "numeric"]}
+                      headings={["Product", "First changed", "Last changed", "Times changed"]}
+                      rows={productRows}
+                    />
+                    {productRows.length === MAX_PERIOD_PRODUCTS && (
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        Showing the first {MAX_PERIOD_PRODUCTS} products.
+                      </Text>
+                    )}
+                  </>
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,340 @@
+// app/routes/app.webhooks.tsx - Outgoing webhook endpoints and delivery log
+import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useActionData, useNavigation, Form } from "@remix-run/react";
+import { useState } from "react";
+import { authenticate } from "../shopify.server";
+import {
+  Card,
+  Layout,
+  Page,
+  DataTable,
+  Text,
+  Banner,
+  Badge,
+  Button,
+  ButtonGroup,
+  Checkbox,
+  TextField,
+  BlockStack,
+  InlineStack,
+} from "@shopify/polaris";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  retryWebhookDelivery,
+  setWebhookEndpointActive,
+} from "../models/webhook.server";
+import { getOrCreateSubscription } from "../models/subscription.server";
+import { checkWebhookUrl, sendTestWebhook } from "../lib/webhooks.server";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_EVENT_LABELS,
+  isWebhookEvent,
+  type WebhookEvent,
+} from "../lib/webhooks";
+import { canUseFeature } from "../lib/plans";
+
+const MAX_ENDPOINTS = 5;
+const SHOWN_DELIVERIES = 50;
+
+const DELIVERY_STATUS_TONES: Record<string, "success" | "critical" | "attention" | undefined> = {
+  succeeded: "success",
+  failed: "critical",
+  pending: "attention",
+};
+
+interface ActionResult {
+  success?: string;
+  errors?: string[];
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const subscription = await getOrCreateSubscription(session.shop);
+  const [endpoints, deliveries] = await Promise.all([
+    listWebhookEndpoints(session.shop),
+    listWebhookDeliveries(session.shop, SHOWN_DELIVERIES),
+  ]);
+
+  return json({ endpoints, deliveries, canUseWebhooks: canUseFeature(subscription, 'api_access') });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const endpointId = (formData.get("endpointId") as string) || "";
+
+  if (intent === "delete") {
+    const deleted = await deleteWebhookEndpoint(session.shop, endpointId);
+    return json<ActionResult>(deleted ? { success: "Endpoint removed" } : { errors: ["Endpoint not found"] });
+  }
+
+  if (intent === "toggle") {
+    const active = formData.get("active") === "true";
+    const updated = await setWebhookEndpointActive(session.shop, endpointId, active);
+    return json<ActionResult>(updated
+      ? { success: active ? "Endpoint turned on" : "Endpoint turned off" }
+      : { errors: ["Endpoint not found"] });
+  }
+
+  if (intent === "retry") {
+    const retried = await retryWebhookDelivery(session.shop, (formData.get("deliveryId") as string) || "");
+    return json<ActionResult>(retried
+      ? { success: "Delivery queued to be sent again" }
+      : { errors: ["Only failed deliveries can be retried"] });
+  }
+
+  const subscription = await getOrCreateSubscription(session.shop);
+  if (!canUseFeature(subscription, 'api_access')) {
+    return json<ActionResult>({ errors: ["Webhooks are a Pro feature"] });
+  }
+
+  if (intent === "test") {
+    const endpoint = await getWebhookEndpoint(session.shop, endpointId);
+    if (!endpoint) {
+      return json<ActionResult>({ errors: ["Endpoint not found"] });
+    }
+    await sendTestWebhook(session.shop, endpoint.id);
+    return json<ActionResult>({ success: `Test event sent to ${endpoint.url}. Its result is in the delivery log.` });
+  }
+
+  if (intent !== "create") {
+    return json<ActionResult>({ errors: ["Unknown action"] });
+  }
+
+  const url = ((formData.get("url") as string) || "").trim();
+  const events = formData.getAll("events").filter(isWebhookEvent);
+  const errors: string[] = [];
+
+  const urlError = await checkWebhookUrl(url);
+  if (urlError) errors.push(urlError);
+  if (events.length === 0) errors.push("Choose at least one event");
+  if ((await listWebhookEndpoints(session.shop)).length >= MAX_ENDPOINTS) {
+    errors.push(`You can have up to ${MAX_ENDPOINTS} endpoints`);
+  }
+  if (errors.length > 0) {
+    return json<ActionResult>({ errors });
+  }
+
+  await createWebhookEndpoint(session.shop, { url, events });
+  console.log(`🪝 Added webhook endpoint ${url} for ${session.shop}`);
+  return json<ActionResult>({ success: "Endpoint added. Use its signing secret to check each request came from us." });
+};
+
+export default function Webhooks() {
+  const { endpoints, deliveries, canUseWebhooks } = useLoaderData<typeof loader>();
+  const actionData = useActionData<ActionResult>();
+  const navigation = useNavigation();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+
+  const isSubmitting = navigation.state === "submitting";
+  const submittingIntent = isSubmitting ? navigation.formData?.get("intent") : null;
+  const submittingEndpointId = isSubmitting ? navigation.formData?.get("endpointId") : null;
+  const endpointUrls = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.url]));
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) => checked ? [...current, event] : current.filter((e) => e !== event));
+  };
+
+  const endpointRows = endpoints.map((endpoint) => [
+    <BlockStack key={`url-${endpoint.id}`} gap="100">
+      <Text as="span" breakWord>{endpoint.url}</Text>
+      {!endpoint.active && <Badge>Off</Badge>}
+    </BlockStack>,
+    endpoint.events.map((event) => WEBHOOK_EVENT_LABELS[event] || event).join(", "),
+    revealedSecretId === endpoint.id ? (
+      <Text key={`secret-${endpoint.id}`} as="span" variant="bodySm" breakWord>{endpoint.secret}</Text>
+    ) : (
+      <Button key={`secret-${endpoint.id}`} size="slim" variant="plain" onClick={() => setRevealedSecretId(endpoint.id)}>
+        Show secret
+      </Button>
+    ),
+    <ButtonGroup key={`actions-${endpoint.id}`}>
+      <Form method="post">
+        <input type="hidden" name="intent" value="test" />
+        <input type="hidden" name="endpointId" value={endpoint.id} />
+        <Button
+          size="slim"
+          submit
+          disabled={!endpoint.active || !canUseWebhooks}
+          loading={submittingIntent === "test" && submittingEndpointId === endpoint.id}
+        >
+          Send test event
+        </Button>
+      </Form>
+      <Form method="post">
+        <input type="hidden" name="intent" value="toggle" />
+        <input type="hidden" name="endpointId" value={endpoint.id} />
+        <input type="hidden" name="active" value={endpoint.active ? "false" : "true"} />
+        <Button size="slim" submit loading={submittingIntent === "toggle" && submittingEndpointId === endpoint.id}>
+          {endpoint.active ? "Turn off" : "Turn on"}
+        </Button>
+      </Form>
+      <Form method="post">
+        <input type="hidden" name="intent" value="delete" />
+        <input type="hidden" name="endpointId" value={endpoint.id} />
+        <Button size="slim" tone="critical" submit loading={submittingIntent === "delete" && submittingEndpointId === endpoint.id}>
+          Remove
+        </Button>
+      </Form>
+    </ButtonGroup>,
+  ]);
+
+  const deliveryRows = deliveries.map((delivery) => [
+    new Date(delivery.createdAt).toLocaleString(),
+    delivery.event,
+    <Text key={`endpoint-${delivery.id}`} as="span" variant="bodySm" breakWord>
+      {endpointUrls.get(delivery.endpointId) || "Removed endpoint"}
+    </Text>,
+    <Badge key={`status-${delivery.id}`} tone={DELIVERY_STATUS_TONES[delivery.status]}>{delivery.status}</Badge>,
+    `${delivery.attempts} / ${MAX_WEBHOOK_ATTEMPTS}`,
+    <BlockStack key={`response-${delivery.id}`} gap="100">
+      {delivery.lastStatusCode && <Text as="span">HTTP {delivery.lastStatusCode}</Text>}
+      {delivery.lastError && <Text as="span" variant="bodySm" tone="critical" breakWord>{delivery.lastError}</Text>}
+      {delivery.status === "pending" && delivery.attempts > 0 && (
+        <Text as="span" variant="bodySm" tone="subdued">
+          Next try {new Date(delivery.nextAttemptAt).toLocaleString()}
+        </Text>
+      )}
+    </BlockStack>,
+    delivery.status === "failed" ? (
+      <Form key={`retry-${delivery.id}`} method="post">
+        <input type="hidden" name="intent" value="retry" />
+        <input type="hidden" name="deliveryId" value={delivery.id} />
+        <Button size="slim" submit loading={isSubmitting && navigation.formData?.get("deliveryId") === delivery.id}>
+          Retry
+        </Button>
+      </Form>
+    ) : "",
+  ]);
+
+  return (
+    <Page
+      title="Webhooks"
+      subtitle="Tell your other systems when prices change"
+      backAction={{ content: "← API Keys", url: "/app/api-keys" }}
+    >
+      <Layout>
+        {!canUseWebhooks && (
+          <Layout.Section>
+            <Banner
+              tone="info"
+              title="Webhooks are a Pro feature"
+              action={{ content: "View Plans", url: "/app/billing" }}
+            >
+              <Text as="p">Upgrade to Pro to add endpoints and send test events.</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.errors && actionData.errors.length > 0 && (
+          <Layout.Section>
+            <Banner tone="critical" title="Something went wrong">
+              {actionData.errors.map((error, index) => (
+                <Text key={index} as="p">{error}</Text>
+              ))}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (
+          <Layout.Section>
+            <Banner tone="success" title={actionData.success} />
+          </Layout.Section>
+        )}
+
+        {canUseWebhooks && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: "1rem" }}>
+                <Form method="post" onSubmit={() => setUrl("")}>
+                  <input type="hidden" name="intent" value="create" />
+                  <BlockStack gap="300">
+                    <Text as="h2" variant="headingMd">Add an endpoint</Text>
+                    <TextField
+                      label="HTTPS URL"
+                      name="url"
+                      type="url"
+                      value={url}
+                      onChange={setUrl}
+                      placeholder="https://erp.example.com/webhooks/priceboost"
+                      autoComplete="off"
+                    />
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <div key={event}>
+                        <Checkbox
+                          label={WEBHOOK_EVENT_LABELS[event]}
+                          helpText={WEBHOOK_EVENT_DESCRIPTIONS[event]}
+                          checked={events.includes(event)}
+                          onChange={(checked) => toggleEvent(event, checked)}
+                        />
+                        {events.includes(event) && <input type="hidden" name="events" value={event} />}
+                      </div>
+                    ))}
+                    <InlineStack>
+                      <Button submit variant="primary" loading={submittingIntent === "create"}>
+                        Add endpoint
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                </Form>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">🪝 Endpoints</Text>
+                {endpoints.length === 0 ? (
+                  <Text as="p" tone="subdued">No endpoints yet.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text']}
+                    headings={['URL', 'Events', 'Signing secret', '']}
+                    rows={endpointRows}
+                  />
+                )}
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Each event is POSTed as JSON with X-PriceBoost-Event, X-PriceBoost-Delivery-Id and X-PriceBoost-Shop headers.
+                  X-PriceBoost-Hmac-Sha256 is the base64 HMAC-SHA256 of the raw body, keyed with the endpoint's signing secret.
+                  Any 2xx response counts as delivered. Other responses, and no response within 10 seconds, are retried
+                  after 1 minute, 5 minutes, 30 minutes, 2 hours and 12 hours.
+                </Text>
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: "1rem" }}>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">Delivery log</Text>
+                {deliveries.length === 0 ? (
+                  <Text as="p" tone="subdued">Nothing has been sent yet.</Text>
+                ) : (
+                  <DataTable
+                    columnContentTypes={['text', 'text', 'text', 'text', 'numeric', 'text', 'text']}
+                    headings={['Queued', 'Event', 'Endpoint', 'Status', 'Attempts', 'Response', '']}
+                    rows={deliveryRows}
+                  />
+                )}
+              </BlockStack>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
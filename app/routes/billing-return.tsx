@@ -1,7 +1,7 @@
 // app/routes/billing-return.tsx - FIX: Enhanced with auto-sync like original
 import { LoaderFunctionArgs, redirect } from "@remix-run/node";
 import { updateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, getBillingPeriodEnd, parseBillingInterval } from "../lib/plans";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   try {
@@ -50,6 +50,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }
 
     const plan = PLANS[planName as keyof typeof PLANS];
+    const billingInterval = parseBillingInterval(url.searchParams.get("interval"));
 
     // ✅ SHOPIFY GUARANTEES: If this URL is called, payment is confirmed
     console.log(`✅ Payment confirmed by Shopify - upgrading to ${plan.displayName} plan`);
@@ -60,8 +61,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         planName: planName,
         status: "active",
         usageLimit: plan.usageLimit,
+        billingInterval,
         subscriptionId: chargeId || `confirmed_${Date.now()}`,
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        currentPeriodEnd: getBillingPeriodEnd(billingInterval),
       });
 
       console.log(`🎉 Subscription upgraded successfully to ${plan.displayName}`);
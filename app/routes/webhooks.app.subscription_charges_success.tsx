@@ -3,7 +3,7 @@
 
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { updateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, matchBillingPlan } from "../lib/plans";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   console.log("🔄 Subscription charge success webhook received");
@@ -33,23 +33,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     console.log(`🆔 ID: ${chargeId}`);
 
     if (status === "active" || status === "ACTIVE") {
-      // Mapper le montant au plan correspondant
-      let detectedPlan = "free";
-      for (const [planKey, planData] of Object.entries(PLANS)) {
-        if (Math.abs(planData.price - amount) < 0.02) {
-          detectedPlan = planKey;
-          break;
-        }
-      }
+      // Mapper la charge au plan correspondant
+      const match = matchBillingPlan({
+        name: charge.name,
+        amount,
+        interval: charge.line_items?.[0]?.plan?.pricing_details?.interval,
+      });
+      const detectedPlan = match?.planName ?? "free";
+      const billingInterval = match?.billingInterval ?? "EVERY_30_DAYS";
 
-      console.log(`✅ Updating subscription to ${detectedPlan} plan`);
+      console.log(`✅ Updating subscription to ${detectedPlan} plan (${billingInterval})`);
 
       await updateSubscription(shop, {
         planName: detectedPlan,
         status: "active",
         usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
         subscriptionId: chargeId.toString(),
-        currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        currentPeriodEnd: new Date(Date.now() + (billingInterval === "ANNUAL" ? 365 : 30) * 24 * 60 * 60 * 1000),
+        billingInterval,
       });
 
       console.log(`✅ Subscription updated successfully for ${shop}`);
@@ -2,7 +2,7 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import { updateSubscription, getOrCreateSubscription } from "../models/subscription.server";
-import { PLANS } from "../lib/plans";
+import { PLANS, matchBillingPlan } from "../lib/plans";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   console.log("🔄 App subscription update webhook received");
@@ -35,6 +35,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         usageLimit: PLANS.free.usageLimit,
         subscriptionId: undefined,
         currentPeriodEnd: undefined,
+        billingInterval: "EVERY_30_DAYS",
       });
       
       console.log("✅ Reverted to free plan");
@@ -49,19 +50,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         return new Response("No line items", { status: 400 });
       }
 
-      const amount = parseFloat(lineItems[0]?.pricing_details?.price?.amount || "0");
-      console.log(`💵 Subscription amount: $${amount}`);
+      const pricingDetails = lineItems[0]?.pricing_details;
+      const amount = parseFloat(pricingDetails?.price?.amount || "0");
+      // Some payloads only carry the interval on the subscription itself
+      const interval = pricingDetails?.interval ?? subscriptionData.interval;
+      console.log(`💵 Subscription "${subscriptionData.name}" amount: $${amount} (${interval})`);
 
-      // Map amount to plan
-      let detectedPlan = "free";
-      for (const [planKey, planData] of Object.entries(PLANS)) {
-        if (Math.abs(planData.price - amount) < 0.02) { // 2 cent tolerance
-          detectedPlan = planKey;
-          break;
-        }
-      }
+      // Map name, interval and amount to plan
+      const match = matchBillingPlan({
+        name: subscriptionData.name,
+        amount,
+        interval,
+      });
+      const detectedPlan = match?.planName ?? "free";
+      const billingInterval = match?.billingInterval ?? "EVERY_30_DAYS";
 
-      console.log(`📊 Detected plan: ${detectedPlan}`);
+      console.log(`📊 Detected plan: ${detectedPlan} (${billingInterval})`);
 
       const currentPeriodEnd = subscriptionData.current_period_end 
         ? new Date(subscriptionData.current_period_end) 
@@ -73,6 +77,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         usageLimit: PLANS[detectedPlan as keyof typeof PLANS].usageLimit,
         subscriptionId: subscriptionData.id,
         currentPeriodEnd,
+        billingInterval,
       });
 
       console.log(`✅ Updated subscription to ${detectedPlan} plan`);
@@ -124,6 +124,19 @@ async function handleShopRedact(shop: string, payload: any) {
     const deleteOperations = await Promise.all([
       db.pricingHistory.deleteMany({ where: { shop } }),
       db.subscription.deleteMany({ where: { shop } }),
+      db.scheduledPriceChange.deleteMany({ where: { shop } }),
+      db.pricingJob.deleteMany({ where: { shop } }),
+      db.priceRule.deleteMany({ where: { shop } }),
+      db.shopSettings.deleteMany({ where: { shop } }),
+      db.adjustmentPreset.deleteMany({ where: { shop } }),
+      db.orderLine.deleteMany({ where: { shop } }),
+      db.orderSyncState.deleteMany({ where: { shop } }),
+      db.orderSyncJob.deleteMany({ where: { shop } }),
+      db.apiKey.deleteMany({ where: { shop } }),
+      db.webhookEndpoint.deleteMany({ where: { shop } }),
+      db.webhookDelivery.deleteMany({ where: { shop } }),
+      db.usagePeriod.deleteMany({ where: { shop } }),
+      db.quotaReservation.deleteMany({ where: { shop } }),
     ]);
     
     const totalDeleted = deleteOperations.reduce((sum, result) => sum + result.count, 0);
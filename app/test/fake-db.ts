@@ -0,0 +1,375 @@
+// app/test/fake-db.ts - In-memory stand-in for the Prisma client in tests
+//
+// Covers the query shapes the app uses: equality, null and in/gt/lte style
+// filters, increments, unique keys (P2002), @updatedAt, and row locks taken
+// with SELECT ... FOR UPDATE that are held until the transaction ends. Every
+// call yields to the event loop first so concurrent callers interleave the
+// way they would against a real database. Transactions don't roll back.
+
+type Row = Record<string, any>;
+
+// Unique constraints from prisma/schema.prisma, besides the id
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  subscription: [["shop"]],
+  productModification: [["shop", "productId", "billingPeriodStart"]],
+  quotaReservation: [["reservationId", "productId"]],
+  usagePeriod: [["shop", "periodStart"]],
+  orderLine: [["shop", "lineItemId"]],
+  orderSyncState: [["shop"]],
+};
+
+// @updatedAt columns
+const UPDATED_AT: Record<string, string> = {
+  subscription: "updatedAt",
+  productModification: "lastModified",
+  scheduledPriceChange: "updatedAt",
+  pricingJob: "updatedAt",
+  webhookDelivery: "updatedAt",
+  webhookEndpoint: "updatedAt",
+  orderSyncState: "updatedAt",
+  orderSyncJob: "updatedAt",
+};
+
+// Column defaults the code relies on
+const DEFAULTS: Record<string, () => Row> = {
+  subscription: () => ({
+    subscriptionId: null,
+    currentPeriodEnd: null,
+    billingInterval: "EVERY_30_DAYS",
+    periodStart: null,
+    usageCount: 0,
+    usageLimit: 20,
+    uniqueProductsModified: [],
+    totalPriceChanges: 0,
+  }),
+  productModification: () => ({ modificationCount: 1, firstModified: timestamp() }),
+  pricingJob: () => ({
+    cursor: 0,
+    totalProducts: 0,
+    totalVariants: 0,
+    processedVariants: 0,
+    succeededVariants: 0,
+    failedVariants: 0,
+  }),
+  webhookEndpoint: () => ({ active: true }),
+  webhookDelivery: () => ({ status: "pending", attempts: 0, nextAttemptAt: timestamp() }),
+};
+
+let lastTimestamp = 0;
+let nextId = 1;
+
+// Strictly increasing, like row versions, so an optimistic updatedAt check
+// never matches a row written since it was read
+function timestamp(): Date {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp);
+}
+
+function tick() {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+function uniqueError(model: string, fields: string[]) {
+  return Object.assign(new Error(`Unique constraint failed on ${model} (${fields.join(", ")})`), {
+    code: "P2002",
+  });
+}
+
+function sameValue(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a != null && b != null && new Date(a).getTime() === new Date(b).getTime();
+  }
+  return a === b;
+}
+
+function compare(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function isFilter(value: any): boolean {
+  return value !== null && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "AND") return (condition as Row[]).every((part) => matches(row, part));
+    if (key === "OR") return (condition as Row[]).some((part) => matches(row, part));
+    if (key === "NOT") return !matches(row, condition);
+
+    // Compound unique inputs, e.g. { shop_productId: { shop, productId } }
+    if (isFilter(condition) && !(key in row) && key.includes("_")) return matches(row, condition);
+
+    const value = row[key];
+    if (condition === null) return value == null;
+    if (!isFilter(condition)) return sameValue(value, condition);
+
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      switch (op) {
+        case "equals": return operand === null ? value == null : sameValue(value, operand);
+        case "not": return operand === null ? value != null : !sameValue(value, operand);
+        case "in": return operand.some((item: any) => sameValue(value, item));
+        case "notIn": return !operand.some((item: any) => sameValue(value, item));
+        case "gt": return value != null && compare(value, operand) > 0;
+        case "gte": return value != null && compare(value, operand) >= 0;
+        case "lt": return value != null && compare(value, operand) < 0;
+        case "lte": return value != null && compare(value, operand) <= 0;
+        case "contains": return typeof value === "string" && value.includes(operand);
+        default: throw new Error(`fake-db: unsupported filter ${op}`);
+      }
+    });
+  });
+}
+
+function applyData(row: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isFilter(value) && ("increment" in value || "decrement" in value || "set" in value)) {
+      if ("set" in value) row[key] = value.set;
+      if ("increment" in value) row[key] = (row[key] ?? 0) + value.increment;
+      if ("decrement" in value) row[key] = (row[key] ?? 0) - value.decrement;
+    } else {
+      row[key] = value;
+    }
+  }
+}
+
+function project(row: Row, select?: Row): Row {
+  const copy = structuredClone(row);
+  if (!select) return copy;
+  return Object.fromEntries(Object.keys(select).filter((key) => select[key]).map((key) => [key, copy[key]]));
+}
+
+function sortRows(rows: Row[], orderBy?: Row | Row[]): Row[] {
+  if (!orderBy) return rows;
+  const orders = Array.isArray(orderBy) ? orderBy : [orderBy];
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      for (const [key, direction] of Object.entries(order)) {
+        const result = compare(a[key], b[key]);
+        if (result !== 0) return direction === "desc" ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+class FakeTable {
+  rows: Row[] = [];
+  private model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  private conflict(candidate: Row, ignore?: Row): string[] | undefined {
+    return (UNIQUE_KEYS[this.model] ?? []).find((fields) =>
+      this.rows.some((row) => row !== ignore && fields.every((field) => sameValue(row[field], candidate[field])))
+    );
+  }
+
+  private insert(data: Row): Row {
+    const now = timestamp();
+    const row: Row = { id: `fake-${nextId++}`, createdAt: now, ...DEFAULTS[this.model]?.() };
+    if (UPDATED_AT[this.model]) row[UPDATED_AT[this.model]] = now;
+    applyData(row, structuredClone(data));
+
+    const fields = this.conflict(row);
+    if (fields) throw uniqueError(this.model, fields);
+    this.rows.push(row);
+    return row;
+  }
+
+  private write(row: Row, data: Row) {
+    const next = { ...row };
+    applyData(next, structuredClone(data));
+    const updatedAt = UPDATED_AT[this.model];
+    if (updatedAt && data[updatedAt] === undefined) next[updatedAt] = timestamp();
+
+    const fields = this.conflict(next, row);
+    if (fields) throw uniqueError(this.model, fields);
+    Object.assign(row, next);
+  }
+
+  private select(args: Row = {}): Row[] {
+    let rows = sortRows(this.rows.filter((row) => matches(row, args.where)), args.orderBy);
+    if (args.distinct) {
+      const seen = new Set<string>();
+      rows = rows.filter((row) => {
+        const key = JSON.stringify(args.distinct.map((field: string) => row[field]));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    const skip = args.skip ?? 0;
+    return rows.slice(skip, args.take === undefined ? undefined : skip + args.take);
+  }
+
+  async findUnique(args: Row) {
+    await tick();
+    const row = this.rows.find((candidate) => matches(candidate, args.where));
+    return row ? project(row, args.select) : null;
+  }
+
+  async findFirst(args: Row = {}) {
+    await tick();
+    const [row] = this.select({ ...args, take: 1 });
+    return row ? project(row, args.select) : null;
+  }
+
+  async findMany(args: Row = {}) {
+    await tick();
+    return this.select(args).map((row) => project(row, args.select));
+  }
+
+  async count(args: Row = {}) {
+    await tick();
+    return this.select(args).length;
+  }
+
+  async aggregate(args: Row) {
+    await tick();
+    const rows = this.select(args);
+    const sums = Object.keys(args._sum ?? {}).map((key) => [
+      key,
+      rows.length === 0 ? null : rows.reduce((total, row) => total + (row[key] ?? 0), 0),
+    ]);
+    return { _count: { _all: rows.length }, _sum: Object.fromEntries(sums) };
+  }
+
+  async create(args: Row) {
+    await tick();
+    return project(this.insert(args.data), args.select);
+  }
+
+  async createMany(args: Row) {
+    await tick();
+    let count = 0;
+    for (const data of args.data) {
+      try {
+        this.insert(data);
+        count++;
+      } catch (error: any) {
+        if (!(args.skipDuplicates && error.code === "P2002")) throw error;
+      }
+    }
+    return { count };
+  }
+
+  async update(args: Row) {
+    await tick();
+    const row = this.rows.find((candidate) => matches(candidate, args.where));
+    if (!row) {
+      throw Object.assign(new Error(`No ${this.model} found to update`), { code: "P2025" });
+    }
+    this.write(row, args.data);
+    return project(row, args.select);
+  }
+
+  async updateMany(args: Row) {
+    await tick();
+    const rows = this.rows.filter((row) => matches(row, args.where));
+    rows.forEach((row) => this.write(row, args.data));
+    return { count: rows.length };
+  }
+
+  async upsert(args: Row) {
+    await tick();
+    const row = this.rows.find((candidate) => matches(candidate, args.where));
+    if (row) {
+      this.write(row, args.update);
+      return project(row, args.select);
+    }
+    return project(this.insert({ ...args.where, ...args.create }), args.select);
+  }
+
+  async delete(args: Row) {
+    await tick();
+    const row = this.rows.find((candidate) => matches(candidate, args.where));
+    if (!row) {
+      throw Object.assign(new Error(`No ${this.model} found to delete`), { code: "P2025" });
+    }
+    this.rows = this.rows.filter((candidate) => candidate !== row);
+    return project(row, args.select);
+  }
+
+  async deleteMany(args: Row = {}) {
+    await tick();
+    const before = this.rows.length;
+    this.rows = this.rows.filter((row) => !matches(row, args.where));
+    return { count: before - this.rows.length };
+  }
+}
+
+export interface FakeDb {
+  tables: Record<string, FakeTable>;
+  reset(): void;
+  [model: string]: any;
+}
+
+/**
+ * A client whose tables spring into existence on first use. Pass it to
+ * vi.mock("../db.server", () => ({ db })) and seed rows through db.<model>.
+ */
+export function createFakeDb(): FakeDb {
+  const tables: Record<string, FakeTable> = {};
+  const locks = new Map<string, Promise<void>>();
+
+  async function lock(key: string): Promise<() => void> {
+    while (locks.has(key)) {
+      await locks.get(key);
+    }
+    let release!: () => void;
+    locks.set(key, new Promise<void>((resolve) => (release = resolve)));
+    return () => {
+      locks.delete(key);
+      release();
+    };
+  }
+
+  function client(held?: Array<() => void>): any {
+    const base = {
+      tables,
+      reset() {
+        for (const model of Object.keys(tables)) delete tables[model];
+      },
+      async $queryRaw(strings: TemplateStringsArray, ...values: any[]) {
+        await tick();
+        if (/FOR UPDATE/i.test(strings.join("?"))) {
+          if (!held) throw new Error("fake-db: FOR UPDATE outside a transaction");
+          held.push(await lock(`${strings.join("?")}|${values.join("|")}`));
+        }
+        return [];
+      },
+      async $executeRaw() {
+        await tick();
+        return 0;
+      },
+      async $transaction(work: any) {
+        if (Array.isArray(work)) return await Promise.all(work);
+
+        const locksHeld: Array<() => void> = [];
+        try {
+          return await work(client(locksHeld));
+        } finally {
+          locksHeld.forEach((release) => release());
+        }
+      },
+    };
+
+    return new Proxy(base, {
+      get(target: any, prop: string | symbol) {
+        if (typeof prop === "symbol" || prop in target) return target[prop];
+        // Keeps the client from looking like a thenable when awaited
+        if (prop === "then") return undefined;
+        tables[prop] ??= new FakeTable(prop);
+        return tables[prop];
+      },
+    });
+  }
+
+  return client();
+}